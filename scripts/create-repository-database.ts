@@ -1,55 +1,121 @@
 #!/usr/bin/env bun
 /**
  * Create a consolidated repository database from all sources
- * Combines static Electric Capital data with discovered repositories
+ * Combines Electric Capital exports, migration files and discovery results
+ * in the SQLite repository store, then exports it as JSON and CSV. Every
+ * repository keeps the inputs that contributed it as its provenance.
  */
 
-import { readFileSync, writeFileSync } from 'fs';
-import { resolve } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, join, relative, resolve } from 'path';
+import { Glob } from 'bun';
+import { config } from '../src/lib/config';
+import { loadProfile, type DiscoveryProfile } from '../src/lib/discovery';
+import { exportEcosystem } from '../src/lib/ecosystems';
+import { RepositoryRecordError } from '../src/lib/errors';
+import {
+  createRepositoryDatabase,
+  createRepositoryRecord,
+  mergeProvenance,
+  mergeRepositoryRecords,
+  readRepositoryFile,
+  repositoryKey,
+  repositorySource,
+  type EcosystemRepository,
+  type ProvenanceKind,
+  validateRepositoryDatabase,
+  type RepositoryDatabase,
+} from '../src/lib/repository';
+import { RepositoryStore } from '../src/lib/store';
 
-interface Repository {
-  url: string;
-  ecosystem: string;
-  tags: string[];
-  source: 'electric-capital' | 'discovered';
-  addedDate?: string;
+const projectRoot = resolve(import.meta.dir, '..');
+
+// Inputs read when no --input is given
+const DEFAULT_EXPORTS = 'static/*-export.jsonl';
+const CONSOLIDATED_MIGRATION = /^final-migration-consolidated-.+\.txt$/;
+
+// Output files that name the discovery run that wrote them
+const RUN_FILES = /^(?:electric-capital-migration|discovered-repos)-(.+)\.(?:txt|json)$/;
+
+/**
+ * Kind of input a file is, by its extension: .jsonl Electric Capital
+ * exports, .txt migration files, .json discovery results
+ */
+export function inputKind(filePath: string): ProvenanceKind {
+  if (filePath.endsWith('.jsonl')) {
+    return 'electric-capital-export';
+  }
+  if (filePath.endsWith('.txt')) {
+    return 'migration';
+  }
+  if (filePath.endsWith('.json')) {
+    return 'discovery';
+  }
+  throw new RepositoryRecordError(`Cannot tell what kind of input ${filePath} is (expected .jsonl, .txt or .json)`, filePath);
 }
 
-interface RepositoryDatabase {
-  generatedAt: string;
-  totalRepositories: number;
-  byEcosystem: {
-    [key: string]: number;
-  };
-  bySource: {
-    electricCapital: number;
-    discovered: number;
-  };
-  repositories: Repository[];
+/**
+ * Discovery run a file was written by, when its name records one
+ */
+export function inputRunId(filePath: string): string | undefined {
+  return basename(filePath).match(RUN_FILES)?.[1];
 }
 
-function normalizeUrl(url: string): string {
-  return url
-    .toLowerCase()
-    .replace(/\.git$/, '')
-    .replace(/\/$/, '')
-    .replace('https://github.com/', '');
+/**
+ * Newest consolidated migration file in a directory (names carry the timestamp)
+ */
+export function findLatestMigration(dir: string): string | null {
+  if (!existsSync(dir)) {
+    return null;
+  }
+  const latest = readdirSync(dir).filter(name => CONSOLIDATED_MIGRATION.test(name)).sort().pop();
+  return latest ? join(dir, latest) : null;
 }
 
-function parseStaticData(filePath: string): Repository[] {
-  const repos: Repository[] = [];
+/**
+ * Absolute paths of the files matching input paths or globs (relative
+ * ones resolved against cwd), in order and without repeats. Patterns that
+ * match nothing are returned in `unmatched`.
+ */
+export function expandInputs(patterns: string[], cwd: string = projectRoot): { files: string[]; unmatched: string[] } {
+  const files: string[] = [];
+  const unmatched: string[] = [];
+  for (const pattern of patterns) {
+    const matches = [...new Glob(pattern).scanSync({ cwd, absolute: true })].sort();
+    if (matches.length === 0) {
+      unmatched.push(pattern);
+    }
+    for (const match of matches) {
+      if (!files.includes(match)) {
+        files.push(match);
+      }
+    }
+  }
+  return { files, unmatched };
+}
+
+// How a file is named in provenance: relative to the project root
+function inputLabel(filePath: string): string {
+  return relative(projectRoot, resolve(filePath));
+}
+
+export function parseStaticData(filePath: string, ecosystem: string = exportEcosystem(filePath)): EcosystemRepository[] {
+  const repos: EcosystemRepository[] = [];
   const content = readFileSync(filePath, 'utf-8');
   const lines = content.split('\n').filter(line => line.trim());
+  const provenance = [{ kind: 'electric-capital-export' as const, file: inputLabel(filePath) }];
+  // Exports carry no tags of their own; the ecosystem's first word stands in ("aztec")
+  const tags = [ecosystem.split(/\s+/)[0].toLowerCase()];
 
   for (const line of lines) {
     try {
       const data = JSON.parse(line);
-      repos.push({
+      repos.push(createRepositoryRecord({
         url: data.url,
-        ecosystem: 'Aztec Protocol', // All static data is Aztec
-        tags: ['aztec'],
-        source: 'electric-capital'
-      });
+        ecosystem,
+        tags,
+        provenance
+      }));
     } catch (e) {
       console.warn(`Failed to parse line: ${line}`);
     }
@@ -58,10 +124,12 @@ function parseStaticData(filePath: string): Repository[] {
   return repos;
 }
 
-function parseMigrationFile(filePath: string): Repository[] {
-  const repos: Repository[] = [];
+export function parseMigrationFile(filePath: string): EcosystemRepository[] {
+  const repos: EcosystemRepository[] = [];
   const content = readFileSync(filePath, 'utf-8');
   const lines = content.split('\n');
+  const runId = inputRunId(filePath);
+  const provenance = [{ kind: 'migration' as const, file: inputLabel(filePath), ...(runId && { runId }) }];
 
   for (const line of lines) {
     if (line.startsWith('repadd')) {
@@ -70,13 +138,13 @@ function parseMigrationFile(filePath: string): Repository[] {
         const [, ecosystem, url, tagsStr] = match;
         const tags = tagsStr.split(' ').filter(tag => tag.startsWith('#')).map(tag => tag.slice(1));
 
-        repos.push({
+        repos.push(createRepositoryRecord({
           url,
           ecosystem,
           tags,
-          source: 'discovered',
-          addedDate: new Date().toISOString().split('T')[0]
-        });
+          addedDate: new Date().toISOString().split('T')[0],
+          provenance
+        }));
       }
     }
   }
@@ -84,89 +152,167 @@ function parseMigrationFile(filePath: string): Repository[] {
   return repos;
 }
 
+/**
+ * Records of a discovery results file (any layout migrate-outputs reads),
+ * with the file and its run as provenance. Repository databases keep the
+ * provenance they already have.
+ */
+export function parseDiscoveryFile(filePath: string, profile?: DiscoveryProfile): EcosystemRepository[] {
+  const result = readRepositoryFile(filePath, { profile });
+  if (result.kind === 'database') {
+    return result.records;
+  }
+  const runId = inputRunId(filePath);
+  const provenance = [{ kind: 'discovery' as const, file: inputLabel(filePath), ...(runId && { runId }) }];
+  return result.records.map(record => ({ ...record, provenance: mergeProvenance(record.provenance, provenance) }));
+}
+
+/**
+ * Records of one input file, read according to its kind
+ */
+export function readInput(filePath: string, profile?: DiscoveryProfile): EcosystemRepository[] {
+  switch (inputKind(filePath)) {
+    case 'electric-capital-export':
+      return parseStaticData(filePath);
+    case 'migration':
+      return parseMigrationFile(filePath);
+    case 'discovery':
+      return parseDiscoveryFile(filePath, profile);
+  }
+}
+
+/**
+ * Combine the records of any number of inputs into a deduplicated database.
+ * Later inputs win on ecosystem (discovery is more specific than an
+ * export); tags and provenance accumulate. New repositories are those no
+ * Electric Capital export lists.
+ */
+export function buildRepositoryDatabase(
+  ...inputs: EcosystemRepository[][]
+): { database: RepositoryDatabase; newReposCount: number } {
+  const allRepos = new Map<string, EcosystemRepository>();
+
+  for (const repos of inputs) {
+    for (const repo of repos) {
+      const key = repositoryKey(repo);
+      const existing = allRepos.get(key);
+      allRepos.set(key, existing ? mergeRepositoryRecords(existing, repo) : repo);
+    }
+  }
+
+  const database = createRepositoryDatabase(Array.from(allRepos.values()));
+  return { database, newReposCount: database.bySource.discovered };
+}
+
 async function main() {
-  console.log('Creating consolidated repository database...\n');
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log(`
+Usage: bun run scripts/create-repository-database.ts [options]
+
+Reads every input into the repository store (${config.store.path}, set with
+REPOSITORY_STORE_PATH) and exports the store to output/repository-database.json
+and .csv.
 
-  const projectRoot = resolve(import.meta.dir, '..');
-
-  // Read static Electric Capital data
-  const staticFile = resolve(projectRoot, 'static/Aztec-Protocol-export.jsonl');
-  const staticRepos = parseStaticData(staticFile);
-  console.log(`Loaded ${staticRepos.length} repositories from Electric Capital`);
-
-  // Read latest migration file (discovered repos)
-  const migrationFile = resolve(projectRoot, 'output/final-migration-consolidated-2025-10-26T20-50-03-622Z.txt');
-  const discoveredRepos = parseMigrationFile(migrationFile);
-  console.log(`Loaded ${discoveredRepos.length} discovered repositories`);
-
-  // Combine and deduplicate
-  const allRepos = new Map<string, Repository>();
-
-  // Add static repos first
-  for (const repo of staticRepos) {
-    const key = normalizeUrl(repo.url);
-    allRepos.set(key, repo);
-  }
-
-  // Add discovered repos, marking if they're new
-  let newReposCount = 0;
-  for (const repo of discoveredRepos) {
-    const key = normalizeUrl(repo.url);
-    if (!allRepos.has(key)) {
-      allRepos.set(key, repo);
-      newReposCount++;
-    } else {
-      // Update existing repo with additional tags
-      const existing = allRepos.get(key)!;
-      const combinedTags = [...new Set([...existing.tags, ...repo.tags])];
-      allRepos.set(key, {
-        ...existing,
-        tags: combinedTags,
-        ecosystem: repo.ecosystem // Use discovered ecosystem as it's more specific
-      });
+Options:
+  --input <glob>       Input file or glob; repeat for more. The kind follows the extension:
+                         .jsonl  Electric Capital export, ecosystem from the name
+                                 (Noir-Lang-export.jsonl holds "Noir Lang")
+                         .txt    Migration file (repadd lines)
+                         .json   Discovery results (discovered-repos-*.json)
+  --latest-migration   Add the newest output/final-migration-consolidated-*.txt
+  --profile <file>     Profile that names the ecosystems and tags of older discovery
+                       results (default: profiles/aztec.toml)
+
+Without --input, reads ${DEFAULT_EXPORTS} and the latest consolidated migration.
+
+Examples:
+  bun run scripts/create-repository-database.ts
+  bun run scripts/create-repository-database.ts --input 'static/*-export.jsonl' --input 'output/discovered-repos-*.json'
+  bun run scripts/create-repository-database.ts --input static/Aztec-Protocol-export.jsonl --latest-migration
+    `);
+    process.exit(0);
+  }
+
+  const patterns: string[] = [];
+  let latestMigration = false;
+  let profilePath = 'profiles/aztec.toml';
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--input':
+        patterns.push(args[++i]);
+        break;
+      case '--latest-migration':
+        latestMigration = true;
+        break;
+      case '--profile':
+        profilePath = args[++i];
+        break;
     }
   }
 
-  // Convert to array and calculate statistics
-  const repositories = Array.from(allRepos.values());
+  if (patterns.length === 0) {
+    patterns.push(DEFAULT_EXPORTS);
+    latestMigration = true;
+  }
 
-  const byEcosystem: { [key: string]: number } = {};
-  const bySource = {
-    electricCapital: 0,
-    discovered: 0
-  };
+  const { files, unmatched } = expandInputs(patterns);
+  for (const pattern of unmatched) {
+    console.warn(`No files match --input ${pattern}`);
+  }
+  if (latestMigration) {
+    const migration = findLatestMigration(resolve(projectRoot, 'output'));
+    if (migration && !files.includes(migration)) {
+      files.push(migration);
+    } else if (!migration) {
+      console.warn('No consolidated migration found in output/ (run bun run consolidate first)');
+    }
+  }
+  if (files.length === 0) {
+    console.error('No input files to read.');
+    process.exit(1);
+  }
 
-  for (const repo of repositories) {
-    // Count by ecosystem
-    byEcosystem[repo.ecosystem] = (byEcosystem[repo.ecosystem] || 0) + 1;
+  console.log('Creating consolidated repository database...\n');
 
-    // Count by source
-    if (repo.source === 'electric-capital') {
-      bySource.electricCapital++;
-    } else {
-      bySource.discovered++;
+  const profile = files.some(file => inputKind(file) === 'discovery') ? loadProfile(resolve(projectRoot, profilePath)) : undefined;
+  const inputs: EcosystemRepository[][] = [];
+  for (const file of files) {
+    try {
+      const repos = readInput(file, profile);
+      inputs.push(repos);
+      console.log(`Loaded ${repos.length} repositories from ${inputLabel(file)}`);
+    } catch (error) {
+      if (!(error instanceof RepositoryRecordError)) {
+        throw error;
+      }
+      console.error(`✗ ${inputLabel(file)}: ${error.message}`);
+      process.exit(1);
     }
   }
 
-  // Create database object
-  const database: RepositoryDatabase = {
-    generatedAt: new Date().toISOString(),
-    totalRepositories: repositories.length,
-    byEcosystem,
-    bySource,
-    repositories: repositories.sort((a, b) => a.url.localeCompare(b.url))
-  };
+  const { database: built, newReposCount } = buildRepositoryDatabase(...inputs);
+
+  // Merge into the store, which keeps what earlier runs added
+  const store = RepositoryStore.open();
+  store.upsertRepositories(built.repositories);
+  const database = store.toDatabase();
+  store.close();
+  const { repositories, byEcosystem, bySource } = database;
 
-  // Save to JSON file
+  // Export the store as JSON, refusing to write records the readers would reject
   const outputPath = resolve(projectRoot, 'output/repository-database.json');
-  writeFileSync(outputPath, JSON.stringify(database, null, 2));
+  mkdirSync(resolve(projectRoot, 'output'), { recursive: true });
+  writeFileSync(outputPath, JSON.stringify(validateRepositoryDatabase(database), null, 2));
 
   // Also create a simplified CSV for easy analysis
   const csvPath = resolve(projectRoot, 'output/repository-database.csv');
   const csvContent = [
-    'url,ecosystem,tags,source',
+    'url,ecosystem,tags,source,provenance',
     ...repositories.map(repo =>
-      `${repo.url},"${repo.ecosystem}","${repo.tags.join(',')}",${repo.source}`
+      `${repo.url},"${repo.ecosystem}","${repo.tags.join(',')}",${repositorySource(repo)},"${(repo.provenance ?? []).map(entry => entry.file).join(';')}"`
     )
   ].join('\n');
   writeFileSync(csvPath, csvContent);
@@ -181,11 +327,14 @@ async function main() {
   console.log('\nBy Source:');
   console.log(`  Electric Capital: ${bySource.electricCapital}`);
   console.log(`  Newly Discovered: ${bySource.discovered}`);
-  console.log(`  New repos added: ${newReposCount}`);
+  console.log(`  Discovered in these inputs: ${newReposCount}`);
 
   console.log('\nFiles created:');
+  console.log(`  - ${store.filePath}`);
   console.log(`  - ${outputPath}`);
   console.log(`  - ${csvPath}`);
 }
 
-main().catch(console.error);
\ No newline at end of file
+if (import.meta.main) {
+  main().catch(console.error);
+}
\ No newline at end of file
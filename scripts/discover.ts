@@ -0,0 +1,283 @@
+#!/usr/bin/env bun
+
+import dotenv from "dotenv";
+import { configureHttpCache, getHttpCache, getTransport } from "../src/lib/github";
+import { createFileLogger } from "../src/lib/logger";
+import { DiscoveryCheckpoint } from "../src/lib/checkpoint";
+import { config } from "../src/lib/config";
+import {
+  loadProfile,
+  loadTrackedRepos,
+  runDiscovery,
+  generateMigrationOutput,
+  ecosystemById,
+  type DiscoveredRepo,
+  type DiscoveryRun,
+} from "../src/lib/discovery";
+import { ReviewDecisions, buildReviewQueue, reviewQueuePath, saveReviewQueue } from "../src/lib/review";
+import { toEcosystemRepository, validateEcosystemRepository } from "../src/lib/repository";
+import { RepositoryStore } from "../src/lib/store";
+import * as path from "path";
+import * as fs from "fs";
+
+// Load environment variables
+dotenv.config();
+
+const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    profile: null as string | null,
+    resume: null as string | null,
+    deep: false,
+    reviewThreshold: config.review.confidenceThreshold,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--profile':
+        options.profile = args[++i];
+        break;
+      case '--resume':
+        options.resume = args[++i];
+        break;
+      case '--deep':
+        options.deep = true;
+        break;
+      case '--review-threshold':
+        options.reviewThreshold = parseFloat(args[++i]);
+        break;
+      case '--no-cache':
+        configureHttpCache({ enabled: false });
+        break;
+      case '--refresh':
+        configureHttpCache({ refresh: true });
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Usage: bun run scripts/discover.ts --profile <file> [options]
+
+Options:
+  --profile <file>    Discovery profile (TOML or JSON), e.g. profiles/aztec.toml
+  --resume <run-id>   Resume an interrupted run from its checkpoint
+  --deep              Also scan .nr sources of classified repos for Aztec.nr
+                      imports and macros (one extra request per file, up to 20 per repo)
+  --review-threshold <n>
+                      Queue classifications below this confidence for review
+                      (default ${config.review.confidenceThreshold}, REVIEW_CONFIDENCE_THRESHOLD)
+  --no-cache          Do not read or write the on-disk GitHub response cache
+  --refresh           Revalidate every cached response, ignoring TTLs
+  -h, --help          Show this help message
+
+The profile lists the ecosystems, search queries, classifiers and repadd hashtags
+of a discovery run; see docs/scripts-guide.md for the format.
+
+Every run prints its run id and writes a checkpoint to ${config.checkpoint.dir}/<run-id>.json
+as it progresses. Completed queries and already-classified repositories are skipped on resume.
+Queries that fail (even after waiting out a rate limit) are listed at the end and the run
+exits with status 1; resume it to retry them.
+
+Decisions recorded with scripts/review.ts (${config.review.decisionsPath}) override the classifiers.
+`);
+        process.exit(0);
+    }
+  }
+
+  if (!options.profile) {
+    console.error("Error: --profile is required (e.g. --profile profiles/aztec.toml)");
+    process.exit(1);
+  }
+
+  if (isNaN(options.reviewThreshold) || options.reviewThreshold < 0 || options.reviewThreshold > 1) {
+    console.error("Error: --review-threshold must be a number between 0 and 1");
+    process.exit(1);
+  }
+
+  return options as { profile: string; resume: string | null; deep: boolean; reviewThreshold: number };
+}
+
+/**
+ * List the queries a run skipped and fail it, so that it gets resumed
+ */
+function reportSkippedQueries(skippedQueries: DiscoveryRun['skippedQueries'], resumeCommand: string) {
+  if (skippedQueries.length === 0) {
+    return;
+  }
+  console.log(`\n⚠️  ${skippedQueries.length} queries failed and were skipped:`);
+  skippedQueries.forEach(({ query, reason }) => console.log(`  - ${query}: ${reason}`));
+  console.log(`  Retry them with: ${resumeCommand}`);
+  process.exitCode = 1;
+}
+
+async function main() {
+  const options = parseArgs();
+  const profile = loadProfile(options.profile);
+
+  // Create logger with file output if LOG_TO_FILE env is set
+  if (process.env.LOG_TO_FILE === 'true' && !fs.existsSync('./logs')) {
+    fs.mkdirSync('./logs', { recursive: true });
+  }
+  const logFile = process.env.LOG_TO_FILE === 'true'
+    ? path.join('./logs', `discover-${profile.name}-${timestamp}.log`)
+    : undefined;
+  const logger = createFileLogger(logFile, process.env.LOG_LEVEL || "info", process.env.NODE_ENV !== "production");
+  if (logFile) {
+    logger.info({ logFile }, "Logging to file");
+  }
+
+  try {
+    logger.info(`Starting ${profile.description} discovery (profile ${profile.name}, ${profile.queries.length} queries)...`);
+
+    // Ensure output directory exists
+    if (!fs.existsSync('./output')) {
+      fs.mkdirSync('./output', { recursive: true });
+      logger.info("Created output directory");
+    }
+
+    // Load already tracked repositories and major orgs
+    const tracked = profile.trackedExport
+      ? await loadTrackedRepos(profile.trackedExport, profile.exclusions, profile.ecosystems.map(ecosystem => ecosystem.name))
+      : { repoNames: [], majorOrgs: [] };
+
+    // Create or resume the run checkpoint
+    const checkpoint = options.resume
+      ? DiscoveryCheckpoint.load<DiscoveredRepo>(options.resume)
+      : DiscoveryCheckpoint.create<DiscoveredRepo>(`${profile.name}-${timestamp}`);
+    logger.info(`Run id: ${checkpoint.runId} (resume with --resume ${checkpoint.runId})`);
+
+    // Persist progress and exit cleanly on Ctrl-C
+    const resumeCommand = `bun run scripts/discover.ts --profile ${options.profile} --resume ${checkpoint.runId}`;
+    process.on('SIGINT', () => {
+      checkpoint.save();
+      console.log(`\nInterrupted. Progress saved, resume with: ${resumeCommand}`);
+      process.exit(130);
+    });
+
+    // Reviewer decisions from earlier runs take precedence over the classifiers
+    const decisions = ReviewDecisions.load();
+    if (decisions.size > 0) {
+      logger.info(`Applying ${decisions.size} review decisions from ${decisions.filePath}`);
+    }
+
+    // Find new repositories (major orgs excluded at API level, rest filtered post-search)
+    const { repositories: newRepos, skippedQueries } = await runDiscovery(profile, tracked, checkpoint, { deep: options.deep, decisions });
+    // A run with skipped queries stays open for --resume to retry them
+    if (skippedQueries.length === 0) {
+      checkpoint.complete();
+    }
+
+    // Record the run in the repository store, adding to each repository's classification history
+    const addedDate = new Date().toISOString().split('T')[0];
+    const jsonPath = `output/discovered-repos-${checkpoint.runId}.json`;
+    const provenance = [{ kind: 'discovery' as const, file: jsonPath, runId: checkpoint.runId }];
+    const records = newRepos.map(repo => validateEcosystemRepository({ ...toEcosystemRepository(repo, profile, addedDate), provenance }));
+    const store = RepositoryStore.open();
+    store.recordDiscoveryRun({ id: checkpoint.runId, profile: profile.name, startedAt: checkpoint.createdAt }, records);
+    store.close();
+    logger.info(`Run ${checkpoint.runId} recorded in ${store.filePath}`);
+
+    if (newRepos.length === 0) {
+      logger.info("No new repositories found");
+      reportSkippedQueries(skippedQueries, resumeCommand);
+      return;
+    }
+
+    // Save to file (named after the run so resumed runs keep their original id)
+    const outputPath = `output/electric-capital-migration-${checkpoint.runId}.txt`;
+    await Bun.write(outputPath, generateMigrationOutput(newRepos, profile));
+    logger.info(`Migration file saved to: ${outputPath}`);
+
+    const apiFailureRepos = newRepos.filter(r => r.apiFailure);
+    const filesCheckedTotal = newRepos.reduce((sum, r) => sum + r.filesChecked, 0);
+
+    console.log(`\n=== Summary - ${profile.description} ===`);
+    console.log(`Total repositories already tracked by Electric Capital: ${tracked.repoNames.length}`);
+    console.log(`Total NEW repositories found: ${newRepos.length}`);
+    console.log(`\nBreakdown by ecosystem and type:`);
+    for (const ecosystem of profile.ecosystems) {
+      const repos = newRepos.filter(r => r.ecosystem === ecosystem.id);
+      console.log(`  ${ecosystem.name}: ${repos.length}`);
+      const projectTypes = [...new Set(repos.map(r => r.projectType))];
+      for (const projectType of projectTypes) {
+        console.log(`    - ${projectType}: ${repos.filter(r => r.projectType === projectType).length}`);
+      }
+    }
+
+    if (apiFailureRepos.length > 0) {
+      console.log(`\n⚠️  API Issues detected in ${apiFailureRepos.length} repositories:`);
+      console.log(`  - Search API failed: ${apiFailureRepos.filter(r => r.apiFailure?.searchFailed).length}`);
+      console.log(`  - All fetch attempts failed: ${apiFailureRepos.filter(r => r.apiFailure?.allFetchesFailed).length}`);
+      console.log(`  These repos may be misclassified due to API issues!`);
+    }
+
+    console.log(`\nTotal manifest files analyzed: ${filesCheckedTotal}`);
+    const metrics = getTransport().getMetrics();
+    console.log(`GitHub API: ${metrics.requests} requests, ${metrics.retries} retries, ${metrics.rateLimited + metrics.secondaryRateLimited} rate limited, ${metrics.failures} failed`);
+    if (Object.keys(metrics.byToken).length > 1) {
+      console.log(`Requests per token: ${Object.entries(metrics.byToken).map(([label, count]) => `${label}=${count}`).join(', ')} (${metrics.tokenSwaps} swapped on rate limit)`);
+    }
+    if (getHttpCache().enabled) {
+      console.log(`HTTP cache: ${metrics.cache.hits} hits, ${metrics.cache.revalidated} revalidated (304), ${metrics.cache.misses} misses`);
+    }
+    console.log(`Migration commands saved to: ${outputPath}`);
+
+    // Save detailed JSON for analysis, as canonical repository records
+    await Bun.write(jsonPath, JSON.stringify(records, null, 2));
+    console.log(`Detailed results saved to: ${jsonPath}`);
+
+    // Queue uncertain classifications for scripts/review.ts
+    const reviewQueue = buildReviewQueue(checkpoint.runId, profile, newRepos, options.reviewThreshold);
+    if (reviewQueue.entries.length > 0) {
+      const queuePath = reviewQueuePath(checkpoint.runId);
+      saveReviewQueue(reviewQueue, queuePath);
+      console.log(`\n${reviewQueue.entries.length} classifications need review (confidence below ${options.reviewThreshold} or API issues): ${queuePath}`);
+      console.log(`  Work through them with: bun run review list --queue ${queuePath}`);
+    }
+
+    // Show repos with API failures for manual review
+    if (apiFailureRepos.length > 0) {
+      console.log("\n⚠️  Repositories with API issues (need manual review):");
+      apiFailureRepos.slice(0, 10).forEach(repo => {
+        const classificationNote = repo.manifestType === 'unknown' ? ' [UNKNOWN - likely misclassified]' : '';
+        console.log(`  - ${repo.fullName} (${ecosystemById(profile, repo.ecosystem).name}): ${repo.apiFailure?.reason}${classificationNote}`);
+      });
+      if (apiFailureRepos.length > 10) {
+        console.log(`  ... and ${apiFailureRepos.length - 10} more`);
+      }
+    }
+
+    reportSkippedQueries(skippedQueries, resumeCommand);
+
+    // Log file location message
+    if (logFile) {
+      console.log(`\n📝 Full log saved to: ${logFile}`);
+    }
+
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack,
+        name: error.name
+      } : error
+    }, "Failed to complete repository discovery");
+    if (logFile) {
+      console.log(`\n📝 Error log saved to: ${logFile}`);
+    }
+    console.error("Error details:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (import.meta.main) {
+  main().catch(error => {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -1,91 +1,30 @@
 #!/usr/bin/env bun
 /**
  * Ecosystem Comparison Report
- * Generates a beautiful comparative analysis of Aztec Protocol and Noir Lang ecosystems
- * with options to exclude core organization repositories
+ * Generates a beautiful comparative analysis of any number of ecosystems (Aztec Protocol
+ * and Noir Lang by default) with options to exclude core organization repositories
  */
 
-import { readFileSync, writeFileSync } from 'fs';
+import { writeFileSync } from 'fs';
 import { resolve } from 'path';
-import { Octokit } from '@octokit/rest';
-import { retry } from '@octokit/plugin-retry';
-import { throttling } from '@octokit/plugin-throttling';
 import dotenv from 'dotenv';
+import { analyzeActivity, type AnalyzeOptions, type EcosystemMetrics } from '../src/lib/analytics';
+import { loadDeveloperAliases } from '../src/lib/developers';
+import { configureHttpCache } from '../src/lib/github';
+import { type EcosystemRepository } from '../src/lib/repository';
+import { RepositoryStore } from '../src/lib/store';
 
 dotenv.config();
 
-interface Repository {
-  url: string;
-  ecosystem: string;
-  tags: string[];
-  source: string;
-}
-
-interface DeveloperActivity {
-  username: string;
-  email?: string;
-  commits: number;
-  firstCommit: string;
-  lastCommit: string;
-  repositories: string[];
-}
-
-interface EcosystemMetrics {
-  ecosystem: string;
-  dateRange: {
-    from: string;
-    to: string;
-  };
-  uniqueDevelopers: number;
-  totalCommits: number;
-  activeRepositories: number;
+/**
+ * An ecosystem's activity, with the repositories left out of it
+ */
+export interface ComparisonMetrics extends EcosystemMetrics {
   totalRepositories: number;
-  developers: DeveloperActivity[];
-  topContributors: {
-    username: string;
-    commits: number;
-    repositories: number;
-  }[];
-  dailyActivity: {
-    [date: string]: {
-      commits: number;
-      developers: Set<string>;
-    };
-  };
   excludedOrgs?: string[];
   excludedRepoCount?: number;
 }
 
-// Create GitHub client
-const OctokitWithPlugins = Octokit.plugin(retry, throttling);
-const octokit = new OctokitWithPlugins({
-  auth: process.env.GITHUB_TOKEN,
-  throttle: {
-    onRateLimit: (retryAfter) => {
-      console.warn(`Rate limit exceeded, retrying after ${retryAfter} seconds...`);
-      return true;
-    },
-    onSecondaryRateLimit: (retryAfter) => {
-      console.warn(`Secondary rate limit hit, retrying after ${retryAfter} seconds...`);
-      return true;
-    }
-  }
-});
-
-async function loadRepositoryDatabase(): Promise<Repository[]> {
-  const projectRoot = resolve(import.meta.dir as string, '..');
-  const dbPath = resolve(projectRoot, 'output/repository-database.json');
-
-  try {
-    const content = readFileSync(dbPath, 'utf-8');
-    const database = JSON.parse(content);
-    return database.repositories;
-  } catch (error) {
-    console.error('Failed to load repository database. Please run create-repository-database.ts first.');
-    process.exit(1);
-  }
-}
-
 function extractRepoInfo(url: string): { owner: string; repo: string } | null {
   const match = url.match(/github\.com\/([^/]+)\/([^/]+)/);
   if (!match) return null;
@@ -95,46 +34,18 @@ function extractRepoInfo(url: string): { owner: string; repo: string } | null {
   };
 }
 
-async function fetchCommits(owner: string, repo: string, since: string, until: string) {
-  const commits: any[] = [];
-  let page = 1;
-  const perPage = 100;
-
-  try {
-    while (true) {
-      const response = await octokit.repos.listCommits({
-        owner,
-        repo,
-        since,
-        until,
-        per_page: perPage,
-        page
-      });
-
-      if (response.data.length === 0) break;
-      commits.push(...response.data);
-
-      if (response.data.length < perPage) break;
-      page++;
-
-      // Limit to 300 commits per repo for faster analysis
-      if (commits.length >= 300) {
-        break;
-      }
-    }
-  } catch (error: any) {
-    // Silently handle errors
-  }
-
-  return commits;
-}
-
-async function analyzeEcosystem(
+/**
+ * Analyze an ecosystem's commit activity from the commits of its
+ * repositories, synced into the store first (only what it does not have
+ * yet is fetched)
+ */
+export async function analyzeEcosystem(
   ecosystem: string,
   daysSince: number,
-  repositories: Repository[],
-  excludeOrgs: string[] = []
-): Promise<EcosystemMetrics> {
+  repositories: EcosystemRepository[],
+  excludeOrgs: string[] = [],
+  options: Omit<AnalyzeOptions, 'since' | 'until' | 'onProgress'> = {}
+): Promise<ComparisonMetrics> {
   console.log(`\n🔍 Analyzing ${ecosystem} ecosystem...`);
 
   // Filter repositories by ecosystem
@@ -168,135 +79,114 @@ async function analyzeEcosystem(
   const since = new Date();
   since.setDate(since.getDate() - daysSince);
 
-  const metrics: EcosystemMetrics = {
-    ecosystem,
-    dateRange: {
-      from: since.toISOString().split('T')[0],
-      to: until.toISOString().split('T')[0]
-    },
-    uniqueDevelopers: 0,
-    totalCommits: 0,
-    activeRepositories: 0,
+  const { metrics, syncResults } = await analyzeActivity(ecosystem, ecosystemRepos, {
+    ...options,
+    since,
+    until,
+    onProgress: (done, total) => {
+      if (done % 50 === 0 || done === total) {
+        process.stdout.write(`\r   Processing: ${done}/${total} repositories...`);
+      }
+    }
+  });
+
+  console.log('\r   Processing: Complete!                                    ');
+
+  const unsynced = syncResults.filter(result => result.error);
+  if (unsynced.length > 0) {
+    console.log(`   ${unsynced.length} repositories could not be ${options.offline ? 'read from the store' : 'synced'}, e.g. ${unsynced[0].fullName}: ${unsynced[0].error}`);
+  }
+  const backfilled = syncResults.filter(result => result.backfilled).length;
+  if (backfilled > 0) {
+    console.log(`   Backfilled older history of ${backfilled} repositories`);
+  }
+
+  return {
+    ...metrics,
     totalRepositories: totalRepos,
-    developers: [],
-    topContributors: [],
-    dailyActivity: {},
     excludedOrgs: excludeOrgs.length > 0 ? excludeOrgs : undefined,
     excludedRepoCount: excludedCount > 0 ? excludedCount : undefined
   };
+}
 
-  // Track developer activity
-  const developerMap = new Map<string, DeveloperActivity>();
-  const activeRepos = new Set<string>();
-
-  // Analyze each repository
-  let processedCount = 0;
-  const batchSize = 10;
-
-  for (let i = 0; i < ecosystemRepos.length; i += batchSize) {
-    const batch = ecosystemRepos.slice(i, Math.min(i + batchSize, ecosystemRepos.length));
-
-    await Promise.all(batch.map(async (repo) => {
-      const repoInfo = extractRepoInfo(repo.url);
-      if (!repoInfo) return;
-
-      processedCount++;
-      if (processedCount % 50 === 0 || processedCount === ecosystemRepos.length) {
-        process.stdout.write(`\r   Processing: ${processedCount}/${ecosystemRepos.length} repositories...`);
-      }
+// Metrics ecosystems are ranked and compared on
+const COMPARED_METRICS = [
+  { key: 'uniqueDevelopers', label: 'Unique Developers', value: (metrics: ComparisonMetrics) => metrics.uniqueDevelopers },
+  { key: 'totalCommits', label: 'Total Commits', value: (metrics: ComparisonMetrics) => metrics.totalCommits },
+  { key: 'activeRepositories', label: 'Active Repositories', value: (metrics: ComparisonMetrics) => metrics.activeRepositories },
+  { key: 'activityRate', label: 'Activity Rate', value: (metrics: ComparisonMetrics) => activityRate(metrics), suffix: '%' },
+] as const;
 
-      const commits = await fetchCommits(
-        repoInfo.owner,
-        repoInfo.repo,
-        since.toISOString(),
-        until.toISOString()
-      );
+export type ComparedMetric = typeof COMPARED_METRICS[number]['key'];
 
-      if (commits.length > 0) {
-        activeRepos.add(repo.url);
-      }
+export interface EcosystemRanking {
+  metric: ComparedMetric;
+  // Highest first; equal values share a rank
+  ranking: { ecosystem: string; value: number; rank: number }[];
+}
 
-      for (const commit of commits) {
-        const author = commit.author?.login || commit.commit?.author?.name || 'unknown';
-        const email = commit.commit?.author?.email;
-        const date = commit.commit?.author?.date;
-
-        if (!author || author === 'unknown') continue;
-
-        // Update developer activity
-        if (!developerMap.has(author)) {
-          developerMap.set(author, {
-            username: author,
-            email,
-            commits: 0,
-            firstCommit: date,
-            lastCommit: date,
-            repositories: []
-          });
-        }
+export interface PairwiseDifference {
+  ecosystem: string;
+  other: string;
+  // ecosystem's value minus other's
+  differences: Record<ComparedMetric, number>;
+}
 
-        const dev = developerMap.get(author)!;
-        dev.commits++;
-        if (date < dev.firstCommit) dev.firstCommit = date;
-        if (date > dev.lastCommit) dev.lastCommit = date;
-        if (!dev.repositories.includes(repo.url)) {
-          dev.repositories.push(repo.url);
-        }
+// Beyond this many ecosystems the report lists rankings but not every pair
+const MAX_PAIRWISE_ECOSYSTEMS = 8;
 
-        // Track daily activity
-        const dayKey = date.split('T')[0];
-        if (!metrics.dailyActivity[dayKey]) {
-          metrics.dailyActivity[dayKey] = {
-            commits: 0,
-            developers: new Set()
-          };
-        }
-        metrics.dailyActivity[dayKey].commits++;
-        metrics.dailyActivity[dayKey].developers.add(author);
+/**
+ * Share of an ecosystem's repositories with commits in the period, in percent
+ */
+function activityRate(metrics: ComparisonMetrics): number {
+  return metrics.totalRepositories === 0 ? 0 : Number((metrics.activeRepositories / metrics.totalRepositories * 100).toFixed(1));
+}
 
-        metrics.totalCommits++;
-      }
-    }));
+/**
+ * Rank the ecosystems on every compared metric
+ */
+export function rankEcosystems(allMetrics: ComparisonMetrics[]): EcosystemRanking[] {
+  return COMPARED_METRICS.map(({ key, value }) => {
+    const sorted = allMetrics
+      .map(metrics => ({ ecosystem: metrics.ecosystem, value: value(metrics) }))
+      .sort((a, b) => b.value - a.value);
+    return {
+      metric: key,
+      ranking: sorted.map(entry => ({ ...entry, rank: sorted.findIndex(other => other.value === entry.value) + 1 })),
+    };
+  });
+}
 
-    // Small delay between batches
-    if (i + batchSize < ecosystemRepos.length) {
-      await new Promise(resolve => setTimeout(resolve, 500));
+/**
+ * Differences on every compared metric for each pair of ecosystems, in the
+ * order they were given
+ */
+export function pairwiseDifferences(allMetrics: ComparisonMetrics[]): PairwiseDifference[] {
+  const pairs: PairwiseDifference[] = [];
+  allMetrics.forEach((metrics, i) => {
+    for (const other of allMetrics.slice(i + 1)) {
+      pairs.push({
+        ecosystem: other.ecosystem,
+        other: metrics.ecosystem,
+        differences: Object.fromEntries(
+          COMPARED_METRICS.map(({ key, value }) => [key, Number((value(other) - value(metrics)).toFixed(1))])
+        ) as Record<ComparedMetric, number>,
+      });
     }
-  }
-
-  console.log('\r   Processing: Complete!                                    ');
-
-  // Compile final metrics
-  metrics.uniqueDevelopers = developerMap.size;
-  metrics.activeRepositories = activeRepos.size;
-  metrics.developers = Array.from(developerMap.values());
-
-  // Calculate top contributors (exclude bots in ranking)
-  const nonBotDevelopers = metrics.developers.filter(dev =>
-    !dev.username.toLowerCase().includes('bot') &&
-    !dev.username.toLowerCase().includes('[bot]')
-  );
-
-  metrics.topContributors = nonBotDevelopers
-    .sort((a, b) => b.commits - a.commits)
-    .slice(0, 10)
-    .map(dev => ({
-      username: dev.username,
-      commits: dev.commits,
-      repositories: dev.repositories.length
-    }));
-
-  return metrics;
+  });
+  return pairs;
 }
 
-function formatReport(aztecMetrics: EcosystemMetrics, noirMetrics: EcosystemMetrics, days: number, excludeOrgs: string[]) {
+export function formatReport(allMetrics: ComparisonMetrics[], days: number, excludeOrgs: string[]) {
   const divider = '═'.repeat(70);
   const subDivider = '─'.repeat(70);
+  const rankings = rankEcosystems(allMetrics);
 
   let report = '\n' + divider + '\n';
   report += `🔬 ECOSYSTEM COMPARISON REPORT\n`;
   report += divider + '\n';
-  report += `📅 Period: ${aztecMetrics.dateRange.from} to ${aztecMetrics.dateRange.to} (${days} days)\n`;
+  report += `📅 Period: ${allMetrics[0].dateRange.from} to ${allMetrics[0].dateRange.to} (${days} days)\n`;
+  report += `🌐 Ecosystems: ${allMetrics.map(metrics => metrics.ecosystem).join(', ')}\n`;
 
   if (excludeOrgs.length > 0) {
     report += `🚫 Excluded Organizations: ${excludeOrgs.join(', ')}\n`;
@@ -304,53 +194,78 @@ function formatReport(aztecMetrics: EcosystemMetrics, noirMetrics: EcosystemMetr
 
   report += '\n';
 
-  // Summary Statistics
+  // Summary Statistics, with each ecosystem's rank
   report += '📊 SUMMARY STATISTICS\n';
   report += subDivider + '\n';
+  const rankOf = (metric: ComparedMetric, ecosystem: string) =>
+    rankings.find(ranking => ranking.metric === metric)!.ranking.find(entry => entry.ecosystem === ecosystem)!.rank;
   report += formatComparisonTable([
-    ['Metric', 'Aztec Protocol', 'Noir Lang', 'Difference'],
-    ['─'.repeat(20), '─'.repeat(20), '─'.repeat(20), '─'.repeat(20)],
-    ['Unique Developers', String(aztecMetrics.uniqueDevelopers), String(noirMetrics.uniqueDevelopers),
-     formatDifference(noirMetrics.uniqueDevelopers - aztecMetrics.uniqueDevelopers)],
-    ['Total Commits', String(aztecMetrics.totalCommits), String(noirMetrics.totalCommits),
-     formatDifference(noirMetrics.totalCommits - aztecMetrics.totalCommits)],
-    ['Active Repositories', `${aztecMetrics.activeRepositories}/${aztecMetrics.totalRepositories}`,
-     `${noirMetrics.activeRepositories}/${noirMetrics.totalRepositories}`,
-     formatDifference(noirMetrics.activeRepositories - aztecMetrics.activeRepositories)],
-    ['Activity Rate', `${(aztecMetrics.activeRepositories / aztecMetrics.totalRepositories * 100).toFixed(1)}%`,
-     `${(noirMetrics.activeRepositories / noirMetrics.totalRepositories * 100).toFixed(1)}%`,
-     formatDifference((noirMetrics.activeRepositories / noirMetrics.totalRepositories - aztecMetrics.activeRepositories / aztecMetrics.totalRepositories) * 100, '%')],
+    ['Ecosystem', ...COMPARED_METRICS.map(metric => metric.label)],
+    ['─'.repeat(20), ...COMPARED_METRICS.map(() => '─'.repeat(20))],
+    ...allMetrics.map(metrics => [
+      metrics.ecosystem,
+      `${metrics.uniqueDevelopers} (#${rankOf('uniqueDevelopers', metrics.ecosystem)})`,
+      `${metrics.totalCommits} (#${rankOf('totalCommits', metrics.ecosystem)})`,
+      `${metrics.activeRepositories}/${metrics.totalRepositories} (#${rankOf('activeRepositories', metrics.ecosystem)})`,
+      `${activityRate(metrics).toFixed(1)}% (#${rankOf('activityRate', metrics.ecosystem)})`,
+    ]),
   ]);
 
+  const merged = allMetrics.reduce((sum, metrics) => sum + metrics.mergedIdentities, 0);
+  if (merged > 0) {
+    report += `\n* Developers are counted once across logins, emails and names (${merged} duplicate identities merged)\n`;
+  }
+
+  const botAccounts = allMetrics.reduce((sum, metrics) => sum + metrics.bots.developers, 0);
+  if (botAccounts > 0) {
+    const botCommits = allMetrics.reduce((sum, metrics) => sum + metrics.bots.commits, 0);
+    const perEcosystem = allMetrics.map(metrics => `${metrics.ecosystem}: ${metrics.bots.developers}`).join(', ');
+    report += allMetrics[0].bots.included
+      ? `\n* Bots included: ${botAccounts} automation accounts are counted as developers\n`
+      : `\n* Bots excluded: ${botAccounts} automation accounts with ${botCommits} commits (${perEcosystem})\n`;
+  }
+
   if (excludeOrgs.length > 0) {
     report += '\n* Excluded from analysis:\n';
-    if (aztecMetrics.excludedRepoCount) {
-      report += `  - Aztec: ${aztecMetrics.excludedRepoCount} repositories\n`;
-    }
-    if (noirMetrics.excludedRepoCount) {
-      report += `  - Noir: ${noirMetrics.excludedRepoCount} repositories\n`;
+    for (const metrics of allMetrics) {
+      if (metrics.excludedRepoCount) {
+        report += `  - ${metrics.ecosystem}: ${metrics.excludedRepoCount} repositories\n`;
+      }
     }
   }
 
-  // Top Contributors for Aztec
-  report += '\n\n🟧 AZTEC PROTOCOL - TOP CONTRIBUTORS\n';
-  report += subDivider + '\n';
-  report += formatContributorTable(aztecMetrics.topContributors);
+  // Pairwise differences (later ecosystem minus earlier)
+  if (allMetrics.length > 1) {
+    report += '\n\n⚖️  PAIRWISE DIFFERENCES\n';
+    report += subDivider + '\n';
+    report += allMetrics.length <= MAX_PAIRWISE_ECOSYSTEMS
+      ? formatPairwiseDifferences(pairwiseDifferences(allMetrics))
+      : `${allMetrics.length} ecosystems make ${allMetrics.length * (allMetrics.length - 1) / 2} pairs; see the rankings above or the JSON export (--json)`;
+  }
 
-  // Top Contributors for Noir
-  report += '\n⚫ NOIR LANG - TOP CONTRIBUTORS\n';
-  report += subDivider + '\n';
-  report += formatContributorTable(noirMetrics.topContributors);
+  // Top Contributors per ecosystem
+  for (const metrics of allMetrics) {
+    report += `\n\n🔹 ${metrics.ecosystem.toUpperCase()} - TOP CONTRIBUTORS\n`;
+    report += subDivider + '\n';
+    report += formatContributorTable(metrics.topContributors);
+  }
 
   // Daily Activity Trends (last 7 days)
-  report += '\n📈 DAILY ACTIVITY (Last 7 Days)\n';
+  report += '\n\n📈 DAILY ACTIVITY (Last 7 Days, commits/developers)\n';
   report += subDivider + '\n';
-  report += formatDailyActivity(aztecMetrics, noirMetrics);
+  report += formatDailyActivity(allMetrics);
+
+  // Monthly active developers (28-day windows)
+  if (allMetrics.some(metrics => metrics.monthlyActiveDevelopers.length > 0)) {
+    report += '\n\n📆 MONTHLY ACTIVE DEVELOPERS (28-day windows)\n';
+    report += subDivider + '\n';
+    report += formatMonthlyActiveDevelopers(allMetrics);
+  }
 
   // Key Insights
-  report += '\n💡 KEY INSIGHTS\n';
+  report += '\n\n💡 KEY INSIGHTS\n';
   report += subDivider + '\n';
-  report += generateInsights(aztecMetrics, noirMetrics, excludeOrgs);
+  report += generateInsights(allMetrics, rankings, excludeOrgs);
 
   report += '\n' + divider + '\n';
 
@@ -367,8 +282,19 @@ function formatComparisonTable(data: string[][]): string {
   ).join('\n');
 }
 
+function formatPairwiseDifferences(pairs: PairwiseDifference[]): string {
+  return formatComparisonTable([
+    ['Comparison', ...COMPARED_METRICS.map(metric => metric.label)],
+    ['─'.repeat(20), ...COMPARED_METRICS.map(() => '─'.repeat(20))],
+    ...pairs.map(pair => [
+      `${pair.ecosystem} vs ${pair.other}`,
+      ...COMPARED_METRICS.map(metric => formatDifference(pair.differences[metric.key], 'suffix' in metric ? metric.suffix : '')),
+    ]),
+  ]);
+}
+
 function formatContributorTable(contributors: { username: string; commits: number; repositories: number }[]): string {
-  if (contributors.length === 0) return 'No contributors found.\n';
+  if (contributors.length === 0) return 'No contributors found.';
 
   const table = contributors.map((contributor, index) => {
     const rank = `${index + 1}.`.padEnd(3);
@@ -381,26 +307,52 @@ function formatContributorTable(contributors: { username: string; commits: numbe
   return table.join('\n');
 }
 
-function formatDailyActivity(aztecMetrics: EcosystemMetrics, noirMetrics: EcosystemMetrics): string {
-  const allDates = new Set([
-    ...Object.keys(aztecMetrics.dailyActivity),
-    ...Object.keys(noirMetrics.dailyActivity)
-  ]);
-
+function formatDailyActivity(allMetrics: ComparisonMetrics[]): string {
+  const allDates = new Set(allMetrics.flatMap(metrics => Object.keys(metrics.dailyActivity)));
   const sortedDates = Array.from(allDates).sort().slice(-7);
+  if (sortedDates.length === 0) return 'No activity in this period.';
+
+  return formatComparisonTable([
+    ['Ecosystem', ...sortedDates],
+    ['─'.repeat(20), ...sortedDates.map(date => '─'.repeat(date.length))],
+    ...allMetrics.map(metrics => [
+      metrics.ecosystem,
+      ...sortedDates.map(date => {
+        const data = metrics.dailyActivity[date];
+        return data ? `${data.commits}/${data.developers.size}` : '0/0';
+      }),
+    ]),
+  ]);
+}
 
-  const rows = sortedDates.map(date => {
-    const aztecData = aztecMetrics.dailyActivity[date] || { commits: 0, developers: new Set() };
-    const noirData = noirMetrics.dailyActivity[date] || { commits: 0, developers: new Set() };
-
-    const dateStr = date.padEnd(12);
-    const aztecStr = `${aztecData.commits} commits, ${aztecData.developers.size} devs`.padEnd(25);
-    const noirStr = `${noirData.commits} commits, ${noirData.developers.size} devs`;
-
-    return `${dateStr} │ Aztec: ${aztecStr} │ Noir: ${noirStr}`;
-  });
-
-  return rows.join('\n');
+function formatMonthlyActiveDevelopers(allMetrics: ComparisonMetrics[]): string {
+  const months = Array.from(new Set(allMetrics.flatMap(metrics => metrics.monthlyActiveDevelopers.map(snapshot => snapshot.month)))).sort();
+  const latest = (metrics: ComparisonMetrics) => metrics.monthlyActiveDevelopers.at(-1);
+
+  // MAD per month, then the latest month's cohorts and tenure
+  const series = formatComparisonTable([
+    ['Ecosystem', ...months],
+    ['─'.repeat(20), ...months.map(month => '─'.repeat(month.length))],
+    ...allMetrics.map(metrics => [
+      metrics.ecosystem,
+      ...months.map(month => String(metrics.monthlyActiveDevelopers.find(snapshot => snapshot.month === month)?.activeDevelopers ?? '-')),
+    ]),
+  ]);
+  const breakdown = formatComparisonTable([
+    ['Ecosystem', 'Full-time', 'Part-time', 'One-time', 'Newcomer', 'Emerging', 'Established', 'Unknown'],
+    ['─'.repeat(20), ...Array(7).fill('─'.repeat(11))],
+    ...allMetrics.map(metrics => {
+      const snapshot = latest(metrics);
+      return [
+        metrics.ecosystem,
+        ...(snapshot
+          ? [snapshot.cohorts.fullTime, snapshot.cohorts.partTime, snapshot.cohorts.oneTime,
+             snapshot.tenure.newcomer, snapshot.tenure.emerging, snapshot.tenure.established, snapshot.tenure.unknown].map(String)
+          : Array(7).fill('-')),
+      ];
+    }),
+  ]);
+  return `${series}\n\nLatest month:\n${breakdown}`;
 }
 
 function formatDifference(diff: number, suffix: string = ''): string {
@@ -409,45 +361,44 @@ function formatDifference(diff: number, suffix: string = ''): string {
   return `0${suffix}`;
 }
 
-function generateInsights(aztecMetrics: EcosystemMetrics, noirMetrics: EcosystemMetrics, excludeOrgs: string[]): string {
+function generateInsights(allMetrics: ComparisonMetrics[], rankings: EcosystemRanking[], excludeOrgs: string[]): string {
   const insights: string[] = [];
+  const ranking = (metric: ComparedMetric) => rankings.find(entry => entry.metric === metric)!.ranking;
 
   // Developer comparison
-  if (noirMetrics.uniqueDevelopers > aztecMetrics.uniqueDevelopers) {
-    const diff = noirMetrics.uniqueDevelopers - aztecMetrics.uniqueDevelopers;
-    const pct = ((diff / aztecMetrics.uniqueDevelopers) * 100).toFixed(0);
-    insights.push(`• Noir Lang has ${diff} more developers (${pct}% more activity)`);
-  } else if (aztecMetrics.uniqueDevelopers > noirMetrics.uniqueDevelopers) {
-    const diff = aztecMetrics.uniqueDevelopers - noirMetrics.uniqueDevelopers;
-    const pct = ((diff / noirMetrics.uniqueDevelopers) * 100).toFixed(0);
-    insights.push(`• Aztec Protocol has ${diff} more developers (${pct}% more activity)`);
+  const developers = ranking('uniqueDevelopers');
+  if (developers.length > 1 && developers[0].value > developers[1].value) {
+    const diff = developers[0].value - developers[1].value;
+    const pct = developers[1].value > 0 ? ` (${((diff / developers[1].value) * 100).toFixed(0)}% more activity)` : '';
+    insights.push(`• ${developers[0].ecosystem} has the most developers, ${diff} more than ${developers[1].ecosystem}${pct}`);
+  }
+  if (developers.length > 2) {
+    insights.push(`• Developer ranking: ${developers.map(entry => `${entry.rank}. ${entry.ecosystem} (${entry.value})`).join(', ')}`);
   }
 
   // Commit velocity
-  const aztecCommitsPerDev = (aztecMetrics.totalCommits / aztecMetrics.uniqueDevelopers).toFixed(1);
-  const noirCommitsPerDev = (noirMetrics.totalCommits / noirMetrics.uniqueDevelopers).toFixed(1);
-  insights.push(`• Average commits per developer: Aztec (${aztecCommitsPerDev}) vs Noir (${noirCommitsPerDev})`);
+  const perDeveloper = (metrics: ComparisonMetrics) =>
+    metrics.uniqueDevelopers === 0 ? '0.0' : (metrics.totalCommits / metrics.uniqueDevelopers).toFixed(1);
+  insights.push(`• Average commits per developer: ${allMetrics.map(metrics => `${metrics.ecosystem} (${perDeveloper(metrics)})`).join(' vs ')}`);
 
   // Repository activity
-  const aztecActiveRate = (aztecMetrics.activeRepositories / aztecMetrics.totalRepositories * 100).toFixed(1);
-  const noirActiveRate = (noirMetrics.activeRepositories / noirMetrics.totalRepositories * 100).toFixed(1);
-  insights.push(`• Repository activity rates: Aztec (${aztecActiveRate}%) vs Noir (${noirActiveRate}%)`);
+  insights.push(`• Repository activity rates: ${allMetrics.map(metrics => `${metrics.ecosystem} (${activityRate(metrics).toFixed(1)}%)`).join(' vs ')}`);
 
   // Community vs Core
   if (excludeOrgs.length > 0) {
     insights.push(`• Analysis excludes core organization repositories for community focus`);
-    if (aztecMetrics.excludedRepoCount || noirMetrics.excludedRepoCount) {
-      const totalExcluded = (aztecMetrics.excludedRepoCount || 0) + (noirMetrics.excludedRepoCount || 0);
+    const totalExcluded = allMetrics.reduce((sum, metrics) => sum + (metrics.excludedRepoCount || 0), 0);
+    if (totalExcluded > 0) {
       insights.push(`• Excluded ${totalExcluded} core repositories from analysis`);
     }
   }
 
   // Development patterns
-  const aztecTopCommits = aztecMetrics.topContributors.slice(0, 3).reduce((sum, c) => sum + c.commits, 0);
-  const noirTopCommits = noirMetrics.topContributors.slice(0, 3).reduce((sum, c) => sum + c.commits, 0);
-  const aztecConcentration = ((aztecTopCommits / aztecMetrics.totalCommits) * 100).toFixed(0);
-  const noirConcentration = ((noirTopCommits / noirMetrics.totalCommits) * 100).toFixed(0);
-  insights.push(`• Top 3 contributors account for: Aztec (${aztecConcentration}%) vs Noir (${noirConcentration}%) of commits`);
+  const concentration = (metrics: ComparisonMetrics) => {
+    const topCommits = metrics.topContributors.slice(0, 3).reduce((sum, c) => sum + c.commits, 0);
+    return metrics.totalCommits === 0 ? '0' : ((topCommits / metrics.totalCommits) * 100).toFixed(0);
+  };
+  insights.push(`• Top 3 contributors account for: ${allMetrics.map(metrics => `${metrics.ecosystem} (${concentration(metrics)}%)`).join(' vs ')} of commits`);
 
   return insights.join('\n');
 }
@@ -460,16 +411,30 @@ async function main() {
 Usage: bun run scripts/ecosystem-comparison-report.ts [options]
 
 Options:
+  --ecosystems <names>      Comma-separated ecosystems to compare
+                           (default: "Aztec Protocol,Noir Lang")
+  --all                     Compare every ecosystem in the repository database
   --days <number>           Number of days to look back (default: 31)
   --exclude-orgs <orgs>     Comma-separated list of organizations to exclude
                            (default: none, use "core" for AztecProtocol,noir-lang)
   --output <file>          Save report to file
   --json                   Also save raw metrics as JSON
+  --offline                Report from the commits already in the store, without calling GitHub
+  --aliases <file>         Developer alias file (default: review/developer-aliases.json)
+  --include-bots           Count automation accounts (dependabot, renovate, ...) as developers
+  --no-cache               Do not read or write the on-disk GitHub response cache
+  --refresh                Revalidate every cached response, ignoring TTLs
 
 Examples:
   # Standard comparison (31 days, all repos)
   bun run scripts/ecosystem-comparison-report.ts
 
+  # Three ecosystems side by side
+  bun run scripts/ecosystem-comparison-report.ts --ecosystems "Aztec Protocol,Noir Lang,Starknet"
+
+  # Every ecosystem in the database
+  bun run scripts/ecosystem-comparison-report.ts --all --days 7
+
   # Exclude core organizations (community-only view)
   bun run scripts/ecosystem-comparison-report.ts --exclude-orgs core
 
@@ -481,18 +446,32 @@ Examples:
 
   # Community activity for last 14 days with JSON output
   bun run scripts/ecosystem-comparison-report.ts --days 14 --exclude-orgs core --json
+
+  # A year, from the commits already synced into the store
+  bun run scripts/ecosystem-comparison-report.ts --days 365 --offline
     `);
     process.exit(0);
   }
 
   // Parse arguments
+  let ecosystems = ['Aztec Protocol', 'Noir Lang'];
+  let allEcosystems = false;
   let days = 31;
   let excludeOrgs: string[] = [];
   let outputFile: string | null = null;
   let saveJson = false;
+  let offline = false;
+  let aliasesPath: string | undefined;
+  let includeBots = false;
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
+      case '--ecosystems':
+        ecosystems = args[++i].split(',').map(name => name.trim()).filter(Boolean);
+        break;
+      case '--all':
+        allEcosystems = true;
+        break;
       case '--days':
         days = parseInt(args[++i]);
         break;
@@ -510,22 +489,59 @@ Examples:
       case '--json':
         saveJson = true;
         break;
+      case '--offline':
+        offline = true;
+        break;
+      case '--aliases':
+        aliasesPath = args[++i];
+        break;
+      case '--include-bots':
+        includeBots = true;
+        break;
+      case '--no-cache':
+        configureHttpCache({ enabled: false });
+        break;
+      case '--refresh':
+        configureHttpCache({ refresh: true });
+        break;
     }
   }
 
-  // Load repository database
-  const repositories = await loadRepositoryDatabase();
+  // Load repositories from the store, which also keeps their commits
+  const store = RepositoryStore.open(undefined, { mustExist: true });
+  const repositories = store.listRepositories();
+  const aliases = loadDeveloperAliases(aliasesPath);
+
+  // Resolve the ecosystems against the database, keeping its spelling
+  const known = Array.from(new Set(repositories.map(repo => repo.ecosystem))).sort();
+  if (allEcosystems) {
+    ecosystems = known;
+  } else {
+    const unknown = ecosystems.filter(name => !known.some(ecosystem => ecosystem.toLowerCase() === name.toLowerCase()));
+    if (unknown.length > 0) {
+      console.error(`Unknown ecosystems: ${unknown.join(', ')}. The repository database has: ${known.join(', ')}`);
+      store.close();
+      process.exit(1);
+    }
+    ecosystems = ecosystems.map(name => known.find(ecosystem => ecosystem.toLowerCase() === name.toLowerCase())!);
+  }
+  if (ecosystems.length === 0) {
+    console.error('No ecosystems to compare. Please run create-repository-database.ts first.');
+    store.close();
+    process.exit(1);
+  }
 
-  // Analyze both ecosystems
-  console.log('🚀 Starting ecosystem comparison analysis...');
+  // Analyze the ecosystems one after another, so their syncs do not compete for the rate limit
+  console.log(`🚀 Starting ecosystem comparison analysis of ${ecosystems.length} ecosystems...`);
 
-  const [aztecMetrics, noirMetrics] = await Promise.all([
-    analyzeEcosystem('Aztec Protocol', days, repositories, excludeOrgs),
-    analyzeEcosystem('Noir Lang', days, repositories, excludeOrgs)
-  ]);
+  const allMetrics: ComparisonMetrics[] = [];
+  for (const ecosystem of ecosystems) {
+    allMetrics.push(await analyzeEcosystem(ecosystem, days, repositories, excludeOrgs, { store, offline, aliases, includeBots }));
+  }
+  store.close();
 
   // Generate report
-  const report = formatReport(aztecMetrics, noirMetrics, days, excludeOrgs);
+  const report = formatReport(allMetrics, days, excludeOrgs);
 
   // Display report
   console.log(report);
@@ -548,22 +564,10 @@ Examples:
       generatedAt: new Date().toISOString(),
       days,
       excludedOrganizations: excludeOrgs,
-      aztec: {
-        ...aztecMetrics,
-        dailyActivity: Object.fromEntries(
-          Object.entries(aztecMetrics.dailyActivity).map(([date, data]) => [
-            date,
-            {
-              commits: data.commits,
-              developers: Array.from(data.developers)
-            }
-          ])
-        )
-      },
-      noir: {
-        ...noirMetrics,
+      ecosystems: allMetrics.map(metrics => ({
+        ...metrics,
         dailyActivity: Object.fromEntries(
-          Object.entries(noirMetrics.dailyActivity).map(([date, data]) => [
+          Object.entries(metrics.dailyActivity).map(([date, data]) => [
             date,
             {
               commits: data.commits,
@@ -571,7 +575,9 @@ Examples:
             }
           ])
         )
-      }
+      })),
+      rankings: rankEcosystems(allMetrics),
+      pairwiseDifferences: pairwiseDifferences(allMetrics)
     };
 
     writeFileSync(jsonPath, JSON.stringify(jsonData, null, 2));
@@ -579,4 +585,6 @@ Examples:
   }
 }
 
-main().catch(console.error);
\ No newline at end of file
+if (import.meta.main) {
+  main().catch(console.error);
+}
\ No newline at end of file
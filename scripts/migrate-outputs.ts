@@ -0,0 +1,139 @@
+#!/usr/bin/env bun
+/**
+ * Migrate output files to the current repository record layout
+ * Rewrites discovery results and repository databases written by older
+ * versions of the scripts (noir-aztec-repos-v4/v5, unversioned
+ * discovered-repos and repository-database files) as EcosystemRepository
+ * records, keeping the original next to them
+ */
+
+import { copyFileSync, existsSync, readdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { loadProfile, type DiscoveryProfile } from '../src/lib/discovery';
+import { RepositoryRecordError } from '../src/lib/errors';
+import {
+  createRepositoryDatabase,
+  readRepositoryFile,
+  type MigrationResult,
+} from '../src/lib/repository';
+
+// Output files that hold repository records, by the scripts that write or wrote them
+const RECORD_FILES = /^(discovered-repos-.+|noir-aztec-repos-v\d+-.+|repository-database)\.json$/;
+
+export interface FileMigration {
+  file: string;
+  result: MigrationResult;
+  // Whether the file needed rewriting
+  changed: boolean;
+}
+
+/**
+ * Record files in a directory, sorted by name
+ */
+export function findRecordFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir).filter(name => RECORD_FILES.test(name)).sort().map(name => join(dir, name));
+}
+
+/**
+ * Migrate one file in place, keeping the original as <file>.bak. Files
+ * already in the current layout are left alone.
+ */
+export function migrateFile(file: string, options: { profile?: DiscoveryProfile; dryRun?: boolean } = {}): FileMigration {
+  const result = readRepositoryFile(file, { profile: options.profile });
+  const changed = Object.keys(result.migrated).length > 0 || result.skipped.length > 0;
+
+  if (changed && !options.dryRun) {
+    copyFileSync(file, `${file}.bak`);
+    const content = result.kind === 'database' ? createRepositoryDatabase(result.records) : result.records;
+    writeFileSync(file, JSON.stringify(content, null, 2));
+  }
+  return { file, result, changed };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log(`
+Usage: bun run scripts/migrate-outputs.ts [options] [files...]
+
+Rewrites repository records in the current layout (schemaVersion 1). Without
+files, every discovered-repos-*.json, noir-aztec-repos-v*-*.json and
+repository-database.json in output/ is migrated. Originals are kept as <file>.bak.
+
+Options:
+  --profile <file>   Profile that names the ecosystems and tags of discovered
+                     repositories (default: profiles/aztec.toml)
+  --dry-run          Report what would change without writing anything
+
+Examples:
+  bun run scripts/migrate-outputs.ts --dry-run
+  bun run scripts/migrate-outputs.ts output/noir-aztec-repos-v5-2025-10-20.json
+    `);
+    process.exit(0);
+  }
+
+  const projectRoot = resolve(import.meta.dir as string, '..');
+  let profilePath = 'profiles/aztec.toml';
+  let dryRun = false;
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--profile':
+        profilePath = args[++i];
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      default:
+        files.push(args[i]);
+    }
+  }
+
+  if (files.length === 0) {
+    files.push(...findRecordFiles(resolve(projectRoot, 'output')));
+  }
+  if (files.length === 0) {
+    console.log('No repository record files found in output/.');
+    return;
+  }
+
+  const profile = loadProfile(resolve(projectRoot, profilePath));
+  let failures = 0;
+
+  for (const file of files) {
+    try {
+      const { result, changed } = migrateFile(file, { profile, dryRun });
+      if (!changed) {
+        console.log(`✓ ${file}: ${result.records.length} records, already current`);
+        continue;
+      }
+      const layouts = Object.entries(result.migrated).map(([layout, count]) => `${count} ${layout}`).join(', ');
+      console.log(`${dryRun ? '~' : '✓'} ${file}: ${result.records.length} records${layouts ? `, migrated ${layouts}` : ''}`);
+      for (const skipped of result.skipped) {
+        console.log(`    skipped #${skipped.index}: ${skipped.reason}`);
+      }
+    } catch (error) {
+      if (!(error instanceof RepositoryRecordError)) {
+        throw error;
+      }
+      failures++;
+      console.error(`✗ ${error.message}`);
+    }
+  }
+
+  if (dryRun) {
+    console.log('\nDry run: nothing was written.');
+  }
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main().catch(console.error);
+}
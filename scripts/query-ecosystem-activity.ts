@@ -4,144 +4,38 @@
  * Use this to get insights like unique developers, commits, and activity patterns
  */
 
-import { readFileSync, writeFileSync } from 'fs';
+import { writeFileSync } from 'fs';
 import { resolve } from 'path';
-import { Octokit } from '@octokit/rest';
-import { retry } from '@octokit/plugin-retry';
-import { throttling } from '@octokit/plugin-throttling';
 import dotenv from 'dotenv';
+import { analyzeActivity, type AnalyzeOptions, type EcosystemMetrics } from '../src/lib/analytics';
+import { loadDeveloperAliases } from '../src/lib/developers';
+import { configureHttpCache } from '../src/lib/github';
+import { type EcosystemRepository } from '../src/lib/repository';
+import { RepositoryStore } from '../src/lib/store';
 
 dotenv.config();
 
-interface Repository {
-  url: string;
-  ecosystem: string;
-  tags: string[];
-  source: string;
-}
-
-interface DeveloperActivity {
-  username: string;
-  email?: string;
-  commits: number;
-  firstCommit: string;
-  lastCommit: string;
-  repositories: string[];
-}
-
-interface EcosystemMetrics {
-  ecosystem: string;
-  dateRange: {
-    from: string;
-    to: string;
-  };
-  uniqueDevelopers: number;
-  totalCommits: number;
-  activeRepositories: number;
-  developers: DeveloperActivity[];
-  topContributors: {
-    username: string;
-    commits: number;
-    repositories: number;
-  }[];
-  dailyActivity: {
-    [date: string]: {
-      commits: number;
-      developers: Set<string>;
-    };
-  };
-}
-
-// Create GitHub client with retry and throttling
-const OctokitWithPlugins = Octokit.plugin(retry, throttling);
-const octokit = new OctokitWithPlugins({
-  auth: process.env.GITHUB_TOKEN,
-  throttle: {
-    onRateLimit: (retryAfter, options) => {
-      console.warn(`Rate limit exceeded, retrying after ${retryAfter} seconds...`);
-      return true;
-    },
-    onSecondaryRateLimit: (retryAfter, options) => {
-      console.warn(`Secondary rate limit hit, retrying after ${retryAfter} seconds...`);
-      return true;
-    }
-  }
-});
-
-async function loadRepositoryDatabase(filePath?: string): Promise<Repository[]> {
-  const projectRoot = resolve(import.meta.dir, '..');
-  const dbPath = filePath || resolve(projectRoot, 'output/repository-database.json');
-
-  try {
-    const content = readFileSync(dbPath, 'utf-8');
-    const database = JSON.parse(content);
-    return database.repositories;
-  } catch (error) {
-    console.error('Failed to load repository database. Please run create-repository-database.ts first.');
-    process.exit(1);
-  }
-}
-
-function extractRepoInfo(url: string): { owner: string; repo: string } | null {
-  const match = url.match(/github\.com\/([^/]+)\/([^/]+)/);
-  if (!match) return null;
-  return {
-    owner: match[1],
-    repo: match[2].replace(/\.git$/, '')
-  };
-}
-
-async function fetchCommits(owner: string, repo: string, since: string, until: string) {
-  const commits: any[] = [];
-  let page = 1;
-  const perPage = 100;
-
-  try {
-    while (true) {
-      const response = await octokit.repos.listCommits({
-        owner,
-        repo,
-        since,
-        until,
-        per_page: perPage,
-        page
-      });
-
-      if (response.data.length === 0) break;
-      commits.push(...response.data);
-
-      if (response.data.length < perPage) break;
-      page++;
-
-      // Limit to 500 commits per repo to avoid rate limits
-      if (commits.length >= 500) {
-        console.log(`  Reached 500 commit limit for ${owner}/${repo}`);
-        break;
-      }
-    }
-  } catch (error: any) {
-    if (error.status === 404) {
-      console.log(`  Repository not found: ${owner}/${repo}`);
-    } else if (error.status === 409) {
-      console.log(`  Repository is empty: ${owner}/${repo}`);
-    } else {
-      console.warn(`  Error fetching commits for ${owner}/${repo}: ${error.message}`);
-    }
-  }
-
-  return commits;
-}
-
-async function analyzeEcosystem(
+/**
+ * Analyze commit activity of an ecosystem's repositories. Their commits
+ * are synced into the store first, fetching only what it does not have
+ * yet; with a store, the repositories come from it unless given.
+ */
+export async function analyzeEcosystem(
   ecosystem: string,
   daysSince: number = 10,
-  repositories?: Repository[]
+  repositories?: EcosystemRepository[],
+  options: Omit<AnalyzeOptions, 'since' | 'until' | 'onProgress'> = {}
 ): Promise<EcosystemMetrics> {
+  const { store, offline } = options;
   console.log(`\nAnalyzing ${ecosystem} ecosystem activity...`);
 
   // Load repositories if not provided
   if (!repositories) {
-    repositories = await loadRepositoryDatabase();
+    const source = store ?? RepositoryStore.open(undefined, { mustExist: true });
+    repositories = source.listRepositories({ ecosystem });
+    if (!store) {
+      source.close();
+    }
   }
 
   // Filter repositories by ecosystem
@@ -156,111 +50,18 @@ async function analyzeEcosystem(
   const since = new Date();
   since.setDate(since.getDate() - daysSince);
 
-  const metrics: EcosystemMetrics = {
-    ecosystem,
-    dateRange: {
-      from: since.toISOString().split('T')[0],
-      to: until.toISOString().split('T')[0]
-    },
-    uniqueDevelopers: 0,
-    totalCommits: 0,
-    activeRepositories: 0,
-    developers: [],
-    topContributors: [],
-    dailyActivity: {}
-  };
-
-  // Track developer activity
-  const developerMap = new Map<string, DeveloperActivity>();
-  const activeRepos = new Set<string>();
-
-  // Analyze each repository
-  let processedCount = 0;
-  const batchSize = 10;
-
-  for (let i = 0; i < ecosystemRepos.length; i += batchSize) {
-    const batch = ecosystemRepos.slice(i, Math.min(i + batchSize, ecosystemRepos.length));
-
-    await Promise.all(batch.map(async (repo) => {
-      const repoInfo = extractRepoInfo(repo.url);
-      if (!repoInfo) return;
-
-      console.log(`Processing ${++processedCount}/${ecosystemRepos.length}: ${repoInfo.owner}/${repoInfo.repo}`);
-
-      const commits = await fetchCommits(
-        repoInfo.owner,
-        repoInfo.repo,
-        since.toISOString(),
-        until.toISOString()
-      );
-
-      if (commits.length > 0) {
-        activeRepos.add(repo.url);
-      }
-
-      for (const commit of commits) {
-        const author = commit.author?.login || commit.commit?.author?.name || 'unknown';
-        const email = commit.commit?.author?.email;
-        const date = commit.commit?.author?.date;
-
-        if (!author || author === 'unknown') continue;
-
-        // Update developer activity
-        if (!developerMap.has(author)) {
-          developerMap.set(author, {
-            username: author,
-            email,
-            commits: 0,
-            firstCommit: date,
-            lastCommit: date,
-            repositories: []
-          });
-        }
-
-        const dev = developerMap.get(author)!;
-        dev.commits++;
-        if (date < dev.firstCommit) dev.firstCommit = date;
-        if (date > dev.lastCommit) dev.lastCommit = date;
-        if (!dev.repositories.includes(repo.url)) {
-          dev.repositories.push(repo.url);
-        }
-
-        // Track daily activity
-        const dayKey = date.split('T')[0];
-        if (!metrics.dailyActivity[dayKey]) {
-          metrics.dailyActivity[dayKey] = {
-            commits: 0,
-            developers: new Set()
-          };
-        }
-        metrics.dailyActivity[dayKey].commits++;
-        metrics.dailyActivity[dayKey].developers.add(author);
-
-        metrics.totalCommits++;
-      }
-    }));
-
-    // Small delay between batches to be nice to GitHub API
-    if (i + batchSize < ecosystemRepos.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  const { metrics, syncResults } = await analyzeActivity(ecosystem, ecosystemRepos, {
+    ...options,
+    since,
+    until,
+    onProgress: (done, total, result) => {
+      const note = result.error ? ` (${result.error})` : result.backfilled ? ' (backfilled)' : '';
+      console.log(`Synced ${done}/${total}: ${result.fullName}, ${result.added} new commits${note}`);
     }
+  });
+  if (offline) {
+    syncResults.forEach(result => console.log(`  ${result.fullName}: ${result.error}`));
   }
-
-  // Compile final metrics
-  metrics.uniqueDevelopers = developerMap.size;
-  metrics.activeRepositories = activeRepos.size;
-  metrics.developers = Array.from(developerMap.values());
-
-  // Calculate top contributors
-  metrics.topContributors = metrics.developers
-    .sort((a, b) => b.commits - a.commits)
-    .slice(0, 10)
-    .map(dev => ({
-      username: dev.username,
-      commits: dev.commits,
-      repositories: dev.repositories.length
-    }));
-
   return metrics;
 }
 
@@ -276,6 +77,11 @@ Options:
   --days <number>      Number of days to look back (default: 10)
   --output <file>      Save results to JSON file
   --csv                Export results as CSV
+  --offline            Report from the commits already in the store, without calling GitHub
+  --aliases <file>     Developer alias file (default: review/developer-aliases.json)
+  --include-bots       Count automation accounts (dependabot, renovate, ...) as developers
+  --no-cache           Do not read or write the on-disk GitHub response cache
+  --refresh            Revalidate every cached response, ignoring TTLs
   --examples           Show example queries
 
 Examples:
@@ -287,6 +93,9 @@ Examples:
 
   # Export as CSV
   bun run scripts/query-ecosystem-activity.ts --ecosystem "Aztec Protocol" --csv
+
+  # A year of activity from the commits already synced
+  bun run scripts/query-ecosystem-activity.ts --ecosystem "Noir Lang" --days 365 --offline
     `);
     process.exit(0);
   }
@@ -311,6 +120,9 @@ Examples:
   let days = 10;
   let outputFile: string | null = null;
   let exportCsv = false;
+  let offline = false;
+  let aliasesPath: string | undefined;
+  let includeBots = false;
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -326,19 +138,46 @@ Examples:
       case '--csv':
         exportCsv = true;
         break;
+      case '--offline':
+        offline = true;
+        break;
+      case '--aliases':
+        aliasesPath = args[++i];
+        break;
+      case '--include-bots':
+        includeBots = true;
+        break;
+      case '--no-cache':
+        configureHttpCache({ enabled: false });
+        break;
+      case '--refresh':
+        configureHttpCache({ refresh: true });
+        break;
     }
   }
 
-  // Run analysis
-  const metrics = await analyzeEcosystem(ecosystem, days);
+  // Run analysis, syncing new commits into the store
+  const store = RepositoryStore.open(undefined, { mustExist: true });
+  const metrics = await analyzeEcosystem(ecosystem, days, undefined, {
+    store,
+    offline,
+    aliases: loadDeveloperAliases(aliasesPath),
+    includeBots
+  });
+  store.close();
 
   // Display results
   console.log('\n' + '='.repeat(60));
   console.log(`${ecosystem} ECOSYSTEM ACTIVITY REPORT`);
   console.log('='.repeat(60));
   console.log(`Date Range: ${metrics.dateRange.from} to ${metrics.dateRange.to}`);
-  console.log(`Unique Developers: ${metrics.uniqueDevelopers}`);
+  console.log(`Unique Developers: ${metrics.uniqueDevelopers}${metrics.mergedIdentities > 0 ? ` (${metrics.mergedIdentities} duplicate identities merged)` : ''}`);
   console.log(`Total Commits: ${metrics.totalCommits}`);
+  if (metrics.bots.developers > 0) {
+    console.log(metrics.bots.included
+      ? `Bots: ${metrics.bots.developers} automation accounts included above`
+      : `Bots: ${metrics.bots.developers} automation accounts with ${metrics.bots.commits} commits excluded`);
+  }
   console.log(`Active Repositories: ${metrics.activeRepositories}/${metrics.developers.length}`);
 
   if (metrics.topContributors.length > 0) {
@@ -358,6 +197,17 @@ Examples:
     });
   }
 
+  // Monthly active developers (28-day windows)
+  if (metrics.monthlyActiveDevelopers.length > 0) {
+    console.log('\nMonthly Active Developers (28-day windows):');
+    console.log('  Month     MAD  Full-time  Part-time  One-time  Newcomer  Emerging  Established  Unknown');
+    metrics.monthlyActiveDevelopers.forEach(snapshot => {
+      console.log(`  ${snapshot.month}  ${String(snapshot.activeDevelopers).padStart(4)}  ${String(snapshot.cohorts.fullTime).padStart(9)}  ${String(snapshot.cohorts.partTime).padStart(9)}  ${String(snapshot.cohorts.oneTime).padStart(8)}  ${String(snapshot.tenure.newcomer).padStart(8)}  ${String(snapshot.tenure.emerging).padStart(8)}  ${String(snapshot.tenure.established).padStart(11)}  ${String(snapshot.tenure.unknown).padStart(7)}`);
+    });
+  } else {
+    console.log('\nMonthly Active Developers: needs at least 28 days (--days 28)');
+  }
+
   // Save to file if requested
   if (outputFile) {
     const projectRoot = resolve(import.meta.dir, '..');
@@ -377,9 +227,9 @@ Examples:
     const csvPath = resolve(projectRoot, 'output', `${ecosystem.toLowerCase().replace(/\s+/g, '-')}-developers.csv`);
 
     const csvContent = [
-      'username,email,commits,repositories,first_commit,last_commit',
+      'username,email,aliases,bot,commits,repositories,first_commit,last_commit',
       ...metrics.developers.map(dev =>
-        `"${dev.username}","${dev.email || ''}",${dev.commits},${dev.repositories.length},"${dev.firstCommit}","${dev.lastCommit}"`
+        `"${dev.username}","${dev.email || ''}","${dev.aliases.join(';')}","${dev.bot || ''}",${dev.commits},${dev.repositories.length},"${dev.firstCommit}","${dev.lastCommit}"`
       )
     ].join('\n');
 
@@ -388,4 +238,6 @@ Examples:
   }
 }
 
-main().catch(console.error);
\ No newline at end of file
+if (import.meta.main) {
+  main().catch(console.error);
+}
\ No newline at end of file
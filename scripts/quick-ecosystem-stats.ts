@@ -4,23 +4,9 @@
  * Shows what repositories are available for analysis
  */
 
-import { readFileSync } from 'fs';
-import { resolve } from 'path';
-
-interface Repository {
-  url: string;
-  ecosystem: string;
-  tags: string[];
-  source: string;
-}
-
-interface RepositoryDatabase {
-  generatedAt: string;
-  totalRepositories: number;
-  byEcosystem: { [key: string]: number };
-  bySource: { electricCapital: number; discovered: number };
-  repositories: Repository[];
-}
+import { StoreError } from '../src/lib/errors';
+import { type RepositoryDatabase } from '../src/lib/repository';
+import { RepositoryStore } from '../src/lib/store';
 
 function analyzeDatabase(database: RepositoryDatabase) {
   console.log('='.repeat(70));
@@ -132,15 +118,12 @@ function analyzeDatabase(database: RepositoryDatabase) {
 }
 
 function main() {
-  const projectRoot = resolve(import.meta.dir as string, '..');
-  const dbPath = resolve(projectRoot, 'output/repository-database.json');
-
   try {
-    const content = readFileSync(dbPath, 'utf-8');
-    const database: RepositoryDatabase = JSON.parse(content);
-    analyzeDatabase(database);
+    const store = RepositoryStore.open(undefined, { readonly: true });
+    analyzeDatabase(store.toDatabase());
+    store.close();
   } catch (error) {
-    console.error('Failed to load repository database.');
+    console.error(`Failed to load repository store${error instanceof StoreError ? `: ${error.message}` : '.'}`);
     console.error('Please run: bun run scripts/create-repository-database.ts');
     process.exit(1);
   }
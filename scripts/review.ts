@@ -0,0 +1,204 @@
+#!/usr/bin/env bun
+
+import { config } from "../src/lib/config";
+import {
+  ReviewDecisions,
+  findLatestReviewQueue,
+  loadReviewQueue,
+  type ReviewQueue,
+  type ReviewQueueEntry,
+} from "../src/lib/review";
+import { ReviewError } from "../src/lib/errors";
+
+const HELP = `
+Usage: bun run scripts/review.ts <command> [options]
+
+Commands:
+  list                               Queued classifications without a decision yet
+  show <owner/repo>                  Evidence behind one queued classification
+  accept <owner/repo>                Keep the classification as queued
+  reject <owner/repo>                Not an ecosystem repository; later runs skip it
+  relabel <owner/repo> <ecosystem>   Move the repository to another ecosystem of the profile
+  decisions                          Every recorded decision
+
+Options:
+  --queue <file>          Review queue to work from (default: newest output/review-queue-*.json)
+  --decisions <file>      Decisions file (default: ${config.review.decisionsPath})
+  --project-type <type>   With relabel, also replace the project type
+  --note <text>           Reason recorded with the decision
+  -h, --help              Show this help message
+
+Discovery writes a review queue for every run with classifications below
+REVIEW_CONFIDENCE_THRESHOLD (${config.review.confidenceThreshold}) or with API failures. Decisions are
+stored in the decisions file and override the classifiers in every later run.
+`;
+
+export interface ReviewOptions {
+  command: string;
+  args: string[];
+  queue: string | null;
+  decisions: string;
+  projectType?: string;
+  note?: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): ReviewOptions {
+  const options: ReviewOptions = {
+    command: '',
+    args: [],
+    queue: null,
+    decisions: config.review.decisionsPath,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--queue':
+        options.queue = argv[++i];
+        break;
+      case '--decisions':
+        options.decisions = argv[++i];
+        break;
+      case '--project-type':
+        options.projectType = argv[++i];
+        break;
+      case '--note':
+        options.note = argv[++i];
+        break;
+      case '--help':
+      case '-h':
+        console.log(HELP);
+        process.exit(0);
+      default:
+        positional.push(argv[i]);
+    }
+  }
+
+  [options.command = '', ...options.args] = positional;
+  return options;
+}
+
+function requireQueue(options: ReviewOptions): ReviewQueue {
+  const queuePath = options.queue ?? findLatestReviewQueue();
+  if (!queuePath) {
+    throw new ReviewError("No review queue found in output/, pass --queue <file>");
+  }
+  return loadReviewQueue(queuePath);
+}
+
+function findEntry(queue: ReviewQueue, repo: string): ReviewQueueEntry | undefined {
+  return queue.entries.find(entry => entry.repo.toLowerCase() === repo.toLowerCase());
+}
+
+function requireRepo(options: ReviewOptions): string {
+  const repo = options.args[0];
+  if (!repo) {
+    throw new ReviewError(`${options.command} needs an owner/repo argument`);
+  }
+  return repo;
+}
+
+function formatEntry(entry: ReviewQueueEntry): string {
+  return `${entry.repo}  ${entry.ecosystem}/${entry.projectType}  confidence ${entry.confidence}  (${entry.reasons.join('; ')})`;
+}
+
+/**
+ * Run one review command; returns the lines to print
+ */
+export function runReviewCommand(options: ReviewOptions): string[] {
+  const decisions = ReviewDecisions.load(options.decisions);
+
+  switch (options.command) {
+    case 'list': {
+      const queue = requireQueue(options);
+      const pending = queue.entries.filter(entry => !decisions.get(entry.repo));
+      return [
+        `Review queue of run ${queue.runId}: ${pending.length} pending, ${queue.entries.length - pending.length} decided`,
+        ...pending.map(formatEntry),
+      ];
+    }
+
+    case 'show': {
+      const repo = requireRepo(options);
+      const entry = findEntry(requireQueue(options), repo);
+      if (!entry) {
+        throw new ReviewError(`${repo} is not in the review queue`, repo);
+      }
+      const decision = decisions.get(repo);
+      return [
+        formatEntry(entry),
+        `  found by: ${entry.query}`,
+        ...(entry.evidence.length > 0
+          ? entry.evidence.map(item => `  [${item.type} ${item.weight}] ${item.path}: ${item.excerpt}`)
+          : ['  no evidence']),
+        ...(decision ? [`  decided: ${decision.action}${decision.ecosystem ? ` ${decision.ecosystem}` : ''} at ${decision.decidedAt}`] : []),
+      ];
+    }
+
+    case 'accept': {
+      const repo = requireRepo(options);
+      const entry = findEntry(requireQueue(options), repo);
+      if (!entry) {
+        throw new ReviewError(`${repo} is not in the review queue, use relabel to set its ecosystem`, repo);
+      }
+      const decision = decisions.record({ repo, action: 'accept', ecosystem: entry.ecosystem, note: options.note });
+      return [`Accepted ${decision.repo} as ${decision.ecosystem}`];
+    }
+
+    case 'reject': {
+      const repo = requireRepo(options);
+      const decision = decisions.record({ repo, action: 'reject', note: options.note });
+      return [`Rejected ${decision.repo}; discovery will skip it`];
+    }
+
+    case 'relabel': {
+      const repo = requireRepo(options);
+      const ecosystem = options.args[1];
+      if (!ecosystem) {
+        throw new ReviewError('relabel needs an ecosystem id', repo);
+      }
+      // Check the label against the profile when the repository came from a queue
+      const queuePath = options.queue ?? findLatestReviewQueue();
+      const queue = queuePath ? loadReviewQueue(queuePath) : null;
+      if (queue && findEntry(queue, repo) && !queue.ecosystems.includes(ecosystem)) {
+        throw new ReviewError(`Profile ${queue.profile} has no ecosystem "${ecosystem}" (expected one of ${queue.ecosystems.join(', ')})`, repo);
+      }
+      const decision = decisions.record({ repo, action: 'relabel', ecosystem, projectType: options.projectType, note: options.note });
+      return [`Relabelled ${decision.repo} as ${decision.ecosystem}${decision.projectType ? ` (${decision.projectType})` : ''}`];
+    }
+
+    case 'decisions':
+      return decisions.list().map(decision =>
+        `${decision.repo}  ${decision.action}${decision.ecosystem ? ` ${decision.ecosystem}` : ''}  ${decision.decidedAt}${decision.note ? `  ${decision.note}` : ''}`
+      );
+
+    default:
+      throw new ReviewError(options.command ? `Unknown command "${options.command}"` : 'No command given, see --help');
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  try {
+    for (const line of runReviewCommand(options)) {
+      console.log(line);
+    }
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// Run the script
+if (import.meta.main) {
+  main().catch(error => {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
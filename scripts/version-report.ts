@@ -0,0 +1,310 @@
+#!/usr/bin/env bun
+/**
+ * Version Distribution Report
+ * Shows which Noir and Aztec versions discovered repositories build against,
+ * per ecosystem: how many are on pre-1.0 Noir and how many trail the newest
+ * Aztec release line
+ */
+
+import { existsSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { loadProfile } from '../src/lib/discovery';
+import { readRepositoryFile, repositoryKey, type EcosystemRepository } from '../src/lib/repository';
+import {
+  compareVersions,
+  componentFamily,
+  formatVersion,
+  parseVersion,
+  releaseLine,
+  type ComponentFamily,
+  type ParsedVersion,
+} from '../src/lib/versions';
+
+export interface ComponentDistribution {
+  component: string;
+  // Repositories per declared version, newest first; unparseable specs are counted under their text
+  versions: { version: string; repositories: number }[];
+}
+
+export interface VersionDistribution {
+  ecosystem: string;
+  repositories: number;
+  // Repositories declaring at least one Noir or Aztec version
+  withVersions: number;
+  components: ComponentDistribution[];
+  // By the newest Noir toolchain version each repository declares (library tags left out)
+  noir: {
+    repositories: number;
+    // 0.x
+    pre1: number;
+    // 1.0.0 pre-releases (betas)
+    prerelease1: number;
+    stable: number;
+  };
+  // By the newest Aztec version each repository declares
+  aztec: {
+    repositories: number;
+    // Release line counted as current, e.g. "0.87"
+    latestLine: string | null;
+    // Repositories on an older release line
+    behind: number;
+    lines: { line: string; repositories: number }[];
+  };
+}
+
+export interface VersionReportOptions {
+  // Owners whose repositories are left out, e.g. AztecProtocol and noir-lang for a community view
+  excludeOrgs?: string[];
+  // Current Aztec release, defaults to the newest one any repository declares
+  aztecLatest?: string;
+}
+
+/**
+ * Newest parseable version of a family a repository declares
+ */
+function newestVersion(repo: EcosystemRepository, family: ComponentFamily): ParsedVersion | null {
+  return (repo.discovery?.versions ?? [])
+    .filter(version => componentFamily(version.component) === family)
+    .map(version => parseVersion(version.version))
+    .filter((version): version is ParsedVersion => version !== null)
+    .sort((a, b) => compareVersions(b, a))[0] ?? null;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sort version labels newest first, unparseable ones last
+ */
+function byVersionDescending(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    return (parsedA ? -1 : 0) + (parsedB ? 1 : 0) || a.localeCompare(b);
+  }
+  return compareVersions(parsedB, parsedA);
+}
+
+export function buildVersionReport(repos: EcosystemRepository[], options: VersionReportOptions = {}): VersionDistribution[] {
+  const excluded = new Set((options.excludeOrgs ?? []).map(org => org.toLowerCase()));
+  const included = repos.filter(repo => !excluded.has(repo.fullName.split('/')[0].toLowerCase()));
+
+  const newestAztec = included
+    .map(repo => newestVersion(repo, 'aztec'))
+    .filter((version): version is ParsedVersion => version !== null)
+    .sort((a, b) => compareVersions(b, a))[0];
+  const latest = options.aztecLatest ? parseVersion(options.aztecLatest) : newestAztec;
+
+  const ecosystems = [...new Set(included.map(repo => repo.ecosystem))].sort();
+  return ecosystems.map(ecosystem => {
+    const ecosystemRepos = included.filter(repo => repo.ecosystem === ecosystem);
+
+    // Each repository counts once per component and version, however many manifests declare it
+    const declared = ecosystemRepos.flatMap(repo => [...new Set((repo.discovery?.versions ?? []).map(version => {
+      const parsed = parseVersion(version.version);
+      return JSON.stringify([version.component, parsed ? formatVersion(parsed) : version.version]);
+    }))].map(entry => JSON.parse(entry) as [string, string]));
+
+    const components = [...new Set(declared.map(([component]) => component))].sort().map(component => ({
+      component,
+      versions: [...countBy(declared.filter(([name]) => name === component), ([, version]) => version)]
+        .sort(([a], [b]) => byVersionDescending(a, b))
+        .map(([version, repositories]) => ({ version, repositories })),
+    }));
+
+    const noirVersions = ecosystemRepos.map(repo => newestVersion(repo, 'noir')).filter((version): version is ParsedVersion => version !== null);
+    const aztecVersions = ecosystemRepos.map(repo => newestVersion(repo, 'aztec')).filter((version): version is ParsedVersion => version !== null);
+
+    return {
+      ecosystem,
+      repositories: ecosystemRepos.length,
+      withVersions: ecosystemRepos.filter(repo => (repo.discovery?.versions ?? []).length > 0).length,
+      components,
+      noir: {
+        repositories: noirVersions.length,
+        pre1: noirVersions.filter(version => version.major === 0).length,
+        prerelease1: noirVersions.filter(version => version.major === 1 && version.minor === 0 && version.patch === 0 && version.prerelease).length,
+        stable: noirVersions.filter(version => version.major >= 1 && !(version.minor === 0 && version.patch === 0 && version.prerelease)).length,
+      },
+      aztec: {
+        repositories: aztecVersions.length,
+        latestLine: latest ? releaseLine(latest) : null,
+        behind: latest ? aztecVersions.filter(version => compareVersions({ ...version, patch: 0, prerelease: undefined }, { ...latest, patch: 0, prerelease: undefined }) < 0).length : 0,
+        lines: [...countBy(aztecVersions, releaseLine)]
+          .sort(([a], [b]) => byVersionDescending(a, b))
+          .map(([line, repositories]) => ({ line, repositories })),
+      },
+    };
+  });
+}
+
+function percent(count: number, total: number): string {
+  return total === 0 ? '-' : `${(count / total * 100).toFixed(0)}%`;
+}
+
+export function formatVersionReport(distributions: VersionDistribution[], excludeOrgs: string[] = []): string {
+  const divider = '═'.repeat(70);
+  const subDivider = '─'.repeat(70);
+
+  let report = '\n' + divider + '\n';
+  report += `📦 VERSION DISTRIBUTION REPORT\n`;
+  report += divider + '\n';
+  if (excludeOrgs.length > 0) {
+    report += `🚫 Excluded Organizations: ${excludeOrgs.join(', ')}\n`;
+  }
+
+  for (const distribution of distributions) {
+    report += `\n${distribution.ecosystem.toUpperCase()} (${distribution.withVersions}/${distribution.repositories} repositories declare versions)\n`;
+    report += subDivider + '\n';
+
+    const { noir, aztec } = distribution;
+    if (noir.repositories > 0) {
+      report += `Noir:  ${noir.pre1} on pre-1.0 (${percent(noir.pre1, noir.repositories)}), `;
+      report += `${noir.prerelease1} on 1.0 betas (${percent(noir.prerelease1, noir.repositories)}), `;
+      report += `${noir.stable} on 1.0+ (${percent(noir.stable, noir.repositories)})\n`;
+    }
+    if (aztec.repositories > 0) {
+      report += `Aztec: ${aztec.behind} of ${aztec.repositories} behind the ${aztec.latestLine} release line (${percent(aztec.behind, aztec.repositories)})`;
+      report += ` │ ${aztec.lines.map(line => `${line.line}: ${line.repositories}`).join(', ')}\n`;
+    }
+
+    for (const component of distribution.components) {
+      report += `\n  ${component.component}\n`;
+      for (const version of component.versions) {
+        report += `    ${version.version.padEnd(24)} ${String(version.repositories).padStart(4)} repo${version.repositories === 1 ? '' : 's'}\n`;
+      }
+    }
+  }
+
+  report += '\n' + divider + '\n';
+  return report;
+}
+
+/**
+ * Newest discovery output in output/
+ */
+function latestDiscoveryOutput(dir: string): string | null {
+  if (!existsSync(dir)) {
+    return null;
+  }
+  return readdirSync(dir)
+    .filter(name => /^discovered-repos-.+\.json$/.test(name))
+    .map(name => join(dir, name))
+    .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)[0] ?? null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log(`
+Usage: bun run scripts/version-report.ts [options]
+
+Options:
+  --input <file>           Discovery output (discovered-repos-*.json); repeat to combine runs
+                           (default: the newest one in output/)
+  --profile <file>         Profile older, unversioned outputs were discovered with
+                           (default: profiles/aztec.toml)
+  --exclude-orgs <orgs>    Comma-separated list of organizations to exclude
+                           (default: none, use "core" for AztecProtocol,noir-lang)
+  --aztec-latest <version> Aztec release counted as current (default: newest declared)
+  --output <file>          Save report to file
+  --json                   Also save the distribution as JSON
+
+Examples:
+  # Community projects only
+  bun run scripts/version-report.ts --exclude-orgs core
+
+  # Against a known release
+  bun run scripts/version-report.ts --aztec-latest 0.87.0
+    `);
+    process.exit(0);
+  }
+
+  const inputs: string[] = [];
+  let profilePath = 'profiles/aztec.toml';
+  let excludeOrgs: string[] = [];
+  let aztecLatest: string | undefined;
+  let outputFile: string | null = null;
+  let saveJson = false;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--input':
+        inputs.push(args[++i]);
+        break;
+      case '--profile':
+        profilePath = args[++i];
+        break;
+      case '--exclude-orgs':
+        const orgsArg = args[++i];
+        if (orgsArg.toLowerCase() === 'core') {
+          excludeOrgs = ['AztecProtocol', 'noir-lang'];
+        } else {
+          excludeOrgs = orgsArg.split(',').map(org => org.trim());
+        }
+        break;
+      case '--aztec-latest':
+        aztecLatest = args[++i];
+        break;
+      case '--output':
+        outputFile = args[++i];
+        break;
+      case '--json':
+        saveJson = true;
+        break;
+    }
+  }
+
+  const projectRoot = resolve(import.meta.dir as string, '..');
+  if (inputs.length === 0) {
+    const latest = latestDiscoveryOutput(resolve(projectRoot, 'output'));
+    if (!latest) {
+      console.error('No discovery output found. Run scripts/discover.ts first or pass --input.');
+      process.exit(1);
+    }
+    inputs.push(latest);
+  }
+
+  // Later inputs win for repositories that appear in several runs
+  const profile = loadProfile(resolve(projectRoot, profilePath));
+  const byName = new Map<string, EcosystemRepository>();
+  for (const input of inputs) {
+    readRepositoryFile(input, { profile }).records.forEach(repo => byName.set(repositoryKey(repo), repo));
+  }
+  const repos = [...byName.values()];
+  if (repos.every(repo => repo.discovery?.versions === undefined)) {
+    console.warn('⚠️  None of the inputs record versions; they predate version extraction, re-run discovery to fill them in.');
+  }
+
+  const distributions = buildVersionReport(repos, { excludeOrgs, aztecLatest });
+  const report = formatVersionReport(distributions, excludeOrgs);
+  console.log(report);
+
+  if (outputFile) {
+    const outputPath = resolve(projectRoot, 'output', outputFile);
+    writeFileSync(outputPath, report);
+    console.log(`📄 Report saved to: ${outputPath}`);
+  }
+
+  if (saveJson) {
+    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+    const jsonPath = resolve(projectRoot, 'output', `version-distribution-${timestamp}.json`);
+    writeFileSync(jsonPath, JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      inputs,
+      excludedOrganizations: excludeOrgs,
+      distributions,
+    }, null, 2));
+    console.log(`📊 JSON data saved to: ${jsonPath}`);
+  }
+}
+
+if (import.meta.main) {
+  main().catch(console.error);
+}
@@ -0,0 +1,259 @@
+import {
+  IdentityResolver,
+  classifyBots,
+  commitIdentity,
+  loadDeveloperAliases,
+  type BotClassifier,
+  type BotReason,
+  type DeveloperAlias,
+} from "../developers";
+import type { GitHubTransport } from "../github";
+import type { EcosystemRepository } from "../repository";
+import { RepositoryStore, collectCommits, type CollectCommitsOptions, type CommitSyncResult } from "../store";
+import { ESTABLISHED_AFTER_DAYS, MAD_WINDOW_DAYS, firstCommits, monthlyMadSeries, type DeveloperCommit, type MadSnapshot } from "./mad";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One developer's commits in the analyzed window
+ */
+export interface DeveloperActivity {
+  // Resolved developer id
+  username: string;
+  email?: string;
+  // Other logins and names merged into this developer
+  aliases: string[];
+  // Set for automation accounts when bots are included
+  bot?: BotReason;
+  commits: number;
+  firstCommit: string;
+  lastCommit: string;
+  repositories: string[];
+}
+
+/**
+ * Developer activity of an ecosystem's repositories over a window
+ */
+export interface EcosystemMetrics {
+  ecosystem: string;
+  dateRange: {
+    from: string;
+    to: string;
+  };
+  uniqueDevelopers: number;
+  // Author identities that resolved to a developer counted elsewhere
+  mergedIdentities: number;
+  // Automation accounts and their commits, left out of every other metric unless included
+  bots: {
+    included: boolean;
+    developers: number;
+    commits: number;
+  };
+  totalCommits: number;
+  activeRepositories: number;
+  developers: DeveloperActivity[];
+  topContributors: {
+    username: string;
+    commits: number;
+    repositories: number;
+  }[];
+  dailyActivity: {
+    [date: string]: {
+      commits: number;
+      developers: Set<string>;
+    };
+  };
+  // 28-day monthly active developers at the end of each month of the range,
+  // or at its end for ranges shorter than 28 days
+  monthlyActiveDevelopers: MadSnapshot[];
+}
+
+export interface AnalyzeOptions {
+  // Window the commits are counted in
+  since: Date;
+  until: Date;
+  // Store the commits are synced into; an in-memory one when missing
+  store?: RepositoryStore;
+  // Report from the store without calling GitHub
+  offline?: boolean;
+  // Transport commits are synced through, defaults to the shared one
+  transport?: GitHubTransport;
+  // Developer aliases, by default from the alias file
+  aliases?: DeveloperAlias[];
+  // Count automation accounts like developers (default: leave them out)
+  includeBots?: boolean;
+  bots?: BotClassifier;
+  onProgress?: CollectCommitsOptions['onProgress'];
+}
+
+export interface EcosystemActivity {
+  metrics: EcosystemMetrics;
+  // How each repository's sync went; those with an error are missing from the metrics
+  syncResults: CommitSyncResult[];
+}
+
+/**
+ * Developer metrics of an ecosystem from the commits of the repositories
+ * given. Their commits are synced into the store first, fetching only what
+ * it does not have yet, back to two years before the first monthly active
+ * developer window so that it dates each developer's first commit.
+ */
+export async function analyzeActivity(
+  ecosystem: string,
+  repositories: EcosystemRepository[],
+  options: AnalyzeOptions
+): Promise<EcosystemActivity> {
+  const { since, until, store, offline, aliases = loadDeveloperAliases(), includeBots = false } = options;
+
+  const metrics: EcosystemMetrics = {
+    ecosystem,
+    dateRange: {
+      from: since.toISOString().split('T')[0],
+      to: until.toISOString().split('T')[0]
+    },
+    uniqueDevelopers: 0,
+    mergedIdentities: 0,
+    bots: { included: includeBots, developers: 0, commits: 0 },
+    totalCommits: 0,
+    activeRepositories: 0,
+    developers: [],
+    topContributors: [],
+    dailyActivity: {},
+    monthlyActiveDevelopers: []
+  };
+
+  // Track developer activity
+  const developerMap = new Map<string, DeveloperActivity>();
+  const activeRepos = new Set<string>();
+
+  // Monthly active developers need the 28 days up to the end of the range,
+  // however short it is
+  const madSince = new Date(Math.min(since.getTime(), until.getTime() - (MAD_WINDOW_DAYS - 1) * DAY_MS));
+  // ...and developers' tenure the two years before that, which only the first
+  // sync of a repository has to backfill. Offline, the store has what it has.
+  const historySince = offline ? madSince : new Date(madSince.getTime() - ESTABLISHED_AFTER_DAYS * DAY_MS);
+
+  // Sync each repository, then analyze what the store holds for the window
+  const commitStore = store ?? RepositoryStore.open(':memory:');
+  if (!store) {
+    commitStore.upsertRepositories(repositories);
+  }
+  const { commits: collected, results } = await collectCommits(commitStore, repositories, {
+    since: historySince.toISOString(),
+    until: until.toISOString(),
+    offline,
+    transport: options.transport,
+    onProgress: options.onProgress
+  });
+  const madCommits = collected.filter(commit => Date.parse(commit.committedAt) >= madSince.getTime());
+  const commits = madCommits.filter(commit => Date.parse(commit.committedAt) >= since.getTime());
+  // Stored history up to the end of the range, for developers' tenure, and
+  // the day from which every repository's history is there
+  const history = repositories.length === 0 ? [] : commitStore.listCommits({
+    repositories: repositories.map(repo => repo.fullName),
+    until: until.toISOString()
+  });
+  const syncedFrom = repositories.map(repo => Date.parse(commitStore.commitSyncState(repo.fullName)?.syncedFrom ?? madSince.toISOString()));
+  const historyStart = new Date(syncedFrom.length > 0 ? Math.max(...syncedFrom) : madSince.getTime()).toISOString();
+  if (!store) {
+    commitStore.close();
+  }
+
+  const urls = new Map(repositories.map(repo => [repo.fullName.toLowerCase(), repo.url]));
+
+  // Count people, not identities: merge each developer's logins, emails and names
+  const resolver = new IdentityResolver(aliases);
+  madCommits.forEach(commit => resolver.add(commitIdentity(commit)));
+  const identities = new Set<string>();
+
+  // Tell automation from people, per developer
+  const botReasons = classifyBots(madCommits, resolver, options.bots);
+  const bots = new Set<string>();
+  // Commits of the developers counted, by resolved id
+  const developerCommits = (stored: typeof history): DeveloperCommit[] => stored.flatMap(commit => {
+    const developer = resolver.resolve(commitIdentity(commit));
+    return developer && (includeBots || !botReasons.has(developer.id))
+      ? [{ developer: developer.id, committedAt: commit.committedAt }]
+      : [];
+  });
+
+  for (const commit of commits) {
+    const repoUrl = urls.get(commit.fullName.toLowerCase()) ?? commit.fullName;
+    const developer = resolver.resolve(commitIdentity(commit));
+    const bot = developer && botReasons.get(developer.id);
+
+    if (bot) {
+      bots.add(developer.id);
+      metrics.bots.commits++;
+      if (!includeBots) continue;
+    }
+    activeRepos.add(repoUrl);
+
+    if (!developer) continue;
+
+    const author = developer.id;
+    const email = commit.authorEmail;
+    const date = commit.committedAt;
+    identities.add((commit.authorLogin || commit.authorName || email)!);
+
+    // Update developer activity
+    if (!developerMap.has(author)) {
+      developerMap.set(author, {
+        username: author,
+        email,
+        aliases: [...developer.logins, ...developer.names].filter(alias => alias.toLowerCase() !== author.toLowerCase()),
+        ...(bot && { bot }),
+        commits: 0,
+        firstCommit: date,
+        lastCommit: date,
+        repositories: []
+      });
+    }
+
+    const dev = developerMap.get(author)!;
+    dev.commits++;
+    if (date < dev.firstCommit) dev.firstCommit = date;
+    if (date > dev.lastCommit) dev.lastCommit = date;
+    if (!dev.repositories.includes(repoUrl)) {
+      dev.repositories.push(repoUrl);
+    }
+
+    // Track daily activity
+    const dayKey = date.split('T')[0];
+    if (!metrics.dailyActivity[dayKey]) {
+      metrics.dailyActivity[dayKey] = {
+        commits: 0,
+        developers: new Set()
+      };
+    }
+    metrics.dailyActivity[dayKey].commits++;
+    metrics.dailyActivity[dayKey].developers.add(author);
+
+    metrics.totalCommits++;
+  }
+
+  // Compile final metrics
+  metrics.uniqueDevelopers = developerMap.size;
+  metrics.mergedIdentities = identities.size - developerMap.size;
+  metrics.bots.developers = bots.size;
+
+  // Monthly active developers, with tenure counted from the first stored commit
+  // and unknown where the store's history is too short to tell
+  const counted = developerCommits(madCommits);
+  const firstSeen = firstCommits([...counted, ...developerCommits(history)]);
+  metrics.monthlyActiveDevelopers = monthlyMadSeries(counted, { since: madSince, until, firstSeen, historyStart });
+  metrics.activeRepositories = activeRepos.size;
+  metrics.developers = Array.from(developerMap.values());
+
+  // Calculate top contributors
+  metrics.topContributors = metrics.developers
+    .sort((a, b) => b.commits - a.commits)
+    .slice(0, 10)
+    .map(dev => ({
+      username: dev.username,
+      commits: dev.commits,
+      repositories: dev.repositories.length
+    }));
+
+  return { metrics, syncResults: results };
+}
@@ -0,0 +1,14 @@
+export {
+  MAD_WINDOW_DAYS,
+  FULL_TIME_DAYS,
+  EMERGING_AFTER_DAYS,
+  ESTABLISHED_AFTER_DAYS,
+  cohortOf,
+  tenureOf,
+  firstCommits,
+  madSnapshot,
+  monthlyMadSeries,
+} from "./mad";
+export type { DeveloperCohort, DeveloperTenure, DeveloperCommit, MadSnapshot } from "./mad";
+export { analyzeActivity } from "./activity";
+export type { DeveloperActivity, EcosystemMetrics, AnalyzeOptions, EcosystemActivity } from "./activity";
\ No newline at end of file
@@ -0,0 +1,154 @@
+// A developer is monthly active when they commit on any day of a 28-day
+// window, as in Electric Capital's developer report
+export const MAD_WINDOW_DAYS = 28;
+
+// Active days in a window from which a developer counts as full-time
+export const FULL_TIME_DAYS = 10;
+
+// Commit history after which a developer is emerging, then established
+export const EMERGING_AFTER_DAYS = 365;
+export const ESTABLISHED_AFTER_DAYS = 730;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type DeveloperCohort = 'fullTime' | 'partTime' | 'oneTime';
+// Unknown when the history at hand is too short to tell
+export type DeveloperTenure = 'newcomer' | 'emerging' | 'established' | 'unknown';
+
+/**
+ * A counted commit: who (a resolved developer id) and when
+ */
+export interface DeveloperCommit {
+  developer: string;
+  // ISO 8601 author date
+  committedAt: string;
+}
+
+/**
+ * Monthly active developers in the 28 days up to a date
+ */
+export interface MadSnapshot {
+  // YYYY-MM the window ends in
+  month: string;
+  // First and last day of the window, YYYY-MM-DD
+  windowStart: string;
+  windowEnd: string;
+  activeDevelopers: number;
+  // By active days in the window: 10+, 2-9, 1
+  cohorts: Record<DeveloperCohort, number>;
+  // By time since their first commit: under a year, one to two years, more,
+  // or unknown when the history does not go back two years
+  tenure: Record<DeveloperTenure, number>;
+}
+
+function day(date: Date | string): string {
+  return (typeof date === 'string' ? new Date(date) : date).toISOString().split('T')[0];
+}
+
+function addDays(dayString: string, days: number): string {
+  return day(new Date(Date.parse(`${dayString}T00:00:00Z`) + days * DAY));
+}
+
+export function cohortOf(activeDays: number): DeveloperCohort {
+  if (activeDays >= FULL_TIME_DAYS) return 'fullTime';
+  return activeDays >= 2 ? 'partTime' : 'oneTime';
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${day(to)}T00:00:00Z`) - Date.parse(`${day(from)}T00:00:00Z`)) / DAY;
+}
+
+/**
+ * Tenure of a developer first seen on `firstSeen` as of `at`. When commits
+ * are only known from `historyStart`, an earlier first commit may be
+ * missing: unless that history reaches back two years, only established
+ * developers can be told apart.
+ */
+export function tenureOf(firstSeen: string, at: string, historyStart?: string): DeveloperTenure {
+  const days = daysBetween(firstSeen, at);
+  if (days >= ESTABLISHED_AFTER_DAYS) return 'established';
+  if (historyStart && daysBetween(historyStart, at) < ESTABLISHED_AFTER_DAYS) return 'unknown';
+  return days >= EMERGING_AFTER_DAYS ? 'emerging' : 'newcomer';
+}
+
+/**
+ * Each developer's first commit date
+ */
+export function firstCommits(commits: DeveloperCommit[]): Map<string, string> {
+  const firstSeen = new Map<string, string>();
+  for (const commit of commits) {
+    const seen = firstSeen.get(commit.developer);
+    if (!seen || commit.committedAt < seen) {
+      firstSeen.set(commit.developer, commit.committedAt);
+    }
+  }
+  return firstSeen;
+}
+
+/**
+ * Monthly active developers in the 28 days ending on `end` (inclusive).
+ * Tenure is measured from `firstSeen`, by default the earliest of the
+ * commits given, which are taken as complete unless `historyStart` says
+ * when they begin.
+ */
+export function madSnapshot(
+  commits: DeveloperCommit[],
+  end: Date | string,
+  firstSeen: Map<string, string> = firstCommits(commits),
+  historyStart?: string
+): MadSnapshot {
+  const windowEnd = day(end);
+  const windowStart = addDays(windowEnd, -(MAD_WINDOW_DAYS - 1));
+
+  const activeDays = new Map<string, Set<string>>();
+  for (const commit of commits) {
+    const commitDay = day(commit.committedAt);
+    if (commitDay >= windowStart && commitDay <= windowEnd) {
+      const days = activeDays.get(commit.developer) ?? new Set<string>();
+      days.add(commitDay);
+      activeDays.set(commit.developer, days);
+    }
+  }
+
+  const snapshot: MadSnapshot = {
+    month: windowEnd.slice(0, 7),
+    windowStart,
+    windowEnd,
+    activeDevelopers: activeDays.size,
+    cohorts: { fullTime: 0, partTime: 0, oneTime: 0 },
+    tenure: { newcomer: 0, emerging: 0, established: 0, unknown: 0 },
+  };
+  for (const [developer, days] of activeDays) {
+    snapshot.cohorts[cohortOf(days.size)]++;
+    snapshot.tenure[tenureOf(firstSeen.get(developer) ?? [...days].sort()[0], windowEnd, historyStart)]++;
+  }
+  return snapshot;
+}
+
+/**
+ * One snapshot per month between `since` and `until`: at the end of each
+ * month, and at `until` for the month it falls in. Only windows that start
+ * on or after `since` are included, since earlier activity may be missing.
+ */
+export function monthlyMadSeries(
+  commits: DeveloperCommit[],
+  options: { since: Date | string; until: Date | string; firstSeen?: Map<string, string>; historyStart?: string }
+): MadSnapshot[] {
+  const since = day(options.since);
+  const until = day(options.until);
+  const firstSeen = options.firstSeen ?? firstCommits(commits);
+
+  const ends: string[] = [];
+  let monthStart = `${since.slice(0, 7)}-01`;
+  while (monthStart <= until) {
+    const next = new Date(Date.parse(`${monthStart}T00:00:00Z`));
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const monthEnd = addDays(day(next), -1);
+    ends.push(monthEnd < until ? monthEnd : until);
+    monthStart = day(next);
+  }
+
+  return ends
+    .filter(end => addDays(end, -(MAD_WINDOW_DAYS - 1)) >= since)
+    .map(end => madSnapshot(commits, end, firstSeen, options.historyStart));
+}
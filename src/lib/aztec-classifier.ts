@@ -2,130 +2,66 @@
  * Shared library for classifying Noir/Aztec repositories
  */
 
-import axios, { AxiosInstance } from "axios";
-import axiosRetry from "axios-retry";
-import toml from "toml";
 import { logger } from "./logger";
-import { TokenRotator } from "./token-rotator";
-import { config as appConfig } from "./config";
-
-// Global token rotator instance (singleton)
-let tokenRotator: TokenRotator | null = null;
-let useTokenRotation = false;
-
-// Initialize token rotation if environment variable is set
-if (process.env.USE_TOKEN_ROTATION === 'true') {
-  try {
-    tokenRotator = new TokenRotator();
-    useTokenRotation = true;
-    logger.info(`Aztec classifier: Token rotation enabled with ${tokenRotator.getTokenCount()} tokens`);
-  } catch (error) {
-    logger.warn("Aztec classifier: Failed to initialize token rotation");
-  }
+import { GitHubTransport, getTransport } from "./github/transport";
+import {
+  buildNargoPackageGraph,
+  scanManifests,
+  scanNoirSources,
+  type DeclaredVersion,
+  type ManifestFinding,
+  type ManifestIndicator,
+  type NargoPackage,
+} from "./manifests";
+
+// .nr files read per repository in deep mode unless configured otherwise
+const DEFAULT_MAX_SOURCE_FILES = 20;
+
+export interface ClassifierOptions {
+  // Transport to issue requests through, defaults to the shared one
+  transport?: GitHubTransport;
+  // Manifest classifiers to run (see MANIFEST_CLASSIFIER_IDS), defaults to all of them
+  classifiers?: string[];
+  // Also scan .nr sources for Aztec.nr imports and macros (one tree request plus a fetch per file)
+  deep?: boolean;
+  // Cap on .nr files read in deep mode
+  maxSourceFiles?: number;
 }
 
 /**
- * Get the next token (with rotation if enabled)
+ * One indicator behind a verdict, as recorded for reviewers
  */
-function getNextToken(fallbackToken?: string): string {
-  if (useTokenRotation && tokenRotator) {
-    return tokenRotator.getNextToken();
-  }
-  return fallbackToken || process.env.GITHUB_TOKEN || '';
-}
-
-// Lazy-initialized axios instance with retry configuration
-let configuredAxios: AxiosInstance | null = null;
-
-// Get or create configured axios instance
-function getConfiguredAxios(): AxiosInstance {
-  if (!configuredAxios) {
-    configuredAxios = axios.create();
-
-    // Configure axios with retry logic using actual config values
-    axiosRetry(configuredAxios, {
-      retries: appConfig.retry.maxRetries,
-      retryDelay: (retryCount, error) => {
-        // Check for rate limit headers
-        const retryAfter = error.response?.headers?.['retry-after'];
-        const rateLimitReset = error.response?.headers?.['x-ratelimit-reset'];
-
-        // If we have a retry-after header, use it
-        if (retryAfter) {
-          const delay = parseInt(retryAfter) * 1000;
-          logger.info(`Rate limit retry-after header: waiting ${retryAfter} seconds`);
-          return Math.min(delay, appConfig.retry.maxRetryDelay);
-        }
-
-        // If we have a rate limit reset time, calculate delay
-        if (rateLimitReset) {
-          const resetTime = parseInt(rateLimitReset) * 1000;
-          const now = Date.now();
-          const delay = Math.max(resetTime - now + 1000, 1000); // Add 1s buffer
-          logger.info(`Rate limit reset at ${new Date(resetTime).toISOString()}, waiting ${Math.ceil(delay / 1000)} seconds`);
-          return Math.min(delay, appConfig.retry.maxRetryDelay);
-        }
-
-        // For rate limits without headers, use configured base delay
-        if (error.response?.status === 403 || error.response?.status === 429) {
-          const delay = Math.min(
-            appConfig.retry.rateLimitBaseDelay * retryCount,
-            appConfig.retry.maxRetryDelay
-          );
-          logger.info(`Rate limit detected, waiting ${delay / 1000} seconds before retry ${retryCount}`);
-          return delay;
-        }
-
-        // For other errors, use standard exponential backoff
-        const delay = Math.pow(2, retryCount - 1) * appConfig.retry.standardRetryBaseDelay;
-        return Math.min(delay, appConfig.retry.maxRetryDelay);
-      },
-      retryCondition: (error) => {
-        // Retry on network errors or 5xx errors or rate limiting (403/429)
-        const status = error.response?.status;
-        return axiosRetry.isNetworkOrIdempotentRequestError(error) ||
-               status === 429 ||
-               status === 403 ||
-               (status !== undefined && status >= 500 && status < 600);
-      },
-      onRetry: (retryCount, error, requestConfig) => {
-        // Rotate token on rate limit if token rotation is enabled
-        if ((error.response?.status === 403 || error.response?.status === 429) &&
-            useTokenRotation && tokenRotator) {
-          const newToken = tokenRotator.getNextToken();
-          if (requestConfig.headers) {
-            requestConfig.headers['Authorization'] = `Bearer ${newToken}`;
-            logger.info(`Rotated to new token for retry ${retryCount}`);
-          }
-        }
-
-        logger.warn({
-          retryCount,
-          url: requestConfig.url,
-          status: error.response?.status,
-          message: error.message
-        }, `Retrying request (attempt ${retryCount})`);
-      }
-    });
-  }
-
-  return configuredAxios;
-}
-
-interface NargoConfig {
-  package?: {
-    name?: string;
-    type?: string;
-  };
-  dependencies?: Record<string, any>;
+export interface ClassificationEvidence {
+  type: ManifestIndicator['kind'];
+  // File the evidence was found in
+  path: string;
+  weight: number;
+  // The dependency, setting or source line that matched
+  excerpt: string;
 }
 
 export interface ClassificationResult {
   isAztec: boolean;
+  // How sure the verdict is, from 0 (no evidence) to 1
+  confidence: number;
+  // Indicators supporting the verdict: Aztec ones for Aztec repositories, Noir ones otherwise
+  evidence: ClassificationEvidence[];
   nargoType: string;
   filesChecked: number;
   aztecIndicators: string[];
   nargoFiles: string[];
+  // Every Noir package and workspace found, with its local dependencies and members
+  packages: NargoPackage[];
+  // Noir, aztec-nr and @aztec/* / @noir-lang/* versions the manifests build against
+  versions: DeclaredVersion[];
+  // Every manifest that was parsed, with its own indicators
+  manifests: ManifestFinding[];
+  // Indicators of all manifests and, in deep mode, of .nr sources, merged
+  indicators: ManifestIndicator[];
+  // Ecosystems the indicators point at, e.g. ["aztec", "noir"]
+  signals: string[];
+  // .nr files scanned in deep mode
+  sourceFilesScanned?: number;
   apiFailure?: {
     searchFailed: boolean;
     allFetchesFailed: boolean;
@@ -134,314 +70,106 @@ export interface ClassificationResult {
 }
 
 /**
- * Search for all Nargo.toml files in a repository using GitHub's code search
- */
-export async function findAllNargoTomlFiles(
-  owner: string,
-  repo: string,
-  token: string
-): Promise<{ paths: string[]; searchFailed: boolean; failureReason?: string }> {
-  try {
-    const searchUrl = `https://api.github.com/search/code?q=filename:Nargo.toml+repo:${owner}/${repo}`;
-
-    // Use token rotation if enabled
-    const activeToken = getNextToken(token);
-
-    const response = await getConfiguredAxios().get(searchUrl, {
-      headers: {
-        Authorization: `Bearer ${activeToken}`,
-        Accept: 'application/vnd.github.v3+json'
-      },
-      timeout: appConfig.timeout.httpRequestTimeout
-    });
-
-    // Extract paths from search results
-    const paths = response.data.items?.map((item: any) => item.path) || [];
-    logger.debug(`Found ${paths.length} Nargo.toml files in ${owner}/${repo}: ${paths.join(', ')}`);
-    return { paths, searchFailed: false };
-  } catch (error: any) {
-    // Log detailed error information
-    const errorDetails = {
-      owner,
-      repo,
-      status: error.response?.status,
-      statusText: error.response?.statusText,
-      message: error.message,
-      code: error.code,
-      isTimeout: error.code === 'ECONNABORTED',
-      isRateLimit: error.response?.status === 403 || error.response?.status === 429
-    };
-
-    let failureReason = "Unknown error";
-    if (error.response?.status === 403 || error.response?.status === 429) {
-      failureReason = "Rate limit exceeded";
-      logger.error(errorDetails, "GitHub API rate limit hit while searching for Nargo.toml files");
-    } else if (error.code === 'ECONNABORTED') {
-      failureReason = "Request timeout";
-      logger.error(errorDetails, "Request timeout while searching for Nargo.toml files");
-    } else if (error.response?.status === 401) {
-      failureReason = "Authentication failed";
-      logger.error(errorDetails, "Authentication failed while searching for Nargo.toml files");
-    } else {
-      failureReason = error.message || "Search API error";
-      logger.warn(errorDetails, "Code search for Nargo.toml files failed, will try common paths");
-    }
-
-    return { paths: [], searchFailed: true, failureReason };
-  }
-}
-
-/**
- * Fetch and parse a Nargo.toml file from a specific path
- */
-export async function fetchNargoTomlFromPath(
-  owner: string,
-  repo: string,
-  path: string,
-  token: string
-): Promise<NargoConfig | null> {
-  try {
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-
-    // Use token rotation if enabled
-    const activeToken = getNextToken(token);
-
-    const response = await getConfiguredAxios().get(url, {
-      headers: {
-        Authorization: `Bearer ${activeToken}`,
-        Accept: 'application/vnd.github.v3+json'
-      },
-      timeout: appConfig.timeout.httpRequestTimeout
-    });
-
-    // Handle if it's a directory (shouldn't happen with Nargo.toml, but be safe)
-    if (response.data.type === 'dir') {
-      return null;
-    }
-
-    // Decode base64 content
-    const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-
-    // Parse TOML
-    const config = toml.parse(content) as NargoConfig;
-    return config;
-  } catch (error: any) {
-    if (error.response?.status === 404) {
-      // 404 is expected for paths that don't exist, just debug log
-      logger.debug({ owner, repo, path }, "Nargo.toml not found at path");
-    } else if (error.response?.status === 403 || error.response?.status === 429) {
-      logger.error({
-        owner,
-        repo,
-        path,
-        status: error.response?.status,
-        message: error.message
-      }, "Rate limited while fetching Nargo.toml");
-    } else if (error.code === 'ECONNABORTED') {
-      logger.error({ owner, repo, path }, "Timeout while fetching Nargo.toml");
-    } else {
-      logger.warn({
-        owner,
-        repo,
-        path,
-        status: error.response?.status,
-        error: error.message
-      }, "Failed to fetch Nargo.toml");
-    }
-    return null;
-  }
-}
-
-/**
- * Analyze a single Nargo.toml config to determine if it's Aztec-related
+ * Primary Nargo package type: a contract wins, then the type of an Aztec
+ * package, then the first package found
  */
-export function analyzeNargoConfig(config: NargoConfig): {
-  isAztec: boolean;
-  type: string;
-  indicators: string[];
-} {
-  const indicators: string[] = [];
-  let isAztec = false;
-  const packageType = config.package?.type || 'bin';
-
-  // Check if it's a contract (definite Aztec indicator)
-  if (packageType === 'contract') {
-    isAztec = true;
-    indicators.push('type=contract');
-  }
-
-  // Check dependencies for Aztec-related packages
-  if (config.dependencies) {
-    for (const [dep, _] of Object.entries(config.dependencies)) {
-      const depLower = dep.toLowerCase();
-      // Check for various Aztec-related dependencies
-      if (depLower.includes('aztec') ||
-          depLower === 'aztec.nr' ||
-          depLower === 'aztec' ||
-          depLower.includes('aztec_') ||
-          depLower.startsWith('aztec-')) {
-        isAztec = true;
-        indicators.push(`dependency:${dep}`);
+function primaryNargoType(packages: NargoPackage[]): string {
+  let primaryType = 'unknown';
+  let aztecFound = false;
+
+  // A workspace root says nothing about what its members are
+  for (const pkg of packages.filter(pkg => pkg.type !== 'workspace')) {
+    const type = pkg.type;
+    const isAztec = pkg.status === 'aztec';
+
+    // If ANY Nargo.toml indicates Aztec, the whole repo is Aztec
+    if (isAztec) {
+      aztecFound = true;
+      // Contract type takes precedence for the primary type
+      if (primaryType !== 'contract') {
+        primaryType = type;
       }
+    } else if (!aztecFound && primaryType === 'unknown') {
+      // Only update type if we haven't found any Aztec indicators yet
+      primaryType = type;
     }
   }
 
-  return { isAztec, type: packageType, indicators };
+  return primaryType;
 }
 
 /**
- * Common paths where Nargo.toml files might be located
+ * Combined confidence of independent pieces of evidence: the chance that not
+ * all of them are wrong, 1 - (1 - w1)(1 - w2)...
  */
-const COMMON_NARGO_PATHS = [
-  'Nargo.toml',
-  'contracts/Nargo.toml',
-  'src/Nargo.toml',
-  'packages/contracts/Nargo.toml',
-  'circuits/Nargo.toml',
-  'app/Nargo.toml',
-  'examples/Nargo.toml',
-  'packages/aztec-contracts/Nargo.toml',
-  'packages/noir-contracts/Nargo.toml',
-  'contracts/src/Nargo.toml',
-  // Additional nested package paths
-  'packages/aztec-contracts/emitter/Nargo.toml',  // Specifically for the problematic repo
-  'packages/aztec-contracts/*/Nargo.toml',
-  'packages/*/contracts/Nargo.toml',
-  'packages/*/Nargo.toml',
-  'contracts/*/Nargo.toml',
-  'src/contracts/Nargo.toml',
-  'src/*/Nargo.toml',
-  'examples/*/Nargo.toml',
-  'tests/Nargo.toml',
-  'test/Nargo.toml',
-  // More aztec-specific patterns
-  'aztec/Nargo.toml',
-  'aztec-contracts/Nargo.toml',
-  'noir-contracts/Nargo.toml',
-  'packages/aztec/Nargo.toml',
-  'packages/noir/Nargo.toml'
-];
+export function combineWeights(weights: number[]): number {
+  const doubt = weights.reduce((product, weight) => product * (1 - Math.min(Math.max(weight, 0), 1)), 1);
+  return Math.round((1 - doubt) * 1000) / 1000;
+}
 
 /**
  * Comprehensively analyze a repository to determine if it's Aztec or Noir
  * This is the SINGLE SOURCE OF TRUTH for classification
+ *
+ * Every manifest classifier (Nargo.toml, package.json, Cargo.toml, ...) runs
+ * over the repository; an Aztec indicator in any of their manifests makes the
+ * whole repository Aztec. In deep mode the repository's .nr sources are
+ * scanned as well, which catches aztec-nr vendored under another name.
  */
 export async function classifyRepository(
   owner: string,
   repo: string,
-  token: string
+  options: ClassifierOptions = {}
 ): Promise<ClassificationResult> {
-  const aztecIndicators: string[] = [];
-  let isAztecRepo = false;
-  let primaryType = 'unknown';
-  let filesChecked = 0;
-  const nargoFilesFound: string[] = [];
-  let apiFailure: ClassificationResult['apiFailure'] = undefined;
-
-  // First, try to find all Nargo.toml files via search
-  const searchResult = await findAllNargoTomlFiles(owner, repo, token);
-  let nargoPaths = searchResult.paths;
-
-  // Track if search failed
-  if (searchResult.searchFailed) {
-    apiFailure = {
-      searchFailed: true,
-      allFetchesFailed: false, // Will be determined after trying fallback paths
-      reason: searchResult.failureReason || 'Search failed'
-    };
-  }
-
-  // If search didn't work or found nothing, try common paths
-  if (nargoPaths.length === 0) {
-    if (searchResult.searchFailed) {
-      logger.info(`Search failed for ${owner}/${repo} (${searchResult.failureReason}), trying fallback paths`);
-    } else {
-      logger.debug(`No Nargo.toml files found via search for ${owner}/${repo}, trying common paths`);
-    }
-    nargoPaths = COMMON_NARGO_PATHS;
-  } else {
-    logger.info(`Found ${nargoPaths.length} Nargo.toml files in ${owner}/${repo} via search`);
+  const transport = options.transport ?? getTransport();
+  const scan = await scanManifests(owner, repo, transport, { classifiers: options.classifiers });
+
+  const sources = options.deep
+    ? await scanNoirSources(owner, repo, transport, options.maxSourceFiles ?? DEFAULT_MAX_SOURCE_FILES)
+    : undefined;
+
+  const indicators = [...scan.findings.flatMap(finding => finding.indicators), ...(sources?.indicators ?? [])];
+  const signals = [...new Set(indicators.flatMap(indicator => indicator.signal ? [indicator.signal] : []))];
+  const isAztecRepo = signals.includes('aztec');
+  const nargoFindings = scan.findings.filter(finding => finding.classifier === 'nargo');
+  const packages = buildNargoPackageGraph(nargoFindings);
+
+  // One line per file, manifests first, in the order the indicators were found
+  const aztecDetails = new Map<string, string[]>();
+  for (const indicator of indicators.filter(indicator => indicator.signal === 'aztec')) {
+    aztecDetails.set(indicator.path, [...(aztecDetails.get(indicator.path) ?? []), indicator.detail]);
   }
+  const aztecIndicators = [...aztecDetails].map(([path, details]) => `${path}: ${details.join(', ')}`);
 
-  // Track if we're using fallback paths
-  const usingFallbackPaths = searchResult.searchFailed || (searchResult.paths.length === 0);
-  let fallbackFetchAttempts = 0;
-  let fallbackFetchFailures = 0;
-
-  // Check each potential Nargo.toml file
-  for (let i = 0; i < nargoPaths.length; i++) {
-    const path = nargoPaths[i];
-
-    // Track fallback fetch attempts
-    if (usingFallbackPaths) {
-      fallbackFetchAttempts++;
-    }
-
-    const config = await fetchNargoTomlFromPath(owner, repo, path, token);
-
-    if (config) {
-      filesChecked++;
-      nargoFilesFound.push(path);
-      const analysis = analyzeNargoConfig(config);
-
-      logger.debug(`Analyzed ${path} in ${owner}/${repo}: isAztec=${analysis.isAztec}, type=${analysis.type}, indicators=${analysis.indicators.join(', ')}`);
-
-      // If ANY Nargo.toml indicates Aztec, the whole repo is Aztec
-      if (analysis.isAztec) {
-        isAztecRepo = true;
-        aztecIndicators.push(`${path}: ${analysis.indicators.join(', ')}`);
-
-        // Contract type takes precedence for the primary type
-        if (analysis.type === 'contract') {
-          primaryType = 'contract';
-        } else if (primaryType === 'unknown' || primaryType !== 'contract') {
-          primaryType = analysis.type;
-        }
-      } else if (!isAztecRepo) {
-        // Only update type if we haven't found any Aztec indicators yet
-        if (primaryType === 'unknown') {
-          primaryType = analysis.type;
-        }
-      }
-    } else if (usingFallbackPaths) {
-      // Track failed fetches when using fallback paths
-      fallbackFetchFailures++;
-    }
-
-    // Rate limiting - small delay between API calls
-    if (i < nargoPaths.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
-  }
-
-  // Update API failure info if all fallback fetches failed
-  if (apiFailure && usingFallbackPaths && fallbackFetchAttempts > 0) {
-    apiFailure.allFetchesFailed = (fallbackFetchFailures === fallbackFetchAttempts);
-    if (apiFailure.allFetchesFailed) {
-      logger.warn(`All ${fallbackFetchAttempts} fallback fetch attempts failed for ${owner}/${repo}`);
-    }
-  }
-
-  // If still unknown but we found files, default to 'bin' for Noir projects
-  if (!isAztecRepo && filesChecked > 0 && primaryType === 'unknown') {
-    primaryType = 'bin';
-  }
+  const evidence = indicators
+    .filter(indicator => indicator.signal === (isAztecRepo ? 'aztec' : 'noir'))
+    .map(indicator => ({ type: indicator.kind, path: indicator.path, weight: indicator.weight, excerpt: indicator.excerpt ?? indicator.detail }));
 
   const result: ClassificationResult = {
     isAztec: isAztecRepo,
-    nargoType: primaryType,
-    filesChecked,
+    confidence: combineWeights(evidence.map(item => item.weight)),
+    evidence,
+    nargoType: primaryNargoType(packages),
+    filesChecked: scan.filesChecked,
     aztecIndicators,
-    nargoFiles: nargoFilesFound,
-    ...(apiFailure && { apiFailure })
+    nargoFiles: nargoFindings.map(finding => finding.path),
+    packages,
+    versions: scan.findings.flatMap(finding => (finding.versions ?? []).map(version => ({ ...version, path: finding.path }))),
+    manifests: scan.findings,
+    indicators,
+    signals,
+    ...(sources && { sourceFilesScanned: sources.filesScanned }),
+    ...(scan.apiFailure && { apiFailure: scan.apiFailure })
   };
 
   // Enhanced logging with API failure info
-  if (apiFailure) {
-    logger.info(`Classification for ${owner}/${repo}: ${isAztecRepo ? 'AZTEC' : 'NOIR'} (checked ${filesChecked} files, found ${nargoFilesFound.length}) [API ISSUES: search=${apiFailure.searchFailed}, allFetchesFailed=${apiFailure.allFetchesFailed}]`);
+  const sourceSummary = sources ? `, scanned ${sources.filesScanned} .nr files` : '';
+  const manifestSummary = `checked ${scan.filesChecked} manifests, found ${result.nargoFiles.length} Nargo.toml${sourceSummary}${signals.length > 0 ? `, signals: ${signals.join(', ')}` : ''}`;
+  if (scan.apiFailure) {
+    logger.info(`Classification for ${owner}/${repo}: ${isAztecRepo ? 'AZTEC' : 'NOIR'} at ${result.confidence} (${manifestSummary}) [API ISSUES: search=${scan.apiFailure.searchFailed}, allFetchesFailed=${scan.apiFailure.allFetchesFailed}]`);
   } else {
-    logger.info(`Classification for ${owner}/${repo}: ${isAztecRepo ? 'AZTEC' : 'NOIR'} (checked ${filesChecked} files, found ${nargoFilesFound.length})`);
+    logger.info(`Classification for ${owner}/${repo}: ${isAztecRepo ? 'AZTEC' : 'NOIR'} at ${result.confidence} (${manifestSummary})`);
   }
 
   return result;
-}
\ No newline at end of file
+}
@@ -0,0 +1,181 @@
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./logger";
+import { config } from "./config";
+import { CheckpointError } from "./errors";
+
+export interface CheckpointState<TResult> {
+  runId: string;
+  status: 'running' | 'completed';
+  createdAt: string;
+  updatedAt: string;
+  completedQueries: string[];
+  processedRepos: string[];
+  results: TResult[];
+  totalSearchResults: number;
+}
+
+/**
+ * Persistent progress record for a long-running discovery run.
+ *
+ * The checkpoint is rewritten (atomically, via a temp file) as the run progresses:
+ * after every completed query, and at most every config.checkpoint.saveInterval
+ * while repositories are classified, so a crash only loses the repositories
+ * classified since the last write. Call save() before exiting on Ctrl-C.
+ */
+export class DiscoveryCheckpoint<TResult = unknown> {
+  private completedQueries: Set<string>;
+  private processedRepos: Set<string>;
+  private lastSavedAt = 0;
+
+  private constructor(
+    private state: CheckpointState<TResult>,
+    private filePath: string
+  ) {
+    this.completedQueries = new Set(state.completedQueries);
+    this.processedRepos = new Set(state.processedRepos);
+  }
+
+  /**
+   * Start a fresh checkpoint for a new run
+   */
+  static create<TResult>(runId: string, dir: string = config.checkpoint.dir): DiscoveryCheckpoint<TResult> {
+    const filePath = DiscoveryCheckpoint.pathFor(runId, dir);
+    if (fs.existsSync(filePath)) {
+      throw new CheckpointError(`Checkpoint already exists for run ${runId}, use --resume instead`, runId);
+    }
+
+    const now = new Date().toISOString();
+    const checkpoint = new DiscoveryCheckpoint<TResult>({
+      runId,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      completedQueries: [],
+      processedRepos: [],
+      results: [],
+      totalSearchResults: 0,
+    }, filePath);
+
+    checkpoint.save();
+    logger.info({ runId, filePath }, "Created discovery checkpoint");
+    return checkpoint;
+  }
+
+  /**
+   * Load an existing checkpoint to resume a run
+   */
+  static load<TResult>(runId: string, dir: string = config.checkpoint.dir): DiscoveryCheckpoint<TResult> {
+    const filePath = DiscoveryCheckpoint.pathFor(runId, dir);
+    if (!fs.existsSync(filePath)) {
+      throw new CheckpointError(`No checkpoint found for run ${runId} at ${filePath}`, runId);
+    }
+
+    let state: CheckpointState<TResult>;
+    try {
+      state = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new CheckpointError(`Checkpoint for run ${runId} is not valid JSON: ${error}`, runId);
+    }
+
+    logger.info({
+      runId,
+      completedQueries: state.completedQueries.length,
+      processedRepos: state.processedRepos.length,
+      results: state.results.length,
+    }, "Resuming from discovery checkpoint");
+
+    return new DiscoveryCheckpoint<TResult>(state, filePath);
+  }
+
+  /**
+   * Resolve the checkpoint file for a run id
+   */
+  static pathFor(runId: string, dir: string = config.checkpoint.dir): string {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new CheckpointError(`Invalid run id: ${runId}`, runId);
+    }
+    return path.join(dir, `${runId}.json`);
+  }
+
+  get runId(): string {
+    return this.state.runId;
+  }
+
+  get createdAt(): string {
+    return this.state.createdAt;
+  }
+
+  get results(): TResult[] {
+    return this.state.results;
+  }
+
+  get totalSearchResults(): number {
+    return this.state.totalSearchResults;
+  }
+
+  get isCompleted(): boolean {
+    return this.state.status === 'completed';
+  }
+
+  isQueryCompleted(query: string): boolean {
+    return this.completedQueries.has(query);
+  }
+
+  hasProcessedRepo(fullName: string): boolean {
+    return this.processedRepos.has(fullName);
+  }
+
+  get processedRepoCount(): number {
+    return this.processedRepos.size;
+  }
+
+  /**
+   * Record a repository as seen, optionally with its classification result
+   */
+  markRepoProcessed(fullName: string, result?: TResult): void {
+    this.processedRepos.add(fullName);
+    if (result !== undefined) {
+      this.state.results.push(result);
+    }
+    if (Date.now() - this.lastSavedAt >= config.checkpoint.saveInterval) {
+      this.save();
+    }
+  }
+
+  /**
+   * Record a search query as fully walked
+   */
+  markQueryCompleted(query: string, searchResultCount: number): void {
+    this.completedQueries.add(query);
+    this.state.totalSearchResults += searchResultCount;
+    this.save();
+  }
+
+  /**
+   * Mark the whole run as finished
+   */
+  complete(): void {
+    this.state.status = 'completed';
+    this.save();
+  }
+
+  /**
+   * Write the checkpoint to disk atomically
+   */
+  save(): void {
+    this.state.completedQueries = Array.from(this.completedQueries);
+    this.state.processedRepos = Array.from(this.processedRepos);
+    this.state.updatedAt = new Date().toISOString();
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+    this.lastSavedAt = Date.now();
+  }
+}
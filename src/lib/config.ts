@@ -11,6 +11,50 @@ function parseEnvNumber(envVar: string | undefined, defaultValue: number): numbe
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Parse an environment variable as a fractional number with a default value
+ */
+function parseEnvFloat(envVar: string | undefined, defaultValue: number): number {
+  if (!envVar) return defaultValue;
+  const parsed = parseFloat(envVar);
+  return isNaN(parsed) ? defaultValue : parsed;
+}
+
+/**
+ * GitHub API endpoint configuration
+ */
+export const githubConfig = {
+  // Base URL for the REST API (point at a mock server for offline tests)
+  apiBaseUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+
+  // Draw a token per request from GITHUB_TOKEN, GITHUB_TOKEN_1..10
+  useTokenRotation: process.env.USE_TOKEN_ROTATION === 'true',
+
+  // How a rotated token is chosen: most-remaining, least-recently-used or round-robin
+  tokenSelectionStrategy: process.env.TOKEN_SELECTION_STRATEGY || 'most-remaining',
+};
+
+/**
+ * GitHub App authentication (installation tokens join the rotation pool)
+ */
+export const githubAppConfig = {
+  // Numeric App id; App authentication is off when unset
+  appId: process.env.GITHUB_APP_ID,
+
+  // Installations to draw tokens for (comma-separated ids)
+  installationIds: (process.env.GITHUB_APP_INSTALLATION_ID || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean),
+
+  // PEM private key, inline (with \n escapes) or as a file path
+  privateKey: process.env.GITHUB_APP_PRIVATE_KEY,
+  privateKeyPath: process.env.GITHUB_APP_PRIVATE_KEY_PATH,
+
+  // Refresh an installation token this long before it expires, in milliseconds
+  refreshMargin: parseEnvNumber(process.env.GITHUB_APP_TOKEN_REFRESH_MARGIN, 5 * 60 * 1000),
+};
+
 /**
  * Timeout configuration
  */
@@ -50,21 +94,108 @@ export const rateLimitConfig = {
   searchQueryDelay: parseEnvNumber(process.env.SEARCH_QUERY_DELAY, 2000),
 };
 
+/**
+ * Checkpoint configuration for resumable discovery runs
+ */
+export const checkpointConfig = {
+  // Directory where run checkpoints are written
+  dir: process.env.CHECKPOINT_DIR || './output/checkpoints',
+  // Least time between checkpoint writes for classified repositories (ms);
+  // completed queries are always written
+  saveInterval: parseEnvNumber(process.env.CHECKPOINT_SAVE_INTERVAL, 10000),
+};
+
+/**
+ * HTTP response cache configuration
+ */
+export const cacheConfig = {
+  // Whether GitHub responses are cached on disk (disable with --no-cache)
+  enabled: process.env.HTTP_CACHE !== 'false',
+
+  // Directory where cached responses are stored
+  dir: process.env.HTTP_CACHE_DIR || './.cache/github',
+
+  // How long a cached response is served without revalidation, per endpoint class (milliseconds)
+  ttl: {
+    search: parseEnvNumber(process.env.HTTP_CACHE_TTL_SEARCH, 6 * 60 * 60 * 1000),
+    contents: parseEnvNumber(process.env.HTTP_CACHE_TTL_CONTENTS, 24 * 60 * 60 * 1000),
+    commits: parseEnvNumber(process.env.HTTP_CACHE_TTL_COMMITS, 60 * 60 * 1000),
+    default: parseEnvNumber(process.env.HTTP_CACHE_TTL_DEFAULT, 60 * 60 * 1000),
+  },
+};
+
+/**
+ * Manual review of uncertain classifications
+ */
+export const reviewConfig = {
+  // Classifications below this confidence (0-1) are queued for review
+  confidenceThreshold: parseEnvFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD, 0.8),
+
+  // Reviewer decisions, kept under version control and applied to every run
+  decisionsPath: process.env.REVIEW_DECISIONS_PATH || './review/decisions.json',
+};
+
+/**
+ * Local SQLite repository store
+ */
+export const storeConfig = {
+  // Database file repositories, classifications and commits are kept in
+  path: process.env.REPOSITORY_STORE_PATH || './output/repositories.db',
+  // Days before the end of the last commit sync that each sync fetches again,
+  // for commits that land after it with an older author date (merged branches)
+  commitOverlapDays: parseEnvNumber(process.env.COMMIT_SYNC_OVERLAP_DAYS, 30),
+};
+
+/**
+ * Developer identity resolution
+ */
+export const developerConfig = {
+  // Logins, emails and names to treat as one developer, kept under version control
+  aliasesPath: process.env.DEVELOPER_ALIASES_PATH || './review/developer-aliases.json',
+
+  // Logins, emails or names never counted as bots (comma-separated)
+  botAllowList: (process.env.BOT_ALLOW_LIST || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean),
+
+  // Logins, emails or names always counted as bots (comma-separated)
+  botDenyList: (process.env.BOT_DENY_LIST || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean),
+};
+
 /**
  * Get all configuration as a single object
  */
 export const config = {
+  github: githubConfig,
+  githubApp: githubAppConfig,
   timeout: timeoutConfig,
   retry: retryConfig,
   rateLimit: rateLimitConfig,
+  checkpoint: checkpointConfig,
+  cache: cacheConfig,
+  review: reviewConfig,
+  store: storeConfig,
+  developers: developerConfig,
 };
 
 // Log configuration on module load (only in development)
 if (process.env.NODE_ENV !== 'production') {
   console.debug('Loaded configuration:', {
+    github: githubConfig,
+    // Never log the private key
+    githubApp: { ...githubAppConfig, privateKey: githubAppConfig.privateKey ? '[set]' : undefined },
     timeout: timeoutConfig,
     retry: retryConfig,
     rateLimit: rateLimitConfig,
+    checkpoint: checkpointConfig,
+    cache: cacheConfig,
+    review: reviewConfig,
+    store: storeConfig,
+    developers: developerConfig,
   });
 }
 
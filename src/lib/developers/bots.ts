@@ -0,0 +1,146 @@
+import { config } from "../config";
+import { commitIdentity, type IdentityResolver, type ResolvedDeveloper } from "./identity";
+
+/**
+ * Why a developer counts as automation
+ */
+export type BotReason = 'bot-account' | 'bot-suffix' | 'automation-account' | 'commit-messages' | 'deny-list';
+
+export interface BotListOptions {
+  // Logins, emails or names never counted as bots
+  allow?: string[];
+  // Logins, emails or names always counted as bots
+  deny?: string[];
+}
+
+/**
+ * What a commit says about its author beyond their identity
+ */
+export interface BotEvidence {
+  // GitHub account type: User or Bot
+  authorType?: string;
+  message?: string;
+}
+
+// Automation that commits under a plain-looking account
+export const AUTOMATION_ACCOUNTS = [
+  'dependabot',
+  'dependabot-preview',
+  'renovate',
+  'renovate-bot',
+  'renovatebot',
+  'github-actions',
+  'github-action',
+  'greenkeeper',
+  'snyk-bot',
+  'codecov',
+  'mergify',
+  'allcontributors',
+  'semantic-release-bot',
+  'release-please',
+  'pre-commit-ci',
+  'imgbot',
+  'copilot',
+];
+
+// Messages automation writes; a developer whose every commit matches one is a
+// bot if their identity also hints at automation (AUTOMATION_HINT)
+export const AUTOMATION_MESSAGE_PATTERNS: RegExp[] = [
+  /^bump \S+ from \S+ to \S+/i,
+  /^(chore|build|fix)\(deps(-dev)?\): (bump|update|pin|lock)/i,
+  /^update dependency \S+ to /i,
+  /^chore\((main|master|release)\): release /i,
+  /^\[pre-commit\.ci\]/i,
+  /^automated (commit|update|changes|release)/i,
+  /^merge pull request #\d+ from \S+\/(dependabot|renovate)\//i,
+];
+
+// Words in a login, name or email address that hint at automation, too
+// common in people's identities to decide on their own
+const AUTOMATION_HINT = /\b(bots?|ci|automation|automated|release|releaser|actions?|deploy|deployer|runner|updater)\b/i;
+
+/**
+ * Whether a commit message looks written by automation
+ */
+export function isAutomationMessage(message: string): boolean {
+  const subject = message.split('\n')[0].trim();
+  return AUTOMATION_MESSAGE_PATTERNS.some(pattern => pattern.test(subject));
+}
+
+function withoutBotSuffix(value: string): string {
+  return value.toLowerCase().replace(/\[bot\]$/, '').trim();
+}
+
+/**
+ * Tells automation accounts from people, from the GitHub account type,
+ * `[bot]` suffixes, known automation accounts and, for identities that
+ * hint at automation, commit messages: people bump dependencies too. The
+ * allow and deny lists (BOT_ALLOW_LIST and BOT_DENY_LIST by default)
+ * override everything else.
+ */
+export class BotClassifier {
+  private readonly allow: Set<string>;
+  private readonly deny: Set<string>;
+
+  constructor(options: BotListOptions = {}) {
+    this.allow = new Set((options.allow ?? config.developers.botAllowList).map(withoutBotSuffix));
+    this.deny = new Set((options.deny ?? config.developers.botDenyList).map(withoutBotSuffix));
+  }
+
+  /**
+   * Why a developer is a bot, or undefined for a person
+   */
+  classify(developer: ResolvedDeveloper, commits: BotEvidence[]): BotReason | undefined {
+    const identities = [developer.id, ...developer.logins, ...developer.emails, ...developer.names].map(withoutBotSuffix);
+    if (identities.some(identity => this.allow.has(identity))) {
+      return undefined;
+    }
+    if (identities.some(identity => this.deny.has(identity))) {
+      return 'deny-list';
+    }
+    if (commits.some(commit => commit.authorType === 'Bot')) {
+      return 'bot-account';
+    }
+    if ([...developer.logins, ...developer.names].some(value => /\[bot\]$|-bot$/i.test(value.trim()))) {
+      return 'bot-suffix';
+    }
+    if ([...developer.logins, ...developer.names].some(value => AUTOMATION_ACCOUNTS.includes(withoutBotSuffix(value)))) {
+      return 'automation-account';
+    }
+    const hinted = [...developer.logins, ...developer.names, ...developer.emails.map(email => email.split('@')[0])]
+      .some(value => AUTOMATION_HINT.test(value));
+    if (hinted && commits.length > 0 && commits.every(commit => commit.message && isAutomationMessage(commit.message))) {
+      return 'commit-messages';
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Bots among the developers behind some stored commits, by resolved
+ * developer id. Add the commits to the resolver first.
+ */
+export function classifyBots(
+  commits: (BotEvidence & { authorLogin?: string; authorName?: string; authorEmail?: string })[],
+  resolver: IdentityResolver,
+  classifier: BotClassifier = new BotClassifier()
+): Map<string, BotReason> {
+  const byDeveloper = new Map<string, { developer: ResolvedDeveloper; commits: BotEvidence[] }>();
+  for (const commit of commits) {
+    const developer = resolver.resolve(commitIdentity(commit));
+    if (developer) {
+      const entry = byDeveloper.get(developer.id) ?? { developer, commits: [] };
+      entry.commits.push(commit);
+      byDeveloper.set(developer.id, entry);
+    }
+  }
+
+  const bots = new Map<string, BotReason>();
+  for (const [id, { developer, commits: evidence }] of byDeveloper) {
+    const reason = classifier.classify(developer, evidence);
+    if (reason) {
+      bots.set(id, reason);
+    }
+  }
+  return bots;
+}
@@ -0,0 +1,296 @@
+import * as fs from "fs";
+import { config } from "../config";
+import { IdentityError } from "../errors";
+import { logger } from "../logger";
+
+/**
+ * Who a commit says wrote it: the GitHub account it is linked to (if any)
+ * and the git author name and email
+ */
+export interface CommitIdentity {
+  login?: string;
+  name?: string;
+  email?: string;
+}
+
+/**
+ * A developer as the alias file describes them: every login, email and
+ * name listed is the same person, reported under `id`
+ */
+export interface DeveloperAlias {
+  id: string;
+  logins?: string[];
+  emails?: string[];
+  names?: string[];
+}
+
+interface AliasesFile {
+  version: 1;
+  developers: DeveloperAlias[];
+}
+
+/**
+ * One person behind any number of commit identities
+ */
+export interface ResolvedDeveloper {
+  // Alias id, else the first login, else the first name or email seen
+  id: string;
+  logins: string[];
+  emails: string[];
+  names: string[];
+}
+
+// Placeholder values git and tooling fill in; linking on them would merge strangers
+const GENERIC_NAMES = new Set(['root', 'ubuntu', 'admin', 'user', 'unknown', 'your name', 'github', 'test']);
+const GENERIC_EMAILS = new Set(['noreply@github.com', 'you@example.com', 'your.email@example.com', 'root@localhost']);
+
+/**
+ * Login behind a GitHub noreply address: 12345+alice@users.noreply.github.com
+ * and alice@users.noreply.github.com both belong to alice
+ */
+export function noreplyLogin(email: string): string | undefined {
+  const match = email.trim().match(/^(?:\d+\+)?([^@+]+)@users\.noreply\.github\.com$/i);
+  return match?.[1].toLowerCase();
+}
+
+/**
+ * A name compared without case, accents, punctuation or extra spaces:
+ * "José  Pérez-Díaz" and "jose perez diaz" are the same
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Keys an identity can be linked on: its login (also read from a noreply
+ * email), email and normalized name, leaving out placeholder values
+ */
+export function identityKeys(identity: CommitIdentity): string[] {
+  const keys: string[] = [];
+  if (identity.login?.trim()) {
+    keys.push(`login:${identity.login.trim().toLowerCase()}`);
+  }
+  const email = identity.email?.trim().toLowerCase();
+  if (email && email.includes('@') && !GENERIC_EMAILS.has(email)) {
+    const login = noreplyLogin(email);
+    keys.push(login ? `login:${login}` : `email:${email}`);
+  }
+  const name = identity.name ? normalizeName(identity.name) : '';
+  if (name && !GENERIC_NAMES.has(name)) {
+    keys.push(`name:${name}`);
+  }
+  return [...new Set(keys)];
+}
+
+/**
+ * Load the developer alias file, or no aliases if it does not exist
+ */
+export function loadDeveloperAliases(filePath: string = config.developers.aliasesPath): DeveloperAlias[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  let file: AliasesFile;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new IdentityError(`Developer aliases ${filePath} are not valid JSON: ${error}`, filePath);
+  }
+  if (!Array.isArray(file.developers)) {
+    throw new IdentityError(`Developer aliases ${filePath} have no "developers" array`, filePath);
+  }
+  file.developers.forEach((developer, index) => {
+    if (typeof developer.id !== 'string' || !developer.id.trim()) {
+      throw new IdentityError(`Developer alias ${index + 1} in ${filePath} has no id`, filePath);
+    }
+  });
+
+  logger.debug({ filePath, developers: file.developers.length }, "Loaded developer aliases");
+  return file.developers;
+}
+
+/**
+ * Merges commit identities that belong to the same person. Identities with
+ * the same login (including the one in a noreply email) are one developer;
+ * different logins are only joined by the alias file, never by a shared
+ * name or email. Identities without a login are linked to each other by
+ * email or normalized name, and to a login's developer when exactly one
+ * login carries one of those emails or names.
+ *
+ * Add every identity first, then resolve: a later identity can link two
+ * that looked unrelated.
+ */
+export class IdentityResolver {
+  // Keys the alias file lists together
+  private readonly aliasLinks: string[][] = [];
+  // Alias id of each key the alias file mentions
+  private readonly aliasIds = new Map<string, string>();
+  private readonly seen: CommitIdentity[] = [];
+  // Union-find over identity keys, rebuilt with the groups
+  private parent = new Map<string, string>();
+  // Roots of the logins carrying each email and name key
+  private carriers = new Map<string, Set<string>>();
+  private groups?: Map<string, ResolvedDeveloper>;
+
+  constructor(aliases: DeveloperAlias[] = []) {
+    for (const alias of aliases) {
+      const keys = [
+        ...(alias.logins ?? []).flatMap(login => identityKeys({ login })),
+        ...(alias.emails ?? []).flatMap(email => identityKeys({ email })),
+        ...(alias.names ?? []).flatMap(name => identityKeys({ name })),
+        // The id is a login unless the file says otherwise
+        ...(alias.logins?.length ? [] : identityKeys({ login: alias.id })),
+      ];
+      keys.forEach(key => this.aliasIds.set(key, alias.id));
+      this.aliasLinks.push(keys);
+    }
+  }
+
+  private find(key: string): string {
+    let root = key;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    this.parent.set(key, root);
+    return root;
+  }
+
+  private link(keys: string[]): void {
+    keys.forEach(key => this.find(key));
+    for (const key of keys.slice(1)) {
+      const a = this.find(keys[0]);
+      const b = this.find(key);
+      if (a !== b) {
+        this.parent.set(b, a);
+      }
+    }
+  }
+
+  /**
+   * Root of the one login's developer carrying any of these email and name
+   * keys, or undefined if none or several do
+   */
+  private carrier(keys: string[]): string | undefined {
+    const roots = new Set(keys.flatMap(key => [...this.carriers.get(key) ?? []].map(root => this.find(root))));
+    return roots.size === 1 ? [...roots][0] : undefined;
+  }
+
+  /**
+   * Record an identity to be resolved with the others
+   */
+  add(identity: CommitIdentity): void {
+    if (identityKeys(identity).length > 0) {
+      this.seen.push(identity);
+      this.groups = undefined;
+    }
+  }
+
+  /**
+   * The developer behind an identity, or undefined if it has nothing to
+   * go by. Identities not added before are resolved on their own.
+   */
+  resolve(identity: CommitIdentity): ResolvedDeveloper | undefined {
+    const keys = identityKeys(identity);
+    if (keys.length === 0) {
+      return undefined;
+    }
+    const groups = this.resolvedGroups();
+    const login = keys.find(key => key.startsWith('login:'));
+    const known = login
+      ? (this.parent.has(login) ? this.find(login) : undefined)
+      : (keys.filter(key => this.parent.has(key)).map(key => this.find(key))[0] ?? this.carrier(keys));
+    return (known && groups.get(known)) || this.developer([identity], keys);
+  }
+
+  /**
+   * Every developer among the identities added, sorted by id
+   */
+  developers(): ResolvedDeveloper[] {
+    return [...new Set(this.resolvedGroups().values())].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private resolvedGroups(): Map<string, ResolvedDeveloper> {
+    if (this.groups) {
+      return this.groups;
+    }
+    this.parent = new Map();
+    this.carriers = new Map();
+    this.aliasLinks.forEach(keys => this.link(keys));
+
+    // A login stands for its identities; their emails and names only say which login carries them
+    const withoutLogin: string[][] = [];
+    for (const identity of this.seen) {
+      const keys = identityKeys(identity);
+      const login = keys.find(key => key.startsWith('login:'));
+      if (!login) {
+        withoutLogin.push(keys);
+        this.link(keys);
+        continue;
+      }
+      this.find(login);
+      for (const key of keys.filter(key => !key.startsWith('login:'))) {
+        this.carriers.set(key, (this.carriers.get(key) ?? new Set()).add(login));
+      }
+    }
+
+    // Identities without a login join the developer of the one login carrying their emails or names
+    const loginRoots = new Set([...this.parent.keys()].filter(key => key.startsWith('login:')).map(key => this.find(key)));
+    const clusters = new Map<string, string[]>();
+    for (const keys of withoutLogin) {
+      const root = this.find(keys[0]);
+      clusters.set(root, [...clusters.get(root) ?? [], ...keys]);
+    }
+    for (const [root, keys] of clusters) {
+      const owner = loginRoots.has(root) ? undefined : this.carrier(keys);
+      if (owner) {
+        this.parent.set(root, owner);
+      }
+    }
+
+    const members = new Map<string, { identities: CommitIdentity[]; keys: string[] }>();
+    for (const identity of this.seen) {
+      const keys = identityKeys(identity);
+      const root = this.find(keys.find(key => key.startsWith('login:')) ?? keys[0]);
+      const group = members.get(root) ?? { identities: [], keys: [] };
+      group.identities.push(identity);
+      group.keys.push(...keys);
+      members.set(root, group);
+    }
+    this.groups = new Map([...members].map(([root, group]) => [root, this.developer(group.identities, group.keys)]));
+    return this.groups;
+  }
+
+  private developer(identities: CommitIdentity[], keys: string[]): ResolvedDeveloper {
+    const distinct = (values: (string | undefined)[], compare: (value: string) => string) => {
+      const byKey = new Map<string, string>();
+      for (const value of values) {
+        if (value?.trim() && !byKey.has(compare(value))) {
+          byKey.set(compare(value), value.trim());
+        }
+      }
+      return [...byKey.values()];
+    };
+    const logins = distinct([
+      ...identities.map(identity => identity.login),
+      ...identities.map(identity => identity.email && noreplyLogin(identity.email)),
+    ], login => login.toLowerCase());
+    const emails = distinct(identities.map(identity => identity.email), email => email.toLowerCase());
+    const names = distinct(identities.map(identity => identity.name), normalizeName);
+
+    const aliasId = keys.map(key => this.aliasIds.get(key)).find(Boolean);
+    const id = aliasId ?? [...logins].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))[0] ?? names[0] ?? emails[0];
+    return { id, logins, emails, names };
+  }
+}
+
+/**
+ * The identity of a stored commit
+ */
+export function commitIdentity(commit: { authorLogin?: string; authorName?: string; authorEmail?: string }): CommitIdentity {
+  return { login: commit.authorLogin, name: commit.authorName, email: commit.authorEmail };
+}
@@ -0,0 +1,4 @@
+export { IdentityResolver, identityKeys, noreplyLogin, normalizeName, loadDeveloperAliases, commitIdentity } from "./identity";
+export type { CommitIdentity, DeveloperAlias, ResolvedDeveloper } from "./identity";
+export { BotClassifier, classifyBots, isAutomationMessage, AUTOMATION_ACCOUNTS, AUTOMATION_MESSAGE_PATTERNS } from "./bots";
+export type { BotReason, BotListOptions, BotEvidence } from "./bots";
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { classifyRepository, type ClassificationEvidence, type ClassificationResult } from "../aztec-classifier";
+import type { DeclaredVersion, NargoPackage } from "../manifests";
+import type { GitHubTransport } from "../github";
+import type { ClassifierDefinition } from "./profile";
+
+/**
+ * What a classifier concluded about one repository
+ */
+export interface RepoClassification {
+  // Ecosystem id from the profile
+  ecosystem: string;
+  projectType: string;
+  // Manifest-specific type, e.g. Nargo package type "contract"
+  manifestType?: string;
+  // Noir packages of the repository (Nargo classifiers only)
+  packages?: NargoPackage[];
+  // Noir and Aztec versions the repository builds against
+  versions?: DeclaredVersion[];
+  filesChecked: number;
+  indicators: string[];
+  // 0-1, see ClassificationResult.confidence; 1 for ecosystems a query declares
+  confidence: number;
+  evidence: ClassificationEvidence[];
+  // Set when a reviewer's decision replaced the automated verdict
+  review?: {
+    action: 'accept' | 'relabel';
+    decidedAt: string;
+  };
+  apiFailure?: {
+    searchFailed: boolean;
+    allFetchesFailed: boolean;
+    reason: string;
+  };
+}
+
+export interface RepoClassifierOptions {
+  // Transport to fetch files through, defaults to the shared one
+  transport?: GitHubTransport;
+  // Scan .nr sources as well as manifests (see ClassifierOptions.deep)
+  deep?: boolean;
+}
+
+export type RepoClassifier = (
+  owner: string,
+  repo: string,
+  definition: ClassifierDefinition,
+  options?: RepoClassifierOptions
+) => Promise<RepoClassification>;
+
+/**
+ * Indicators behind the verdict: the Aztec ones for Aztec repositories, the Noir ones otherwise
+ */
+function verdictIndicators(result: ClassificationResult): string[] {
+  if (result.isAztec) {
+    return result.aztecIndicators;
+  }
+  return result.manifests.flatMap(finding => {
+    const details = finding.indicators.filter(indicator => indicator.signal === 'noir').map(indicator => indicator.detail);
+    return details.length > 0 ? [`${finding.path}: ${details.join(', ')}`] : [];
+  });
+}
+
+/**
+ * Nargo.toml analysis: contract packages or aztec dependencies select the match ecosystem
+ */
+const aztecNargo: RepoClassifier = async (owner, repo, definition, options = {}) => {
+  const result = await classifyRepository(owner, repo, { transport: options.transport, classifiers: ['nargo', 'npm'], deep: options.deep });
+  return {
+    ecosystem: result.isAztec ? definition.matchEcosystem : definition.fallbackEcosystem,
+    projectType: definition.projectType,
+    manifestType: result.nargoType,
+    packages: result.packages,
+    filesChecked: result.filesChecked,
+    indicators: verdictIndicators(result),
+    versions: result.versions,
+    confidence: result.confidence,
+    evidence: result.evidence,
+    apiFailure: result.apiFailure,
+  };
+};
+
+/**
+ * package.json analysis: any declared @aztec/* package selects the match ecosystem,
+ * whatever query found the repository
+ */
+const aztecNpm: RepoClassifier = async (owner, repo, definition, options = {}) => {
+  const result = await classifyRepository(owner, repo, { transport: options.transport, classifiers: ['npm'], deep: options.deep });
+  return {
+    ecosystem: result.isAztec ? definition.matchEcosystem : definition.fallbackEcosystem,
+    projectType: definition.projectType,
+    filesChecked: result.filesChecked,
+    indicators: verdictIndicators(result),
+    versions: result.versions,
+    confidence: result.confidence,
+    evidence: result.evidence,
+    apiFailure: result.apiFailure,
+  };
+};
+
+const CLASSIFIERS: Record<string, RepoClassifier> = {
+  'aztec-nargo': aztecNargo,
+  'aztec-npm': aztecNpm,
+};
+
+// Classifier types a profile may reference
+export const CLASSIFIER_TYPES = Object.keys(CLASSIFIERS);
+
+export function getClassifier(type: string): RepoClassifier {
+  const classifier = CLASSIFIERS[type];
+  if (!classifier) {
+    throw new Error(`Unknown classifier type "${type}"`);
+  }
+  return classifier;
+}
@@ -0,0 +1,228 @@
+import { logger } from "../logger";
+import { config } from "../config";
+import { RateLimitError } from "../errors";
+import { GitHubSearchClient, type GitHubTransport } from "../github";
+import type { DiscoveryCheckpoint } from "../checkpoint";
+import { applyReviewDecision, type ReviewDecisions } from "../review";
+import { getClassifier, type RepoClassification } from "./classifiers";
+import { buildOrgExclusions, type TrackedRepos } from "./tracked";
+import { ecosystemById, type DiscoveryProfile, type QueryDefinition } from "./profile";
+
+/**
+ * A newly discovered repository and how it was classified
+ */
+export interface DiscoveredRepo extends RepoClassification {
+  url: string;
+  fullName: string;
+  stars: number;
+  description: string;
+  // Search query that found the repository
+  query: string;
+}
+
+export interface DiscoveryOptions {
+  client?: GitHubSearchClient;
+  // Transport classifiers fetch files through, defaults to the shared one
+  transport?: GitHubTransport;
+  // Deep classification: scan .nr sources of every classified repository too
+  deep?: boolean;
+  // Reviewer decisions: rejected repositories are skipped, accepted and relabelled ones keep the reviewer's ecosystem
+  decisions?: ReviewDecisions;
+}
+
+/**
+ * What a discovery run found, and the queries it gave up on
+ */
+export interface DiscoveryRun {
+  repositories: DiscoveredRepo[];
+  // Queries that failed, after waiting out a rate limit; resuming the run retries them
+  skippedQueries: {
+    query: string;
+    reason: string;
+  }[];
+}
+
+interface SearchHit {
+  fullName: string;
+  stars: number;
+  description: string | null;
+}
+
+/**
+ * Full query text as sent to GitHub (and recorded in the checkpoint)
+ */
+export function queryText(query: QueryDefinition, orgExclusions: string): string {
+  return query.excludeOrgs ? `${query.q}${orgExclusions}` : query.q;
+}
+
+/**
+ * Run every query of a profile and classify the repositories it finds.
+ *
+ * Tracked repositories are skipped, each repository is classified once (by
+ * the first query that finds it), and progress is recorded in the checkpoint
+ * so an interrupted run resumes where it stopped. A query that fails is
+ * skipped and reported, not recorded as completed. Review decisions override
+ * the classifiers.
+ */
+export async function runDiscovery(
+  profile: DiscoveryProfile,
+  tracked: TrackedRepos,
+  checkpoint: DiscoveryCheckpoint<DiscoveredRepo>,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryRun> {
+  if (!process.env.GITHUB_TOKEN && !config.githubApp.appId) {
+    throw new Error("GITHUB_TOKEN (or GITHUB_APP_ID for GitHub App authentication) environment variable is required");
+  }
+
+  logger.info(`Loaded ${tracked.repoNames.length} tracked repos for post-filtering`);
+  const trackedNames = new Set(tracked.repoNames);
+
+  // Build org exclusions that fit within query limits
+  const orgExclusions = buildOrgExclusions(tracked.majorOrgs, profile.exclusions.maxQueryLength);
+  if (orgExclusions) {
+    logger.info(`Will exclude at API level: ${orgExclusions}`);
+  }
+
+  const client = options.client ?? new GitHubSearchClient({
+    searchTimeoutMs: config.timeout.searchTimeout,
+  });
+
+  logger.info(`Running profile ${profile.name}: ${profile.queries.length} search queries`);
+
+  const remainingQueries = profile.queries.filter(query => !checkpoint.isQueryCompleted(queryText(query, orgExclusions)));
+  if (remainingQueries.length < profile.queries.length) {
+    logger.info(`Skipping ${profile.queries.length - remainingQueries.length} queries completed in a previous attempt of run ${checkpoint.runId}`);
+  }
+
+  const skippedQueries: DiscoveryRun['skippedQueries'] = [];
+  for (const query of remainingQueries) {
+    const text = queryText(query, orgExclusions);
+    logger.info(`Searching with query: ${text} (processed ${checkpoint.processedRepoCount} unique repos so far)`);
+
+    try {
+      const hits = await searchHits(client, query, text);
+
+      for (const hit of hits) {
+        const repoFullName = hit.fullName.toLowerCase();
+
+        // Skip if already processed (in this run or before a resume)
+        if (checkpoint.hasProcessedRepo(repoFullName)) {
+          continue;
+        }
+
+        // Check if this is a tracked repo (post-search filtering)
+        if (trackedNames.has(repoFullName)) {
+          logger.debug(`Skipping tracked repo: ${repoFullName}`);
+          checkpoint.markRepoProcessed(repoFullName);
+          continue;
+        }
+
+        const decision = options.decisions?.get(repoFullName);
+        if (decision?.action === 'reject') {
+          logger.info(`Skipping ${repoFullName}: rejected in review${decision.note ? ` (${decision.note})` : ''}`);
+          checkpoint.markRepoProcessed(repoFullName);
+          continue;
+        }
+
+        const [owner, repo] = repoFullName.split('/');
+        const automated = await classify(profile, query, owner, repo, options);
+        const classification = decision ? applyReviewDecision(automated, decision) : automated;
+
+        checkpoint.markRepoProcessed(repoFullName, {
+          url: `https://github.com/${repoFullName}`,
+          fullName: hit.fullName,
+          stars: hit.stars || 0,
+          description: hit.description || '',
+          query: text,
+          ...classification,
+        });
+
+        const indicators = classification.indicators.length > 0 ?
+          ` [${classification.indicators.join('; ')}]` : '';
+        const apiIssueWarning = classification.apiFailure ?
+          ` ⚠️ API ISSUES: ${classification.apiFailure.reason}` : '';
+        logger.info(`Found ${ecosystemById(profile, classification.ecosystem).name} ${classification.projectType} repo: ${repoFullName}${indicators}${apiIssueWarning}`);
+
+        // Rate limit pause
+        await new Promise(resolve => setTimeout(resolve, config.rateLimit.repoProcessingDelay));
+      }
+
+      checkpoint.markQueryCompleted(text, hits.length);
+
+      // Longer pause between search queries
+      await new Promise(resolve => setTimeout(resolve, config.rateLimit.searchQueryDelay));
+
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      skippedQueries.push({ query: text, reason });
+      if (error instanceof RateLimitError) {
+        logger.warn(`Rate limited, skipping query: ${text}; waiting before continuing...`);
+        await new Promise(resolve => setTimeout(resolve, 60000));
+      } else {
+        logger.error({ error }, `Failed to search with query: ${text}`);
+      }
+    }
+  }
+
+  // Whatever was classified since the last throttled write
+  checkpoint.save();
+  logger.info(`Search complete: Examined ${checkpoint.totalSearchResults} total search results, found ${checkpoint.processedRepoCount} unique repositories`);
+  if (skippedQueries.length > 0) {
+    logger.warn(`Skipped ${skippedQueries.length} failed queries`);
+  }
+  return { repositories: checkpoint.results, skippedQueries };
+}
+
+/**
+ * Run one query exhaustively and reduce its results to repositories
+ */
+async function searchHits(client: GitHubSearchClient, query: QueryDefinition, text: string): Promise<SearchHit[]> {
+  let hits: SearchHit[];
+  let coverage;
+
+  if (query.search === 'repositories') {
+    const result = await client.searchExhaustive(text, { type: 'repositories' });
+    hits = result.items.map(repo => ({ fullName: repo.fullName, stars: repo.stars, description: repo.description }));
+    coverage = result.coverage;
+  } else {
+    const result = await client.searchExhaustive(text);
+    hits = result.items.map(item => ({
+      fullName: item.repository.full_name,
+      stars: item.repository.stargazers_count,
+      description: item.repository.description,
+    }));
+    coverage = result.coverage;
+  }
+
+  logger.info(`Found ${hits.length} ${query.search} results for query: ${text} (${coverage.fetched}/${coverage.totalCount} in ${coverage.slices} slices)`);
+  if (!coverage.complete) {
+    logger.warn(`Incomplete coverage for query: ${text} (${coverage.truncatedSlices.length} slices over the result cap)`);
+  }
+  return hits;
+}
+
+/**
+ * Classify a hit with the query's classifier, or take the ecosystem the query declares
+ */
+async function classify(
+  profile: DiscoveryProfile,
+  query: QueryDefinition,
+  owner: string,
+  repo: string,
+  options: DiscoveryOptions
+): Promise<RepoClassification> {
+  if (query.classifier) {
+    const definition = profile.classifiers[query.classifier];
+    logger.debug(`Analyzing ${owner}/${repo} with the ${definition.id} classifier...`);
+    return getClassifier(definition.type)(owner, repo, definition, { transport: options.transport, deep: options.deep });
+  }
+
+  return {
+    ecosystem: query.ecosystem!,
+    projectType: query.projectType!,
+    filesChecked: 0,
+    indicators: query.indicators,
+    confidence: 1,
+    evidence: [],
+  };
+}
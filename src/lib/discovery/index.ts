@@ -0,0 +1,16 @@
+export { loadProfile, parseProfile, ecosystemById } from "./profile";
+export type {
+  DiscoveryProfile,
+  EcosystemDefinition,
+  ClassifierDefinition,
+  QueryDefinition,
+  TagRule,
+  ExclusionSettings,
+} from "./profile";
+export { CLASSIFIER_TYPES, getClassifier } from "./classifiers";
+export type { RepoClassification, RepoClassifier, RepoClassifierOptions } from "./classifiers";
+export { loadTrackedRepos, buildOrgExclusions } from "./tracked";
+export type { TrackedRepos } from "./tracked";
+export { runDiscovery, queryText } from "./discover";
+export type { DiscoveredRepo, DiscoveryOptions, DiscoveryRun } from "./discover";
+export { generateMigrationOutput, repositoryTags } from "./migration";
@@ -0,0 +1,74 @@
+import { ecosystemById, type DiscoveryProfile, type TagRule } from "./profile";
+import type { DiscoveredRepo } from "./discover";
+
+/**
+ * Whether a tag rule covers a discovered repository
+ */
+function ruleMatches(rule: TagRule, repo: Pick<DiscoveredRepo, 'ecosystem' | 'projectType'>): boolean {
+  return rule.ecosystem === repo.ecosystem && (!rule.projectType || rule.projectType === repo.projectType);
+}
+
+/**
+ * Tags of the first tag rule covering a repository, as written in the
+ * profile (with the leading '#'); none when no rule covers it
+ */
+export function repositoryTags(profile: DiscoveryProfile, repo: Pick<DiscoveredRepo, 'ecosystem' | 'projectType'>): string[] {
+  return profile.tagRules.find(rule => ruleMatches(rule, repo))?.tags ?? [];
+}
+
+/**
+ * Generate Electric Capital migration format.
+ *
+ * Each tag rule becomes a section, in profile order; a repository goes into the
+ * first section whose rule matches it. Repositories no rule covers are listed
+ * per ecosystem without tags.
+ */
+export function generateMigrationOutput(results: DiscoveredRepo[], profile: DiscoveryProfile): string {
+  const lines: string[] = [];
+  const byStars = (a: DiscoveredRepo, b: DiscoveredRepo) => b.stars - a.stars;
+
+  lines.push(`# Electric Capital Migration Commands for ${profile.description}`);
+  lines.push(`# Generated: ${new Date().toISOString()}`);
+  lines.push(`# Profile: ${profile.name}`);
+  lines.push(`# Total new repositories found: ${results.length}`);
+
+  const sections: { heading: string; notes: string[]; ecosystem: string; tags: string[]; repos: DiscoveredRepo[] }[] =
+    profile.tagRules.map(rule => ({
+      heading: rule.heading ?? ecosystemById(profile, rule.ecosystem).name,
+      notes: rule.notes,
+      ecosystem: rule.ecosystem,
+      tags: rule.tags,
+      repos: [],
+    }));
+
+  for (const repo of results) {
+    const index = profile.tagRules.findIndex(rule => ruleMatches(rule, repo));
+    if (index >= 0) {
+      sections[index].repos.push(repo);
+      continue;
+    }
+    let untagged = sections.find(section => section.ecosystem === repo.ecosystem && section.tags.length === 0);
+    if (!untagged) {
+      untagged = { heading: ecosystemById(profile, repo.ecosystem).name, notes: [], ecosystem: repo.ecosystem, tags: [], repos: [] };
+      sections.push(untagged);
+    }
+    untagged.repos.push(repo);
+  }
+
+  for (const section of sections) {
+    if (section.repos.length === 0) {
+      continue;
+    }
+    const name = ecosystemById(profile, section.ecosystem).name;
+    lines.push("");
+    lines.push(`# ${section.heading} (${section.repos.length} found)`);
+    for (const note of section.notes) {
+      lines.push(`# ${note}`);
+    }
+    for (const repo of section.repos.sort(byStars)) {
+      lines.push([`repadd "${name}" ${repo.url}`, ...section.tags].join(' '));
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,254 @@
+import * as fs from "fs";
+import * as path from "path";
+import toml from "toml";
+import { ProfileError } from "../errors";
+import { CLASSIFIER_TYPES } from "./classifiers";
+
+/**
+ * An ecosystem discovered repositories can be assigned to
+ */
+export interface EcosystemDefinition {
+  // Short id used by queries, classifiers and tag rules, e.g. "aztec"
+  id: string;
+  // Name used in repadd commands, e.g. "Aztec Protocol"
+  name: string;
+}
+
+/**
+ * A file-based classifier that inspects a repository found by a query
+ */
+export interface ClassifierDefinition {
+  id: string;
+  // Built-in implementation, see CLASSIFIER_TYPES
+  type: string;
+  projectType: string;
+  // Ecosystem when the classifier finds its markers, and when it does not
+  matchEcosystem: string;
+  fallbackEcosystem: string;
+}
+
+export interface QueryDefinition {
+  q: string;
+  search: 'code' | 'repositories';
+  // Either a classifier inspects each hit, or the query itself decides the ecosystem
+  classifier?: string;
+  ecosystem?: string;
+  projectType?: string;
+  indicators: string[];
+  // Append the major-org exclusions derived from the tracked export
+  excludeOrgs: boolean;
+}
+
+/**
+ * Hashtags (and a section heading) for repadd lines of one ecosystem/project type
+ */
+export interface TagRule {
+  ecosystem: string;
+  // Matches every project type when omitted
+  projectType?: string;
+  tags: string[];
+  heading?: string;
+  notes: string[];
+}
+
+export interface ExclusionSettings {
+  // Exclude the N orgs with the most tracked repositories at API level
+  topOrgs: number;
+  // ...as long as they have at least this many tracked repositories
+  minOrgRepos: number;
+  // Character budget for the exclusion qualifiers appended to each query
+  maxQueryLength: number;
+}
+
+export interface DiscoveryProfile {
+  name: string;
+  description: string;
+  // Electric Capital data of already tracked repositories: a JSONL export,
+  // ecosystem TOML or a crypto-ecosystems checkout
+  trackedExport?: string;
+  ecosystems: EcosystemDefinition[];
+  classifiers: Record<string, ClassifierDefinition>;
+  queries: QueryDefinition[];
+  tagRules: TagRule[];
+  exclusions: ExclusionSettings;
+  // Where the profile was loaded from, if anywhere
+  source?: string;
+}
+
+const DEFAULT_EXCLUSIONS: ExclusionSettings = {
+  topOrgs: 5,
+  minOrgRepos: 10,
+  maxQueryLength: 100,
+};
+
+/**
+ * Load a discovery profile from a .toml or .json file
+ */
+export function loadProfile(filePath: string): DiscoveryProfile {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new ProfileError(`Cannot read profile ${filePath}: ${error}`, filePath);
+  }
+
+  let raw: unknown;
+  try {
+    raw = path.extname(filePath) === '.json' ? JSON.parse(content) : toml.parse(content);
+  } catch (error: any) {
+    const location = error.line ? ` (line ${error.line}, column ${error.column})` : '';
+    throw new ProfileError(`Profile ${filePath} is not valid${location}: ${error.message}`, filePath);
+  }
+
+  return parseProfile(raw, filePath);
+}
+
+/**
+ * Validate a parsed profile document (snake_case keys) and convert it
+ */
+export function parseProfile(raw: unknown, source?: string): DiscoveryProfile {
+  const fail = (message: string): never => {
+    throw new ProfileError(source ? `${source}: ${message}` : message, source);
+  };
+  const doc = asTable(raw, 'profile', fail);
+
+  const name = asString(doc.name, 'name', fail);
+
+  const ecosystemTable = asTable(doc.ecosystems ?? fail("at least one [ecosystems.<id>] table is required"), 'ecosystems', fail);
+  const ecosystems = Object.entries(ecosystemTable).map(([id, value]) => ({
+    id,
+    name: asString(asTable(value, `ecosystems.${id}`, fail).name, `ecosystems.${id}.name`, fail),
+  }));
+  if (ecosystems.length === 0) {
+    fail("at least one [ecosystems.<id>] table is required");
+  }
+  const ecosystemIds = new Set(ecosystems.map(ecosystem => ecosystem.id));
+  const checkEcosystem = (id: string, field: string) => {
+    if (!ecosystemIds.has(id)) {
+      fail(`${field} refers to unknown ecosystem "${id}" (expected one of: ${Array.from(ecosystemIds).join(', ')})`);
+    }
+    return id;
+  };
+
+  const classifiers: Record<string, ClassifierDefinition> = {};
+  for (const [id, value] of Object.entries(asTable(doc.classifiers ?? {}, 'classifiers', fail))) {
+    const field = `classifiers.${id}`;
+    const table = asTable(value, field, fail);
+    const type = asString(table.type, `${field}.type`, fail);
+    if (!CLASSIFIER_TYPES.includes(type)) {
+      fail(`${field}.type "${type}" is not a known classifier (expected one of: ${CLASSIFIER_TYPES.join(', ')})`);
+    }
+    classifiers[id] = {
+      id,
+      type,
+      projectType: asString(table.project_type, `${field}.project_type`, fail),
+      matchEcosystem: checkEcosystem(asString(table.match_ecosystem, `${field}.match_ecosystem`, fail), `${field}.match_ecosystem`),
+      fallbackEcosystem: checkEcosystem(asString(table.fallback_ecosystem, `${field}.fallback_ecosystem`, fail), `${field}.fallback_ecosystem`),
+    };
+  }
+
+  const queryList = asArray(doc.queries ?? fail("at least one [[queries]] entry is required"), 'queries', fail);
+  const queries = queryList.map((value, index): QueryDefinition => {
+    const field = `queries[${index}]`;
+    const table = asTable(value, field, fail);
+    const search = table.search ?? 'code';
+    if (search !== 'code' && search !== 'repositories') {
+      fail(`${field}.search must be "code" or "repositories"`);
+    }
+
+    const query: QueryDefinition = {
+      q: asString(table.q, `${field}.q`, fail),
+      search,
+      indicators: asArray(table.indicators ?? [], `${field}.indicators`, fail)
+        .map((indicator, i) => asString(indicator, `${field}.indicators[${i}]`, fail)),
+      excludeOrgs: table.exclude_orgs ?? true,
+    };
+    if (table.classifier !== undefined) {
+      query.classifier = asString(table.classifier, `${field}.classifier`, fail);
+      if (!classifiers[query.classifier]) {
+        fail(`${field}.classifier refers to unknown classifier "${query.classifier}"`);
+      }
+    }
+    if (table.ecosystem !== undefined) {
+      query.ecosystem = checkEcosystem(asString(table.ecosystem, `${field}.ecosystem`, fail), `${field}.ecosystem`);
+      query.projectType = asString(table.project_type, `${field}.project_type`, fail);
+    }
+    if (!query.classifier === !query.ecosystem) {
+      fail(`${field} needs exactly one of "classifier" or "ecosystem"`);
+    }
+    return query;
+  });
+
+  const tagRules = asArray(doc.tag_rules ?? [], 'tag_rules', fail).map((value, index): TagRule => {
+    const field = `tag_rules[${index}]`;
+    const table = asTable(value, field, fail);
+    return {
+      ecosystem: checkEcosystem(asString(table.ecosystem, `${field}.ecosystem`, fail), `${field}.ecosystem`),
+      projectType: table.project_type === undefined ? undefined : asString(table.project_type, `${field}.project_type`, fail),
+      tags: asArray(table.tags ?? [], `${field}.tags`, fail).map((tag, i) => {
+        const text = asString(tag, `${field}.tags[${i}]`, fail);
+        return text.startsWith('#') ? text : `#${text}`;
+      }),
+      heading: table.heading === undefined ? undefined : asString(table.heading, `${field}.heading`, fail),
+      notes: asArray(table.notes ?? [], `${field}.notes`, fail).map((note, i) => asString(note, `${field}.notes[${i}]`, fail)),
+    };
+  });
+
+  const exclusionTable = asTable(doc.exclusions ?? {}, 'exclusions', fail);
+  const exclusions: ExclusionSettings = {
+    topOrgs: asNumber(exclusionTable.top_orgs ?? DEFAULT_EXCLUSIONS.topOrgs, 'exclusions.top_orgs', fail),
+    minOrgRepos: asNumber(exclusionTable.min_org_repos ?? DEFAULT_EXCLUSIONS.minOrgRepos, 'exclusions.min_org_repos', fail),
+    maxQueryLength: asNumber(exclusionTable.max_query_length ?? DEFAULT_EXCLUSIONS.maxQueryLength, 'exclusions.max_query_length', fail),
+  };
+
+  return {
+    name,
+    description: doc.description === undefined ? name : asString(doc.description, 'description', fail),
+    trackedExport: doc.tracked_export === undefined ? undefined : asString(doc.tracked_export, 'tracked_export', fail),
+    ecosystems,
+    classifiers,
+    queries,
+    tagRules,
+    exclusions,
+    source,
+  };
+}
+
+/**
+ * Look up an ecosystem by id
+ */
+export function ecosystemById(profile: DiscoveryProfile, id: string): EcosystemDefinition {
+  const ecosystem = profile.ecosystems.find(candidate => candidate.id === id);
+  if (!ecosystem) {
+    throw new ProfileError(`Profile ${profile.name} has no ecosystem "${id}"`, profile.source);
+  }
+  return ecosystem;
+}
+
+function asTable(value: unknown, field: string, fail: (message: string) => never): Record<string, any> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(`${field} must be a table`);
+  }
+  return value as Record<string, any>;
+}
+
+function asArray(value: unknown, field: string, fail: (message: string) => never): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(`${field} must be an array`);
+  }
+  return value as unknown[];
+}
+
+function asString(value: unknown, field: string, fail: (message: string) => never): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    fail(`${field} must be a non-empty string`);
+  }
+  return value as string;
+}
+
+function asNumber(value: unknown, field: string, fail: (message: string) => never): number {
+  if (typeof value !== 'number' || value < 0) {
+    fail(`${field} must be a non-negative number`);
+  }
+  return value as number;
+}
@@ -0,0 +1,94 @@
+import { logger } from "../logger";
+import { loadCryptoEcosystems } from "../ecosystems";
+import type { ExclusionSettings } from "./profile";
+
+export interface TrackedRepos {
+  // owner/repo, lowercase
+  repoNames: string[];
+  // Orgs with the most tracked repositories, excluded at API level
+  majorOrgs: string[];
+  // Ecosystems (sub-ecosystems included) that list each repository, by owner/repo
+  ecosystems?: Record<string, string[]>;
+}
+
+/**
+ * Load already tracked repositories from Electric Capital's data: a JSONL
+ * export, ecosystem TOML or a crypto-ecosystems checkout (see
+ * loadCryptoEcosystems). With `ecosystems`, a repository counts as tracked
+ * when the family of any of them lists it: the ecosystem, its
+ * sub-ecosystems, or directly one of its parents. Without, everything the
+ * data holds counts.
+ * Returns repo names and major orgs for exclusion; major orgs are counted
+ * over the ecosystems and their sub-ecosystems only
+ */
+export async function loadTrackedRepos(
+  filePath: string,
+  settings: Pick<ExclusionSettings, 'topOrgs' | 'minOrgRepos'> = { topOrgs: 5, minOrgRepos: 10 },
+  ecosystems?: string[]
+): Promise<TrackedRepos> {
+  try {
+    const { graph } = loadCryptoEcosystems(filePath);
+    const selected = ecosystems?.filter(name => graph.has(name)) ?? [];
+    if (ecosystems && selected.length === 0) {
+      logger.warn(`None of ${ecosystems.join(', ')} is in ${filePath}; treating everything in it as tracked`);
+    }
+
+    const families = selected.length > 0 ? selected : graph.roots();
+    // Parents only decide what is tracked; their orgs (Ethereum's, above Aztec) are no reason to exclude anything
+    const below = new Set(families.flatMap(name => graph.lineage(name)));
+
+    const repoEcosystems: Record<string, string[]> = {};
+    const orgCounts = new Map<string, number>();
+    for (const { repository, ecosystems: listedIn } of graph.trackedBy(families).values()) {
+      // Only GitHub repositories can turn up in searches
+      if (!repository.fullName) {
+        continue;
+      }
+      repoEcosystems[repository.fullName] = listedIn;
+
+      // Count repos per org, over the selected ecosystems and their sub-ecosystems
+      if (listedIn.some(name => below.has(name))) {
+        const org = repository.fullName.split('/')[0];
+        orgCounts.set(org, (orgCounts.get(org) || 0) + 1);
+      }
+    }
+    const repoNames = Object.keys(repoEcosystems);
+
+    // Get top orgs that have many repos
+    const majorOrgs = Array.from(orgCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, settings.topOrgs)
+      .filter(([_, count]) => count >= settings.minOrgRepos)
+      .map(([org]) => org);
+
+    logger.info(`Loaded ${repoNames.length} tracked repositories from Electric Capital`);
+    logger.info(`Major orgs to exclude: ${majorOrgs.join(', ')} (${majorOrgs.reduce((sum, org) => sum + (orgCounts.get(org) || 0), 0)} repos total)`);
+
+    return {
+      repoNames,
+      majorOrgs,
+      ecosystems: repoEcosystems
+    };
+  } catch (error) {
+    logger.error({ error }, "Failed to load tracked repos file");
+    throw error;
+  }
+}
+
+/**
+ * Build org exclusion string that fits within query limits
+ */
+export function buildOrgExclusions(majorOrgs: string[], maxLength: number = 100): string {
+  let exclusions = '';
+
+  for (const org of majorOrgs) {
+    const addition = ` -org:${org} -user:${org}`;
+    // Check if adding this would exceed our budget
+    if (exclusions.length + addition.length > maxLength) {
+      break;
+    }
+    exclusions += addition;
+  }
+
+  return exclusions;
+}
@@ -0,0 +1,272 @@
+import { parseRepositoryUrl } from "../repository/records";
+
+export interface TrackedRepository {
+  // Repository URL as Electric Capital lists it
+  url: string;
+  // owner/repo in lowercase for GitHub repositories
+  fullName?: string;
+  // Tags without the leading '#'
+  tags: string[];
+}
+
+interface EcosystemNode {
+  name: string;
+  parents: Set<string>;
+  children: Set<string>;
+  // Keyed by repositoryUrlKey
+  repositories: Map<string, TrackedRepository>;
+}
+
+/**
+ * Key of a repository URL whatever its case, scheme or trailing .git
+ */
+export function repositoryUrlKey(url: string): string {
+  const parsed = parseRepositoryUrl(url);
+  if (parsed) {
+    return `github.com/${parsed.owner}/${parsed.repo}`.toLowerCase();
+  }
+  return url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/(\.git)?\/?$/, '');
+}
+
+function trackedRepository(url: string, tags: string[]): TrackedRepository {
+  const parsed = parseRepositoryUrl(url);
+  return {
+    url,
+    ...(parsed && { fullName: `${parsed.owner}/${parsed.repo}`.toLowerCase() }),
+    tags: [...new Set(tags)],
+  };
+}
+
+/**
+ * Ecosystems, their sub-ecosystems and repositories as Electric Capital's
+ * crypto-ecosystems taxonomy holds them. An ecosystem can be the
+ * sub-ecosystem of several others; names compare case-insensitively.
+ */
+export class EcosystemGraph {
+  private readonly nodes = new Map<string, EcosystemNode>();
+
+  private node(name: string): EcosystemNode | undefined {
+    return this.nodes.get(name.toLowerCase());
+  }
+
+  has(name: string): boolean {
+    return this.nodes.has(name.toLowerCase());
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Ecosystem names as they were first spelled, sorted
+   */
+  ecosystems(): string[] {
+    return [...this.nodes.values()].map(node => node.name).sort();
+  }
+
+  /**
+   * Ecosystems that are nobody's sub-ecosystem
+   */
+  roots(): string[] {
+    return [...this.nodes.values()].filter(node => node.parents.size === 0).map(node => node.name).sort();
+  }
+
+  addEcosystem(name: string): void {
+    if (!this.has(name)) {
+      this.nodes.set(name.toLowerCase(), { name, parents: new Set(), children: new Set(), repositories: new Map() });
+    }
+  }
+
+  /**
+   * Remove an ecosystem with its repositories, disconnecting its parents and sub-ecosystems
+   */
+  removeEcosystem(name: string): void {
+    const node = this.node(name);
+    if (!node) {
+      return;
+    }
+    for (const parent of node.parents) {
+      this.node(parent)?.children.delete(node.name.toLowerCase());
+    }
+    for (const child of node.children) {
+      this.node(child)?.parents.delete(node.name.toLowerCase());
+    }
+    this.nodes.delete(name.toLowerCase());
+  }
+
+  /**
+   * Rename an ecosystem, keeping its connections and repositories
+   */
+  renameEcosystem(from: string, to: string): void {
+    const node = this.node(from);
+    if (!node) {
+      this.addEcosystem(to);
+      return;
+    }
+    const oldKey = from.toLowerCase();
+    const newKey = to.toLowerCase();
+    this.nodes.delete(oldKey);
+    node.name = to;
+    this.nodes.set(newKey, node);
+    for (const parent of node.parents) {
+      const children = this.node(parent)!.children;
+      children.delete(oldKey);
+      children.add(newKey);
+    }
+    for (const child of node.children) {
+      const parents = this.node(child)!.parents;
+      parents.delete(oldKey);
+      parents.add(newKey);
+    }
+  }
+
+  /**
+   * Make `child` a sub-ecosystem of `parent`, adding either if missing
+   */
+  connect(parent: string, child: string): void {
+    this.addEcosystem(parent);
+    this.addEcosystem(child);
+    this.node(parent)!.children.add(child.toLowerCase());
+    this.node(child)!.parents.add(parent.toLowerCase());
+  }
+
+  disconnect(parent: string, child: string): void {
+    this.node(parent)?.children.delete(child.toLowerCase());
+    this.node(child)?.parents.delete(parent.toLowerCase());
+  }
+
+  /**
+   * Add a repository to an ecosystem (added if missing); tags accumulate
+   */
+  addRepository(ecosystem: string, url: string, tags: string[] = []): void {
+    this.addEcosystem(ecosystem);
+    const repositories = this.node(ecosystem)!.repositories;
+    const key = repositoryUrlKey(url);
+    const existing = repositories.get(key);
+    repositories.set(key, trackedRepository(existing?.url ?? url, [...(existing?.tags ?? []), ...tags]));
+  }
+
+  /**
+   * Remove a repository from one ecosystem, or from every ecosystem
+   */
+  removeRepository(url: string, ecosystem?: string): void {
+    const key = repositoryUrlKey(url);
+    const nodes = ecosystem ? [this.node(ecosystem)].filter(Boolean) as EcosystemNode[] : [...this.nodes.values()];
+    for (const node of nodes) {
+      node.repositories.delete(key);
+    }
+  }
+
+  /**
+   * Point every ecosystem listing a repository at its new URL
+   */
+  moveRepository(from: string, to: string): void {
+    const fromKey = repositoryUrlKey(from);
+    for (const node of this.nodes.values()) {
+      const repository = node.repositories.get(fromKey);
+      if (repository) {
+        node.repositories.delete(fromKey);
+        node.repositories.set(repositoryUrlKey(to), trackedRepository(to, repository.tags));
+      }
+    }
+  }
+
+  /**
+   * Direct sub-ecosystems and direct parents of an ecosystem
+   */
+  subEcosystems(name: string): string[] {
+    return [...(this.node(name)?.children ?? [])].map(key => this.nodes.get(key)!.name).sort();
+  }
+
+  parents(name: string): string[] {
+    return [...(this.node(name)?.parents ?? [])].map(key => this.nodes.get(key)!.name).sort();
+  }
+
+  /**
+   * The ecosystem and every sub-ecosystem below it (or with `up`, every
+   * ecosystem above it), each once even where the graph has cycles
+   */
+  lineage(name: string, direction: 'down' | 'up' = 'down'): string[] {
+    const seen = new Set<string>();
+    const visit = (key: string) => {
+      const node = this.nodes.get(key);
+      if (!node || seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+      for (const next of direction === 'down' ? node.children : node.parents) {
+        visit(next);
+      }
+    };
+    visit(name.toLowerCase());
+    return [...seen].map(key => this.nodes.get(key)!.name);
+  }
+
+  /**
+   * Repositories of an ecosystem, by default with those of its sub-ecosystems
+   */
+  repositories(name: string, options: { includeSubEcosystems?: boolean } = {}): TrackedRepository[] {
+    const names = options.includeSubEcosystems === false ? [name] : this.lineage(name);
+    const repositories = new Map<string, TrackedRepository>();
+    for (const ecosystem of names) {
+      for (const [key, repository] of this.node(ecosystem)?.repositories ?? []) {
+        const existing = repositories.get(key);
+        repositories.set(key, existing ? trackedRepository(existing.url, [...existing.tags, ...repository.tags]) : repository);
+      }
+    }
+    return [...repositories.values()];
+  }
+
+  /**
+   * Ecosystems that list a repository directly
+   */
+  ecosystemsOf(url: string): string[] {
+    const key = repositoryUrlKey(url);
+    return [...this.nodes.values()].filter(node => node.repositories.has(key)).map(node => node.name).sort();
+  }
+
+  /**
+   * Whether an ecosystem's family already tracks a repository: the
+   * ecosystem itself, any sub-ecosystem below it, or directly any
+   * ecosystem above it
+   */
+  tracks(ecosystem: string, url: string): boolean {
+    const key = repositoryUrlKey(url);
+    return this.lineage(ecosystem).some(name => this.node(name)!.repositories.has(key))
+      || this.lineage(ecosystem, 'up').some(name => this.node(name)!.repositories.has(key));
+  }
+
+  /**
+   * Every repository an ecosystem's family tracks (see `tracks`), with the
+   * ecosystems listing it
+   */
+  trackedBy(ecosystems: string[]): Map<string, { repository: TrackedRepository; ecosystems: string[] }> {
+    const names = new Set<string>();
+    for (const ecosystem of ecosystems) {
+      this.lineage(ecosystem).forEach(name => names.add(name));
+      this.lineage(ecosystem, 'up').forEach(name => names.add(name));
+    }
+
+    const tracked = new Map<string, { repository: TrackedRepository; ecosystems: string[] }>();
+    for (const name of [...names].sort()) {
+      for (const [key, repository] of this.node(name)!.repositories) {
+        const entry = tracked.get(key);
+        if (entry) {
+          entry.ecosystems.push(name);
+          entry.repository = trackedRepository(entry.repository.url, [...entry.repository.tags, ...repository.tags]);
+        } else {
+          tracked.set(key, { repository, ecosystems: [name] });
+        }
+      }
+    }
+    return tracked;
+  }
+
+  get repositoryCount(): number {
+    const keys = new Set<string>();
+    for (const node of this.nodes.values()) {
+      node.repositories.forEach((_, key) => keys.add(key));
+    }
+    return keys.size;
+  }
+}
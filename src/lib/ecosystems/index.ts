@@ -0,0 +1,12 @@
+export { EcosystemGraph, repositoryUrlKey } from "./graph";
+export type { TrackedRepository } from "./graph";
+export {
+  exportEcosystem,
+  parseMigrationLine,
+  replayMigrations,
+  loadMigrations,
+  loadEcosystemExport,
+  loadEcosystemToml,
+  loadCryptoEcosystems,
+} from "./load";
+export type { EcosystemData, EcosystemDataFormat, UnsupportedCommand } from "./load";
\ No newline at end of file
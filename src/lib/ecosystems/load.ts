@@ -0,0 +1,243 @@
+import * as fs from "fs";
+import * as path from "path";
+import toml from "toml";
+import { EcosystemDataError } from "../errors";
+import { logger } from "../logger";
+import { EcosystemGraph } from "./graph";
+
+export type EcosystemDataFormat = 'migrations' | 'toml' | 'jsonl';
+
+export interface UnsupportedCommand {
+  // migrations/<file>:<line>
+  source: string;
+  command: string;
+}
+
+export interface EcosystemData {
+  graph: EcosystemGraph;
+  format: EcosystemDataFormat;
+  // Files read
+  files: number;
+  // Migration commands the replay skipped
+  unsupported: UnsupportedCommand[];
+}
+
+/**
+ * Ecosystem an Electric Capital export covers, from its name:
+ * Aztec-Protocol-export.jsonl holds "Aztec Protocol"
+ */
+export function exportEcosystem(filePath: string): string {
+  return path.basename(filePath).replace(/-export\.jsonl$|\.jsonl$/, '').replace(/[-_]+/g, ' ');
+}
+
+/**
+ * Split a migration line into its command and arguments; double quotes
+ * group words. Blank lines and `--` comments give null.
+ */
+export function parseMigrationLine(line: string): { command: string; args: string[] } | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('--') || trimmed.startsWith('#')) {
+    return null;
+  }
+  const words = [...trimmed.matchAll(/"([^"]*)"|(\S+)/g)].map(match => match[1] ?? match[2]);
+  const commentStart = words.indexOf('--');
+  const [command, ...args] = commentStart === -1 ? words : words.slice(0, commentStart);
+  return { command, args };
+}
+
+/**
+ * Apply migration commands to a graph, in order:
+ *
+ *   ecoadd <ecosystem>              add an ecosystem
+ *   ecorem <ecosystem>              remove it
+ *   ecocon <parent> <child>         make child a sub-ecosystem of parent
+ *   ecodis <parent> <child>         undo ecocon
+ *   ecomove <from> <to>             rename an ecosystem
+ *   repadd <ecosystem> <url> #tag   add a repository with tags
+ *   reprem <url> [ecosystem]        remove a repository (everywhere by default)
+ *   repmov <from-url> <to-url>      point a repository at its new URL
+ *
+ * Commands this loader does not know are returned, not applied.
+ */
+export function replayMigrations(graph: EcosystemGraph, content: string, source: string): UnsupportedCommand[] {
+  const unsupported: UnsupportedCommand[] = [];
+  content.split('\n').forEach((line, index) => {
+    const parsed = parseMigrationLine(line);
+    if (!parsed) {
+      return;
+    }
+    const { command, args } = parsed;
+    const at = `${source}:${index + 1}`;
+    const need = (count: number) => {
+      if (args.length < count) {
+        throw new EcosystemDataError(`${at}: ${command} needs ${count} arguments, got "${line.trim()}"`, source);
+      }
+    };
+
+    switch (command) {
+      case 'ecoadd':
+        need(1);
+        graph.addEcosystem(args[0]);
+        break;
+      case 'ecorem':
+        need(1);
+        graph.removeEcosystem(args[0]);
+        break;
+      case 'ecocon':
+        need(2);
+        graph.connect(args[0], args[1]);
+        break;
+      case 'ecodis':
+        need(2);
+        graph.disconnect(args[0], args[1]);
+        break;
+      case 'ecomove':
+        need(2);
+        graph.renameEcosystem(args[0], args[1]);
+        break;
+      case 'repadd': {
+        need(2);
+        const tags = args.slice(2).filter(arg => arg.startsWith('#')).map(arg => arg.slice(1));
+        graph.addRepository(args[0], args[1], tags);
+        break;
+      }
+      case 'reprem':
+        need(1);
+        graph.removeRepository(args[0], args[1]);
+        break;
+      case 'repmov':
+        need(2);
+        graph.moveRepository(args[0], args[1]);
+        break;
+      default:
+        unsupported.push({ source: at, command: line.trim() });
+    }
+  });
+  return unsupported;
+}
+
+/**
+ * Replay every file of a crypto-ecosystems migrations/ directory, in name
+ * (that is, date) order
+ */
+export function loadMigrations(dir: string, graph = new EcosystemGraph()): EcosystemData {
+  const files = fs.readdirSync(dir)
+    .filter(name => !name.startsWith('.') && fs.statSync(path.join(dir, name)).isFile())
+    .sort();
+  const unsupported: UnsupportedCommand[] = [];
+  for (const name of files) {
+    unsupported.push(...replayMigrations(graph, fs.readFileSync(path.join(dir, name), 'utf-8'), `migrations/${name}`));
+  }
+  return { graph, format: 'migrations', files: files.length, unsupported };
+}
+
+/**
+ * Read an exported JSONL file. Two layouts are understood:
+ * `{url, sub_ecosystems}` lines of a single ecosystem's export (named by
+ * `ecosystem`, by default after the file) and `{eco_name, branch,
+ * repo_url, tags}` lines. Sub-ecosystem paths are connected below the
+ * ecosystem and the repository is added to the last one.
+ */
+export function loadEcosystemExport(filePath: string, graph = new EcosystemGraph(), ecosystem = exportEcosystem(filePath)): EcosystemData {
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim());
+  lines.forEach((line, index) => {
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      logger.warn(`${filePath}:${index + 1}: not valid JSON, skipped`);
+      return;
+    }
+    const root: string = entry.eco_name ?? ecosystem;
+    const branch: string[] = entry.branch ?? entry.sub_ecosystems ?? [];
+    const url: string | undefined = entry.repo_url ?? entry.url;
+    if (!url) {
+      logger.warn(`${filePath}:${index + 1}: no repository URL, skipped`);
+      return;
+    }
+
+    graph.addEcosystem(root);
+    let parent = root;
+    for (const child of branch) {
+      graph.connect(parent, child);
+      parent = child;
+    }
+    graph.addRepository(parent, url, Array.isArray(entry.tags) ? entry.tags : []);
+  });
+  return { graph, format: 'jsonl', files: 1, unsupported: [] };
+}
+
+/**
+ * Read ecosystem TOML files (the layout of crypto-ecosystems' data/ecosystems
+ * before migrations): title, sub_ecosystems and [[repo]] tables with url
+ * and tags
+ */
+export function loadEcosystemToml(files: string[], graph = new EcosystemGraph()): EcosystemData {
+  for (const file of files) {
+    let doc: any;
+    try {
+      doc = toml.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error: any) {
+      throw new EcosystemDataError(`${file} is not valid TOML: ${error.message}`, file);
+    }
+    if (typeof doc.title !== 'string' || !doc.title) {
+      throw new EcosystemDataError(`${file} has no ecosystem title`, file);
+    }
+    graph.addEcosystem(doc.title);
+    for (const child of doc.sub_ecosystems ?? []) {
+      graph.connect(doc.title, child);
+    }
+    for (const repo of doc.repo ?? []) {
+      if (typeof repo.url === 'string') {
+        graph.addRepository(doc.title, repo.url, Array.isArray(repo.tags) ? repo.tags : []);
+      }
+    }
+  }
+  return { graph, format: 'toml', files: files.length, unsupported: [] };
+}
+
+function tomlFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { recursive: true })
+    .map(name => path.join(dir, String(name)))
+    .filter(file => file.endsWith('.toml') && fs.statSync(file).isFile())
+    .sort();
+}
+
+/**
+ * Load Electric Capital's taxonomy from a crypto-ecosystems checkout (its
+ * migrations/, or data/ecosystems/ TOML in older checkouts), a migrations
+ * directory, a directory of ecosystem TOML files, one TOML file or a JSONL
+ * export
+ */
+export function loadCryptoEcosystems(source: string): EcosystemData {
+  if (!fs.existsSync(source)) {
+    throw new EcosystemDataError(`${source} does not exist`, source);
+  }
+
+  let data: EcosystemData;
+  if (fs.statSync(source).isDirectory()) {
+    const migrations = path.join(source, 'migrations');
+    const ecosystems = path.join(source, 'data', 'ecosystems');
+    if (fs.existsSync(migrations)) {
+      data = loadMigrations(migrations);
+    } else if (fs.existsSync(ecosystems)) {
+      data = loadEcosystemToml(tomlFiles(ecosystems));
+    } else if (tomlFiles(source).length > 0) {
+      data = loadEcosystemToml(tomlFiles(source));
+    } else {
+      data = loadMigrations(source);
+    }
+  } else if (source.endsWith('.toml')) {
+    data = loadEcosystemToml([source]);
+  } else if (source.endsWith('.jsonl')) {
+    data = loadEcosystemExport(source);
+  } else {
+    throw new EcosystemDataError(`${source} is neither a crypto-ecosystems checkout, a TOML file nor a JSONL export`, source);
+  }
+
+  logger.info(`Loaded ${data.graph.size} ecosystems and ${data.graph.repositoryCount} repositories from ${source} (${data.format}, ${data.files} files)`);
+  if (data.unsupported.length > 0) {
+    logger.warn(`Skipped ${data.unsupported.length} unsupported migration commands, first: ${data.unsupported[0].source} ${data.unsupported[0].command}`);
+  }
+  return data;
+}
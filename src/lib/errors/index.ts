@@ -42,4 +42,94 @@ export class GitHubAPIError extends Error {
     this.name = "GitHubAPIError";
     Object.setPrototypeOf(this, GitHubAPIError.prototype);
   }
+}
+
+export class CheckpointError extends Error {
+  constructor(
+    message: string,
+    public readonly runId?: string
+  ) {
+    super(message);
+    this.name = "CheckpointError";
+    Object.setPrototypeOf(this, CheckpointError.prototype);
+  }
+}
+
+export class GitHubAppAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly appId?: string,
+    public readonly installationId?: string,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = "GitHubAppAuthError";
+    Object.setPrototypeOf(this, GitHubAppAuthError.prototype);
+  }
+}
+
+export class ProfileError extends Error {
+  constructor(
+    message: string,
+    public readonly profilePath?: string
+  ) {
+    super(message);
+    this.name = "ProfileError";
+    Object.setPrototypeOf(this, ProfileError.prototype);
+  }
+}
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public readonly repo?: string
+  ) {
+    super(message);
+    this.name = "ReviewError";
+    Object.setPrototypeOf(this, ReviewError.prototype);
+  }
+}
+
+export class RepositoryRecordError extends Error {
+  constructor(
+    message: string,
+    public readonly field?: string
+  ) {
+    super(message);
+    this.name = "RepositoryRecordError";
+    Object.setPrototypeOf(this, RepositoryRecordError.prototype);
+  }
+}
+
+export class StoreError extends Error {
+  constructor(
+    message: string,
+    public readonly storePath?: string
+  ) {
+    super(message);
+    this.name = "StoreError";
+    Object.setPrototypeOf(this, StoreError.prototype);
+  }
+}
+
+export class EcosystemDataError extends Error {
+  constructor(
+    message: string,
+    public readonly source?: string
+  ) {
+    super(message);
+    this.name = "EcosystemDataError";
+    Object.setPrototypeOf(this, EcosystemDataError.prototype);
+  }
+}
+
+export class IdentityError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath?: string
+  ) {
+    super(message);
+    this.name = "IdentityError";
+    Object.setPrototypeOf(this, IdentityError.prototype);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { createSign } from "crypto";
+import { readFileSync } from "fs";
+import { Octokit } from "@octokit/rest";
+import { logger } from "../logger";
+import { config } from "../config";
+import { GitHubAppAuthError } from "../errors";
+
+export interface GitHubAppCredentials {
+  appId: string;
+  // PEM-encoded private key downloaded from the App settings page
+  privateKey: string;
+  installationId: string;
+}
+
+export interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+// GitHub rejects App JWTs that live longer than 10 minutes
+const JWT_LIFETIME_SECONDS = 9 * 60;
+// Backdate iat to tolerate clock drift between us and GitHub
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Mint the short-lived RS256 JWT that authenticates as the App itself
+ */
+export function createAppJwt(appId: string, privateKey: string, now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT_SECONDS;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    iat: issuedAt,
+    exp: issuedAt + JWT_LIFETIME_SECONDS,
+    iss: appId,
+  }));
+
+  try {
+    const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey);
+    return `${header}.${payload}.${base64url(signature)}`;
+  } catch (error) {
+    throw new GitHubAppAuthError(`Could not sign App JWT, check the private key: ${error}`, appId);
+  }
+}
+
+/**
+ * Installation access token for one App installation, exchanged on demand and
+ * refreshed once it is within the refresh margin of its expiry (tokens last an hour).
+ */
+export class AppInstallationAuth {
+  private current: InstallationToken | null = null;
+  private pending: Promise<InstallationToken> | null = null;
+  private exchanges = 0;
+
+  constructor(
+    private credentials: GitHubAppCredentials,
+    private baseUrl: string = config.github.apiBaseUrl,
+    private refreshMarginMs: number = config.githubApp.refreshMargin
+  ) {}
+
+  /**
+   * Name this installation is reported under in the token pool
+   */
+  get label(): string {
+    return `app ${this.credentials.appId}/installation ${this.credentials.installationId}`;
+  }
+
+  get exchangeCount(): number {
+    return this.exchanges;
+  }
+
+  /**
+   * Whether the cached token is missing or close enough to expiry to refresh
+   */
+  needsRefresh(now: number = Date.now()): boolean {
+    return !this.current || this.current.expiresAt.getTime() - now <= this.refreshMarginMs;
+  }
+
+  /**
+   * Return a valid installation token, exchanging a new one when needed.
+   * Concurrent callers share a single in-flight exchange.
+   */
+  async getToken(): Promise<InstallationToken> {
+    if (!this.needsRefresh()) {
+      return this.current!;
+    }
+    if (!this.pending) {
+      this.pending = this.exchange().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async exchange(): Promise<InstallationToken> {
+    const { appId, privateKey, installationId } = this.credentials;
+    const jwt = createAppJwt(appId, privateKey);
+
+    try {
+      // A bare Octokit: the exchange is authenticated with the JWT, not with a pool token
+      const octokit = new Octokit({
+        auth: jwt,
+        baseUrl: this.baseUrl,
+        // Failures are reported through the thrown GitHubAppAuthError
+        log: {
+          debug: (message: string) => logger.debug(message),
+          info: (message: string) => logger.debug(message),
+          warn: (message: string) => logger.warn(message),
+          error: (message: string) => logger.debug(message),
+        },
+      });
+      const { data } = await octokit.request(
+        'POST /app/installations/{installation_id}/access_tokens',
+        { installation_id: Number(installationId) }
+      );
+
+      this.exchanges++;
+      this.current = { token: data.token, expiresAt: new Date(data.expires_at) };
+      logger.info({ installation: this.label, expiresAt: data.expires_at }, "Obtained GitHub App installation token");
+      return this.current;
+    } catch (error: any) {
+      throw new GitHubAppAuthError(
+        `Failed to exchange App JWT for an installation token: ${error.message}`,
+        appId,
+        installationId,
+        error.status
+      );
+    }
+  }
+}
+
+/**
+ * Read App credentials from GITHUB_APP_* settings, one entry per installation id.
+ * Returns an empty list when no App is configured.
+ */
+export function loadAppCredentialsFromEnv(): GitHubAppCredentials[] {
+  const { appId, installationIds, privateKey, privateKeyPath } = config.githubApp;
+  if (!appId) {
+    return [];
+  }
+  if (installationIds.length === 0) {
+    throw new GitHubAppAuthError("GITHUB_APP_ID is set but GITHUB_APP_INSTALLATION_ID is not", appId);
+  }
+
+  let key = privateKey?.replace(/\\n/g, '\n');
+  if (!key && privateKeyPath) {
+    try {
+      key = readFileSync(privateKeyPath, 'utf-8');
+    } catch (error) {
+      throw new GitHubAppAuthError(`Cannot read App private key at ${privateKeyPath}: ${error}`, appId);
+    }
+  }
+  if (!key) {
+    throw new GitHubAppAuthError("GITHUB_APP_ID is set but neither GITHUB_APP_PRIVATE_KEY nor GITHUB_APP_PRIVATE_KEY_PATH is", appId);
+  }
+
+  return installationIds.map(installationId => ({ appId, privateKey: key!, installationId }));
+}
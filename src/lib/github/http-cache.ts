@@ -0,0 +1,239 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { logger } from "../logger";
+import { config } from "../config";
+
+/**
+ * Endpoint classes with independent cache TTLs
+ */
+export type EndpointClass = 'search' | 'contents' | 'commits' | 'default';
+
+export interface CachedResponse {
+  url: string;
+  scope: string;
+  status: number;
+  etag?: string;
+  lastModified?: string;
+  data: any;
+  storedAt: number;
+}
+
+export interface HttpCacheOptions {
+  enabled: boolean;
+  refresh: boolean;
+  dir: string;
+  ttl: Record<EndpointClass, number>;
+}
+
+export interface CacheLookup {
+  entry: CachedResponse;
+  fresh: boolean;
+}
+
+/**
+ * Persistent cache for GitHub GET responses.
+ *
+ * Entries are keyed by request URL and token scope. Fresh entries are served
+ * without touching the network; stale ones are revalidated with
+ * If-None-Match / If-Modified-Since, and a 304 answer (which GitHub does not
+ * count against the primary rate limit) just renews the entry.
+ */
+export class HttpCache {
+  private options: HttpCacheOptions;
+  private stats = { hits: 0, revalidated: 0, misses: 0, stored: 0 };
+
+  constructor(options: Partial<HttpCacheOptions> = {}) {
+    this.options = {
+      enabled: config.cache.enabled,
+      refresh: false,
+      dir: config.cache.dir,
+      ttl: config.cache.ttl,
+      ...options,
+    };
+  }
+
+  /**
+   * Update cache behaviour (used by the --no-cache / --refresh script flags)
+   */
+  configure(options: Partial<HttpCacheOptions>): void {
+    this.options = { ...this.options, ...options };
+    logger.debug({ enabled: this.options.enabled, refresh: this.options.refresh }, "HTTP cache configured");
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Work out which TTL applies to a request URL
+   */
+  static classify(url: string): EndpointClass {
+    const { pathname } = new URL(url, "https://api.github.com");
+    if (pathname.startsWith('/search/')) return 'search';
+    if (/^\/repos\/[^/]+\/[^/]+\/contents\//.test(pathname)) return 'contents';
+    if (/^\/repos\/[^/]+\/[^/]+\/commits/.test(pathname)) return 'commits';
+    return 'default';
+  }
+
+  /**
+   * Cache scope for a credential. Tokens can see different repositories, so
+   * every token gets its own scope, keyed by a digest rather than the secret.
+   * App installation tokens are reissued hourly and pass the installation
+   * label instead, which keeps their entries across refreshes.
+   */
+  static scopeFor(credential?: string): string {
+    if (!credential) return 'anonymous';
+    return `credential:${createHash('sha256').update(credential).digest('hex').slice(0, 16)}`;
+  }
+
+  /**
+   * Whether a request can be answered from or stored in the cache
+   */
+  isCacheable(method: string, url: string): boolean {
+    if (!this.options.enabled || method.toUpperCase() !== 'GET') return false;
+    return !new URL(url, "https://api.github.com").pathname.startsWith('/rate_limit');
+  }
+
+  /**
+   * Look up a cached response and report whether it is still within its TTL
+   */
+  lookup(url: string, scope: string): CacheLookup | null {
+    const filePath = this.pathFor(url, scope);
+    if (!fs.existsSync(filePath)) {
+      this.stats.misses++;
+      return null;
+    }
+
+    try {
+      const entry: CachedResponse = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      const ttl = this.options.ttl[HttpCache.classify(url)];
+      const fresh = !this.options.refresh && Date.now() - entry.storedAt < ttl;
+      if (fresh) {
+        this.stats.hits++;
+      }
+      return { entry, fresh };
+    } catch (error) {
+      logger.warn({ url, error }, "Ignoring unreadable HTTP cache entry");
+      this.stats.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * Conditional request headers for revalidating a cached entry
+   */
+  conditionalHeaders(entry: CachedResponse): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['if-none-match'] = entry.etag;
+    if (entry.lastModified) headers['if-modified-since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * Store a successful response
+   */
+  store(url: string, scope: string, status: number, headers: Record<string, any>, data: any): void {
+    if (status !== 200) return;
+
+    const entry: CachedResponse = {
+      url,
+      scope,
+      status,
+      etag: headers['etag'],
+      lastModified: headers['last-modified'],
+      data,
+      storedAt: Date.now(),
+    };
+    this.write(entry);
+    this.stats.stored++;
+  }
+
+  /**
+   * Renew an entry after a 304 Not Modified answer
+   */
+  renew(entry: CachedResponse): void {
+    this.stats.revalidated++;
+    this.write({ ...entry, storedAt: Date.now() });
+  }
+
+  /**
+   * Get cache statistics for the current process
+   */
+  getStats() {
+    return { ...this.stats };
+  }
+
+  private write(entry: CachedResponse): void {
+    const filePath = this.pathFor(entry.url, entry.scope);
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(entry));
+      fs.renameSync(tmpPath, filePath);
+    } catch (error) {
+      logger.warn({ url: entry.url, error }, "Failed to write HTTP cache entry");
+    }
+  }
+
+  private pathFor(url: string, scope: string): string {
+    const key = createHash('sha256').update(`${scope}\n${url}`).digest('hex');
+    return path.join(this.options.dir, key.slice(0, 2), `${key}.json`);
+  }
+}
+
+// Singleton instance shared by every GitHub client in the process
+let httpCacheInstance: HttpCache | null = null;
+
+export function getHttpCache(): HttpCache {
+  if (!httpCacheInstance) {
+    httpCacheInstance = new HttpCache();
+  }
+  return httpCacheInstance;
+}
+
+/**
+ * Apply --no-cache / --refresh style overrides to the shared cache
+ */
+export function configureHttpCache(options: Partial<HttpCacheOptions>): void {
+  getHttpCache().configure(options);
+}
+
+/**
+ * Send one request attempt through the shared cache. The transport calls this
+ * once the token for the attempt is known, so entries are only ever served
+ * back to the credential scope that fetched them. `send` receives any
+ * conditional headers to add.
+ */
+export async function cachedRequest(
+  method: string,
+  url: string,
+  scope: string,
+  send: (headers: Record<string, string>) => Promise<any>
+): Promise<any> {
+  const cache = getHttpCache();
+
+  if (!cache.isCacheable(method, url)) {
+    return send({});
+  }
+
+  const cached = cache.lookup(url, scope);
+
+  if (cached?.fresh) {
+    logger.debug({ url }, "HTTP cache hit");
+    return { status: 200, url, headers: {}, data: cached.entry.data };
+  }
+
+  try {
+    const response = await send(cached ? cache.conditionalHeaders(cached.entry) : {});
+    cache.store(url, scope, response.status, response.headers, response.data);
+    return response;
+  } catch (error: any) {
+    if (error.status === 304 && cached) {
+      logger.debug({ url }, "HTTP cache revalidated (304)");
+      cache.renew(cached.entry);
+      return { status: 200, url, headers: error.response?.headers || {}, data: cached.entry.data };
+    }
+    throw error;
+  }
+}
\ No newline at end of file
@@ -1,2 +1,5 @@
 export { GitHubSearchClient } from "./search-client";
+export { GitHubTransport, getTransport, configureTransport, isTimeoutError } from "./transport";
+export type { TransportOptions, TransportMetrics, ServedRequest, GitHubOctokit } from "./transport";
+export { HttpCache, getHttpCache, configureHttpCache, cachedRequest } from "./http-cache";
 export * from "../../types/github";
\ No newline at end of file
@@ -1,9 +1,14 @@
-import { Octokit } from "@octokit/rest";
-import { retry } from "@octokit/plugin-retry";
-import { throttling } from "@octokit/plugin-throttling";
 import { logger } from "../logger";
-import { TokenRotator } from "../token-rotator";
 import { config } from "../config";
+import { GitHubTransport, getTransport } from "./transport";
+import {
+  bisectRange,
+  defaultRange,
+  extractQualifier,
+  parseRange,
+  sliceQuery,
+  type QualifierRange,
+} from "./search-partition";
 import {
   SearchTimeoutError,
   RateLimitError,
@@ -15,10 +20,20 @@ import type {
   RepositorySearchResult,
   SearchOptions,
   RateLimitInfo,
+  ExhaustiveSearchOptions,
+  ExhaustiveSearchResult,
+  PartitionQualifier,
+  SearchCoverage,
 } from "../../types/github";
 
-// Create custom Octokit with plugins
-const MyOctokit = Octokit.plugin(retry, throttling);
+// GitHub never returns more than this many results for one query
+const SEARCH_RESULT_CAP = 1000;
+
+interface SearchSlice {
+  ranges: Partial<Record<PartitionQualifier, QualifierRange>>;
+  // Index of the first qualifier this slice may still be split on
+  dimension: number;
+}
 
 /**
  * GitHub Search Client with advanced error handling and rate limiting
@@ -31,87 +46,18 @@ const MyOctokit = Octokit.plugin(retry, throttling);
  * many repos at the API level, so build smart queries instead.
  */
 export class GitHubSearchClient {
-  private octokit: InstanceType<typeof MyOctokit>;
+  private transport: GitHubTransport;
   private searchTimeoutMs: number;
-  private tokenRotator?: TokenRotator;
-  private useTokenRotation: boolean;
 
   constructor(searchConfig: SearchConfig = {}) {
     this.searchTimeoutMs = searchConfig.searchTimeoutMs || config.timeout.searchTimeout;
-    this.useTokenRotation = searchConfig.useTokenRotation || false;
-
-    // Initialize token rotation if enabled
-    let token: string | undefined;
-    if (this.useTokenRotation) {
-      try {
-        this.tokenRotator = new TokenRotator();
-        token = this.tokenRotator.getNextToken();
-        logger.info(`Token rotation enabled with ${this.tokenRotator.getTokenCount()} tokens`);
-      } catch (error) {
-        logger.warn("Failed to initialize token rotation, falling back to single token");
-        this.useTokenRotation = false;
-        token = searchConfig.githubToken || process.env.GITHUB_TOKEN;
-      }
-    } else {
-      token = searchConfig.githubToken || process.env.GITHUB_TOKEN;
-    }
-
-    if (!token) {
-      logger.warn("No GitHub token provided. API rate limits will be very restrictive.");
-    }
-
-    // Initialize Octokit with retry and throttling plugins
-    this.octokit = new MyOctokit({
-      auth: token,
-      retry: {
-        retries: searchConfig.maxRetries || config.retry.maxRetries,
-        retryAfterBaseValue: config.retry.standardRetryBaseDelay,
-        doNotRetry: [400, 401, 403, 404, 422],
-      },
-      throttle: {
-        onRateLimit: (retryAfter, options: any, octokit, retryCount) => {
-          logger.warn(
-            `Rate limit detected for request ${options.method} ${options.url}. Retry #${retryCount} after ${retryAfter} seconds.`
-          );
-
-          // Try to rotate token if available
-          if (this.useTokenRotation && this.tokenRotator && retryCount === 1) {
-            const currentToken = (octokit.auth as any).token;
-            this.tokenRotator.markTokenAsRateLimited(currentToken);
-
-            const newToken = this.tokenRotator.getLeastRecentlyUsedToken();
-            if (newToken !== currentToken) {
-              logger.info("Rotating to a different token due to rate limit");
-              (octokit.auth as any) = newToken;
-              return true;
-            }
-          }
-
-          // Retry up to configured max retries for rate limit
-          if (retryCount <= config.retry.maxRetries) {
-            logger.info(`Retrying after ${retryAfter} seconds...`);
-            return true;
-          }
-
-          logger.error("Max rate limit retries exceeded");
-          return false;
-        },
-        onSecondaryRateLimit: (retryAfter, options: any, _octokit, retryCount) => {
-          logger.warn(
-            `Secondary rate limit (abuse detection) for ${options.method} ${options.url}. Retry #${retryCount} after ${retryAfter} seconds.`
-          );
-
-          // Retry up to 3 times for abuse detection
-          if (retryCount <= 3) {
-            logger.info(`Retrying after ${retryAfter} seconds due to abuse detection...`);
-            return true;
-          }
 
-          logger.error("Max abuse limit retries exceeded");
-          return false;
-        },
-      },
-    });
+    // Auth, retries, throttling and caching live in the transport; only build a
+    // dedicated one when this client asks for something the shared one lacks
+    const { githubToken, useTokenRotation, baseUrl, maxRetries } = searchConfig;
+    this.transport = githubToken || useTokenRotation !== undefined || baseUrl || maxRetries
+      ? new GitHubTransport({ token: githubToken, useTokenRotation, baseUrl, maxRetries })
+      : getTransport();
   }
 
   /**
@@ -119,7 +65,7 @@ export class GitHubSearchClient {
    */
   async checkRateLimit(): Promise<RateLimitInfo> {
     try {
-      const { data } = await this.octokit.rateLimit.get();
+      const { data } = await this.transport.rest.rateLimit.get();
       const search = data.resources.search;
 
       logger.info({
@@ -141,80 +87,25 @@ export class GitHubSearchClient {
   }
 
   /**
-   * Manually rotate to next token
+   * Get token rotation statistics
    */
-  rotateToken(): void {
-    if (!this.useTokenRotation || !this.tokenRotator) {
-      logger.warn("Token rotation is not enabled");
-      return;
-    }
-
-    const newToken = this.tokenRotator.getNextToken();
-    this.octokit = new MyOctokit({
-      auth: newToken,
-      retry: {
-        retries: 5,
-        retryAfterBaseValue: 1000,
-        doNotRetry: [400, 401, 403, 404, 422],
-      },
-      throttle: {
-        onRateLimit: (retryAfter, options: any, octokit, retryCount) => {
-          logger.warn(
-            `Rate limit detected for request ${options.method} ${options.url}. Retry #${retryCount} after ${retryAfter} seconds.`
-          );
-
-          // Try to rotate token if available
-          if (this.useTokenRotation && this.tokenRotator && retryCount === 1) {
-            const currentToken = (octokit.auth as any).token;
-            this.tokenRotator.markTokenAsRateLimited(currentToken);
-
-            const newToken = this.tokenRotator.getLeastRecentlyUsedToken();
-            if (newToken !== currentToken) {
-              logger.info("Rotating to a different token due to rate limit");
-              (octokit.auth as any) = newToken;
-              return true;
-            }
-          }
-
-          // Retry up to 5 times for rate limit
-          if (retryCount <= 5) {
-            logger.info(`Retrying after ${retryAfter} seconds...`);
-            return true;
-          }
-
-          logger.error("Max rate limit retries exceeded");
-          return false;
-        },
-        onSecondaryRateLimit: (retryAfter, options: any, _octokit, retryCount) => {
-          logger.warn(
-            `Secondary rate limit (abuse detection) for ${options.method} ${options.url}. Retry #${retryCount} after ${retryAfter} seconds.`
-          );
-
-          // Retry up to 3 times for abuse detection
-          if (retryCount <= 3) {
-            logger.info(`Retrying after ${retryAfter} seconds due to abuse detection...`);
-            return true;
-          }
-
-          logger.error("Max abuse limit retries exceeded");
-          return false;
-        },
-      },
-    });
-
-    logger.info("Manually rotated to next token");
+  getTokenStats() {
+    return this.transport.getTokenStats();
   }
 
   /**
-   * Get token rotation statistics
+   * Which token served each recent request attempt
    */
-  getTokenStats() {
-    if (!this.tokenRotator) {
-      return null;
-    }
-    return this.tokenRotator.getUsageStats();
+  getServedRequests() {
+    return this.transport.getServedRequests();
   }
 
+  /**
+   * Get request metrics from the underlying transport
+   */
+  getMetrics() {
+    return this.transport.getMetrics();
+  }
 
   /**
    * Transform GitHub API response to our result format
@@ -274,7 +165,7 @@ export class GitHubSearchClient {
         logger.debug(`Fetching page ${page} with ${perPage} results per page`);
 
         // Race between API call and timeout
-        const searchPromise = this.octokit.search.repos({
+        const searchPromise = this.transport.rest.search.repos({
           q: query,
           sort,
           order,
@@ -368,6 +259,156 @@ export class GitHubSearchClient {
     throw new Error(`Failed after ${maxRetries} retries`);
   }
 
+  /**
+   * Fetch every result of a search, including those past the 1,000-result cap.
+   *
+   * When a query matches more than GitHub exposes, it is split in two by
+   * bisecting a created: date range (then size: and stars: for repository
+   * search) and each half is searched again, recursively, until every slice
+   * fits. Slice results are merged and deduplicated. A slice that cannot be
+   * split any further (e.g. one day with more than 1,000 matches) is fetched up
+   * to the cap and listed in coverage.truncatedSlices.
+   */
+  async searchExhaustive(
+    query: string,
+    options: ExhaustiveSearchOptions & { type: 'repositories' }
+  ): Promise<ExhaustiveSearchResult<RepositorySearchResult>>;
+  async searchExhaustive(query: string, options?: ExhaustiveSearchOptions): Promise<ExhaustiveSearchResult<any>>;
+  async searchExhaustive(query: string, options: ExhaustiveSearchOptions = {}): Promise<ExhaustiveSearchResult<any>> {
+    const startTime = Date.now();
+    const { type = 'code', perPage = 100, resultCap = SEARCH_RESULT_CAP } = options;
+    const dimensions = options.partitionBy ??
+      (type === 'repositories' ? ['created', 'size', 'stars'] : ['created']) as PartitionQualifier[];
+
+    // Ranges the query already sets become the bounds that get bisected
+    let base = query;
+    const initial: SearchSlice = { ranges: {}, dimension: 0 };
+    const bounds = {} as Record<PartitionQualifier, QualifierRange>;
+    for (const qualifier of dimensions) {
+      const extracted = extractQualifier(base, qualifier);
+      bounds[qualifier] = extracted.value ? parseRange(qualifier, extracted.value) : defaultRange(qualifier);
+      if (extracted.value) {
+        base = extracted.query;
+        initial.ranges[qualifier] = bounds[qualifier];
+      }
+    }
+
+    const results = new Map<string, any>();
+    const coverage: SearchCoverage = {
+      query,
+      totalCount: 0,
+      fetched: 0,
+      slices: 0,
+      truncatedSlices: [],
+      incompleteResults: false,
+      complete: true,
+    };
+    const pending: SearchSlice[] = [initial];
+
+    logger.info({ query, type, partitionBy: dimensions }, "Starting exhaustive search");
+
+    try {
+      while (pending.length > 0) {
+        const slice = pending.shift()!;
+        const sliceQ = sliceQuery(base, slice.ranges);
+        const first = await this.fetchSearchPage(type, sliceQ, 1, perPage);
+        if (slice === initial) {
+          coverage.totalCount = first.total_count;
+        }
+
+        if (first.total_count > resultCap) {
+          const halves = this.splitSlice(slice, dimensions, bounds);
+          if (halves) {
+            logger.debug(`${first.total_count} results for "${sliceQ}", splitting`);
+            // Depth-first, so slices are fetched in range order
+            pending.unshift(...halves);
+            continue;
+          }
+        }
+
+        coverage.slices++;
+        const items = [...first.items];
+        coverage.incompleteResults ||= first.incomplete_results;
+        const visible = Math.min(first.total_count, resultCap);
+        for (let page = 2; items.length < visible && first.items.length === perPage; page++) {
+          const next = await this.fetchSearchPage(type, sliceQ, page, perPage);
+          items.push(...next.items);
+          coverage.incompleteResults ||= next.incomplete_results;
+          if (next.items.length < perPage) break;
+        }
+
+        if (first.total_count > resultCap) {
+          coverage.truncatedSlices.push({ query: sliceQ, totalCount: first.total_count, fetched: items.length });
+          logger.warn(`Search slice "${sliceQ}" matches ${first.total_count} results and cannot be split further; only ${items.length} fetched`);
+        }
+
+        for (const item of items) {
+          const key = type === 'repositories'
+            ? item.full_name.toLowerCase()
+            : `${item.repository.full_name.toLowerCase()}/${item.path}`;
+          if (!results.has(key)) {
+            results.set(key, type === 'repositories' ? this.transformRepository(item) : item);
+          }
+        }
+      }
+    } catch (error: any) {
+      throw this.toSearchError(error, `Exhaustive search for "${query}" failed`);
+    }
+
+    coverage.fetched = results.size;
+    coverage.complete = coverage.truncatedSlices.length === 0 && !coverage.incompleteResults;
+
+    logger.info(
+      `Exhaustive search complete in ${Date.now() - startTime}ms: fetched ${coverage.fetched} of ${coverage.totalCount} results in ${coverage.slices} slices` +
+      (coverage.complete ? '' : ` (${coverage.truncatedSlices.length} truncated slices, incomplete results: ${coverage.incompleteResults})`)
+    );
+
+    return { items: Array.from(results.values()), coverage };
+  }
+
+  /**
+   * One page of raw code or repository search results
+   */
+  private async fetchSearchPage(type: 'code' | 'repositories', q: string, page: number, perPage: number) {
+    const response = type === 'repositories'
+      ? await this.transport.rest.search.repos({ q, per_page: perPage, page })
+      : await this.transport.rest.search.code({ q, per_page: perPage, page });
+    return response.data as { total_count: number; incomplete_results: boolean; items: any[] };
+  }
+
+  /**
+   * Bisect a slice on the first qualifier whose range still has more than one value
+   */
+  private splitSlice(
+    slice: SearchSlice,
+    dimensions: PartitionQualifier[],
+    bounds: Record<PartitionQualifier, QualifierRange>
+  ): SearchSlice[] | null {
+    for (let dimension = slice.dimension; dimension < dimensions.length; dimension++) {
+      const qualifier = dimensions[dimension];
+      const halves = bisectRange(slice.ranges[qualifier] ?? bounds[qualifier]);
+      if (halves) {
+        return halves.map(range => ({ ranges: { ...slice.ranges, [qualifier]: range }, dimension }));
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Map an Octokit error to the search error classes
+   */
+  private toSearchError(error: any, message: string): Error {
+    if (error.status === 403 && error.response?.headers?.['x-ratelimit-remaining'] === '0') {
+      const resetTime = parseInt(error.response.headers['x-ratelimit-reset']);
+      const waitTime = Math.ceil(resetTime - Date.now() / 1000);
+      return new RateLimitError(`GitHub API rate limit exceeded. Reset in ${waitTime} seconds`, waitTime);
+    }
+    if (error.status === 403 && error.message?.includes('abuse')) {
+      return new AbuseLimitError("GitHub abuse detection triggered. Please wait before retrying.");
+    }
+    return new GitHubAPIError(`${message}: ${error.message}`, error.status, error.response);
+  }
+
 
   /**
    * Search for code/files in repositories
@@ -397,7 +438,7 @@ export class GitHubSearchClient {
         const maxPages = Math.ceil(maxResults / perPage);
 
         while (page <= maxPages && results.length < maxResults) {
-          const response = await this.octokit.search.code({
+          const response = await this.transport.rest.search.code({
             q: query,
             per_page: perPage,
             page,
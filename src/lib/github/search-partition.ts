@@ -0,0 +1,127 @@
+import type { PartitionQualifier } from "../../types/github";
+
+/**
+ * Query slicing for searches that match more than GitHub's 1,000 visible results.
+ *
+ * A slice is the base query plus one range qualifier per partition dimension.
+ * Ranges are inclusive and bisected until each slice fits under the cap.
+ */
+
+/**
+ * Inclusive range; dates are days since the Unix epoch, sizes are KB (repositories) or bytes (code)
+ */
+export interface QualifierRange {
+  from: number;
+  to: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Nothing on GitHub predates its launch
+const FIRST_DAY = Date.UTC(2008, 0, 1) / DAY_MS;
+
+// Upper bounds for numeric qualifiers; the top slice is written open-ended (N..*)
+const NUMERIC_MAX: Record<Exclude<PartitionQualifier, 'created'>, number> = {
+  size: 100_000_000,
+  stars: 1_000_000,
+};
+
+function toDay(value: string): number {
+  return Math.floor(Date.parse(value.slice(0, 10) + 'T00:00:00Z') / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Full range of a qualifier when the query does not restrict it
+ */
+export function defaultRange(qualifier: PartitionQualifier, now: number = Date.now()): QualifierRange {
+  if (qualifier === 'created') {
+    return { from: FIRST_DAY, to: Math.floor(now / DAY_MS) };
+  }
+  return { from: 0, to: NUMERIC_MAX[qualifier] };
+}
+
+/**
+ * Parse a qualifier value (2024-01-01..2024-02-01, >=10, <2021-01-01, *..5, 42)
+ * into an inclusive range, clamped to the qualifier's default bounds
+ */
+export function parseRange(qualifier: PartitionQualifier, value: string, now: number = Date.now()): QualifierRange {
+  const bounds = defaultRange(qualifier, now);
+  const parse = (raw: string) => qualifier === 'created' ? toDay(raw) : Number(raw);
+
+  let range: QualifierRange;
+  if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    range = {
+      from: from === '*' ? bounds.from : parse(from),
+      to: to === '*' ? bounds.to : parse(to),
+    };
+  } else if (value.startsWith('>=')) {
+    range = { from: parse(value.slice(2)), to: bounds.to };
+  } else if (value.startsWith('>')) {
+    range = { from: parse(value.slice(1)) + 1, to: bounds.to };
+  } else if (value.startsWith('<=')) {
+    range = { from: bounds.from, to: parse(value.slice(2)) };
+  } else if (value.startsWith('<')) {
+    range = { from: bounds.from, to: parse(value.slice(1)) - 1 };
+  } else {
+    range = { from: parse(value), to: parse(value) };
+  }
+
+  if (isNaN(range.from) || isNaN(range.to)) {
+    throw new Error(`Cannot partition on ${qualifier}:${value}`);
+  }
+  return { from: Math.max(range.from, bounds.from), to: Math.min(range.to, bounds.to) };
+}
+
+/**
+ * Render a range as a qualifier value
+ */
+export function formatRange(qualifier: PartitionQualifier, range: QualifierRange): string {
+  if (qualifier === 'created') {
+    return range.from === range.to
+      ? formatDay(range.from)
+      : `${formatDay(range.from)}..${formatDay(range.to)}`;
+  }
+  const to = range.to >= NUMERIC_MAX[qualifier] ? '*' : String(range.to);
+  return range.from === range.to ? String(range.from) : `${range.from}..${to}`;
+}
+
+/**
+ * Split a range in two halves, or return null when it is a single value
+ */
+export function bisectRange(range: QualifierRange): [QualifierRange, QualifierRange] | null {
+  if (range.from >= range.to) {
+    return null;
+  }
+  const mid = range.from + Math.floor((range.to - range.from) / 2);
+  return [{ from: range.from, to: mid }, { from: mid + 1, to: range.to }];
+}
+
+/**
+ * Remove a qualifier from a query, returning its value if it was present.
+ * Negated qualifiers (-created:...) are left alone.
+ */
+export function extractQualifier(query: string, qualifier: PartitionQualifier): { query: string; value?: string } {
+  const pattern = new RegExp(`(^|\\s)${qualifier}:(\\S+)`);
+  const match = query.match(pattern);
+  if (!match) {
+    return { query };
+  }
+  return {
+    query: query.replace(pattern, '$1').replace(/\s{2,}/g, ' ').trim(),
+    value: match[2],
+  };
+}
+
+/**
+ * Append range qualifiers to a base query
+ */
+export function sliceQuery(base: string, ranges: Partial<Record<PartitionQualifier, QualifierRange>>): string {
+  const qualifiers = (Object.entries(ranges) as [PartitionQualifier, QualifierRange][])
+    .map(([qualifier, range]) => `${qualifier}:${formatRange(qualifier, range)}`);
+  return [base, ...qualifiers].join(' ');
+}
@@ -0,0 +1,375 @@
+import { Octokit } from "@octokit/rest";
+import { retry } from "@octokit/plugin-retry";
+import { throttling } from "@octokit/plugin-throttling";
+import { logger } from "../logger";
+import { config } from "../config";
+import { getTokenRotator, type TokenRotator, type TokenUsageStats } from "../token-rotator";
+import { HttpCache, getHttpCache, cachedRequest } from "./http-cache";
+import type { RateLimitResource } from "../../types/github";
+
+// Octokit with retry and throttling plugins; every GitHub call in the project goes through it
+const TransportOctokit = Octokit.plugin(retry, throttling);
+export type GitHubOctokit = InstanceType<typeof TransportOctokit>;
+
+// Secondary (abuse) limits are retried a fixed number of times, independent of MAX_RETRIES
+const MAX_SECONDARY_RATE_LIMIT_RETRIES = 3;
+
+// How many per-attempt records getServedRequests() keeps
+const MAX_SERVED_REQUESTS = 1000;
+
+export interface TransportOptions {
+  // Single token used when rotation is disabled (defaults to GITHUB_TOKEN)
+  token?: string;
+  // Draw a token per request from the shared TokenRotator (on by default when a GitHub App is configured)
+  useTokenRotation?: boolean;
+  // Rotator to draw from instead of the shared one (implies rotation)
+  tokenRotator?: TokenRotator;
+  // REST API base URL, defaults to config.github.apiBaseUrl
+  baseUrl?: string;
+  maxRetries?: number;
+}
+
+export interface TransportMetrics {
+  requests: number;
+  attempts: number;
+  retries: number;
+  failures: number;
+  rateLimited: number;
+  secondaryRateLimited: number;
+  byStatus: Record<number, number>;
+  byResource: Record<RateLimitResource, number>;
+  byToken: Record<string, number>;
+  tokenSwaps: number;
+  cache: ReturnType<HttpCache['getStats']>;
+}
+
+/**
+ * One HTTP attempt and the token (by label) that served it
+ */
+export interface ServedRequest {
+  method: string;
+  url: string;
+  resource: RateLimitResource;
+  token: string;
+  status?: number;
+  at: string;
+}
+
+/**
+ * Work out which rate-limit bucket a request URL is charged to
+ */
+function resourceFor(url: string): RateLimitResource {
+  const { pathname } = new URL(url, "https://api.github.com");
+  if (pathname.startsWith('/search/code')) return 'code_search';
+  if (pathname.startsWith('/search/')) return 'search';
+  return 'core';
+}
+
+/**
+ * Whether an error is a per-attempt HTTP timeout
+ */
+export function isTimeoutError(error: any): boolean {
+  return error?.name === 'TimeoutError' || error?.cause?.name === 'TimeoutError';
+}
+
+/**
+ * Single HTTP stack for the GitHub REST API.
+ *
+ * Owns authentication (a fixed token, or per attempt the pool token that the
+ * rotator's selection strategy picks for the endpoint's rate-limit resource,
+ * including GitHub App installation tokens),
+ * retries of 5xx responses, throttling and rate-limit handling, the on-disk response cache
+ * and request metrics. Hooks are layered, outermost
+ * first: metrics → throttling → retry → auth, so every retry gets its own
+ * token and timeout. The response cache sits inside auth and is scoped to the
+ * token picked for each attempt, so cache hits never reach the network and a
+ * response is never served to a token that did not fetch it.
+ */
+export class GitHubTransport {
+  readonly octokit: GitHubOctokit;
+  private token?: string;
+  private tokenLabel = 'GITHUB_TOKEN';
+  private tokenRotator?: TokenRotator;
+  private served: ServedRequest[] = [];
+  private metrics = {
+    requests: 0,
+    attempts: 0,
+    failures: 0,
+    rateLimited: 0,
+    secondaryRateLimited: 0,
+    byStatus: {} as Record<number, number>,
+    byResource: { core: 0, search: 0, code_search: 0 } as Record<RateLimitResource, number>,
+    byToken: {} as Record<string, number>,
+    tokenSwaps: 0,
+  };
+
+  constructor(options: TransportOptions = {}) {
+    const maxRetries = options.maxRetries ?? config.retry.maxRetries;
+
+    if (options.tokenRotator) {
+      this.tokenRotator = options.tokenRotator;
+    } else if (options.useTokenRotation ?? (config.github.useTokenRotation || !!config.githubApp.appId)) {
+      try {
+        this.tokenRotator = getTokenRotator();
+        logger.info(`Token rotation enabled with ${this.tokenRotator.getTokenCount()} tokens (${this.tokenRotator.getStrategyName()})`);
+      } catch (error: any) {
+        logger.warn(`Failed to initialize token rotation, falling back to single token: ${error.message}`);
+      }
+    }
+    if (!this.tokenRotator) {
+      this.token = options.token || process.env.GITHUB_TOKEN;
+      if (options.token) {
+        this.tokenLabel = 'configured token';
+      }
+      if (!this.token) {
+        logger.warn("No GitHub token provided. API rate limits will be very restrictive.");
+      }
+    }
+
+    this.octokit = new TransportOctokit({
+      baseUrl: options.baseUrl || config.github.apiBaseUrl,
+      authStrategy: () => this.createAuth(),
+      // Route Octokit's per-request log lines through pino instead of the console
+      log: {
+        debug: (message: string) => logger.debug(message),
+        info: (message: string) => logger.debug(message),
+        warn: (message: string) => logger.warn(message),
+        error: (message: string) => logger.warn(message),
+      },
+      retry: {
+        retries: maxRetries,
+        retryAfterBaseValue: config.retry.standardRetryBaseDelay,
+        doNotRetry: [400, 401, 403, 404, 409, 410, 422, 451],
+      },
+      throttle: {
+        onRateLimit: (retryAfter, options: any, _octokit, retryCount) => {
+          this.metrics.rateLimited++;
+          logger.warn(
+            `Rate limit detected for request ${options.method} ${options.url}. Retry #${retryCount + 1} after ${retryAfter} seconds.`
+          );
+
+          if (retryCount < maxRetries) {
+            return true;
+          }
+
+          logger.error("Max rate limit retries exceeded");
+          return false;
+        },
+        onSecondaryRateLimit: (retryAfter, options: any, _octokit, retryCount) => {
+          this.metrics.secondaryRateLimited++;
+          logger.warn(
+            `Secondary rate limit (abuse detection) for ${options.method} ${options.url}. Retry #${retryCount + 1} after ${retryAfter} seconds.`
+          );
+
+          if (retryCount < MAX_SECONDARY_RATE_LIMIT_RETRIES) {
+            return true;
+          }
+
+          logger.error("Max abuse limit retries exceeded");
+          return false;
+        },
+      },
+    });
+
+    this.installMetrics();
+  }
+
+  /**
+   * Typed REST endpoint methods (search, repos, rateLimit, ...)
+   */
+  get rest(): GitHubOctokit['rest'] {
+    return this.octokit.rest;
+  }
+
+  /**
+   * Generic route request, e.g. request('GET /repos/{owner}/{repo}', { owner, repo })
+   */
+  get request(): GitHubOctokit['request'] {
+    return this.octokit.request;
+  }
+
+  /**
+   * Token rotation statistics, or null when a single token is used
+   */
+  getTokenStats(): TokenUsageStats[] | null {
+    return this.tokenRotator ? this.tokenRotator.getUsageStats() : null;
+  }
+
+  /**
+   * Which token served each recent HTTP attempt, oldest first
+   */
+  getServedRequests(): ServedRequest[] {
+    return [...this.served];
+  }
+
+  /**
+   * Request counters for this transport plus the shared cache statistics
+   */
+  getMetrics(): TransportMetrics {
+    return {
+      ...this.metrics,
+      byStatus: { ...this.metrics.byStatus },
+      byResource: { ...this.metrics.byResource },
+      byToken: { ...this.metrics.byToken },
+      retries: this.metrics.attempts - this.metrics.requests,
+      cache: getHttpCache().getStats(),
+    };
+  }
+
+  /**
+   * Auth strategy whose hook runs once per HTTP attempt (it is registered
+   * before the retry and throttling plugins), so a retried request picks a
+   * token and timeout afresh. When a rotated token hits its primary rate limit
+   * and another token still has budget, the request is re-sent with that token
+   * straight away instead of waiting for the reset.
+   */
+  private createAuth() {
+    const auth = async () => {
+      const token = await this.selectToken('core');
+      return token ? { type: 'token', token, tokenType: 'oauth' } : { type: 'unauthenticated' };
+    };
+
+    const hook = async (request: any, route: any, parameters?: any) => {
+      const endpoint = request.endpoint.merge(route, parameters);
+      const resource = resourceFor(endpoint.url);
+
+      for (let swaps = 0; ; swaps++) {
+        const token = await this.selectToken(resource);
+        try {
+          return await this.cachedAttempt(request, endpoint, resource, token);
+        } catch (error: any) {
+          if (!this.shouldSwapToken(error, resource, token) || swaps >= this.tokenRotator!.getTokenCount() - 1) {
+            throw error;
+          }
+          this.metrics.tokenSwaps++;
+          logger.info(`Token ${this.labelFor(token)} is out of ${resource} budget, retrying ${endpoint.method} ${endpoint.url} with another token`);
+        }
+      }
+    };
+
+    return Object.assign(auth, { hook });
+  }
+
+  /**
+   * Answer an attempt from the response cache under the token's scope, or send it
+   */
+  private async cachedAttempt(request: any, endpoint: any, resource: RateLimitResource, token: string | undefined) {
+    const { method, url } = request.endpoint.parse(endpoint);
+    return cachedRequest(method, url, this.cacheScope(token), headers =>
+      this.attempt(request, { ...endpoint, headers: { ...endpoint.headers, ...headers } }, resource, token)
+    );
+  }
+
+  /**
+   * Send one HTTP attempt with the given token and record what happened
+   */
+  private async attempt(request: any, endpoint: any, resource: RateLimitResource, token: string | undefined) {
+    const options = {
+      ...endpoint,
+      headers: token ? { ...endpoint.headers, authorization: `token ${token}` } : endpoint.headers,
+      request: { ...endpoint.request, signal: AbortSignal.timeout(config.timeout.httpRequestTimeout) },
+    };
+    const label = this.labelFor(token);
+
+    this.metrics.attempts++;
+    this.metrics.byResource[resource]++;
+    this.metrics.byToken[label] = (this.metrics.byToken[label] || 0) + 1;
+    try {
+      const response = await request(options);
+      this.recordServed(endpoint, resource, label, response.status);
+      this.recordRateLimit(token, resource, response.headers);
+      return response;
+    } catch (error: any) {
+      this.recordServed(endpoint, resource, label, error.status);
+      this.recordRateLimit(token, resource, error.response?.headers);
+      throw error;
+    }
+  }
+
+  /**
+   * A primary rate limit on a rotated token, with another token left to try
+   */
+  private shouldSwapToken(error: any, resource: RateLimitResource, token: string | undefined): boolean {
+    return !!this.tokenRotator && !!token &&
+      (error.status === 403 || error.status === 429) &&
+      error.response?.headers?.['x-ratelimit-remaining'] === '0' &&
+      this.tokenRotator.hasAvailableToken(resource, token);
+  }
+
+  /**
+   * Pick the token for the resource being called, using the rotator's selection
+   * strategy (App installation tokens are exchanged or refreshed on the way)
+   */
+  private async selectToken(resource: RateLimitResource): Promise<string | undefined> {
+    return this.tokenRotator ? this.tokenRotator.acquireToken(resource) : this.token;
+  }
+
+  private cacheScope(token: string | undefined): string {
+    const refreshable = !!this.tokenRotator && !!token && this.tokenRotator.isRefreshable(token);
+    return HttpCache.scopeFor(refreshable ? this.labelFor(token) : token);
+  }
+
+  private labelFor(token: string | undefined): string {
+    if (this.tokenRotator && token) return this.tokenRotator.labelFor(token);
+    return token ? this.tokenLabel : 'anonymous';
+  }
+
+  private recordRateLimit(token: string | undefined, resource: RateLimitResource, headers?: Record<string, any>): void {
+    if (this.tokenRotator && token && headers) {
+      this.tokenRotator.recordRateLimit(token, resource, headers);
+    }
+  }
+
+  private recordServed(endpoint: any, resource: RateLimitResource, token: string, status: number | undefined): void {
+    if (status !== undefined) {
+      this.metrics.byStatus[status] = (this.metrics.byStatus[status] || 0) + 1;
+    }
+
+    const served: ServedRequest = {
+      method: endpoint.method,
+      url: endpoint.url,
+      resource,
+      token,
+      status,
+      at: new Date().toISOString(),
+    };
+    this.served.push(served);
+    if (this.served.length > MAX_SERVED_REQUESTS) {
+      this.served.shift();
+    }
+    logger.debug(served, "GitHub request served");
+  }
+
+  /**
+   * Count logical requests (cache hits included) and final failures, outside retries
+   */
+  private installMetrics(): void {
+    this.octokit.hook.wrap("request", async (request, options) => {
+      this.metrics.requests++;
+      try {
+        return await request(options);
+      } catch (error: any) {
+        this.metrics.failures++;
+        throw error;
+      }
+    });
+  }
+}
+
+// Singleton transport shared by the classifier, scripts and default search clients
+let transportInstance: GitHubTransport | null = null;
+
+export function getTransport(): GitHubTransport {
+  if (!transportInstance) {
+    transportInstance = new GitHubTransport();
+  }
+  return transportInstance;
+}
+
+/**
+ * Replace the shared transport, e.g. after a script has parsed its options
+ */
+export function configureTransport(options: TransportOptions = {}): GitHubTransport {
+  transportInstance = new GitHubTransport(options);
+  return transportInstance;
+}
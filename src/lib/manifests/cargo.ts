@@ -0,0 +1,51 @@
+import toml from "toml";
+import type { ManifestClassifier, RawIndicator } from "./types";
+
+export interface CargoManifest {
+  package?: {
+    name?: string;
+  };
+  workspace?: {
+    dependencies?: Record<string, any>;
+  };
+  dependencies?: Record<string, any>;
+  'dev-dependencies'?: Record<string, any>;
+}
+
+/**
+ * Ecosystem signalled by a crate name, checked in order
+ */
+const CRATE_SIGNALS: [RegExp, string][] = [
+  [/^aztec/, 'aztec'],
+  [/^(acvm|acir|nargo|noirc_.+|noir_.+|bn254_blackbox_solver)$/, 'noir'],
+  [/^(starknet|starknet-.+|cairo-lang-.+|cairo-vm)$/, 'starknet'],
+  [/^(ethers|ethers-.+|alloy|alloy-.+|revm|foundry-.+)$/, 'ethereum'],
+];
+
+/**
+ * Cargo.toml: Rust crates depending on Noir, Aztec, Starknet or Ethereum crates
+ */
+export const cargoClassifier: ManifestClassifier<CargoManifest> = {
+  id: 'cargo',
+  filePatterns: ['Cargo.toml'],
+
+  parse(content) {
+    return toml.parse(content) as CargoManifest;
+  },
+
+  analyze(manifest) {
+    const indicators: RawIndicator[] = [];
+    const names = new Set([
+      ...Object.keys(manifest.dependencies ?? {}),
+      ...Object.keys(manifest['dev-dependencies'] ?? {}),
+      ...Object.keys(manifest.workspace?.dependencies ?? {}),
+    ]);
+    for (const name of names) {
+      const signal = CRATE_SIGNALS.find(([pattern]) => pattern.test(name))?.[1];
+      if (signal) {
+        indicators.push({ kind: 'dependency', detail: `dependency:${name}`, signal, weight: 0.7 });
+      }
+    }
+    return { name: manifest.package?.name, indicators };
+  },
+};
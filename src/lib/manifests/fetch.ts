@@ -0,0 +1,252 @@
+import { logger } from "../logger";
+import { GitHubTransport, isTimeoutError } from "../github/transport";
+
+export interface DirectoryEntry {
+  path: string;
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+}
+
+/**
+ * Entries of a repository directory, or null when the listing could not be fetched
+ */
+export async function listDirectory(
+  owner: string,
+  repo: string,
+  path: string,
+  transport: GitHubTransport
+): Promise<DirectoryEntry[] | null> {
+  try {
+    const response: { data: any } = await transport.request('GET /repos/{owner}/{repo}/contents/{path}', {
+      owner,
+      repo,
+      path,
+    });
+    if (!Array.isArray(response.data)) {
+      return [];
+    }
+    return response.data.map((entry: any) => ({ path: entry.path, type: entry.type }));
+  } catch (error: any) {
+    if (error.status === 404) {
+      // Empty repositories (and missing directories) have no contents at all
+      return [];
+    }
+    logger.warn({ owner, repo, path, status: error.status, error: error.message }, "Failed to list repository directory");
+    return null;
+  }
+}
+
+// Code search returns at most this many results per query
+const CODE_SEARCH_RESULT_CAP = 1000;
+
+/**
+ * Search for all files with a given name in a repository using GitHub's code search,
+ * page by page. Finds nothing when there are more than the search can return,
+ * so that the caller lists the repository tree instead.
+ */
+export async function searchManifestFiles(
+  owner: string,
+  repo: string,
+  fileName: string,
+  transport: GitHubTransport
+): Promise<{ paths: string[]; searchFailed: boolean; failureReason?: string }> {
+  try {
+    const perPage = 100;
+    const paths: string[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await transport.request('GET /search/code', {
+        q: `filename:${fileName} repo:${owner}/${repo}`,
+        per_page: perPage,
+        page,
+      });
+      const items: any[] = response.data.items ?? [];
+      const total: number = response.data.total_count ?? 0;
+      if (total > CODE_SEARCH_RESULT_CAP) {
+        logger.debug(`${total} ${fileName} files in ${owner}/${repo} are more than code search returns`);
+        return { paths: [], searchFailed: false };
+      }
+
+      // Extract paths from search results
+      paths.push(...items.map((item: any) => item.path));
+      if (items.length < perPage || paths.length >= total) {
+        break;
+      }
+    }
+    logger.debug(`Found ${paths.length} ${fileName} files in ${owner}/${repo}: ${paths.join(', ')}`);
+    return { paths, searchFailed: false };
+  } catch (error: any) {
+    // Log detailed error information
+    const errorDetails = {
+      owner,
+      repo,
+      status: error.status,
+      message: error.message,
+      isTimeout: isTimeoutError(error),
+      isRateLimit: error.status === 403 || error.status === 429
+    };
+
+    let failureReason = "Unknown error";
+    if (error.status === 403 || error.status === 429) {
+      failureReason = "Rate limit exceeded";
+      logger.error(errorDetails, `GitHub API rate limit hit while searching for ${fileName} files`);
+    } else if (isTimeoutError(error)) {
+      failureReason = "Request timeout";
+      logger.error(errorDetails, `Request timeout while searching for ${fileName} files`);
+    } else if (error.status === 401) {
+      failureReason = "Authentication failed";
+      logger.error(errorDetails, `Authentication failed while searching for ${fileName} files`);
+    } else {
+      failureReason = error.message || "Search API error";
+      logger.warn(errorDetails, `Code search for ${fileName} files failed, listing the repository tree`);
+    }
+
+    return { paths: [], searchFailed: true, failureReason };
+  }
+}
+
+/**
+ * Fetch the decoded content of a file, or null if it does not exist or cannot be fetched
+ */
+export async function fetchFileContent(
+  owner: string,
+  repo: string,
+  path: string,
+  transport: GitHubTransport
+): Promise<string | null> {
+  try {
+    const response: { data: any } = await transport.request('GET /repos/{owner}/{repo}/contents/{path}', {
+      owner,
+      repo,
+      path,
+    });
+
+    // A directory where a manifest was expected
+    if (Array.isArray(response.data) || response.data.type !== 'file') {
+      return null;
+    }
+
+    return Buffer.from(response.data.content, 'base64').toString('utf-8');
+  } catch (error: any) {
+    if (error.status === 404) {
+      // 404 is expected for paths that don't exist, just debug log
+      logger.debug({ owner, repo, path }, "File not found at path");
+    } else if (error.status === 403 || error.status === 429) {
+      logger.error({
+        owner,
+        repo,
+        path,
+        status: error.status,
+        message: error.message
+      }, "Rate limited while fetching file");
+    } else if (isTimeoutError(error)) {
+      logger.error({ owner, repo, path }, "Timeout while fetching file");
+    } else {
+      logger.warn({
+        owner,
+        repo,
+        path,
+        status: error.status,
+        error: error.message
+      }, "Failed to fetch file");
+    }
+    return null;
+  }
+}
+
+export interface TreeEntry {
+  // Repository-relative
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+/**
+ * One git trees request; paths are relative to the tree
+ */
+async function fetchTree(
+  owner: string,
+  repo: string,
+  treeSha: string,
+  recursive: boolean,
+  transport: GitHubTransport
+): Promise<{ entries: TreeEntry[]; truncated: boolean } | null> {
+  try {
+    const response: { data: any } = await transport.request('GET /repos/{owner}/{repo}/git/trees/{tree_sha}', {
+      owner,
+      repo,
+      tree_sha: treeSha,
+      ...(recursive && { recursive: '1' }),
+    });
+    const entries = (response.data.tree ?? []).map((entry: any) => ({ path: entry.path, type: entry.type, sha: entry.sha, size: entry.size }));
+    return { entries, truncated: Boolean(response.data.truncated) };
+  } catch (error: any) {
+    logger.warn({ owner, repo, tree: treeSha, status: error.status, error: error.message }, "Failed to fetch repository tree");
+    return null;
+  }
+}
+
+/**
+ * List a tree whose recursive listing was truncated: its own entries, then
+ * each subtree recursively, descending further wherever that is truncated too
+ */
+async function walkTree(
+  owner: string,
+  repo: string,
+  treeSha: string,
+  prefix: string,
+  transport: GitHubTransport
+): Promise<{ entries: TreeEntry[]; truncated: boolean }> {
+  const level = await fetchTree(owner, repo, treeSha, false, transport);
+  if (!level) {
+    return { entries: [], truncated: true };
+  }
+
+  const entries: TreeEntry[] = [];
+  let truncated = level.truncated;
+  for (const entry of level.entries) {
+    const entryPath = `${prefix}${entry.path}`;
+    entries.push({ ...entry, path: entryPath });
+    if (entry.type !== 'tree') {
+      continue;
+    }
+
+    const subtree = await fetchTree(owner, repo, entry.sha, true, transport);
+    if (subtree && !subtree.truncated) {
+      entries.push(...subtree.entries.map(child => ({ ...child, path: `${entryPath}/${child.path}` })));
+    } else if (subtree) {
+      const walked = await walkTree(owner, repo, entry.sha, `${entryPath}/`, transport);
+      entries.push(...walked.entries);
+      truncated ||= walked.truncated;
+    } else {
+      truncated = true;
+    }
+  }
+  return { entries, truncated };
+}
+
+/**
+ * Every entry of the default branch's tree, or null when the tree could not be fetched.
+ *
+ * One recursive request covers most repositories. GitHub truncates recursive
+ * listings of very large trees; those are listed level by level instead, one
+ * recursive request per subtree, so `truncated` is only set when part of the
+ * tree could not be listed at all.
+ */
+export async function fetchRepoTree(
+  owner: string,
+  repo: string,
+  transport: GitHubTransport
+): Promise<{ entries: TreeEntry[]; truncated: boolean } | null> {
+  const tree = await fetchTree(owner, repo, 'HEAD', true, transport);
+  if (!tree || !tree.truncated) {
+    return tree;
+  }
+
+  logger.info(`Tree of ${owner}/${repo} is truncated after ${tree.entries.length} entries, listing its subtrees`);
+  const walked = await walkTree(owner, repo, 'HEAD', '', transport);
+  if (walked.truncated) {
+    logger.warn(`Tree of ${owner}/${repo} is incomplete, ${walked.entries.length} entries listed`);
+  }
+  return walked;
+}
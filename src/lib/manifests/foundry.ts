@@ -0,0 +1,30 @@
+import toml from "toml";
+import type { ManifestClassifier, RawIndicator } from "./types";
+
+export interface FoundryConfig {
+  profile?: Record<string, {
+    solc?: string;
+    solc_version?: string;
+  }>;
+}
+
+/**
+ * foundry.toml: Solidity projects built with Foundry
+ */
+export const foundryClassifier: ManifestClassifier<FoundryConfig> = {
+  id: 'foundry',
+  filePatterns: ['foundry.toml'],
+
+  parse(content) {
+    return toml.parse(content) as FoundryConfig;
+  },
+
+  analyze(config) {
+    const indicators: RawIndicator[] = [{ kind: 'config', detail: 'foundry project', signal: 'ethereum', weight: 1 }];
+    const solc = config.profile?.default?.solc_version ?? config.profile?.default?.solc;
+    if (solc) {
+      indicators.push({ kind: 'config', detail: `solc=${solc}`, signal: 'ethereum', weight: 1 });
+    }
+    return { indicators };
+  },
+};
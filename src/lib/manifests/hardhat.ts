@@ -0,0 +1,30 @@
+import type { ManifestClassifier, RawIndicator } from "./types";
+
+/**
+ * hardhat.config.{js,ts,cjs,mjs}: Solidity projects built with Hardhat.
+ *
+ * The config is code, so it is scanned rather than evaluated.
+ */
+export const hardhatClassifier: ManifestClassifier<string> = {
+  id: 'hardhat',
+  filePatterns: ['hardhat.config.*'],
+
+  parse(content) {
+    return content;
+  },
+
+  analyze(source) {
+    const indicators: RawIndicator[] = [{ kind: 'config', detail: 'hardhat project', signal: 'ethereum', weight: 0.9 }];
+
+    // solidity: "0.8.24" or solidity: { version: "0.8.24" }
+    const solc = source.match(/solidity\s*:\s*(?:\{[^}]*?version\s*:\s*)?["'`](\d+\.\d+\.\d+)["'`]/);
+    if (solc) {
+      indicators.push({ kind: 'config', detail: `solc=${solc[1]}`, signal: 'ethereum', weight: 0.9 });
+    }
+
+    for (const plugin of new Set(source.match(/@[\w-]+\/hardhat-[\w-]+/g) ?? [])) {
+      indicators.push({ kind: 'dependency', detail: `plugin:${plugin}`, signal: 'ethereum', weight: 0.8 });
+    }
+    return { indicators };
+  },
+};
@@ -0,0 +1,28 @@
+export {
+  scanManifests,
+  getManifestClassifier,
+  matchesFilePattern,
+  MANIFEST_CLASSIFIER_IDS,
+} from "./scan";
+export type { ManifestScan, ManifestScanOptions } from "./scan";
+export { fetchFileContent, fetchRepoTree, listDirectory, searchManifestFiles } from "./fetch";
+export type { DirectoryEntry, TreeEntry } from "./fetch";
+export { analyzeNargoConfig, buildNargoPackageGraph, nargoClassifier, nargoVersions, resolveAztecGitDependency } from "./nargo";
+export type { NargoConfig, NargoPackage } from "./nargo";
+export { npmClassifier, packageSignal } from "./npm";
+export type { PackageJson } from "./npm";
+export { analyzeNoirSource, scanNoirSources, NOIR_SOURCE_CLASSIFIER } from "./noir-source";
+export type { NoirSourceScan } from "./noir-source";
+export { cargoClassifier } from "./cargo";
+export { scarbClassifier } from "./scarb";
+export { foundryClassifier } from "./foundry";
+export { hardhatClassifier } from "./hardhat";
+export type {
+  ManifestClassifier,
+  ManifestAnalysis,
+  ManifestFinding,
+  ManifestIndicator,
+  RawIndicator,
+  VersionRequirement,
+  DeclaredVersion,
+} from "./types";
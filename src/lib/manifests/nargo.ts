@@ -0,0 +1,179 @@
+import toml from "toml";
+import * as path from "path";
+import type { ManifestClassifier, ManifestFinding, RawIndicator, VersionRequirement } from "./types";
+
+export interface NargoConfig {
+  package?: {
+    name?: string;
+    type?: string;
+    compiler_version?: string;
+  };
+  workspace?: {
+    members?: string[];
+    'default-member'?: string;
+  };
+  dependencies?: Record<string, any>;
+}
+
+/**
+ * A Noir package (or workspace) of a repository and how it relates to the others
+ */
+export interface NargoPackage {
+  // Nargo.toml path
+  path: string;
+  name?: string;
+  // bin, lib, contract, or workspace for a workspace root without a package
+  type: string;
+  // aztec when the package or any local package it builds on is Aztec
+  status: 'aztec' | 'noir';
+  // Nargo.toml paths of the local packages it depends on by path
+  dependsOn: string[];
+  // Nargo.toml paths of its workspace members
+  members: string[];
+}
+
+// Repositories aztec-nr is published from, lowercase owner/repo
+const AZTEC_GIT_REPOS = ['aztecprotocol/aztec-packages', 'aztecprotocol/aztec-nr'];
+
+/**
+ * owner/repo of a GitHub git dependency URL
+ */
+function githubRepo(url: string): string | undefined {
+  return url.trim().match(/github\.com[/:]([^/]+\/[^/?#]+?)(?:\.git)?\/?(?:[?#].*)?$/i)?.[1];
+}
+
+/**
+ * owner/repo of a git dependency URL when it is one of the aztec-nr repositories
+ */
+export function resolveAztecGitDependency(url: string): string | undefined {
+  const repo = githubRepo(url);
+  return repo && AZTEC_GIT_REPOS.includes(repo.toLowerCase()) ? repo : undefined;
+}
+
+/**
+ * Compiler version and the git tags of aztec-nr and noir-lang dependencies
+ */
+export function nargoVersions(config: NargoConfig): VersionRequirement[] {
+  const versions: VersionRequirement[] = [];
+  if (typeof config.package?.compiler_version === 'string') {
+    versions.push({ component: 'noir', version: config.package.compiler_version, source: 'compiler' });
+  }
+  for (const spec of Object.values(config.dependencies ?? {})) {
+    if (typeof spec?.git !== 'string' || typeof spec.tag !== 'string') {
+      continue;
+    }
+    const repo = githubRepo(spec.git);
+    if (resolveAztecGitDependency(spec.git)) {
+      versions.push({ component: 'aztec-nr', version: spec.tag, source: 'git-tag' });
+    } else if (repo?.toLowerCase().startsWith('noir-lang/')) {
+      versions.push({ component: repo.toLowerCase(), version: spec.tag, source: 'git-tag' });
+    }
+  }
+  // One entry per component and version, e.g. several aztec-nr crates at one tag
+  return versions.filter((version, i) =>
+    versions.findIndex(other => other.component === version.component && other.version === version.version) === i);
+}
+
+/**
+ * Analyze a single Nargo.toml config to determine if it's Aztec-related
+ */
+export function analyzeNargoConfig(config: NargoConfig): {
+  isAztec: boolean;
+  type: string;
+  indicators: RawIndicator[];
+} {
+  const indicators: RawIndicator[] = [];
+  // A workspace root declares members instead of a package
+  const packageType = config.package?.type || (config.workspace && !config.package ? 'workspace' : 'bin');
+
+  // Check if it's a contract (definite Aztec indicator)
+  if (packageType === 'contract') {
+    indicators.push({ kind: 'package-type', detail: 'type=contract', signal: 'aztec', weight: 0.9 });
+  }
+
+  // Check dependencies for Aztec-related packages
+  for (const [dep, spec] of Object.entries(config.dependencies ?? {})) {
+    // A git dependency on aztec-nr is conclusive whatever the dependency is called
+    const gitRepo = typeof spec?.git === 'string' ? resolveAztecGitDependency(spec.git) : undefined;
+    if (gitRepo) {
+      indicators.push({ kind: 'dependency', detail: `dependency:${dep} (git ${gitRepo})`, signal: 'aztec', weight: 0.95 });
+    } else if (dep.toLowerCase().includes('aztec')) {
+      // aztec, aztec.nr, aztec_*, aztec-* and the like
+      indicators.push({ kind: 'dependency', detail: `dependency:${dep}`, signal: 'aztec', weight: 0.8 });
+    }
+  }
+
+  return { isAztec: indicators.length > 0, type: packageType, indicators };
+}
+
+/**
+ * Noir packages: every Nargo.toml is a Noir project, contracts and aztec
+ * dependencies make it an Aztec one
+ */
+export const nargoClassifier: ManifestClassifier<NargoConfig> = {
+  id: 'nargo',
+  filePatterns: ['Nargo.toml'],
+  searchNested: true,
+
+  parse(content) {
+    return toml.parse(content) as NargoConfig;
+  },
+
+  analyze(config) {
+    const analysis = analyzeNargoConfig(config);
+    const indicators = analysis.indicators;
+    if (!analysis.isAztec) {
+      indicators.push({ kind: 'package-type', detail: `type=${analysis.type}`, signal: 'noir', weight: 1 });
+    }
+
+    const localDependencies = Object.entries(config.dependencies ?? {})
+      .filter(([, spec]) => typeof spec?.path === 'string')
+      .map(([name, spec]) => ({ name, path: spec.path as string }));
+    const members = (config.workspace?.members ?? []).filter((member): member is string => typeof member === 'string');
+
+    return { name: config.package?.name, type: analysis.type, indicators, members, localDependencies, versions: nargoVersions(config) };
+  },
+};
+
+/**
+ * Package graph of a repository's Nargo.toml findings.
+ *
+ * Members and path dependencies are linked to the findings they point at;
+ * ones outside the repository, or whose Nargo.toml could not be read, are
+ * left out. A package is Aztec when it has Aztec indicators of its own or
+ * builds on a local Aztec package, through dependencies or, for a
+ * workspace, its members.
+ */
+export function buildNargoPackageGraph(findings: ManifestFinding[]): NargoPackage[] {
+  const nargoFindings = findings.filter(finding => finding.classifier === 'nargo');
+  const byPath = new Map(nargoFindings.map(finding => [finding.path, finding]));
+
+  // Nargo.toml paths of the local packages behind directories declared in a manifest
+  const resolve = (manifestPath: string, dirs: string[]) => dirs
+    .map(dir => path.posix.join(path.posix.dirname(manifestPath), dir, 'Nargo.toml'))
+    .filter(manifest => manifest !== manifestPath && byPath.has(manifest));
+
+  const packages = new Map<string, NargoPackage>(nargoFindings.map(finding => [finding.path, {
+    path: finding.path,
+    name: finding.name,
+    type: finding.type ?? 'bin',
+    status: finding.indicators.some(indicator => indicator.signal === 'aztec') ? 'aztec' : 'noir',
+    dependsOn: resolve(finding.path, (finding.localDependencies ?? []).map(dependency => dependency.path)),
+    members: resolve(finding.path, finding.members ?? []),
+  }]));
+
+  // Spread Aztec status to dependents and workspaces until nothing changes; the graph may have cycles
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const pkg of packages.values()) {
+      const builtOn = [...pkg.dependsOn, ...pkg.members];
+      if (pkg.status === 'noir' && builtOn.some(target => packages.get(target)?.status === 'aztec')) {
+        pkg.status = 'aztec';
+        changed = true;
+      }
+    }
+  }
+
+  return [...packages.values()];
+}
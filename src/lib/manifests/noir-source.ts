@@ -0,0 +1,82 @@
+import { logger } from "../logger";
+import type { GitHubTransport } from "../github/transport";
+import { fetchFileContent, fetchRepoTree } from "./fetch";
+import type { ManifestIndicator, RawIndicator } from "./types";
+
+/**
+ * Aztec.nr constructs in Noir source, with how conclusive each one is.
+ * `#[private]`/`#[public]` and storage also appear outside Aztec, so they weigh less.
+ */
+const AZTEC_SOURCE_PATTERNS: { pattern: RegExp; detail: string; weight: number }[] = [
+  { pattern: /\buse\s+(?:dep::)?aztec::/, detail: 'use dep::aztec', weight: 0.95 },
+  { pattern: /#\[aztec(?:\([^)]*\))?\]/, detail: '#[aztec]', weight: 0.95 },
+  { pattern: /#\[private\]/, detail: '#[private]', weight: 0.7 },
+  { pattern: /#\[public\]/, detail: '#[public]', weight: 0.7 },
+  { pattern: /#\[storage\]|\bstruct\s+Storage\s*</, detail: 'storage', weight: 0.6 },
+];
+
+// Classifier name source indicators are reported under
+export const NOIR_SOURCE_CLASSIFIER = 'noir-source';
+
+/**
+ * Aztec indicators found in one .nr file
+ */
+export function analyzeNoirSource(source: string): RawIndicator[] {
+  const lines = source.split('\n');
+  return AZTEC_SOURCE_PATTERNS.flatMap(({ pattern, detail, weight }): RawIndicator[] => {
+    const line = lines.find(line => pattern.test(line));
+    return line === undefined ? [] : [{ kind: 'source', detail: `source:${detail}`, signal: 'aztec', weight, excerpt: line.trim().slice(0, 120) }];
+  });
+}
+
+/**
+ * Order in which .nr files are read: entry points and contract sources first,
+ * tests and vendored dependencies last
+ */
+function scanPriority(filePath: string): number {
+  if (/(^|\/)(main|lib)\.nr$/.test(filePath)) return 0;
+  if (/contract/i.test(filePath)) return 1;
+  if (/(^|\/)(tests?|vendor|node_modules)\//.test(filePath)) return 3;
+  return 2;
+}
+
+export interface NoirSourceScan {
+  // .nr files in the repository tree
+  filesFound: number;
+  filesScanned: number;
+  indicators: ManifestIndicator[];
+}
+
+/**
+ * Deep classification: list the repository's .nr files with one recursive
+ * tree request and scan up to `maxFiles` of them for Aztec.nr constructs
+ */
+export async function scanNoirSources(
+  owner: string,
+  repo: string,
+  transport: GitHubTransport,
+  maxFiles: number
+): Promise<NoirSourceScan> {
+  const tree = await fetchRepoTree(owner, repo, transport);
+  const sources = (tree?.entries ?? [])
+    .filter(entry => entry.type === 'blob' && entry.path.endsWith('.nr'))
+    .map(entry => entry.path)
+    .sort((a, b) => scanPriority(a) - scanPriority(b) || a.localeCompare(b));
+
+  const indicators: ManifestIndicator[] = [];
+  let filesScanned = 0;
+
+  for (const filePath of sources.slice(0, maxFiles)) {
+    const content = await fetchFileContent(owner, repo, filePath, transport);
+    if (content === null) {
+      continue;
+    }
+    filesScanned++;
+    for (const indicator of analyzeNoirSource(content)) {
+      indicators.push({ ...indicator, classifier: NOIR_SOURCE_CLASSIFIER, path: filePath });
+    }
+  }
+
+  logger.debug(`Scanned ${filesScanned} of ${sources.length} .nr files in ${owner}/${repo}: ${indicators.length} Aztec indicators`);
+  return { filesFound: sources.length, filesScanned, indicators };
+}
@@ -0,0 +1,96 @@
+import type { ManifestClassifier, RawIndicator, VersionRequirement } from "./types";
+
+export interface PackageJson {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  // npm/yarn workspaces, as a list or yarn's { packages: [...] } form
+  workspaces?: string[] | { packages?: string[] };
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies'] as const;
+
+/**
+ * Ecosystem (and indicator weight) signalled by an npm package name, checked in order
+ */
+const PACKAGE_SIGNALS: [RegExp, string, number][] = [
+  [/^@aztec\//, 'aztec', 0.9],
+  [/^@noir-lang\//, 'noir', 0.9],
+  [/^(starknet|get-starknet(-core)?|@starknet-react\/.+|@argent\/.+)$/, 'starknet', 0.8],
+  // General-purpose EVM libraries say less about a project
+  [/^(hardhat|ethers|viem|wagmi|web3|@nomicfoundation\/.+|@openzeppelin\/contracts)$/, 'ethereum', 0.6],
+];
+
+export function packageSignal(name: string): { signal: string; weight: number } | undefined {
+  const match = PACKAGE_SIGNALS.find(([pattern]) => pattern.test(name));
+  return match && { signal: match[1], weight: match[2] };
+}
+
+/**
+ * Package globs of a pnpm-workspace.yaml. Only the `packages:` list is read,
+ * which is all the file normally holds.
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const packages: string[] = [];
+  let inPackages = false;
+  for (const line of content.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s*-/.test(line)) {
+      packages.push(line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '').replace(/^["']|["']$/g, '').trim());
+    } else if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+  return packages;
+}
+
+/**
+ * package.json: declared dependencies on known ecosystem packages, and the
+ * version ranges of the @aztec/* and @noir-lang/* ones.
+ *
+ * Nested package.json files are searched for, since apps often live in a
+ * subdirectory without a workspace declaring them, and workspace members
+ * (package.json `workspaces`, pnpm-workspace.yaml) are followed, so every
+ * package of a monorepo is classified.
+ */
+export const npmClassifier: ManifestClassifier<PackageJson> = {
+  id: 'npm',
+  filePatterns: ['package.json', 'pnpm-workspace.yaml'],
+  // pnpm only reads a workspace file at the root
+  searchNested: ['package.json'],
+
+  parse(content, path) {
+    if (path.endsWith('pnpm-workspace.yaml')) {
+      return { workspaces: parsePnpmWorkspace(content) };
+    }
+    const manifest = JSON.parse(content);
+    if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+      throw new Error("package.json is not an object");
+    }
+    return manifest as PackageJson;
+  },
+
+  analyze(manifest) {
+    const indicators: RawIndicator[] = [];
+    const versions: VersionRequirement[] = [];
+    const seen = new Set<string>();
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const [name, version] of Object.entries(manifest[field] ?? {})) {
+        const match = packageSignal(name);
+        if (match && !seen.has(name)) {
+          seen.add(name);
+          indicators.push({ kind: 'dependency', detail: `dependency:${name}@${version}`, ...match });
+          if (/^@(aztec|noir-lang)\//.test(name) && typeof version === 'string') {
+            versions.push({ component: name, version, source: 'npm' });
+          }
+        }
+      }
+    }
+
+    const workspaces = Array.isArray(manifest.workspaces) ? manifest.workspaces : manifest.workspaces?.packages;
+    const members = (workspaces ?? []).filter((member): member is string => typeof member === 'string');
+    return { name: manifest.name, indicators, members, versions };
+  },
+};
@@ -0,0 +1,291 @@
+import { logger } from "../logger";
+import type { GitHubTransport } from "../github/transport";
+import * as path from "path";
+import { fetchFileContent, fetchRepoTree, listDirectory, searchManifestFiles, type TreeEntry } from "./fetch";
+import { nargoClassifier } from "./nargo";
+import { npmClassifier } from "./npm";
+import { cargoClassifier } from "./cargo";
+import { scarbClassifier } from "./scarb";
+import { foundryClassifier } from "./foundry";
+import { hardhatClassifier } from "./hardhat";
+import type { ManifestClassifier, ManifestFinding } from "./types";
+
+const MANIFEST_CLASSIFIERS: ManifestClassifier<any>[] = [
+  nargoClassifier,
+  npmClassifier,
+  cargoClassifier,
+  scarbClassifier,
+  foundryClassifier,
+  hardhatClassifier,
+];
+
+// Ids of the built-in manifest classifiers
+export const MANIFEST_CLASSIFIER_IDS = MANIFEST_CLASSIFIERS.map(classifier => classifier.id);
+
+export function getManifestClassifier(id: string): ManifestClassifier<any> {
+  const classifier = MANIFEST_CLASSIFIERS.find(candidate => candidate.id === id);
+  if (!classifier) {
+    throw new Error(`Unknown manifest classifier "${id}" (expected one of: ${MANIFEST_CLASSIFIER_IDS.join(', ')})`);
+  }
+  return classifier;
+}
+
+/**
+ * Whether a file path's name matches a classifier file pattern
+ */
+export function matchesFilePattern(filePath: string, pattern: string): boolean {
+  const name = filePath.split('/').pop() ?? filePath;
+  const regex = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')}$`);
+  return regex.test(name);
+}
+
+export interface ManifestScanOptions {
+  // Classifier ids to run, defaults to all of them
+  classifiers?: string[];
+}
+
+export interface ManifestScan {
+  findings: ManifestFinding[];
+  // Manifests fetched and parsed
+  filesChecked: number;
+  apiFailure?: {
+    searchFailed: boolean;
+    allFetchesFailed: boolean;
+    reason: string;
+  };
+}
+
+/**
+ * Locate, fetch, parse and analyze every manifest the selected classifiers handle.
+ *
+ * Manifests at the repository root are found with one directory listing;
+ * classifiers with `searchNested` also run a code search per nested file pattern and,
+ * when that fails or finds nothing, take every matching path from the
+ * repository's git tree instead.
+ */
+export async function scanManifests(
+  owner: string,
+  repo: string,
+  transport: GitHubTransport,
+  options: ManifestScanOptions = {}
+): Promise<ManifestScan> {
+  const classifiers = (options.classifiers ?? MANIFEST_CLASSIFIER_IDS).map(getManifestClassifier);
+  const findings: ManifestFinding[] = [];
+  let apiFailure: ManifestScan['apiFailure'] = undefined;
+
+  const rootEntries = await listDirectory(owner, repo, '', transport) ?? [];
+  const rootFiles = rootEntries.filter(entry => entry.type === 'file').map(entry => entry.path);
+
+  // Fetched at most once per scan, the first time a classifier needs it
+  let tree: Promise<TreeEntry[] | null> | undefined;
+  const repoTree = () => tree ??= fetchRepoTree(owner, repo, transport).then(result => result?.entries ?? null);
+  // Files of the tree, once it has been fetched
+  let treeFiles: Set<string> | undefined;
+
+  for (const classifier of classifiers) {
+    const paths = new Set(rootFiles.filter(file => classifier.filePatterns.some(pattern => matchesFilePattern(file, pattern))));
+    const nestedPatterns = classifier.searchNested === true ? classifier.filePatterns : classifier.searchNested || [];
+    let searchFailed = false;
+    let treeFailed = false;
+    let treePaths = 0;
+
+    if (nestedPatterns.length > 0) {
+      for (const pattern of nestedPatterns) {
+        const searchResult = await searchManifestFiles(owner, repo, pattern, transport);
+
+        // Track if search failed
+        if (searchResult.searchFailed) {
+          searchFailed = true;
+          apiFailure ??= {
+            searchFailed: true,
+            allFetchesFailed: false, // Will be determined after listing the tree
+            reason: searchResult.failureReason || 'Search failed'
+          };
+        }
+
+        if (searchResult.paths.length > 0) {
+          logger.info(`Found ${searchResult.paths.length} ${pattern} files in ${owner}/${repo} via search`);
+          searchResult.paths.forEach(file => paths.add(file));
+          continue;
+        }
+
+        // Search didn't work or found nothing (it misses unindexed repositories): read the paths off the tree
+        if (searchResult.searchFailed) {
+          logger.info(`Search failed for ${owner}/${repo} (${searchResult.failureReason}), listing the repository tree`);
+        } else {
+          logger.debug(`No ${pattern} files found via search for ${owner}/${repo}, listing the repository tree`);
+        }
+        const entries = await repoTree();
+        if (!entries) {
+          treeFailed = true;
+          continue;
+        }
+        for (const entry of entries) {
+          if (entry.type === 'blob' && matchesFilePattern(entry.path, pattern) && !paths.has(entry.path)) {
+            paths.add(entry.path);
+            treePaths++;
+          }
+        }
+      }
+    }
+
+    let found = 0;
+    const candidates = [...paths];
+
+    const queued = new Set(candidates);
+
+    for (let i = 0; i < candidates.length; i++) {
+      const filePath = candidates[i];
+      const finding = await analyzeFile(owner, repo, filePath, classifier, transport);
+
+      if (finding) {
+        found++;
+        findings.push(finding);
+        logger.debug(`Analyzed ${filePath} in ${owner}/${repo}: type=${finding.type ?? '-'}, indicators=${finding.indicators.map(i => i.detail).join(', ')}`);
+
+        // Workspace members and local dependencies are scanned like any other candidate, so nested workspaces resolve too
+        const declared = [...(finding.members ?? []), ...(finding.localDependencies ?? []).map(dependency => dependency.path)];
+        const entries = tree ? await tree : null;
+        if (entries) {
+          treeFiles ??= new Set(entries.filter(entry => entry.type === 'blob').map(entry => entry.path));
+        }
+        const members = await resolveMembers(owner, repo, filePath, declared, transport, entries);
+        for (const member of members) {
+          const memberManifest = member ? `${member}/${classifier.filePatterns[0]}` : classifier.filePatterns[0];
+          // With the tree at hand, members without the manifest are not fetched at all
+          if (treeFiles && !treeFiles.has(memberManifest)) {
+            continue;
+          }
+          if (!queued.has(memberManifest)) {
+            queued.add(memberManifest);
+            candidates.push(memberManifest);
+          }
+        }
+      }
+
+      // Rate limiting - small delay between API calls
+      if (i < candidates.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+
+    // With search down, the verdict rests on the tree: flag it when that could not be used either.
+    // Any classifier left without its manifests flags the whole scan.
+    if (apiFailure && searchFailed && (treeFailed || (treePaths > 0 && found === 0))) {
+      apiFailure.allFetchesFailed = true;
+      logger.warn(`Neither search nor the repository tree located a readable ${classifier.filePatterns.join('/')} in ${owner}/${repo}`);
+    }
+  }
+
+  return {
+    findings,
+    filesChecked: findings.length,
+    ...(apiFailure && { apiFailure })
+  };
+}
+
+/**
+ * Expand the member globs of a manifest into existing directories, repository-relative.
+ *
+ * With the repository tree at hand the globs are matched against it, '**'
+ * spanning any depth. Otherwise each '*' segment costs one directory listing
+ * and '**' is treated like '*' (one level). Negated patterns are ignored.
+ */
+async function resolveMembers(
+  owner: string,
+  repo: string,
+  manifestPath: string,
+  members: string[],
+  transport: GitHubTransport,
+  tree: TreeEntry[] | null
+): Promise<string[]> {
+  const baseDir = path.posix.dirname(manifestPath);
+  const resolved = new Set<string>();
+
+  for (const member of members) {
+    if (member.startsWith('!')) {
+      continue;
+    }
+    const normalized = path.posix.normalize(path.posix.join(baseDir, member)).replace(/\/$/, '');
+    if (normalized.startsWith('..')) {
+      // Outside the repository
+      continue;
+    }
+    const segments = normalized.split('/').filter(part => part && part !== '.');
+
+    if (tree && segments.some(segment => segment.includes('*'))) {
+      const pattern = globToRegExp(segments.join('/'));
+      tree.filter(entry => entry.type === 'tree' && pattern.test(entry.path)).forEach(entry => resolved.add(entry.path));
+      continue;
+    }
+
+    let dirs = [''];
+    for (const segment of segments) {
+      if (!segment.includes('*')) {
+        dirs = dirs.map(dir => dir ? `${dir}/${segment}` : segment);
+        continue;
+      }
+      const next: string[] = [];
+      for (const dir of dirs) {
+        const entries = await listDirectory(owner, repo, dir, transport) ?? [];
+        next.push(...entries
+          .filter(entry => entry.type === 'dir' && matchesFilePattern(entry.path, segment.replace(/\*\*/g, '*')))
+          .map(entry => entry.path));
+      }
+      dirs = next;
+    }
+    dirs.forEach(dir => resolved.add(dir));
+  }
+
+  return [...resolved];
+}
+
+/**
+ * Workspace glob as a regular expression over repository paths: '*' matches
+ * within one directory, '**' across any number of them
+ */
+function globToRegExp(glob: string): RegExp {
+  const segments = glob.split('/');
+  const source = segments.map((segment, i) => {
+    const last = i === segments.length - 1;
+    if (segment === '**') {
+      return last ? '[^/]+(?:/[^/]+)*' : '(?:[^/]+/)*';
+    }
+    return segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*+/g, '[^/]*') + (last ? '' : '/');
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Fetch, parse and analyze one manifest; null when it is missing or unparseable
+ */
+async function analyzeFile(
+  owner: string,
+  repo: string,
+  filePath: string,
+  classifier: ManifestClassifier<any>,
+  transport: GitHubTransport
+): Promise<ManifestFinding | null> {
+  const content = classifier.fetch
+    ? await classifier.fetch(owner, repo, filePath, transport)
+    : await fetchFileContent(owner, repo, filePath, transport);
+  if (content === null) {
+    return null;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = classifier.parse(content, filePath);
+  } catch (error: any) {
+    logger.warn({ owner, repo, path: filePath, error: error.message }, `Failed to parse ${classifier.id} manifest`);
+    return null;
+  }
+
+  const analysis = classifier.analyze(manifest, filePath);
+  return {
+    ...analysis,
+    classifier: classifier.id,
+    path: filePath,
+    indicators: analysis.indicators.map(indicator => ({ ...indicator, classifier: classifier.id, path: filePath })),
+  };
+}
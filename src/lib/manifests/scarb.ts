@@ -0,0 +1,41 @@
+import toml from "toml";
+import type { ManifestClassifier, RawIndicator } from "./types";
+
+export interface ScarbManifest {
+  package?: {
+    name?: string;
+    'cairo-version'?: string;
+  };
+  dependencies?: Record<string, any>;
+  target?: Record<string, any>;
+}
+
+/**
+ * Scarb.toml: Cairo packages, and Starknet contracts among them
+ */
+export const scarbClassifier: ManifestClassifier<ScarbManifest> = {
+  id: 'scarb',
+  filePatterns: ['Scarb.toml'],
+
+  parse(content) {
+    return toml.parse(content) as ScarbManifest;
+  },
+
+  analyze(manifest) {
+    const indicators: RawIndicator[] = [];
+    const cairoVersion = manifest.package?.['cairo-version'];
+    indicators.push({ kind: 'package-type', detail: cairoVersion ? `cairo=${cairoVersion}` : 'cairo package', signal: 'cairo', weight: 1 });
+
+    if (manifest.target?.['starknet-contract']) {
+      indicators.push({ kind: 'package-type', detail: 'target=starknet-contract', signal: 'starknet', weight: 0.95 });
+    }
+    for (const name of Object.keys(manifest.dependencies ?? {})) {
+      if (name === 'starknet' || name.startsWith('openzeppelin')) {
+        indicators.push({ kind: 'dependency', detail: `dependency:${name}`, signal: 'starknet', weight: 0.8 });
+      }
+    }
+
+    const type = manifest.target?.['starknet-contract'] ? 'starknet-contract' : undefined;
+    return { name: manifest.package?.name, type, indicators };
+  },
+};
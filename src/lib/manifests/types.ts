@@ -0,0 +1,89 @@
+import type { GitHubTransport } from "../github/transport";
+
+/**
+ * One piece of evidence a manifest carries about the project
+ */
+export interface ManifestIndicator {
+  // Classifier that emitted it, e.g. "nargo"
+  classifier: string;
+  // File the indicator was found in
+  path: string;
+  kind: 'package-type' | 'dependency' | 'config' | 'source';
+  // e.g. "type=contract", "dependency:@aztec/aztec.js@0.87.0", "source:#[aztec]"
+  detail: string;
+  // Ecosystem the indicator points at, e.g. "aztec", "noir", "starknet", "ethereum"
+  signal?: string;
+  // How much the indicator alone says about the signal, from 0 (nothing) to 1 (conclusive)
+  weight: number;
+  // Text the indicator was read from where the detail does not quote it, e.g. the matching source line
+  excerpt?: string;
+}
+
+/**
+ * Indicator as emitted by a classifier, before the scan stamps classifier and path on it
+ */
+export type RawIndicator = Omit<ManifestIndicator, 'classifier' | 'path'>;
+
+/**
+ * A version of Noir, aztec-nr or one of their packages a manifest builds against
+ */
+export interface VersionRequirement {
+  // "noir" for the compiler, "aztec-nr", "noir-lang/<repo>" for git dependencies, else the npm package name
+  component: string;
+  // As written: a version, git tag or semver range, e.g. ">=0.36.0", "v0.87.0", "^1.0.0-beta.3"
+  version: string;
+  source: 'compiler' | 'git-tag' | 'npm';
+}
+
+/**
+ * Version requirement with the manifest that declares it
+ */
+export interface DeclaredVersion extends VersionRequirement {
+  path: string;
+}
+
+export interface ManifestAnalysis {
+  // Package name and type the manifest declares, where it has them
+  name?: string;
+  type?: string;
+  indicators: RawIndicator[];
+  // Workspace member directories the manifest declares, relative to its own
+  // directory; '*' matches one directory level
+  members?: string[];
+  // Dependencies on other packages by directory, relative to the manifest's
+  // own; those inside the repository are scanned like members
+  localDependencies?: { name: string; path: string }[];
+  versions?: VersionRequirement[];
+}
+
+/**
+ * A manifest file that was fetched, parsed and analyzed
+ */
+export interface ManifestFinding extends ManifestAnalysis {
+  classifier: string;
+  path: string;
+  indicators: ManifestIndicator[];
+}
+
+/**
+ * Plugin that understands one kind of manifest file.
+ *
+ * The scan locates files matching `filePatterns`, fetches them (through
+ * `fetch` if the plugin has its own, else the contents API), then hands the
+ * content to `parse` and the parsed manifest to `analyze`. Members and local
+ * dependencies an analysis declares are scanned for the plugin's first file
+ * pattern in turn.
+ */
+export interface ManifestClassifier<TManifest = unknown> {
+  id: string;
+  // File names the plugin handles; '*' matches any characters except '/'
+  filePatterns: string[];
+  // Also look for the manifest below the repository root: code search, or
+  // the repository tree when search fails or finds nothing. Either every
+  // file pattern (true) or the listed ones
+  searchNested?: boolean | string[];
+  fetch?(owner: string, repo: string, path: string, transport: GitHubTransport): Promise<string | null>;
+  // Throws on content that is not a valid manifest
+  parse(content: string, path: string): TManifest;
+  analyze(manifest: TManifest, path: string): ManifestAnalysis;
+}
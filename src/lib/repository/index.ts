@@ -0,0 +1,22 @@
+export * from "../../types/repository";
+export {
+  parseRepositoryUrl,
+  createRepositoryRecord,
+  createRepositoryDatabase,
+  repositoryKey,
+  mergeProvenance,
+  mergeRepositoryRecords,
+  repositorySource,
+  summarizeRepositories,
+  UNRECORDED_EXPORT,
+  validateEcosystemRepository,
+  validateRepositoryDatabase,
+} from "./records";
+export {
+  toEcosystemRepository,
+  migrateRepositoryRecord,
+  migrateRepositoryData,
+  readRepositoryFile,
+  loadRepositoryDatabase,
+} from "./migrate";
+export type { RecordLayout, MigrationOptions, MigrationResult } from "./migrate";
\ No newline at end of file
@@ -0,0 +1,244 @@
+import { readFileSync } from "fs";
+import { RepositoryRecordError } from "../errors";
+import { ecosystemById, repositoryTags, type DiscoveredRepo, type DiscoveryProfile } from "../discovery";
+import type { DiscoveryRecord, EcosystemRepository, RepositoryDatabase, RepositoryProvenance } from "../../types/repository";
+import {
+  UNRECORDED_EXPORT,
+  createRepositoryDatabase,
+  createRepositoryRecord,
+  validateEcosystemRepository,
+  validateRepositoryDatabase,
+} from "./records";
+
+/**
+ * Layouts repository records have been written in, oldest first:
+ * - find-noir-aztec-repos: RepoResult with isAztec and aztecIndicators
+ * - find-noir-aztec-repos-v2: RepoResult with owner, name and a classification string
+ * - repository-database: url, ecosystem, tags and source, without a schema version
+ * - discovered-repos: scripts/discover.ts output before records were versioned
+ */
+export type RecordLayout =
+  | 'find-noir-aztec-repos'
+  | 'find-noir-aztec-repos-v2'
+  | 'repository-database'
+  | 'discovered-repos'
+  | 'current';
+
+export interface MigrationOptions {
+  // Profile that maps ecosystem ids to names and assigns tags; needed for
+  // anything discovery wrote
+  profile?: DiscoveryProfile;
+}
+
+export interface MigrationResult {
+  // 'database' for repository-database.json, 'records' for arrays of repositories
+  kind: 'records' | 'database';
+  records: EcosystemRepository[];
+  // Records converted from an older layout, per layout
+  migrated: Partial<Record<RecordLayout, number>>;
+  // Records that cannot be expressed in the current layout
+  skipped: { index: number; reason: string }[];
+}
+
+/**
+ * Canonical record for a repository discovery found
+ */
+export function toEcosystemRepository(repo: DiscoveredRepo, profile: DiscoveryProfile, addedDate?: string): EcosystemRepository {
+  const { url, fullName, stars, description, query, ...classification } = repo;
+  return createRepositoryRecord({
+    url,
+    ecosystem: ecosystemById(profile, repo.ecosystem).name,
+    tags: repositoryTags(profile, repo).map(tag => tag.replace(/^#/, '')),
+    ...(addedDate && { addedDate }),
+    stars,
+    description: description ?? '',
+    discovery: { ...classification, query, profile: profile.name },
+  });
+}
+
+function recordLayout(value: Record<string, any>): RecordLayout | null {
+  if ('schemaVersion' in value) return 'current';
+  if (typeof value.isAztec === 'boolean') return 'find-noir-aztec-repos';
+  if (typeof value.classification === 'string' && 'owner' in value) return 'find-noir-aztec-repos-v2';
+  if (typeof value.query === 'string' && typeof value.fullName === 'string') return 'discovered-repos';
+  if (typeof value.url === 'string' && typeof value.ecosystem === 'string' && 'source' in value) return 'repository-database';
+  return null;
+}
+
+/**
+ * Discovered repository from its classification, with ecosystem name and
+ * tags from the profile
+ */
+function fromDiscovery(
+  value: Record<string, any>,
+  discovery: DiscoveryRecord,
+  options: MigrationOptions,
+  field: string
+): EcosystemRepository {
+  const profile = options.profile;
+  if (!profile) {
+    throw new RepositoryRecordError(`${field} was written by discovery; a profile is needed to name its ecosystem`, field);
+  }
+  if (!profile.ecosystems.some(ecosystem => ecosystem.id === discovery.ecosystem)) {
+    throw new RepositoryRecordError(`${field} has ecosystem "${discovery.ecosystem}", which profile ${profile.name} does not define`, `${field}.ecosystem`);
+  }
+  return createRepositoryRecord({
+    url: value.url,
+    ecosystem: ecosystemById(profile, discovery.ecosystem).name,
+    tags: repositoryTags(profile, discovery).map(tag => tag.replace(/^#/, '')),
+    ...(typeof value.stars === 'number' && { stars: value.stars }),
+    description: value.description ?? '',
+    discovery: { ...discovery, profile: profile.name },
+  });
+}
+
+/**
+ * Bring one record of any known layout to the current one; null for records
+ * the old layout could not classify
+ */
+export function migrateRepositoryRecord(
+  value: unknown,
+  options: MigrationOptions = {},
+  field = 'repository'
+): { record: EcosystemRepository | null; layout: RecordLayout } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new RepositoryRecordError(`${field} must be an object`, field);
+  }
+  const record = value as Record<string, any>;
+  const layout = recordLayout(record);
+
+  switch (layout) {
+    case 'current':
+      return { record: validateEcosystemRepository(record, field), layout };
+
+    case 'find-noir-aztec-repos':
+      return {
+        record: fromDiscovery(record, {
+          ecosystem: record.isAztec ? 'aztec' : 'noir',
+          projectType: record.projectType ?? 'unknown',
+          ...(record.nargoType && { manifestType: record.nargoType }),
+          filesChecked: record.nargoFilesChecked ?? 0,
+          indicators: record.aztecIndicators ?? [],
+          ...(record.apiFailure && { apiFailure: record.apiFailure }),
+        }, options, field),
+        layout,
+      };
+
+    case 'find-noir-aztec-repos-v2':
+      if (record.classification !== 'aztec' && record.classification !== 'noir') {
+        return { record: null, layout };
+      }
+      return {
+        record: fromDiscovery(record, {
+          ecosystem: record.classification,
+          projectType: record.classification,
+          filesChecked: 0,
+          indicators: [],
+        }, options, field),
+        layout,
+      };
+
+    case 'discovered-repos': {
+      const { url, fullName, stars, description, ...classification } = record;
+      return { record: fromDiscovery(record, classification as DiscoveryRecord, options, field), layout };
+    }
+
+    case 'repository-database': {
+      // Its `source` only said whether Electric Capital tracks the repository,
+      // not through which export
+      const provenance: RepositoryProvenance[] | undefined = record.source === 'electric-capital'
+        ? [{ kind: 'electric-capital-export', file: UNRECORDED_EXPORT }]
+        : undefined;
+      return {
+        record: createRepositoryRecord({
+          url: record.url,
+          ecosystem: record.ecosystem,
+          tags: Array.isArray(record.tags) ? record.tags : [],
+          ...(provenance && { provenance }),
+          ...(typeof record.addedDate === 'string' && { addedDate: record.addedDate }),
+        }),
+        layout,
+      };
+    }
+
+    default:
+      throw new RepositoryRecordError(`${field} is not a repository record of any known layout`, field);
+  }
+}
+
+/**
+ * Bring a parsed output file to the current layout: an array of records of
+ * any layout, or a repository database
+ */
+export function migrateRepositoryData(raw: unknown, options: MigrationOptions = {}): MigrationResult {
+  const isDatabase = typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+  const items = isDatabase ? (raw as Record<string, any>).repositories : raw;
+  if (!Array.isArray(items)) {
+    throw new RepositoryRecordError(
+      isDatabase ? 'database.repositories must be an array' : 'expected an array of repositories or a repository database',
+      isDatabase ? 'database.repositories' : undefined
+    );
+  }
+
+  const result: MigrationResult = { kind: isDatabase ? 'database' : 'records', records: [], migrated: {}, skipped: [] };
+  items.forEach((item, index) => {
+    const field = isDatabase ? `database.repositories[${index}]` : `repositories[${index}]`;
+    const { record, layout } = migrateRepositoryRecord(item, options, field);
+    if (layout !== 'current') {
+      result.migrated[layout] = (result.migrated[layout] ?? 0) + 1;
+    }
+    if (record) {
+      result.records.push(record);
+    } else {
+      result.skipped.push({ index, reason: `${layout} record ${item.owner}/${item.name} was never classified (${item.classification})` });
+    }
+  });
+  return result;
+}
+
+function readJson(filePath: string): unknown {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new RepositoryRecordError(`Cannot read repositories from ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Prefix the file to errors about its content
+ */
+function inFile<T>(filePath: string, read: () => T): T {
+  try {
+    return read();
+  } catch (error: any) {
+    if (error instanceof RepositoryRecordError) {
+      throw new RepositoryRecordError(`${filePath}: ${error.message}`, error.field);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read repository records from a JSON file of any layout
+ */
+export function readRepositoryFile(filePath: string, options: MigrationOptions = {}): MigrationResult {
+  const raw = readJson(filePath);
+  return inFile(filePath, () => migrateRepositoryData(raw, options));
+}
+
+/**
+ * Load the repository database, migrating databases written before records
+ * were versioned
+ */
+export function loadRepositoryDatabase(filePath: string): RepositoryDatabase {
+  const raw = readJson(filePath) as Record<string, any>;
+  return inFile(filePath, () => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new RepositoryRecordError('expected a repository database, not a list of repositories');
+    }
+    if (raw.schemaVersion !== undefined) {
+      return validateRepositoryDatabase(raw);
+    }
+    return createRepositoryDatabase(migrateRepositoryData(raw).records, raw.generatedAt);
+  });
+}
@@ -0,0 +1,284 @@
+import { RepositoryRecordError } from "../errors";
+import {
+  REPOSITORY_SCHEMA_VERSION,
+  type DiscoveryRecord,
+  type EcosystemRepository,
+  type ProvenanceKind,
+  type RepositoryDatabase,
+  type RepositoryProvenance,
+  type RepositorySource,
+} from "../../types/repository";
+
+const PROVENANCE_KINDS: ProvenanceKind[] = ['electric-capital-export', 'migration', 'discovery'];
+const VERSION_SOURCES = ['compiler', 'git-tag', 'npm'];
+
+type Fail = (message: string, field: string) => never;
+
+/**
+ * Owner and repository name of a GitHub URL, or null for anything else
+ */
+export function parseRepositoryUrl(url: string): { owner: string; repo: string } | null {
+  const match = url.trim().match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([^/\s]+)\/([^/\s#?]+?)(?:\.git)?\/?$/i);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Build a record for a repository URL, normalizing the URL and deriving its
+ * full name. Throws on URLs that are not GitHub repositories.
+ */
+export function createRepositoryRecord(
+  fields: Omit<EcosystemRepository, 'schemaVersion' | 'fullName'>
+): EcosystemRepository {
+  const parsed = parseRepositoryUrl(fields.url);
+  if (!parsed) {
+    throw new RepositoryRecordError(`${fields.url} is not a GitHub repository URL`, 'url');
+  }
+  return {
+    schemaVersion: REPOSITORY_SCHEMA_VERSION,
+    ...fields,
+    url: `https://github.com/${parsed.owner}/${parsed.repo}`,
+    fullName: `${parsed.owner}/${parsed.repo}`,
+  };
+}
+
+/**
+ * Key two records of the same repository share, whatever the URL's case
+ */
+export function repositoryKey(repo: Pick<EcosystemRepository, 'fullName'>): string {
+  return repo.fullName.toLowerCase();
+}
+
+/**
+ * Provenance of both lists, without repeating an input file
+ */
+export function mergeProvenance(
+  existing: RepositoryProvenance[] = [],
+  incoming: RepositoryProvenance[] = []
+): RepositoryProvenance[] {
+  const merged = [...existing];
+  for (const entry of incoming) {
+    if (!merged.some(known => known.file === entry.file)) {
+      merged.push(entry);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Provenance file of repositories that older layouts marked as Electric
+ * Capital's without naming the export
+ */
+export const UNRECORDED_EXPORT = '(unrecorded export)';
+
+/**
+ * Whether Electric Capital tracks a repository or only discovery found it:
+ * any Electric Capital export among its provenance makes it theirs
+ */
+export function repositorySource(repo: Pick<EcosystemRepository, 'provenance'>): RepositorySource {
+  return (repo.provenance ?? []).some(entry => entry.kind === 'electric-capital-export') ? 'electric-capital' : 'discovered';
+}
+
+/**
+ * Combine two records of the same repository. Tags and provenance
+ * accumulate (so an Electric Capital record makes the result theirs); the
+ * incoming ecosystem, stars, description and discovery win; the earliest
+ * added date is kept.
+ */
+export function mergeRepositoryRecords(existing: EcosystemRepository, incoming: EcosystemRepository): EcosystemRepository {
+  const provenance = mergeProvenance(existing.provenance, incoming.provenance);
+  const addedDate = [existing.addedDate, incoming.addedDate].filter(Boolean).sort()[0];
+  return {
+    ...existing,
+    ...incoming,
+    url: existing.url,
+    fullName: existing.fullName,
+    tags: [...new Set([...existing.tags, ...incoming.tags])],
+    ...(addedDate && { addedDate }),
+    ...(provenance.length > 0 && { provenance }),
+  };
+}
+
+/**
+ * Repository counts per ecosystem and per source (see repositorySource)
+ */
+export function summarizeRepositories(repositories: EcosystemRepository[]): Pick<RepositoryDatabase, 'byEcosystem' | 'bySource'> {
+  const byEcosystem: { [ecosystem: string]: number } = {};
+  const bySource = { electricCapital: 0, discovered: 0 };
+  for (const repo of repositories) {
+    byEcosystem[repo.ecosystem] = (byEcosystem[repo.ecosystem] || 0) + 1;
+    if (repositorySource(repo) === 'electric-capital') {
+      bySource.electricCapital++;
+    } else {
+      bySource.discovered++;
+    }
+  }
+  return { byEcosystem, bySource };
+}
+
+/**
+ * Database of the given repositories, sorted by URL, with its summary counts
+ */
+export function createRepositoryDatabase(
+  repositories: EcosystemRepository[],
+  generatedAt = new Date().toISOString()
+): RepositoryDatabase {
+  return {
+    schemaVersion: REPOSITORY_SCHEMA_VERSION,
+    generatedAt,
+    totalRepositories: repositories.length,
+    ...summarizeRepositories(repositories),
+    repositories: [...repositories].sort((a, b) => a.url.localeCompare(b.url)),
+  };
+}
+
+function asTable(value: unknown, field: string, fail: Fail): Record<string, any> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(`${field} must be an object`, field);
+  }
+  return value as Record<string, any>;
+}
+
+function asString(value: unknown, field: string, fail: Fail): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    fail(`${field} must be a non-empty string`, field);
+  }
+  return value as string;
+}
+
+function asNumber(value: unknown, field: string, fail: Fail, max = Infinity): number {
+  if (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > max) {
+    fail(`${field} must be a number between 0 and ${max}`, field);
+  }
+  return value as number;
+}
+
+function asStringArray(value: unknown, field: string, fail: Fail): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    fail(`${field} must be an array of strings`, field);
+  }
+  return value as string[];
+}
+
+function checkSchemaVersion(value: unknown, field: string, fail: Fail): void {
+  if (typeof value === 'number' && value > REPOSITORY_SCHEMA_VERSION) {
+    fail(`${field} is ${value}, newer than this tool understands (${REPOSITORY_SCHEMA_VERSION}); update the scripts`, field);
+  }
+  if (value !== REPOSITORY_SCHEMA_VERSION) {
+    fail(`${field} must be ${REPOSITORY_SCHEMA_VERSION}; run scripts/migrate-outputs.ts on older files`, field);
+  }
+}
+
+function validateDiscovery(value: unknown, field: string, fail: Fail): DiscoveryRecord {
+  const table = asTable(value, field, fail);
+  asString(table.ecosystem, `${field}.ecosystem`, fail);
+  asString(table.projectType, `${field}.projectType`, fail);
+  asNumber(table.filesChecked, `${field}.filesChecked`, fail);
+  asStringArray(table.indicators, `${field}.indicators`, fail);
+  if (table.confidence !== undefined) {
+    asNumber(table.confidence, `${field}.confidence`, fail, 1);
+  }
+  if (table.evidence !== undefined) {
+    if (!Array.isArray(table.evidence)) {
+      fail(`${field}.evidence must be an array`, `${field}.evidence`);
+    }
+    table.evidence.forEach((item: unknown, i: number) => {
+      const evidence = asTable(item, `${field}.evidence[${i}]`, fail);
+      asString(evidence.path, `${field}.evidence[${i}].path`, fail);
+      asNumber(evidence.weight, `${field}.evidence[${i}].weight`, fail, 1);
+    });
+  }
+  if (table.versions !== undefined) {
+    if (!Array.isArray(table.versions)) {
+      fail(`${field}.versions must be an array`, `${field}.versions`);
+    }
+    table.versions.forEach((item: unknown, i: number) => {
+      const version = asTable(item, `${field}.versions[${i}]`, fail);
+      asString(version.component, `${field}.versions[${i}].component`, fail);
+      asString(version.version, `${field}.versions[${i}].version`, fail);
+      if (!VERSION_SOURCES.includes(version.source)) {
+        fail(`${field}.versions[${i}].source must be one of: ${VERSION_SOURCES.join(', ')}`, `${field}.versions[${i}].source`);
+      }
+    });
+  }
+  for (const key of ['query', 'profile', 'manifestType'] as const) {
+    if (table[key] !== undefined) {
+      asString(table[key], `${field}.${key}`, fail);
+    }
+  }
+  return table as DiscoveryRecord;
+}
+
+/**
+ * Check that a parsed value is a current EcosystemRepository, throwing a
+ * RepositoryRecordError that names the first offending field
+ */
+export function validateEcosystemRepository(value: unknown, field = 'repository'): EcosystemRepository {
+  const fail: Fail = (message, at) => {
+    throw new RepositoryRecordError(message, at);
+  };
+
+  const table = asTable(value, field, fail);
+  checkSchemaVersion(table.schemaVersion, `${field}.schemaVersion`, fail);
+  const url = asString(table.url, `${field}.url`, fail);
+  const parsed = parseRepositoryUrl(url);
+  if (!parsed) {
+    fail(`${field}.url must be a GitHub repository URL, got "${url}"`, `${field}.url`);
+  }
+  if (asString(table.fullName, `${field}.fullName`, fail).toLowerCase() !== `${parsed!.owner}/${parsed!.repo}`.toLowerCase()) {
+    fail(`${field}.fullName "${table.fullName}" does not match the URL ${url}`, `${field}.fullName`);
+  }
+  asString(table.ecosystem, `${field}.ecosystem`, fail);
+  asStringArray(table.tags, `${field}.tags`, fail);
+  if (table.addedDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asString(table.addedDate, `${field}.addedDate`, fail))) {
+    fail(`${field}.addedDate must be a YYYY-MM-DD date`, `${field}.addedDate`);
+  }
+  if (table.stars !== undefined) {
+    asNumber(table.stars, `${field}.stars`, fail);
+  }
+  if (table.description !== undefined && typeof table.description !== 'string') {
+    fail(`${field}.description must be a string`, `${field}.description`);
+  }
+  if (table.provenance !== undefined) {
+    if (!Array.isArray(table.provenance)) {
+      fail(`${field}.provenance must be an array`, `${field}.provenance`);
+    }
+    table.provenance.forEach((item: unknown, i: number) => {
+      const entry = asTable(item, `${field}.provenance[${i}]`, fail);
+      if (!PROVENANCE_KINDS.includes(entry.kind)) {
+        fail(`${field}.provenance[${i}].kind must be one of: ${PROVENANCE_KINDS.join(', ')}`, `${field}.provenance[${i}].kind`);
+      }
+      asString(entry.file, `${field}.provenance[${i}].file`, fail);
+      if (entry.runId !== undefined) {
+        asString(entry.runId, `${field}.provenance[${i}].runId`, fail);
+      }
+    });
+  }
+  if (table.discovery !== undefined) {
+    validateDiscovery(table.discovery, `${field}.discovery`, fail);
+  }
+  return table as EcosystemRepository;
+}
+
+/**
+ * Check that a parsed value is a current RepositoryDatabase, its
+ * repositories included
+ */
+export function validateRepositoryDatabase(value: unknown): RepositoryDatabase {
+  const fail: Fail = (message, at) => {
+    throw new RepositoryRecordError(message, at);
+  };
+
+  const table = asTable(value, 'database', fail);
+  checkSchemaVersion(table.schemaVersion, 'database.schemaVersion', fail);
+  asString(table.generatedAt, 'database.generatedAt', fail);
+  if (!Array.isArray(table.repositories)) {
+    fail('database.repositories must be an array', 'database.repositories');
+  }
+  table.repositories.forEach((repo: unknown, i: number) => validateEcosystemRepository(repo, `database.repositories[${i}]`));
+  if (table.totalRepositories !== table.repositories.length) {
+    fail(`database.totalRepositories is ${table.totalRepositories} but ${table.repositories.length} repositories are listed`, 'database.totalRepositories');
+  }
+  asTable(table.byEcosystem, 'database.byEcosystem', fail);
+  asTable(table.bySource, 'database.bySource', fail);
+  return table as RepositoryDatabase;
+}
@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../logger";
+import { config } from "../config";
+import { ReviewError } from "../errors";
+import type { RepoClassification } from "../discovery/classifiers";
+
+export type ReviewAction = 'accept' | 'reject' | 'relabel';
+
+/**
+ * A reviewer's verdict on one repository, applied to every later discovery run
+ */
+export interface ReviewDecision {
+  // owner/repo, lowercase
+  repo: string;
+  action: ReviewAction;
+  // Ecosystem id the repository belongs to (accept and relabel)
+  ecosystem?: string;
+  // Project type to record instead of the classifier's (relabel)
+  projectType?: string;
+  note?: string;
+  decidedAt: string;
+}
+
+interface DecisionsFile {
+  version: 1;
+  decisions: ReviewDecision[];
+}
+
+/**
+ * Persistent store of review decisions, keyed by repository.
+ *
+ * The file is meant to be committed: it is rewritten atomically on every
+ * decision, one entry per repository, sorted so diffs stay readable.
+ */
+export class ReviewDecisions {
+  private constructor(
+    private decisions: Map<string, ReviewDecision>,
+    readonly filePath: string
+  ) {}
+
+  /**
+   * Load the decisions file, or start an empty store if it does not exist yet
+   */
+  static load(filePath: string = config.review.decisionsPath): ReviewDecisions {
+    if (!fs.existsSync(filePath)) {
+      return new ReviewDecisions(new Map(), filePath);
+    }
+
+    let file: DecisionsFile;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new ReviewError(`Review decisions ${filePath} are not valid JSON: ${error}`);
+    }
+    if (!Array.isArray(file.decisions)) {
+      throw new ReviewError(`Review decisions ${filePath} have no "decisions" array`);
+    }
+
+    logger.debug({ filePath, decisions: file.decisions.length }, "Loaded review decisions");
+    return new ReviewDecisions(new Map(file.decisions.map(decision => [decision.repo, decision])), filePath);
+  }
+
+  get size(): number {
+    return this.decisions.size;
+  }
+
+  get(repo: string): ReviewDecision | undefined {
+    return this.decisions.get(repo.toLowerCase());
+  }
+
+  list(): ReviewDecision[] {
+    return [...this.decisions.values()].sort((a, b) => a.repo.localeCompare(b.repo));
+  }
+
+  /**
+   * Record a decision, replacing any earlier one for the repository, and save
+   */
+  record(decision: Omit<ReviewDecision, 'decidedAt'>): ReviewDecision {
+    const repo = decision.repo.toLowerCase();
+    if (!/^[\w.-]+\/[\w.-]+$/.test(repo)) {
+      throw new ReviewError(`Expected owner/repo, got "${decision.repo}"`, decision.repo);
+    }
+    if (decision.action !== 'reject' && !decision.ecosystem) {
+      throw new ReviewError(`A ${decision.action} decision needs an ecosystem`, repo);
+    }
+
+    const recorded: ReviewDecision = { ...decision, repo, decidedAt: new Date().toISOString() };
+    this.decisions.set(repo, recorded);
+    this.save();
+    return recorded;
+  }
+
+  /**
+   * Write the decisions to disk atomically
+   */
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const file: DecisionsFile = { version: 1, decisions: this.list() };
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2) + '\n');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Replace an automated classification with an accept or relabel decision.
+ * Rejected repositories never get this far: discovery skips them.
+ */
+export function applyReviewDecision<T extends RepoClassification>(classification: T, decision: ReviewDecision): T {
+  if (decision.action === 'reject') {
+    throw new ReviewError('Rejected repositories have no classification', decision.repo);
+  }
+  return {
+    ...classification,
+    ecosystem: decision.ecosystem!,
+    projectType: decision.projectType ?? classification.projectType,
+    review: { action: decision.action, decidedAt: decision.decidedAt },
+  };
+}
@@ -0,0 +1,11 @@
+export { ReviewDecisions, applyReviewDecision } from "./decisions";
+export type { ReviewAction, ReviewDecision } from "./decisions";
+export {
+  buildReviewQueue,
+  reviewReasons,
+  reviewQueuePath,
+  saveReviewQueue,
+  loadReviewQueue,
+  findLatestReviewQueue,
+} from "./queue";
+export type { ReviewQueue, ReviewQueueEntry } from "./queue";
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { ReviewError } from "../errors";
+import type { ClassificationEvidence } from "../aztec-classifier";
+import type { DiscoveredRepo, DiscoveryProfile } from "../discovery";
+
+/**
+ * A classification a person should look at
+ */
+export interface ReviewQueueEntry {
+  repo: string;
+  url: string;
+  ecosystem: string;
+  projectType: string;
+  confidence: number;
+  evidence: ClassificationEvidence[];
+  // Why the entry was queued, e.g. "confidence 0.6 below 0.8"
+  reasons: string[];
+  query: string;
+}
+
+/**
+ * Review queue of one discovery run
+ */
+export interface ReviewQueue {
+  runId: string;
+  profile: string;
+  // Ecosystem ids of the profile, the labels a reviewer may choose from
+  ecosystems: string[];
+  threshold: number;
+  createdAt: string;
+  entries: ReviewQueueEntry[];
+}
+
+/**
+ * Why a discovered repository needs review; empty when it does not.
+ * Repositories a reviewer already decided on are never queued again.
+ */
+export function reviewReasons(repo: DiscoveredRepo, threshold: number): string[] {
+  if (repo.review) {
+    return [];
+  }
+  const reasons: string[] = [];
+  if (repo.confidence < threshold) {
+    reasons.push(`confidence ${repo.confidence} below ${threshold}`);
+  }
+  if (repo.apiFailure) {
+    reasons.push(`API failure: ${repo.apiFailure.reason}`);
+  }
+  return reasons;
+}
+
+export function buildReviewQueue(
+  runId: string,
+  profile: DiscoveryProfile,
+  repos: DiscoveredRepo[],
+  threshold: number = config.review.confidenceThreshold
+): ReviewQueue {
+  const entries = repos.flatMap(repo => {
+    const reasons = reviewReasons(repo, threshold);
+    return reasons.length === 0 ? [] : [{
+      repo: repo.fullName,
+      url: repo.url,
+      ecosystem: repo.ecosystem,
+      projectType: repo.projectType,
+      confidence: repo.confidence,
+      evidence: repo.evidence,
+      reasons,
+      query: repo.query,
+    }];
+  });
+
+  return {
+    runId,
+    profile: profile.name,
+    ecosystems: profile.ecosystems.map(ecosystem => ecosystem.id),
+    threshold,
+    createdAt: new Date().toISOString(),
+    entries,
+  };
+}
+
+/**
+ * Review queue file of a run
+ */
+export function reviewQueuePath(runId: string, dir: string = './output'): string {
+  return path.join(dir, `review-queue-${runId}.json`);
+}
+
+export function saveReviewQueue(queue: ReviewQueue, filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(queue, null, 2));
+}
+
+export function loadReviewQueue(filePath: string): ReviewQueue {
+  let queue: ReviewQueue;
+  try {
+    queue = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ReviewError(`Cannot read review queue ${filePath}: ${error}`);
+  }
+  if (!Array.isArray(queue.entries)) {
+    throw new ReviewError(`Review queue ${filePath} has no "entries" array`);
+  }
+  return queue;
+}
+
+/**
+ * Most recently written review queue in a directory, if any
+ */
+export function findLatestReviewQueue(dir: string = './output'): string | null {
+  if (!fs.existsSync(dir)) {
+    return null;
+  }
+  const queues = fs.readdirSync(dir)
+    .filter(name => /^review-queue-.+\.json$/.test(name))
+    .map(name => path.join(dir, name))
+    .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+  return queues[0] ?? null;
+}
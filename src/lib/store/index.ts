@@ -0,0 +1,14 @@
+export { RepositoryStore, toStoredCommit } from "./store";
+export type {
+  RepositoryFilter,
+  CommitFilter,
+  CommitSyncState,
+  StoredCommit,
+  StoredClassification,
+  DiscoveryRun,
+  RepositoryStoreOptions,
+  UpsertOptions,
+} from "./store";
+export { syncCommits, collectCommits } from "./sync";
+export type { CommitSyncOptions, CommitSyncResult, CollectCommitsOptions } from "./sync";
+export { STORE_MIGRATIONS } from "./schema";
\ No newline at end of file
@@ -0,0 +1,114 @@
+/**
+ * SQLite schema of the repository store, one entry per version. The store's
+ * PRAGMA user_version records how many have been applied; append new
+ * entries, never edit applied ones.
+ */
+export const STORE_MIGRATIONS: string[] = [
+  // 1: repositories with their tags, classification history with
+  // evidence, discovery runs and commit activity
+  `
+  CREATE TABLE repositories (
+    id INTEGER PRIMARY KEY,
+    full_name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    url TEXT NOT NULL,
+    owner TEXT NOT NULL COLLATE NOCASE,
+    name TEXT NOT NULL,
+    ecosystem TEXT NOT NULL,
+    stars INTEGER,
+    description TEXT,
+    added_date TEXT,
+    first_seen_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX repositories_ecosystem ON repositories (ecosystem COLLATE NOCASE);
+
+  CREATE TABLE repository_tags (
+    repository_id INTEGER NOT NULL REFERENCES repositories (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (repository_id, tag)
+  );
+
+  CREATE TABLE discovery_runs (
+    id TEXT PRIMARY KEY,
+    profile TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    repositories INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE classifications (
+    id INTEGER PRIMARY KEY,
+    repository_id INTEGER NOT NULL REFERENCES repositories (id) ON DELETE CASCADE,
+    run_id TEXT REFERENCES discovery_runs (id) ON DELETE SET NULL,
+    ecosystem_id TEXT NOT NULL,
+    project_type TEXT NOT NULL,
+    manifest_type TEXT,
+    confidence REAL,
+    files_checked INTEGER NOT NULL,
+    query TEXT,
+    profile TEXT,
+    review_action TEXT,
+    reviewed_at TEXT,
+    -- JSON: string[], DeclaredVersion[], NargoPackage[], apiFailure
+    indicators TEXT NOT NULL,
+    versions TEXT,
+    packages TEXT,
+    api_failure TEXT,
+    classified_at TEXT NOT NULL
+  );
+  CREATE INDEX classifications_repository ON classifications (repository_id, id);
+  CREATE UNIQUE INDEX classifications_run ON classifications (repository_id, run_id) WHERE run_id IS NOT NULL;
+
+  CREATE TABLE evidence (
+    classification_id INTEGER NOT NULL REFERENCES classifications (id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    path TEXT NOT NULL,
+    weight REAL NOT NULL,
+    excerpt TEXT NOT NULL
+  );
+  CREATE INDEX evidence_classification ON evidence (classification_id);
+
+  CREATE TABLE commits (
+    repository_id INTEGER NOT NULL REFERENCES repositories (id) ON DELETE CASCADE,
+    sha TEXT NOT NULL,
+    author_login TEXT,
+    author_name TEXT,
+    author_email TEXT,
+    committed_at TEXT NOT NULL,
+    message TEXT,
+    PRIMARY KEY (repository_id, sha)
+  );
+  CREATE INDEX commits_committed_at ON commits (committed_at);
+
+  -- Newest classification of every repository
+  CREATE VIEW latest_classifications AS
+    SELECT c.* FROM classifications c
+    WHERE c.id = (SELECT MAX(id) FROM classifications WHERE repository_id = c.repository_id);
+  `,
+  // 2: input files and runs that contributed each repository
+  `
+  CREATE TABLE repository_provenance (
+    repository_id INTEGER NOT NULL REFERENCES repositories (id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('electric-capital-export', 'migration', 'discovery')),
+    file TEXT NOT NULL,
+    run_id TEXT,
+    first_seen_at TEXT NOT NULL,
+    PRIMARY KEY (repository_id, file)
+  );
+  `,
+  // 3: how far each repository's commits have been synced
+  `
+  CREATE TABLE commit_sync (
+    repository_id INTEGER PRIMARY KEY REFERENCES repositories (id) ON DELETE CASCADE,
+    last_sha TEXT,
+    last_committed_at TEXT,
+    synced_from TEXT NOT NULL,
+    synced_until TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+  `,
+  // 4: whether a commit's GitHub author is a user or a bot account
+  `
+  ALTER TABLE commits ADD COLUMN author_type TEXT;
+  `,
+];
@@ -0,0 +1,517 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+import { logger } from "../logger";
+import { config } from "../config";
+import { StoreError } from "../errors";
+import { createRepositoryDatabase, createRepositoryRecord, summarizeRepositories } from "../repository";
+import type {
+  DiscoveryRecord,
+  EcosystemRepository,
+  RepositoryDatabase,
+  RepositorySource,
+} from "../../types/repository";
+import { STORE_MIGRATIONS } from "./schema";
+
+export interface RepositoryFilter {
+  // Ecosystem name, any case
+  ecosystem?: string;
+  // Whether an Electric Capital export is among the provenance (see repositorySource)
+  source?: RepositorySource;
+  tag?: string;
+  // Owners whose repositories are left out, any case
+  excludeOrgs?: string[];
+  // Only these repositories (owner/repo, any case)
+  repositories?: string[];
+}
+
+/**
+ * A commit as the store keeps it
+ */
+export interface StoredCommit {
+  sha: string;
+  authorLogin?: string;
+  // GitHub account type of the author: User or Bot
+  authorType?: string;
+  authorName?: string;
+  authorEmail?: string;
+  // ISO 8601 author date
+  committedAt: string;
+  message?: string;
+}
+
+export interface CommitFilter extends Omit<RepositoryFilter, 'source' | 'tag'> {
+  // ISO 8601 bounds on the author date, inclusive
+  since?: string;
+  until?: string;
+}
+
+/**
+ * How far a repository's commits have been synced: every commit authored
+ * between syncedFrom and syncedUntil is in the store
+ */
+export interface CommitSyncState {
+  // Newest commit seen
+  lastSha?: string;
+  lastCommittedAt?: string;
+  syncedFrom: string;
+  syncedUntil: string;
+  // When the sync ran
+  syncedAt: string;
+}
+
+export interface DiscoveryRun {
+  id: string;
+  profile: string;
+  startedAt: string;
+  finishedAt?: string;
+  // Repositories the run recorded
+  repositories: number;
+}
+
+/**
+ * One classification of a repository, as recorded by a discovery run (or
+ * by an import without a run)
+ */
+export interface StoredClassification extends DiscoveryRecord {
+  runId?: string;
+  classifiedAt: string;
+}
+
+export interface RepositoryStoreOptions {
+  // Open an existing store for reading only; fails if it is missing or outdated
+  readonly?: boolean;
+  // Fail instead of creating a store that does not exist yet
+  mustExist?: boolean;
+}
+
+export interface UpsertOptions {
+  // Discovery run the records come from; their classifications join its history
+  runId?: string;
+  // When the records were seen, defaults to now
+  seenAt?: string;
+}
+
+/**
+ * GitHub API commit (GET /repos/{owner}/{repo}/commits) as a StoredCommit
+ */
+export function toStoredCommit(commit: any): StoredCommit {
+  return {
+    sha: commit.sha,
+    ...(commit.author?.login && { authorLogin: commit.author.login }),
+    ...(commit.author?.type && { authorType: commit.author.type }),
+    ...(commit.commit?.author?.name && { authorName: commit.commit.author.name }),
+    ...(commit.commit?.author?.email && { authorEmail: commit.commit.author.email }),
+    committedAt: commit.commit?.author?.date ?? commit.commit?.committer?.date,
+    ...(commit.commit?.message && { message: commit.commit.message }),
+  };
+}
+
+function parseJson<T>(value: string | null): T | undefined {
+  return value === null ? undefined : JSON.parse(value);
+}
+
+/**
+ * Repositories, classifications and commit activity in a local SQLite
+ * database (bun:sqlite).
+ *
+ * Writes are upserts: a repository is one row however often it is
+ * imported or discovered, its tags and provenance accumulate, and
+ * every discovery run adds a classification to its history. Readers get
+ * EcosystemRepository records back, with the newest classification as
+ * `discovery`; `db` is open for anything the query methods do not cover.
+ */
+export class RepositoryStore {
+  private constructor(
+    readonly db: Database,
+    readonly filePath: string
+  ) {}
+
+  /**
+   * Open the store, creating it and applying pending schema migrations
+   * unless it is opened read-only
+   */
+  static open(filePath: string = config.store.path, options: RepositoryStoreOptions = {}): RepositoryStore {
+    if ((options.readonly || options.mustExist) && filePath !== ':memory:' && !fs.existsSync(filePath)) {
+      throw new StoreError(`Repository store ${filePath} does not exist; create it with bun run db:create`, filePath);
+    }
+    if (!options.readonly && filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    const db = new Database(filePath, { strict: true, ...(options.readonly ? { readonly: true } : { create: true }) });
+    db.run('PRAGMA foreign_keys = ON');
+    if (!options.readonly) {
+      db.run('PRAGMA journal_mode = WAL');
+    }
+
+    const { user_version: version } = db.query('PRAGMA user_version').get() as { user_version: number };
+    if (version > STORE_MIGRATIONS.length) {
+      db.close();
+      throw new StoreError(`Repository store ${filePath} has schema version ${version}, newer than this tool understands (${STORE_MIGRATIONS.length})`, filePath);
+    }
+    if (version < STORE_MIGRATIONS.length) {
+      if (options.readonly) {
+        db.close();
+        throw new StoreError(`Repository store ${filePath} is at schema version ${version} of ${STORE_MIGRATIONS.length}; open it for writing (bun run db:create) to migrate it`, filePath);
+      }
+      db.transaction(() => {
+        for (let i = version; i < STORE_MIGRATIONS.length; i++) {
+          db.run(STORE_MIGRATIONS[i]);
+        }
+        db.run(`PRAGMA user_version = ${STORE_MIGRATIONS.length}`);
+      })();
+      logger.info({ filePath, from: version, to: STORE_MIGRATIONS.length }, "Migrated repository store schema");
+    }
+
+    return new RepositoryStore(db, filePath);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Insert or update one repository with its tags, provenance and,
+   * if it has one, its classification. Returns the repository's row id.
+   *
+   * The ecosystem, stars and description of the latest write win; the
+   * added date and first-seen time of the first write are kept.
+   */
+  upsertRepository(record: EcosystemRepository, options: UpsertOptions = {}): number {
+    const seenAt = options.seenAt ?? new Date().toISOString();
+    const [owner, name] = record.fullName.split('/');
+
+    const { id } = this.db.query(`
+      INSERT INTO repositories (full_name, url, owner, name, ecosystem, stars, description, added_date, first_seen_at, updated_at)
+      VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?9)
+      ON CONFLICT (full_name) DO UPDATE SET
+        url = excluded.url,
+        ecosystem = excluded.ecosystem,
+        stars = COALESCE(excluded.stars, stars),
+        description = COALESCE(excluded.description, description),
+        added_date = COALESCE(added_date, excluded.added_date),
+        updated_at = excluded.updated_at
+      RETURNING id
+    `).get(
+      record.fullName, record.url, owner, name, record.ecosystem,
+      record.stars ?? null, record.description ?? null, record.addedDate ?? null, seenAt
+    ) as { id: number };
+
+    const addTag = this.db.query('INSERT OR IGNORE INTO repository_tags (repository_id, tag) VALUES (?, ?)');
+    for (const tag of record.tags) {
+      addTag.run(id, tag);
+    }
+    const addProvenance = this.db.query('INSERT OR IGNORE INTO repository_provenance (repository_id, kind, file, run_id, first_seen_at) VALUES (?, ?, ?, ?, ?)');
+    for (const entry of record.provenance ?? []) {
+      addProvenance.run(id, entry.kind, entry.file, entry.runId ?? null, seenAt);
+    }
+
+    if (record.discovery) {
+      this.recordClassification(id, record.discovery, options.runId, seenAt);
+    }
+    return id;
+  }
+
+  /**
+   * Upsert many repositories in one transaction
+   */
+  upsertRepositories(records: EcosystemRepository[], options: UpsertOptions = {}): number {
+    this.db.transaction(() => {
+      for (const record of records) {
+        this.upsertRepository(record, options);
+      }
+    })();
+    return records.length;
+  }
+
+  /**
+   * Record a classification: one per repository and run, and for writes
+   * without a run, one that each such write replaces
+   */
+  private recordClassification(repositoryId: number, discovery: DiscoveryRecord, runId: string | undefined, classifiedAt: string): void {
+    if (runId) {
+      this.db.query('DELETE FROM classifications WHERE repository_id = ? AND run_id = ?').run(repositoryId, runId);
+    } else {
+      this.db.query('DELETE FROM classifications WHERE repository_id = ? AND run_id IS NULL').run(repositoryId);
+    }
+
+    const { id } = this.db.query(`
+      INSERT INTO classifications (
+        repository_id, run_id, ecosystem_id, project_type, manifest_type, confidence, files_checked,
+        query, profile, review_action, reviewed_at, indicators, versions, packages, api_failure, classified_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `).get(
+      repositoryId, runId ?? null, discovery.ecosystem, discovery.projectType, discovery.manifestType ?? null,
+      discovery.confidence ?? null, discovery.filesChecked, discovery.query ?? null, discovery.profile ?? null,
+      discovery.review?.action ?? null, discovery.review?.decidedAt ?? null, JSON.stringify(discovery.indicators),
+      discovery.versions ? JSON.stringify(discovery.versions) : null,
+      discovery.packages ? JSON.stringify(discovery.packages) : null,
+      discovery.apiFailure ? JSON.stringify(discovery.apiFailure) : null,
+      classifiedAt
+    ) as { id: number };
+
+    const addEvidence = this.db.query('INSERT INTO evidence (classification_id, type, path, weight, excerpt) VALUES (?, ?, ?, ?, ?)');
+    for (const item of discovery.evidence ?? []) {
+      addEvidence.run(id, item.type, item.path, item.weight, item.excerpt);
+    }
+  }
+
+  /**
+   * Record a discovery run and upsert what it found, in one transaction
+   */
+  recordDiscoveryRun(run: Omit<DiscoveryRun, 'repositories'>, records: EcosystemRepository[]): DiscoveryRun {
+    const finishedAt = run.finishedAt ?? new Date().toISOString();
+    this.db.transaction(() => {
+      this.db.query(`
+        INSERT INTO discovery_runs (id, profile, started_at, finished_at, repositories) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET finished_at = excluded.finished_at, repositories = excluded.repositories
+      `).run(run.id, run.profile, run.startedAt, finishedAt, records.length);
+      for (const record of records) {
+        this.upsertRepository(record, { runId: run.id, seenAt: finishedAt });
+      }
+    })();
+    return { ...run, finishedAt, repositories: records.length };
+  }
+
+  /**
+   * Store commits of a repository already in the store; commits it has
+   * are skipped. Returns how many were new.
+   */
+  recordCommits(fullName: string, commits: StoredCommit[]): number {
+    const repository = this.db.query('SELECT id FROM repositories WHERE full_name = ?').get(fullName) as { id: number } | null;
+    if (!repository) {
+      throw new StoreError(`Cannot record commits of ${fullName}: it is not in the repository store`, this.filePath);
+    }
+
+    const insert = this.db.query(`
+      INSERT OR IGNORE INTO commits (repository_id, sha, author_login, author_type, author_name, author_email, committed_at, message)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    let added = 0;
+    this.db.transaction(() => {
+      for (const commit of commits) {
+        added += insert.run(
+          repository.id, commit.sha, commit.authorLogin ?? null, commit.authorType ?? null, commit.authorName ?? null,
+          commit.authorEmail ?? null, commit.committedAt, commit.message ?? null
+        ).changes;
+      }
+    })();
+    return added;
+  }
+
+  /**
+   * Sync state of a repository's commits, or null if they were never synced
+   */
+  commitSyncState(fullName: string): CommitSyncState | null {
+    const row = this.db.query(`
+      SELECT s.* FROM commit_sync s JOIN repositories r ON r.id = s.repository_id WHERE r.full_name = ?
+    `).get(fullName) as any;
+    if (!row) {
+      return null;
+    }
+    return {
+      ...(row.last_sha && { lastSha: row.last_sha, lastCommittedAt: row.last_committed_at }),
+      syncedFrom: row.synced_from,
+      syncedUntil: row.synced_until,
+      syncedAt: row.synced_at,
+    };
+  }
+
+  /**
+   * Record how far a repository's commits have been synced
+   */
+  recordCommitSync(fullName: string, state: CommitSyncState): void {
+    const repository = this.db.query('SELECT id FROM repositories WHERE full_name = ?').get(fullName) as { id: number } | null;
+    if (!repository) {
+      throw new StoreError(`Cannot record the commit sync of ${fullName}: it is not in the repository store`, this.filePath);
+    }
+    this.db.query(`
+      INSERT INTO commit_sync (repository_id, last_sha, last_committed_at, synced_from, synced_until, synced_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (repository_id) DO UPDATE SET
+        last_sha = excluded.last_sha,
+        last_committed_at = excluded.last_committed_at,
+        synced_from = excluded.synced_from,
+        synced_until = excluded.synced_until,
+        synced_at = excluded.synced_at
+    `).run(repository.id, state.lastSha ?? null, state.lastCommittedAt ?? null, state.syncedFrom, state.syncedUntil, state.syncedAt);
+  }
+
+  /**
+   * SQL condition and parameters selecting the repositories (alias r) a filter matches
+   */
+  private repositoryCondition(filter: RepositoryFilter): { where: string; params: SQLQueryBindings[] } {
+    const conditions: string[] = [];
+    const params: SQLQueryBindings[] = [];
+    if (filter.ecosystem) {
+      conditions.push('r.ecosystem = ? COLLATE NOCASE');
+      params.push(filter.ecosystem);
+    }
+    if (filter.source) {
+      const exported = "EXISTS (SELECT 1 FROM repository_provenance p WHERE p.repository_id = r.id AND p.kind = 'electric-capital-export')";
+      conditions.push(filter.source === 'electric-capital' ? exported : `NOT ${exported}`);
+    }
+    if (filter.tag) {
+      conditions.push('EXISTS (SELECT 1 FROM repository_tags t WHERE t.repository_id = r.id AND t.tag = ?)');
+      params.push(filter.tag.replace(/^#/, ''));
+    }
+    if (filter.repositories) {
+      conditions.push(`r.full_name IN (${filter.repositories.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...filter.repositories);
+    }
+    if (filter.excludeOrgs && filter.excludeOrgs.length > 0) {
+      conditions.push(`r.owner NOT IN (${filter.excludeOrgs.map(() => '?').join(', ')})`);
+      params.push(...filter.excludeOrgs);
+    }
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  /**
+   * Repositories matching a filter, sorted by URL, as records
+   */
+  listRepositories(filter: RepositoryFilter = {}): EcosystemRepository[] {
+    const { where, params } = this.repositoryCondition(filter);
+    const ids = `SELECT r.id FROM repositories r ${where}`;
+
+    const rows = this.db.query(`SELECT r.* FROM repositories r ${where} ORDER BY r.url`).all(...params) as any[];
+    const tags = this.groupBy(this.db.query(`SELECT repository_id, tag FROM repository_tags WHERE repository_id IN (${ids}) ORDER BY rowid`).all(...params) as any[]);
+    const provenance = this.groupBy(this.db.query(`SELECT repository_id, kind, file, run_id FROM repository_provenance WHERE repository_id IN (${ids}) ORDER BY rowid`).all(...params) as any[]);
+    const classifications = new Map((this.db.query(`SELECT * FROM latest_classifications WHERE repository_id IN (${ids})`).all(...params) as any[])
+      .map(row => [row.repository_id, row]));
+    const evidence = this.groupBy(this.db.query(`
+      SELECT c.repository_id, e.type, e.path, e.weight, e.excerpt FROM evidence e
+      JOIN latest_classifications c ON c.id = e.classification_id
+      WHERE c.repository_id IN (${ids}) ORDER BY e.rowid
+    `).all(...params) as any[]);
+
+    return rows.map(row => {
+      const classification = classifications.get(row.id);
+      const rowProvenance = (provenance.get(row.id) ?? []).map(entry => ({ kind: entry.kind, file: entry.file, ...(entry.run_id && { runId: entry.run_id }) }));
+      return createRepositoryRecord({
+        url: row.url,
+        ecosystem: row.ecosystem,
+        tags: (tags.get(row.id) ?? []).map(tag => tag.tag),
+        ...(row.added_date && { addedDate: row.added_date }),
+        ...(row.stars !== null && { stars: row.stars }),
+        ...(row.description !== null && { description: row.description }),
+        ...(rowProvenance.length > 0 && { provenance: rowProvenance }),
+        ...(classification && {
+          discovery: this.toClassification(classification, (evidence.get(row.id) ?? []).map(({ repository_id, ...item }) => item)),
+        }),
+      });
+    });
+  }
+
+  getRepository(fullName: string): EcosystemRepository | null {
+    return this.listRepositories({ repositories: [fullName] })[0] ?? null;
+  }
+
+  /**
+   * Every classification a repository has had, oldest first
+   */
+  classificationHistory(fullName: string): StoredClassification[] {
+    const rows = this.db.query(`
+      SELECT c.* FROM classifications c JOIN repositories r ON r.id = c.repository_id
+      WHERE r.full_name = ? ORDER BY c.id
+    `).all(fullName) as any[];
+    return rows.map(row => {
+      const evidence = this.db.query('SELECT type, path, weight, excerpt FROM evidence WHERE classification_id = ? ORDER BY rowid').all(row.id) as any[];
+      return {
+        ...this.toClassification(row, evidence),
+        ...(row.run_id && { runId: row.run_id }),
+        classifiedAt: row.classified_at,
+      };
+    });
+  }
+
+  discoveryRuns(): DiscoveryRun[] {
+    return (this.db.query('SELECT * FROM discovery_runs ORDER BY started_at').all() as any[]).map(row => ({
+      id: row.id,
+      profile: row.profile,
+      startedAt: row.started_at,
+      ...(row.finished_at && { finishedAt: row.finished_at }),
+      repositories: row.repositories,
+    }));
+  }
+
+  /**
+   * Stored commits of the repositories a filter matches, oldest first, with
+   * the repository they belong to
+   */
+  listCommits(filter: CommitFilter = {}): (StoredCommit & { fullName: string })[] {
+    const { where, params } = this.repositoryCondition(filter);
+    const bounds: string[] = [];
+    if (filter.since) {
+      bounds.push('c.committed_at >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until) {
+      bounds.push('c.committed_at <= ?');
+      params.push(filter.until);
+    }
+    const condition = [where.replace(/^WHERE /, ''), ...bounds].filter(Boolean).join(' AND ');
+
+    const rows = this.db.query(`
+      SELECT r.full_name, c.* FROM commits c JOIN repositories r ON r.id = c.repository_id
+      ${condition ? `WHERE ${condition}` : ''}
+      ORDER BY c.committed_at, c.sha
+    `).all(...params) as any[];
+    return rows.map(row => ({
+      fullName: row.full_name,
+      sha: row.sha,
+      ...(row.author_login && { authorLogin: row.author_login }),
+      ...(row.author_type && { authorType: row.author_type }),
+      ...(row.author_name && { authorName: row.author_name }),
+      ...(row.author_email && { authorEmail: row.author_email }),
+      committedAt: row.committed_at,
+      ...(row.message && { message: row.message }),
+    }));
+  }
+
+  /**
+   * Repository counts per ecosystem and source
+   */
+  summary(filter: RepositoryFilter = {}): Pick<RepositoryDatabase, 'totalRepositories' | 'byEcosystem' | 'bySource'> {
+    const repositories = this.listRepositories(filter);
+    return { totalRepositories: repositories.length, ...summarizeRepositories(repositories) };
+  }
+
+  /**
+   * The whole store as a repository database document
+   */
+  toDatabase(): RepositoryDatabase {
+    return createRepositoryDatabase(this.listRepositories());
+  }
+
+  private groupBy(rows: any[]): Map<number, any[]> {
+    const groups = new Map<number, any[]>();
+    for (const row of rows) {
+      const group = groups.get(row.repository_id) ?? [];
+      group.push(row);
+      groups.set(row.repository_id, group);
+    }
+    return groups;
+  }
+
+  private toClassification(row: any, evidence: any[]): DiscoveryRecord {
+    const packages = parseJson<DiscoveryRecord['packages']>(row.packages);
+    const versions = parseJson<DiscoveryRecord['versions']>(row.versions);
+    const apiFailure = parseJson<DiscoveryRecord['apiFailure']>(row.api_failure);
+    return {
+      ecosystem: row.ecosystem_id,
+      projectType: row.project_type,
+      ...(row.manifest_type && { manifestType: row.manifest_type }),
+      ...(packages && { packages }),
+      ...(versions && { versions }),
+      filesChecked: row.files_checked,
+      indicators: parseJson<string[]>(row.indicators) ?? [],
+      ...(row.confidence !== null && { confidence: row.confidence, evidence }),
+      ...(row.review_action && { review: { action: row.review_action, decidedAt: row.reviewed_at } }),
+      ...(apiFailure && { apiFailure }),
+      ...(row.query && { query: row.query }),
+      ...(row.profile && { profile: row.profile }),
+    };
+  }
+}
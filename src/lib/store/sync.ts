@@ -0,0 +1,171 @@
+import { getTransport, type GitHubTransport } from "../github";
+import { config } from "../config";
+import { logger } from "../logger";
+import type { EcosystemRepository } from "../repository";
+import { RepositoryStore, toStoredCommit, type StoredCommit } from "./store";
+
+export interface CommitSyncOptions {
+  // ISO 8601 date the stored history has to reach back to
+  since: string;
+  // ISO 8601 end of the window, defaults to now
+  until?: string;
+  // Days before the end of the last sync that are fetched again (default: config.store.commitOverlapDays)
+  overlapDays?: number;
+  transport?: GitHubTransport;
+}
+
+export interface CommitSyncResult {
+  fullName: string;
+  // Commits downloaded, and how many of them the store did not have
+  fetched: number;
+  added: number;
+  // Whether history older than the last sync had to be fetched
+  backfilled: boolean;
+  // Why the repository could not be synced; its sync state covers only the
+  // ranges fetched before the failure
+  error?: string;
+}
+
+export interface CollectCommitsOptions extends CommitSyncOptions {
+  // Use the store as it is, without calling GitHub; repositories it has
+  // not synced for the window come back as results with an error
+  offline?: boolean;
+  // Repositories synced at once (default: 10)
+  concurrency?: number;
+  onProgress?: (done: number, total: number, result: CommitSyncResult) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every commit of a repository committed in [since, until], newest first,
+ * page by page until the listing ends. GitHub bounds the listing by
+ * committer date, not author date.
+ */
+async function fetchCommitRange(transport: GitHubTransport, fullName: string, since: string, until: string): Promise<any[]> {
+  const [owner, repo] = fullName.split('/');
+  const commits: any[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const { data } = await transport.rest.repos.listCommits({ owner, repo, since, until, per_page: perPage, page });
+    commits.push(...data);
+    if (data.length < perPage) {
+      return commits;
+    }
+  }
+}
+
+/**
+ * Bring a repository's stored commits up to date for a window: the first
+ * sync downloads the window; later ones fetch from the end of the last sync
+ * less an overlap, since a commit can land after a sync with an earlier
+ * committer date (a merged branch), and, when the window starts earlier than
+ * anything synced so far, the missing older history. Commits already stored
+ * are skipped by SHA.
+ *
+ * The synced range is one of committer dates, while the store dates commits
+ * by author: a commit is authored no later than it is committed, so every
+ * commit authored in the range and committed by its end is stored, along
+ * with rebased ones authored before it, which queries by author date leave
+ * out of the window.
+ */
+export async function syncCommits(store: RepositoryStore, fullName: string, options: CommitSyncOptions): Promise<CommitSyncResult> {
+  const transport = options.transport ?? getTransport();
+  const until = options.until ?? new Date().toISOString();
+  const state = store.commitSyncState(fullName);
+  const result: CommitSyncResult = { fullName, fetched: 0, added: 0, backfilled: false };
+
+  // Record each range, and advance the sync state over it, as soon as it is
+  // fetched: a failing backfill keeps the new commits fetched before it
+  const syncRange = async (from: string, to: string) => {
+    let fetched: any[] = [];
+    try {
+      fetched = await fetchCommitRange(transport, fullName, from, to);
+    } catch (error: any) {
+      // An empty repository has nothing to sync
+      if (error.status !== 409) throw error;
+    }
+
+    const commits: StoredCommit[] = fetched.map(toStoredCommit);
+    result.fetched += commits.length;
+    result.added += store.recordCommits(fullName, commits);
+
+    const synced = store.commitSyncState(fullName);
+    const newest = commits.reduce<StoredCommit | undefined>(
+      (latest, commit) => !latest || commit.committedAt > latest.committedAt ? commit : latest,
+      undefined
+    );
+    const keepLast = synced?.lastCommittedAt && (!newest || synced.lastCommittedAt >= newest.committedAt);
+    store.recordCommitSync(fullName, {
+      ...(keepLast
+        ? { lastSha: synced!.lastSha, lastCommittedAt: synced!.lastCommittedAt }
+        : newest && { lastSha: newest.sha, lastCommittedAt: newest.committedAt }),
+      syncedFrom: synced && synced.syncedFrom < from ? synced.syncedFrom : from,
+      syncedUntil: synced && synced.syncedUntil > to ? synced.syncedUntil : to,
+      syncedAt: new Date().toISOString(),
+    });
+  };
+
+  try {
+    if (!state) {
+      await syncRange(options.since, until);
+    } else {
+      if (until > state.syncedUntil) {
+        const overlapDays = options.overlapDays ?? config.store.commitOverlapDays;
+        const overlapStart = Date.parse(state.syncedUntil) - overlapDays * DAY_MS;
+        const from = overlapStart > Date.parse(state.syncedFrom) ? new Date(overlapStart).toISOString() : state.syncedFrom;
+        await syncRange(from, until);
+      }
+      if (options.since < state.syncedFrom) {
+        result.backfilled = true;
+        await syncRange(options.since, state.syncedFrom);
+      }
+    }
+  } catch (error: any) {
+    // Retried next time, from where the sync state got to
+    result.error = error.status === 404 ? 'repository not found' : error.message;
+    logger.warn({ fullName, status: error.status }, `Could not sync commits of ${fullName}: ${result.error}`);
+  }
+  return result;
+}
+
+/**
+ * Commits of some repositories authored in a window, from the store after
+ * syncing them (unless offline), oldest first
+ */
+export async function collectCommits(
+  store: RepositoryStore,
+  repositories: Pick<EcosystemRepository, 'fullName'>[],
+  options: CollectCommitsOptions
+): Promise<{ commits: (StoredCommit & { fullName: string })[]; results: CommitSyncResult[] }> {
+  const until = options.until ?? new Date().toISOString();
+  const results: CommitSyncResult[] = [];
+
+  if (options.offline) {
+    // Report what the store cannot answer for this window
+    for (const repo of repositories) {
+      const state = store.commitSyncState(repo.fullName);
+      if (!state || state.syncedFrom > options.since || state.syncedUntil < until) {
+        results.push({ fullName: repo.fullName, fetched: 0, added: 0, backfilled: false, error: 'commits not synced for this window' });
+      }
+    }
+  } else {
+    const concurrency = options.concurrency ?? 10;
+    for (let i = 0; i < repositories.length; i += concurrency) {
+      const batch = repositories.slice(i, i + concurrency);
+      await Promise.all(batch.map(async repo => {
+        const result = await syncCommits(store, repo.fullName, { ...options, until });
+        results.push(result);
+        options.onProgress?.(results.length, repositories.length, result);
+      }));
+    }
+  }
+
+  const commits = repositories.length === 0 ? [] : store.listCommits({
+    repositories: repositories.map(repo => repo.fullName),
+    since: options.since,
+    until,
+  });
+  return { commits, results };
+}
@@ -1,60 +1,154 @@
 import { logger } from "./logger";
+import { config } from "./config";
+import {
+  MostRemainingStrategy,
+  createSelectionStrategy,
+  type TokenCandidate,
+  type TokenSelectionStrategy,
+} from "./token-selection";
+import { AppInstallationAuth, loadAppCredentialsFromEnv } from "./github/app-auth";
+import type { RateLimitResource } from "../types/github";
 
-export class TokenRotator {
-  private tokens: string[];
-  private currentIndex: number = 0;
-  private tokenUsage: Map<string, { count: number; lastUsed: Date }> = new Map();
+const RESOURCES: RateLimitResource[] = ['core', 'search', 'code_search'];
 
-  constructor() {
-    // Load tokens from environment variables
-    // GITHUB_TOKEN_1, GITHUB_TOKEN_2, etc.
-    this.tokens = [];
+/**
+ * Last known rate-limit budget of one token for one resource
+ */
+export interface ResourceBudget {
+  limit?: number;
+  remaining?: number;
+  // Unix time (seconds) at which the budget refills
+  reset?: number;
+}
 
-    // Primary token
-    if (process.env.GITHUB_TOKEN) {
-      this.tokens.push(process.env.GITHUB_TOKEN);
-    }
+/**
+ * Hands out a short-lived token, refreshing it before it expires
+ */
+export interface RefreshableTokenSource {
+  getToken(): Promise<{ token: string; expiresAt: Date }>;
+}
 
-    // Additional tokens
-    for (let i = 1; i <= 10; i++) {
-      const token = process.env[`GITHUB_TOKEN_${i}`];
-      if (token) {
-        this.tokens.push(token);
-      }
+/**
+ * A token in the rotation pool with the name it is reported under: either a
+ * fixed token (personal access token) or a refreshable source (App installation)
+ */
+export interface PoolToken {
+  label: string;
+  token?: string;
+  source?: RefreshableTokenSource;
+}
+
+/**
+ * Usage of one pool entry, as reported without its token value
+ */
+export interface TokenUsageStats {
+  // Position in the pool, from 1
+  index: number;
+  label: string;
+  kind: 'pat' | 'app';
+  count: number;
+  lastUsed: string;
+  budgets: Record<RateLimitResource, ResourceBudget>;
+}
+
+interface TokenState {
+  label: string;
+  // Current value; empty until a refreshable source has been asked for one
+  token: string;
+  source?: RefreshableTokenSource;
+  count: number;
+  lastUsed: Date;
+  budgets: Record<RateLimitResource, ResourceBudget>;
+}
+
+/**
+ * Load GITHUB_TOKEN and GITHUB_TOKEN_1..10 from the environment
+ */
+export function loadTokensFromEnv(): PoolToken[] {
+  const tokens: PoolToken[] = [];
+
+  // Primary token
+  if (process.env.GITHUB_TOKEN) {
+    tokens.push({ label: 'GITHUB_TOKEN', token: process.env.GITHUB_TOKEN });
+  }
+
+  // Additional tokens
+  for (let i = 1; i <= 10; i++) {
+    const token = process.env[`GITHUB_TOKEN_${i}`];
+    if (token) {
+      tokens.push({ label: `GITHUB_TOKEN_${i}`, token });
     }
+  }
+
+  return tokens;
+}
+
+/**
+ * One pool entry per configured GitHub App installation (GITHUB_APP_*)
+ */
+export function loadAppTokensFromEnv(): PoolToken[] {
+  return loadAppCredentialsFromEnv().map(credentials => {
+    const auth = new AppInstallationAuth(credentials);
+    return { label: auth.label, source: auth };
+  });
+}
+
+export class TokenRotator {
+  // Entries are keyed by label, since installation tokens change value on refresh
+  private labels: string[];
+  private currentIndex: number = 0;
+  private tokenUsage: Map<string, TokenState> = new Map();
+  private labelsByToken: Map<string, string> = new Map();
+
+  constructor(
+    tokens: (string | PoolToken)[] = loadTokensFromEnv(),
+    private strategy: TokenSelectionStrategy = new MostRemainingStrategy()
+  ) {
+    const pool: PoolToken[] = tokens.map((entry, index) =>
+      typeof entry === 'string' ? { label: `token ${index + 1}`, token: entry } : entry
+    );
+    this.labels = [];
 
-    if (this.tokens.length === 0) {
+    if (pool.length === 0) {
       throw new Error("No GitHub tokens found in environment variables");
     }
 
-    logger.info(`Initialized token rotator with ${this.tokens.length} tokens`);
-
-    // Initialize usage tracking
-    this.tokens.forEach(token => {
-      this.tokenUsage.set(token, { count: 0, lastUsed: new Date(0) });
+    // Initialize usage tracking (the same token listed twice is used once)
+    pool.forEach(({ label, token = '', source }) => {
+      if (this.tokenUsage.has(label) || this.labelsByToken.has(token)) return;
+      this.labels.push(label);
+      this.tokenUsage.set(label, {
+        label,
+        token,
+        source,
+        count: 0,
+        lastUsed: new Date(0),
+        budgets: { core: {}, search: {}, code_search: {} },
+      });
+      if (token) {
+        this.labelsByToken.set(token, label);
+      }
     });
+
+    logger.info(`Initialized token rotator with ${this.labels.length} tokens (${this.strategy.name} selection)`);
   }
 
   /**
    * Get the next token in rotation
    */
   getNextToken(): string {
-    if (this.tokens.length === 1) {
-      return this.tokens[0];
+    if (this.labels.length === 1) {
+      return this.stateFor(this.labels[0]).token;
     }
 
     // Simple round-robin rotation
-    const token = this.tokens[this.currentIndex];
-    this.currentIndex = (this.currentIndex + 1) % this.tokens.length;
+    const label = this.labels[this.currentIndex];
+    this.currentIndex = (this.currentIndex + 1) % this.labels.length;
 
-    // Track usage
-    const usage = this.tokenUsage.get(token)!;
-    usage.count++;
-    usage.lastUsed = new Date();
+    this.recordUse(label);
+    logger.debug(`Using token ${this.currentIndex} of ${this.labels.length}`);
 
-    logger.debug(`Using token ${this.currentIndex} of ${this.tokens.length}`);
-
-    return token;
+    return this.stateFor(label).token;
   }
 
   /**
@@ -62,66 +156,237 @@ export class TokenRotator {
    * Good for avoiding rate limits
    */
   getLeastRecentlyUsedToken(): string {
-    if (this.tokens.length === 1) {
-      return this.tokens[0];
+    if (this.labels.length === 1) {
+      return this.stateFor(this.labels[0]).token;
     }
 
-    let oldestToken = this.tokens[0];
-    let oldestTime = this.tokenUsage.get(oldestToken)!.lastUsed;
+    let oldestLabel = this.labels[0];
+    let oldestTime = this.stateFor(oldestLabel).lastUsed;
 
-    for (const token of this.tokens) {
-      const usage = this.tokenUsage.get(token)!;
+    for (const label of this.labels) {
+      const usage = this.stateFor(label);
       if (usage.lastUsed < oldestTime) {
         oldestTime = usage.lastUsed;
-        oldestToken = token;
+        oldestLabel = label;
       }
     }
 
-    // Update usage
-    const usage = this.tokenUsage.get(oldestToken)!;
-    usage.count++;
-    usage.lastUsed = new Date();
+    this.recordUse(oldestLabel);
 
-    const tokenIndex = this.tokens.indexOf(oldestToken);
-    logger.debug(`Using least recently used token (${tokenIndex + 1}/${this.tokens.length})`);
+    const tokenIndex = this.labels.indexOf(oldestLabel);
+    logger.debug(`Using least recently used token (${tokenIndex + 1}/${this.labels.length})`);
 
-    return oldestToken;
+    return this.stateFor(oldestLabel).token;
   }
 
   /**
-   * Mark a token as rate limited and avoid it temporarily
+   * Get the token that should serve the next request for a resource.
+   *
+   * Tokens whose budget is exhausted stay out of rotation until their reset time
+   * passes; the selection strategy picks among the rest. If every token is
+   * exhausted, the one that resets first is returned and the caller's
+   * rate-limit handling waits for it.
+   *
+   * App installation entries only hold a token after acquireToken() has
+   * exchanged one, so pools that contain them should use acquireToken().
    */
-  markTokenAsRateLimited(token: string) {
-    const usage = this.tokenUsage.get(token);
+  getTokenForResource(resource: RateLimitResource): string {
+    return this.stateFor(this.selectLabel(resource)).token;
+  }
+
+  /**
+   * Same selection as getTokenForResource(), but exchanges or refreshes the
+   * installation token of an App entry before handing it out
+   */
+  async acquireToken(resource: RateLimitResource): Promise<string> {
+    const usage = this.stateFor(this.selectLabel(resource));
+    if (usage.source) {
+      const { token } = await usage.source.getToken();
+      if (token !== usage.token) {
+        this.labelsByToken.delete(usage.token);
+        this.labelsByToken.set(token, usage.label);
+        usage.token = token;
+      }
+    }
+    return usage.token;
+  }
+
+  /**
+   * Whether some token other than `except` still has budget for a resource
+   */
+  hasAvailableToken(resource: RateLimitResource, except?: string): boolean {
+    const exceptLabel = except !== undefined ? this.labelsByToken.get(except) : undefined;
+    return this.availableCandidates(resource).some(candidate => candidate.label !== exceptLabel);
+  }
+
+  /**
+   * Whether a token was issued by a refreshable source (an App installation)
+   */
+  isRefreshable(token: string): boolean {
+    return !!this.stateForToken(token)?.source;
+  }
+
+  /**
+   * Name a token is reported under in logs and request records
+   */
+  labelFor(token: string): string {
+    return this.labelsByToken.get(token) ?? 'unknown token';
+  }
+
+  getStrategyName(): string {
+    return this.strategy.name;
+  }
+
+  /**
+   * Record the x-ratelimit-* headers of a response served with a token.
+   * GitHub names the bucket in x-ratelimit-resource; the request's own
+   * classification is used when that header is missing.
+   */
+  recordRateLimit(token: string, resource: RateLimitResource, headers: Record<string, any>): void {
+    const usage = this.stateForToken(token);
+    if (!usage || headers['x-ratelimit-remaining'] === undefined) {
+      return;
+    }
+
+    const headerResource = headers['x-ratelimit-resource'];
+    const bucket: RateLimitResource = RESOURCES.includes(headerResource) ? headerResource : resource;
+
+    const budget: ResourceBudget = {
+      limit: parseHeaderNumber(headers['x-ratelimit-limit']),
+      remaining: parseHeaderNumber(headers['x-ratelimit-remaining']),
+      reset: parseHeaderNumber(headers['x-ratelimit-reset']),
+    };
+    if (budget.remaining === 0 && usage.budgets[bucket].remaining !== 0 && budget.reset) {
+      logger.warn(`Token ${usage.label} exhausted for ${bucket} until ${new Date(budget.reset * 1000).toISOString()}`);
+    }
+    usage.budgets[bucket] = budget;
+  }
+
+  /**
+   * Mark a token as rate limited for a resource until its reset time
+   */
+  markTokenAsRateLimited(token: string, resource: RateLimitResource = 'core', resetAt?: number) {
+    const usage = this.stateForToken(token);
     if (usage) {
-      // Set last used to future to avoid using it for a while
-      usage.lastUsed = new Date(Date.now() + 60 * 60 * 1000); // 1 hour in future
-      logger.warn(`Token marked as rate limited, avoiding for 1 hour`);
+      const budget = usage.budgets[resource];
+      // Without a reset header, GitHub's primary limits refill within the hour
+      const reset = resetAt ?? budget.reset ?? Math.floor(Date.now() / 1000) + 60 * 60;
+      usage.budgets[resource] = { ...budget, remaining: 0, reset };
+      logger.warn(`Token ${usage.label} marked as rate limited for ${resource} until ${new Date(reset * 1000).toISOString()}`);
     }
   }
 
+  /**
+   * Last known budget of a token for a resource
+   */
+  getBudget(token: string, resource: RateLimitResource): ResourceBudget {
+    return { ...this.stateForToken(token)?.budgets[resource] };
+  }
+
   /**
    * Get token count
    */
   getTokenCount(): number {
-    return this.tokens.length;
+    return this.labels.length;
   }
 
   /**
    * Get usage statistics
    */
-  getUsageStats() {
-    const stats: any[] = [];
-    this.tokens.forEach((token, index) => {
-      const usage = this.tokenUsage.get(token)!;
+  getUsageStats(): TokenUsageStats[] {
+    const stats: TokenUsageStats[] = [];
+    this.labels.forEach((label, index) => {
+      const usage = this.stateFor(label);
       stats.push({
         index: index + 1,
+        label,
+        kind: usage.source ? 'app' : 'pat',
         count: usage.count,
-        lastUsed: usage.lastUsed.toISOString()
+        lastUsed: usage.lastUsed.toISOString(),
+        budgets: Object.fromEntries(RESOURCES.map(resource => [resource, { ...usage.budgets[resource] }])) as Record<RateLimitResource, ResourceBudget>,
       });
     });
     return stats;
   }
+
+  private stateFor(label: string): TokenState {
+    return this.tokenUsage.get(label)!;
+  }
+
+  private stateForToken(token: string): TokenState | undefined {
+    const label = this.labelsByToken.get(token);
+    return label ? this.tokenUsage.get(label) : undefined;
+  }
+
+  /**
+   * Pick the pool entry that serves the next request for a resource and count its use
+   */
+  private selectLabel(resource: RateLimitResource): string {
+    const candidates = this.availableCandidates(resource);
+    let label: string;
+
+    if (candidates.length > 0) {
+      label = this.strategy.select(candidates, resource).label;
+    } else {
+      const resetOf = (candidate: string) => this.stateFor(candidate).budgets[resource].reset ?? 0;
+      label = this.labels.reduce((earliest, candidate) => resetOf(candidate) < resetOf(earliest) ? candidate : earliest);
+      const reset = resetOf(label);
+      logger.warn({
+        resource,
+        token: label,
+        resetAt: reset ? new Date(reset * 1000).toISOString() : undefined,
+      }, "All tokens exhausted for resource, using the one that resets first");
+    }
+
+    this.recordUse(label);
+    logger.debug({ resource, token: label }, "Selected token");
+    return label;
+  }
+
+  /**
+   * Tokens that can serve a resource now: budget left, or a reset time that has passed
+   */
+  private availableCandidates(resource: RateLimitResource): TokenCandidate[] {
+    const now = Math.floor(Date.now() / 1000);
+    return this.labels
+      .map((label, index) => {
+        const usage = this.stateFor(label);
+        const budget = usage.budgets[resource];
+        return {
+          index,
+          label,
+          remaining: this.remainingBudget(budget, now),
+          reset: budget.reset,
+          lastUsed: usage.lastUsed,
+          count: usage.count,
+        };
+      })
+      .filter(candidate => candidate.remaining > 0);
+  }
+
+  /**
+   * Remaining budget, treating unknown budgets as unused and elapsed resets as refilled
+   */
+  private remainingBudget(budget: ResourceBudget, now: number): number {
+    if (budget.remaining === undefined) {
+      return Infinity;
+    }
+    if (budget.reset !== undefined && budget.reset <= now) {
+      return budget.limit ?? Infinity;
+    }
+    return budget.remaining;
+  }
+
+  private recordUse(label: string): void {
+    const usage = this.stateFor(label);
+    usage.count++;
+    usage.lastUsed = new Date();
+  }
+}
+
+function parseHeaderNumber(value: unknown): number | undefined {
+  const parsed = parseInt(String(value), 10);
+  return isNaN(parsed) ? undefined : parsed;
 }
 
 // Singleton instance
@@ -129,7 +394,10 @@ let tokenRotatorInstance: TokenRotator | null = null;
 
 export function getTokenRotator(): TokenRotator {
   if (!tokenRotatorInstance) {
-    tokenRotatorInstance = new TokenRotator();
+    tokenRotatorInstance = new TokenRotator(
+      [...loadTokensFromEnv(), ...loadAppTokensFromEnv()],
+      createSelectionStrategy(config.github.tokenSelectionStrategy)
+    );
   }
   return tokenRotatorInstance;
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+import type { RateLimitResource } from "../types/github";
+
+/**
+ * What a selection strategy knows about one token in the pool
+ */
+export interface TokenCandidate {
+  // Position in the pool (0-based)
+  index: number;
+  // Human-readable name for logs, e.g. GITHUB_TOKEN_2 (never the secret itself)
+  label: string;
+  // Remaining budget for the resource, Infinity when no headers have been seen yet
+  remaining: number;
+  // Unix time (seconds) at which the budget refills, if known
+  reset?: number;
+  lastUsed: Date;
+  count: number;
+}
+
+/**
+ * Picks which token serves the next request for a resource.
+ *
+ * The rotator only passes candidates that still have budget (or whose reset
+ * time has passed); the exhausted-pool fallback is handled by the rotator.
+ */
+export interface TokenSelectionStrategy {
+  readonly name: string;
+  select(candidates: TokenCandidate[], resource: RateLimitResource): TokenCandidate;
+}
+
+/**
+ * Most remaining budget for the resource, ties to the least recently used
+ */
+export class MostRemainingStrategy implements TokenSelectionStrategy {
+  readonly name = 'most-remaining';
+
+  select(candidates: TokenCandidate[]): TokenCandidate {
+    return candidates.reduce((best, candidate) =>
+      candidate.remaining > best.remaining ||
+      (candidate.remaining === best.remaining && candidate.lastUsed < best.lastUsed)
+        ? candidate
+        : best
+    );
+  }
+}
+
+/**
+ * Least recently used token, regardless of budget
+ */
+export class LeastRecentlyUsedStrategy implements TokenSelectionStrategy {
+  readonly name = 'least-recently-used';
+
+  select(candidates: TokenCandidate[]): TokenCandidate {
+    return candidates.reduce((oldest, candidate) => candidate.lastUsed < oldest.lastUsed ? candidate : oldest);
+  }
+}
+
+/**
+ * Strict pool order, skipping tokens without budget
+ */
+export class RoundRobinStrategy implements TokenSelectionStrategy {
+  readonly name = 'round-robin';
+  private lastIndex = -1;
+
+  select(candidates: TokenCandidate[]): TokenCandidate {
+    const next = candidates.find(candidate => candidate.index > this.lastIndex) ?? candidates[0];
+    this.lastIndex = next.index;
+    return next;
+  }
+}
+
+const STRATEGIES: Record<string, () => TokenSelectionStrategy> = {
+  'most-remaining': () => new MostRemainingStrategy(),
+  'least-recently-used': () => new LeastRecentlyUsedStrategy(),
+  'round-robin': () => new RoundRobinStrategy(),
+};
+
+/**
+ * Build a strategy from its name (TOKEN_SELECTION_STRATEGY)
+ */
+export function createSelectionStrategy(name: string): TokenSelectionStrategy {
+  const factory = STRATEGIES[name];
+  if (!factory) {
+    throw new Error(`Unknown token selection strategy "${name}" (expected one of: ${Object.keys(STRATEGIES).join(', ')})`);
+  }
+  return factory();
+}
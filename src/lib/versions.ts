@@ -0,0 +1,90 @@
+/**
+ * Version parsing for the Noir and Aztec versions projects declare
+ */
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  // e.g. "beta.3" in 1.0.0-beta.3
+  prerelease?: string;
+}
+
+/**
+ * First version written in a version, git tag or semver range, which for the
+ * ranges projects use is the lowest one they accept: "^0.36.0" and
+ * ">=0.36.0 <0.37" give 0.36.0, "aztec-packages-v0.87.0" gives 0.87.0.
+ * Null for specs without a version, e.g. "latest", "workspace:*" or "*".
+ */
+export function parseVersion(spec: string): ParsedVersion | null {
+  const match = spec.match(/(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?/);
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] ?? 0),
+    ...(match[4] && { prerelease: match[4] }),
+  };
+}
+
+export function formatVersion(version: ParsedVersion): string {
+  return `${version.major}.${version.minor}.${version.patch}${version.prerelease ? `-${version.prerelease}` : ''}`;
+}
+
+/**
+ * Semver precedence: negative when a is older than b
+ */
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+  // A pre-release comes before its release
+  if (!a.prerelease || !b.prerelease) {
+    return (a.prerelease ? -1 : 0) + (b.prerelease ? 1 : 0);
+  }
+
+  const aParts = a.prerelease.split('.');
+  const bParts = b.prerelease.split('.');
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    if (aParts[i] === undefined) return -1;
+    if (bParts[i] === undefined) return 1;
+    const aNumber = /^\d+$/.test(aParts[i]) ? Number(aParts[i]) : NaN;
+    const bNumber = /^\d+$/.test(bParts[i]) ? Number(bParts[i]) : NaN;
+    const order = !isNaN(aNumber) && !isNaN(bNumber)
+      ? aNumber - bNumber
+      : !isNaN(aNumber) ? -1 : !isNaN(bNumber) ? 1 : aParts[i].localeCompare(bParts[i]);
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Release line a version belongs to: major.minor, which for 0.x Aztec
+ * releases is one sandbox release
+ */
+export function releaseLine(version: ParsedVersion): string {
+  return `${version.major}.${version.minor}`;
+}
+
+/**
+ * What a declared component (see VersionRequirement) versions: the Noir
+ * toolchain (compiler_version, @noir-lang/* packages), Aztec (aztec-nr,
+ * @aztec/* packages), or a library pinned by git tag, e.g. noir-lang/noir-bignum,
+ * whose version says nothing about the compiler
+ */
+export type ComponentFamily = 'noir' | 'aztec' | 'library';
+
+export function componentFamily(component: string): ComponentFamily {
+  if (component === 'aztec-nr' || component.startsWith('@aztec/')) {
+    return 'aztec';
+  }
+  if (component === 'noir' || component.startsWith('@noir-lang/')) {
+    return 'noir';
+  }
+  return 'library';
+}
@@ -8,6 +8,7 @@ export interface SearchConfig {
   useTokenRotation?: boolean; // Enable token rotation
   maxRetries?: number;
   searchTimeoutMs?: number;
+  baseUrl?: string; // REST API base URL, defaults to config.github.apiBaseUrl
 }
 
 export interface RepositorySearchResult {
@@ -37,6 +38,54 @@ export interface SearchOptions {
   order?: "asc" | "desc";
 }
 
+/**
+ * Range qualifiers a search can be partitioned on
+ */
+export type PartitionQualifier = 'created' | 'size' | 'stars';
+
+export interface ExhaustiveSearchOptions {
+  // Which search endpoint to use (default: code)
+  type?: 'code' | 'repositories';
+  // Qualifiers to bisect on, in order (default: created for code; created, size, stars for repositories)
+  partitionBy?: PartitionQualifier[];
+  perPage?: number;
+  // Results GitHub exposes per query (1,000); only lowered when searching a mock server
+  resultCap?: number;
+}
+
+/**
+ * A slice that still matched more results than GitHub exposes
+ */
+export interface TruncatedSlice {
+  query: string;
+  totalCount: number;
+  fetched: number;
+}
+
+export interface SearchCoverage {
+  query: string;
+  // total_count GitHub reports for the unpartitioned query
+  totalCount: number;
+  // Unique results after merging the slices
+  fetched: number;
+  // Slices whose results were fetched
+  slices: number;
+  truncatedSlices: TruncatedSlice[];
+  // GitHub flagged at least one slice as incomplete (search timed out on its side)
+  incompleteResults: boolean;
+  complete: boolean;
+}
+
+export interface ExhaustiveSearchResult<T> {
+  items: T[];
+  coverage: SearchCoverage;
+}
+
+/**
+ * GitHub rate-limit buckets that are budgeted independently
+ */
+export type RateLimitResource = 'core' | 'search' | 'code_search';
+
 export interface RateLimitInfo {
   limit: number;
   remaining: number;
@@ -0,0 +1,79 @@
+/**
+ * Canonical repository record shared by discovery output, the repository
+ * database and every report that reads them
+ */
+
+import type { ClassificationEvidence } from "../lib/aztec-classifier";
+import type { RepoClassification } from "../lib/discovery";
+
+/**
+ * Version of the record layout; bump it and add a migration step in
+ * src/lib/repository/migrate.ts whenever a field changes meaning
+ */
+export const REPOSITORY_SCHEMA_VERSION = 1;
+
+// Whether Electric Capital tracks a repository, derived from its provenance (see repositorySource)
+export type RepositorySource = 'electric-capital' | 'discovered';
+
+// Kind of input a repository was read from
+export type ProvenanceKind = 'electric-capital-export' | 'migration' | 'discovery';
+
+/**
+ * One input that contributed a repository to the database
+ */
+export interface RepositoryProvenance {
+  kind: ProvenanceKind;
+  // Input file, relative to the project root
+  file: string;
+  // Discovery run that wrote the file, when its name records one
+  runId?: string;
+}
+
+/**
+ * How discovery classified a repository. Outputs that predate confidence
+ * scoring or per-query results are migrated without those fields.
+ */
+export interface DiscoveryRecord extends Omit<RepoClassification, 'confidence' | 'evidence'> {
+  confidence?: number;
+  evidence?: ClassificationEvidence[];
+  // Search query that found the repository
+  query?: string;
+  // Discovery profile the run used
+  profile?: string;
+}
+
+export interface EcosystemRepository {
+  schemaVersion: typeof REPOSITORY_SCHEMA_VERSION;
+  // https://github.com/<owner>/<repo>, without .git or a trailing slash
+  url: string;
+  // <owner>/<repo> as in the URL
+  fullName: string;
+  // Ecosystem name as crypto-ecosystems spells it, e.g. "Aztec Protocol"
+  ecosystem: string;
+  // Migration tags without the leading '#', e.g. ["zk", "noir"]
+  tags: string[];
+  // Every input that contributed the repository, in the order they were read;
+  // an electric-capital-export entry makes it Electric Capital's
+  provenance?: RepositoryProvenance[];
+  // YYYY-MM-DD the repository was added
+  addedDate?: string;
+  stars?: number;
+  description?: string;
+  // Present on repositories found by scripts/discover.ts
+  discovery?: DiscoveryRecord;
+}
+
+export interface RepositoryDatabase {
+  schemaVersion: typeof REPOSITORY_SCHEMA_VERSION;
+  generatedAt: string;
+  totalRepositories: number;
+  byEcosystem: {
+    [ecosystem: string]: number;
+  };
+  // By repositorySource()
+  bySource: {
+    electricCapital: number;
+    discovered: number;
+  };
+  repositories: EcosystemRepository[];
+}
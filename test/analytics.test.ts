@@ -0,0 +1,174 @@
+import { describe, test, expect } from "bun:test";
+import { GitHubTransport } from "../src/lib/github";
+import { analyzeActivity, cohortOf, madSnapshot, monthlyMadSeries, tenureOf, type DeveloperCommit } from "../src/lib/analytics";
+import { createRepositoryRecord } from "../src/lib/repository";
+import { RepositoryStore, toStoredCommit } from "../src/lib/store";
+import { MockGitHubServer } from "./mock-github/server";
+
+// Commits on the given days of a month, at noon UTC
+function commitsOn(developer: string, month: string, days: number[]): DeveloperCommit[] {
+  return days.map(day => ({ developer, committedAt: `${month}-${String(day).padStart(2, '0')}T12:00:00Z` }));
+}
+
+describe("monthly active developers", () => {
+  test("cohorts follow active days and tenure follows the first commit", () => {
+    expect([1, 2, 9, 10, 28].map(cohortOf)).toEqual(['oneTime', 'partTime', 'partTime', 'fullTime', 'fullTime']);
+    expect(tenureOf('2025-06-01T10:00:00Z', '2025-12-01')).toBe('newcomer');
+    expect(tenureOf('2024-06-01T10:00:00Z', '2025-12-01')).toBe('emerging');
+    expect(tenureOf('2023-06-01T10:00:00Z', '2025-12-01')).toBe('established');
+    // A first commit after the history starts may not be the first
+    expect(tenureOf('2025-06-01T10:00:00Z', '2025-12-01', '2025-01-01')).toBe('unknown');
+    expect(tenureOf('2023-06-01T10:00:00Z', '2025-12-01', '2025-01-01')).toBe('established');
+    expect(tenureOf('2025-06-01T10:00:00Z', '2025-12-01', '2023-11-01')).toBe('newcomer');
+  });
+
+  test("a snapshot counts developers active in the 28 days up to its date", () => {
+    const commits = [
+      ...commitsOn('alice', '2025-10', [3, 4, 5, 6, 7, 8, 9, 10, 13, 14, 14, 14]),
+      ...commitsOn('bob', '2025-10', [2, 20]),
+      ...commitsOn('carol', '2025-10', [1]),
+      ...commitsOn('dave', '2025-09', [1]),
+    ];
+
+    const snapshot = madSnapshot(commits, '2025-10-28T23:00:00Z', new Map([['bob', '2023-01-01T00:00:00Z']]));
+    expect(snapshot).toEqual({
+      month: '2025-10',
+      windowStart: '2025-10-01',
+      windowEnd: '2025-10-28',
+      activeDevelopers: 3,
+      // alice has 10 distinct days however many commits she made on one
+      cohorts: { fullTime: 1, partTime: 1, oneTime: 1 },
+      tenure: { newcomer: 2, emerging: 0, established: 1, unknown: 0 },
+    });
+  });
+
+  test("the monthly series has a snapshot per month whose window lies in the range", () => {
+    const commits = [
+      ...commitsOn('alice', '2025-08', [20]),
+      ...commitsOn('alice', '2025-09', [10]),
+      ...commitsOn('bob', '2025-10', [5, 6]),
+    ];
+
+    const series = monthlyMadSeries(commits, { since: '2025-08-01T00:00:00Z', until: '2025-10-15T09:00:00Z' });
+    expect(series.map(snapshot => [snapshot.windowEnd, snapshot.activeDevelopers])).toEqual([
+      ['2025-08-31', 1],
+      ['2025-09-30', 1],
+      ['2025-10-15', 1],
+    ]);
+    // August's window would start before the range does
+    expect(monthlyMadSeries(commits, { since: '2025-08-10', until: '2025-09-01' }).map(snapshot => snapshot.month)).toEqual([]);
+    expect(monthlyMadSeries(commits, { since: '2025-08-01', until: '2025-09-01' }).map(snapshot => snapshot.month)).toEqual(['2025-08', '2025-09']);
+  });
+});
+
+describe("ecosystem activity", () => {
+  test("stored commits become developer metrics", async () => {
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories(['alice/circuits', 'bob/wallet'].map(fullName =>
+      createRepositoryRecord({ url: `https://github.com/${fullName}`, ecosystem: 'Noir Lang', tags: [] })
+    ));
+    const commit = (sha: string, date: string, author: { login?: string; type?: string; name: string; email: string }, message = 'Fix') => toStoredCommit({
+      sha,
+      author: author.login ? { login: author.login, type: author.type ?? 'User' } : null,
+      commit: { author: { name: author.name, email: author.email, date }, message },
+    });
+    const alice = { login: 'alice', name: 'Alice', email: 'alice@example.com' };
+    store.recordCommits('alice/circuits', [
+      // Stored history from before the window dates alice's first commit
+      commit('a0', '2023-09-01T10:00:00Z', alice),
+      commit('a1', '2025-10-02T10:00:00Z', alice),
+      commit('a2', '2025-10-20T10:00:00Z', { name: 'Alice', email: 'alice@laptop.local' }),
+      commit('d1', '2025-10-21T10:00:00Z', { login: 'dependabot[bot]', type: 'Bot', name: 'dependabot[bot]', email: 'support@github.com' }, 'Bump x from 1 to 2'),
+    ]);
+    store.recordCommits('bob/wallet', [commit('b1', '2025-10-20T12:00:00Z', { login: 'bob', name: 'Bob', email: 'bob@example.com' })]);
+
+    const options = { since: new Date('2025-10-01T00:00:00Z'), until: new Date('2025-10-31T00:00:00Z'), store, offline: true, aliases: [] };
+    const { metrics, syncResults } = await analyzeActivity('Noir Lang', store.listRepositories(), options);
+
+    expect(metrics).toMatchObject({
+      dateRange: { from: '2025-10-01', to: '2025-10-31' },
+      // alice's laptop commit is hers: no other login goes by her name
+      uniqueDevelopers: 2,
+      mergedIdentities: 1,
+      bots: { included: false, developers: 1, commits: 1 },
+      totalCommits: 3,
+      activeRepositories: 2,
+      topContributors: [{ username: 'alice', commits: 2, repositories: 1 }, { username: 'bob', commits: 1, repositories: 1 }],
+    });
+    expect(metrics.dailyActivity['2025-10-20'].developers).toEqual(new Set(['alice', 'bob']));
+    expect(metrics.monthlyActiveDevelopers).toEqual([{
+      month: '2025-10',
+      windowStart: '2025-10-04',
+      windowEnd: '2025-10-31',
+      activeDevelopers: 2,
+      cohorts: { fullTime: 0, partTime: 0, oneTime: 2 },
+      // bob may have committed before the window, which is all the store has of him
+      tenure: { newcomer: 0, emerging: 0, established: 1, unknown: 1 },
+    }]);
+    // Nothing was synced, so the store says it cannot vouch for the window
+    expect(syncResults.map(result => result.fullName).sort()).toEqual(['alice/circuits', 'bob/wallet']);
+
+    // Two years of synced history tell a newcomer
+    store.recordCommitSync('alice/circuits', { syncedFrom: '2023-01-01T00:00:00Z', syncedUntil: '2025-10-31T00:00:00Z', syncedAt: '2025-10-31T00:00:00Z' });
+    store.recordCommitSync('bob/wallet', { syncedFrom: '2023-09-01T00:00:00Z', syncedUntil: '2025-10-31T00:00:00Z', syncedAt: '2025-10-31T00:00:00Z' });
+    const synced = await analyzeActivity('Noir Lang', store.listRepositories(), options);
+    store.close();
+    expect(synced.metrics.monthlyActiveDevelopers[0].tenure).toEqual({ newcomer: 1, emerging: 0, established: 1, unknown: 0 });
+    expect(synced.syncResults).toEqual([]);
+  });
+
+  test("ranges shorter than 28 days get the monthly active developers up to their end", async () => {
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([createRepositoryRecord({ url: 'https://github.com/alice/circuits', ecosystem: 'Noir Lang', tags: [] })]);
+    const commit = (sha: string, date: string, login: string) => toStoredCommit({
+      sha, author: { login, type: 'User' }, commit: { author: { name: login, email: `${login}@example.com`, date }, message: 'Fix' },
+    });
+    store.recordCommits('alice/circuits', [
+      commit('a1', '2025-10-25T10:00:00Z', 'alice'),
+      // Active in the month, though not in the ten days
+      commit('b1', '2025-10-10T10:00:00Z', 'bob'),
+    ]);
+    store.recordCommitSync('alice/circuits', { syncedFrom: '2025-10-01T00:00:00Z', syncedUntil: '2025-10-31T00:00:00Z', syncedAt: '2025-10-31T00:00:00Z' });
+
+    const { metrics, syncResults } = await analyzeActivity('Noir Lang', store.listRepositories(), {
+      since: new Date('2025-10-21T00:00:00Z'), until: new Date('2025-10-31T00:00:00Z'), store, offline: true, aliases: [],
+    });
+    store.close();
+
+    expect(syncResults).toEqual([]);
+    expect(metrics).toMatchObject({ uniqueDevelopers: 1, totalCommits: 1 });
+    expect(metrics.monthlyActiveDevelopers).toMatchObject([{ windowStart: '2025-10-04', windowEnd: '2025-10-31', activeDevelopers: 2 }]);
+  });
+
+  test("a run backfills the history that tells newcomers, emerging and established developers apart", async () => {
+    const author = (login: string) => ({ login, name: login, email: `${login}@example.com` });
+    const server = MockGitHubServer.start({
+      repositories: [{
+        full_name: 'alice/circuits',
+        commits: [
+          { ...author('alice'), daysAgo: 3 },
+          { ...author('alice'), daysAgo: 740 },
+          { ...author('bob'), daysAgo: 2 },
+          { ...author('bob'), daysAgo: 400 },
+          { ...author('carol'), daysAgo: 1 },
+        ],
+      }],
+    });
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([createRepositoryRecord({ url: 'https://github.com/alice/circuits', ecosystem: 'Noir Lang', tags: [] })]);
+    const until = new Date();
+
+    try {
+      const { metrics, syncResults } = await analyzeActivity('Noir Lang', store.listRepositories(), {
+        since: new Date(until.getTime() - 10 * 24 * 60 * 60 * 1000), until, store, aliases: [], transport: new GitHubTransport({ baseUrl: server.url }),
+      });
+
+      expect(syncResults).toEqual([{ fullName: 'alice/circuits', fetched: 5, added: 5, backfilled: false }]);
+      expect(metrics.totalCommits).toBe(3);
+      expect(metrics.monthlyActiveDevelopers.at(-1)!.tenure).toEqual({ newcomer: 1, emerging: 1, established: 1, unknown: 0 });
+    } finally {
+      store.close();
+      server.stop();
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { generateKeyPairSync, createVerify } from "crypto";
+import { resolve } from "path";
+import { MockGitHubServer, loadFixtures } from "./mock-github/server";
+import { AppInstallationAuth, createAppJwt, type GitHubAppCredentials } from "../src/lib/github/app-auth";
+import { GitHubTransport } from "../src/lib/github";
+import { TokenRotator } from "../src/lib/token-rotator";
+import { createSelectionStrategy } from "../src/lib/token-selection";
+import { GitHubAppAuthError } from "../src/lib/errors";
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const credentials: GitHubAppCredentials = { appId: '4242', privateKey, installationId: '77' };
+
+let server: MockGitHubServer;
+
+beforeAll(() => {
+  server = MockGitHubServer.start(loadFixtures(resolve(import.meta.dir, 'fixtures/github-ecosystem.json')));
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  server.configureApp({ publicKey });
+});
+
+describe("GitHub App authentication", () => {
+  test("the App JWT is RS256-signed with the App id as issuer", () => {
+    const now = Date.now();
+    const [header, payload, signature] = createAppJwt('4242', privateKey, now).split('.');
+
+    const valid = createVerify('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .verify(publicKey, Buffer.from(signature, 'base64url'));
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+
+    expect(valid).toBe(true);
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(claims.iss).toBe('4242');
+    expect(claims.iat).toBeLessThan(now / 1000);
+    expect(claims.exp - claims.iat).toBeLessThanOrEqual(600);
+  });
+
+  test("an installation token is exchanged once and reused while fresh", async () => {
+    const auth = new AppInstallationAuth(credentials, server.url);
+
+    const [first, second] = await Promise.all([auth.getToken(), auth.getToken()]);
+    const third = await auth.getToken();
+
+    expect(first.token).toMatch(/^ghs_mock_77_/);
+    expect(second.token).toBe(first.token);
+    expect(third.token).toBe(first.token);
+    expect(auth.exchangeCount).toBe(1);
+    expect(server.requestsTo('/app/installations/77/access_tokens').map(r => r.status)).toEqual([201]);
+  });
+
+  test("a token close to expiry is refreshed", async () => {
+    server.configureApp({ publicKey, tokenTtlSeconds: 60 });
+    const auth = new AppInstallationAuth(credentials, server.url, 2 * 60 * 1000);
+
+    const first = await auth.getToken();
+    const second = await auth.getToken();
+
+    expect(second.token).not.toBe(first.token);
+    expect(auth.exchangeCount).toBe(2);
+  });
+
+  test("a rejected exchange surfaces as GitHubAppAuthError", async () => {
+    const other = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    const auth = new AppInstallationAuth({ ...credentials, privateKey: other.privateKey }, server.url);
+
+    const error = await auth.getToken().catch(e => e);
+
+    expect(error).toBeInstanceOf(GitHubAppAuthError);
+    expect(error.statusCode).toBe(401);
+    expect(error.installationId).toBe('77');
+  });
+
+  test("installation tokens serve requests from the rotation pool", async () => {
+    const auth = new AppInstallationAuth(credentials, server.url);
+    const rotator = new TokenRotator(
+      [{ label: 'GITHUB_TOKEN', token: 'ghp_personal' }, { label: auth.label, source: auth }],
+      createSelectionStrategy('round-robin')
+    );
+    const transport = new GitHubTransport({ tokenRotator: rotator, baseUrl: server.url });
+
+    for (let i = 0; i < 3; i++) {
+      await transport.rest.repos.get({ owner: 'alice', repo: 'private-voting' });
+    }
+
+    const tokens = server.requestsTo('/repos/alice/private-voting').map(r => r.token);
+    expect(tokens[0]).toBe('ghp_personal');
+    expect(tokens[1]).toMatch(/^ghs_mock_77_/);
+    expect(tokens[2]).toBe('ghp_personal');
+    expect(transport.getServedRequests().map(r => r.token)).toEqual(['GITHUB_TOKEN', auth.label, 'GITHUB_TOKEN']);
+    expect(rotator.getUsageStats().map(s => s.kind)).toEqual(['pat', 'app']);
+    expect(auth.exchangeCount).toBe(1);
+  });
+});
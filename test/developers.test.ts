@@ -0,0 +1,120 @@
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BotClassifier,
+  IdentityResolver,
+  classifyBots,
+  identityKeys,
+  isAutomationMessage,
+  loadDeveloperAliases,
+  normalizeName,
+  noreplyLogin,
+} from "../src/lib/developers";
+import { IdentityError } from "../src/lib/errors";
+
+describe("developer identities", () => {
+  test("logins come out of noreply emails and names compare loosely", () => {
+    expect(noreplyLogin('12345+Alice@users.noreply.github.com')).toBe('alice');
+    expect(noreplyLogin('alice@users.noreply.github.com')).toBe('alice');
+    expect(noreplyLogin('alice@example.com')).toBeUndefined();
+    expect(normalizeName('  José  Pérez-Díaz ')).toBe('jose perez diaz');
+
+    expect(identityKeys({ login: 'Alice', name: 'Alice L.', email: '1+alice@users.noreply.github.com' })).toEqual(['login:alice', 'name:alice l']);
+    // Placeholders link nobody
+    expect(identityKeys({ name: 'root', email: 'noreply@github.com' })).toEqual([]);
+  });
+
+  test("identities sharing a login, email or name resolve to one developer", () => {
+    const resolver = new IdentityResolver();
+    resolver.add({ login: 'bob', name: 'Bob', email: 'bob@example.com' });
+    resolver.add({ name: 'Bob', email: 'bob@laptop.local' });
+    resolver.add({ name: 'Robert B', email: 'bob@laptop.local' });
+    resolver.add({ name: 'Carol', email: '999+carol@users.noreply.github.com' });
+    resolver.add({ login: 'carol', name: 'C. Smith', email: 'carol@example.com' });
+    resolver.add({ login: 'dave', name: 'root', email: 'root@localhost' });
+    resolver.add({ login: 'erin', name: 'root' });
+
+    expect(resolver.developers().map(developer => developer.id)).toEqual(['bob', 'carol', 'dave', 'erin']);
+    expect(resolver.resolve({ name: 'robert b' })).toEqual({
+      id: 'bob',
+      logins: ['bob'],
+      emails: ['bob@example.com', 'bob@laptop.local'],
+      names: ['Bob', 'Robert B'],
+    });
+    expect(resolver.resolve({ email: 'carol@example.com' })!.names).toEqual(['Carol', 'C. Smith']);
+    // Identities never added stand alone; empty ones resolve to nobody
+    expect(resolver.resolve({ name: 'Frank' })!.id).toBe('Frank');
+    expect(resolver.resolve({})).toBeUndefined();
+  });
+
+  test("different logins stay apart unless the alias file joins them", () => {
+    const resolver = new IdentityResolver([{ id: 'dana', logins: ['dana', 'dana-work'] }]);
+    resolver.add({ login: 'alice', name: 'Alex', email: 'team@example.com' });
+    resolver.add({ login: 'bob', name: 'Alex', email: 'team@example.com' });
+    resolver.add({ login: 'dana', name: 'Dana' });
+    resolver.add({ login: 'dana-work', name: 'Dana W' });
+    // Shared by two logins: no telling whose it is
+    resolver.add({ name: 'Alex', email: 'alex@laptop.local' });
+    // Carried by one login only
+    resolver.add({ name: 'Dana W', email: 'dana@laptop.local' });
+
+    expect(resolver.developers().map(developer => developer.id)).toEqual(['Alex', 'alice', 'bob', 'dana']);
+    expect(resolver.resolve({ email: 'dana@laptop.local' })!.logins).toEqual(['dana', 'dana-work']);
+    expect(resolver.resolve({ email: 'team@example.com' })).toMatchObject({ id: 'team@example.com', logins: [] });
+  });
+
+  test("the alias file joins identities nothing else links", () => {
+    const dir = mkdtempSync(join(tmpdir(), 'aliases-'));
+    const filePath = join(dir, 'developer-aliases.json');
+    writeFileSync(filePath, JSON.stringify({
+      version: 1,
+      developers: [{ id: 'alice', emails: ['alice@work.example'], names: ['A. Liddell'] }],
+    }));
+
+    const resolver = new IdentityResolver(loadDeveloperAliases(filePath));
+    resolver.add({ login: 'alice', name: 'Alice' });
+    resolver.add({ name: 'A. Liddell', email: 'al@home.example' });
+    resolver.add({ name: 'Work Laptop', email: 'alice@work.example' });
+
+    expect(resolver.developers()).toHaveLength(1);
+    expect(resolver.resolve({ email: 'al@home.example' })!.id).toBe('alice');
+
+    expect(loadDeveloperAliases(join(dir, 'missing.json'))).toEqual([]);
+    writeFileSync(filePath, JSON.stringify({ version: 1, developers: [{ logins: ['x'] }] }));
+    expect(() => loadDeveloperAliases(filePath)).toThrow(IdentityError);
+  });
+
+  test("bots are told apart by account type, name, known accounts and messages", () => {
+    const resolver = new IdentityResolver();
+    const commits = [
+      { authorLogin: 'dependabot[bot]', authorType: 'Bot', authorName: 'dependabot[bot]', message: 'Bump x from 1 to 2' },
+      { authorName: 'renovate', authorEmail: 'bot@renovateapp.com', message: 'Update dependency y to v3' },
+      { authorLogin: 'ci-bot', authorName: 'CI', message: 'Nightly build' },
+      { authorName: 'Release Runner', authorEmail: 'release@example.com', message: 'chore(main): release 1.2.0' },
+      { authorLogin: 'alice', authorName: 'Alice', message: 'Bump x from 2 to 3' },
+      { authorLogin: 'alice', authorName: 'Alice', message: 'Add tally' },
+      { authorLogin: 'nightly', authorName: 'Nightly', message: 'Rebuild docs' },
+      // A person whose only commit in the window is a dependency bump
+      { authorLogin: 'bob', authorName: 'Bob', authorEmail: 'bob@example.com', message: 'chore(deps): bump x' },
+    ];
+    commits.forEach(commit => resolver.add({ login: commit.authorLogin, name: commit.authorName, email: commit.authorEmail }));
+
+    expect(isAutomationMessage('build(deps-dev): bump vitest from 1.0.0 to 1.1.0\n\nSigned-off-by: dependabot')).toBe(true);
+    expect(isAutomationMessage('Fix the prover')).toBe(false);
+
+    expect(Object.fromEntries(classifyBots(commits, resolver, new BotClassifier({ allow: [], deny: [] })))).toEqual({
+      'dependabot[bot]': 'bot-account',
+      'renovate': 'automation-account',
+      'ci-bot': 'bot-suffix',
+      'Release Runner': 'commit-messages',
+    });
+    expect(classifyBots(commits, resolver).has('bob')).toBe(false);
+
+    // The lists override the rules
+    const lists = new BotClassifier({ allow: ['ci-bot'], deny: ['nightly'] });
+    expect(Object.fromEntries(classifyBots(commits, resolver, lists))).toMatchObject({ 'nightly': 'deny-list' });
+    expect(classifyBots(commits, resolver, lists).has('ci-bot')).toBe(false);
+  });
+});
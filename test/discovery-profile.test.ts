@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import { resolve } from "path";
+import toml from "toml";
+import { loadProfile, parseProfile, generateMigrationOutput, type DiscoveredRepo } from "../src/lib/discovery";
+import { ProfileError } from "../src/lib/errors";
+
+const minimal = `
+name = "starknet"
+description = "Starknet Repositories"
+
+[ecosystems.starknet]
+name = "Starknet"
+
+[[queries]]
+q = "filename:Scarb.toml"
+ecosystem = "starknet"
+project_type = "cairo"
+
+[[tag_rules]]
+ecosystem = "starknet"
+tags = ["cairo", "#starknet"]
+`;
+
+function parse(document: string) {
+  return parseProfile(toml.parse(document), 'test.toml');
+}
+
+function repo(fullName: string, ecosystem: string, projectType: string, stars: number): DiscoveredRepo {
+  return {
+    url: `https://github.com/${fullName}`,
+    fullName,
+    stars,
+    description: '',
+    query: 'q',
+    ecosystem,
+    projectType,
+    filesChecked: 0,
+    indicators: [],
+    confidence: 1,
+    evidence: [],
+  };
+}
+
+describe("discovery profiles", () => {
+  test("the Aztec profile loads with every query classified", () => {
+    const profile = loadProfile(resolve(import.meta.dir, '../profiles/aztec.toml'));
+
+    expect(profile.ecosystems.map(e => e.name)).toEqual(['Aztec Protocol', 'Noir Lang']);
+    expect(profile.classifiers.nargo.type).toBe('aztec-nargo');
+    expect(profile.queries[0]).toMatchObject({ q: 'filename:Nargo.toml', classifier: 'nargo', excludeOrgs: true });
+    expect(profile.queries.find(q => q.q === 'filename:Nargo.toml org:AztecProtocol')?.excludeOrgs).toBe(false);
+    expect(profile.queries.filter(q => q.ecosystem === 'aztec').every(q => q.projectType === 'npm')).toBe(true);
+    expect(profile.tagRules).toHaveLength(4);
+  });
+
+  test("defaults fill in optional settings and tags get their hash", () => {
+    const profile = parse(minimal);
+
+    expect(profile.queries[0]).toMatchObject({ search: 'code', excludeOrgs: true, indicators: [] });
+    expect(profile.exclusions).toEqual({ topOrgs: 5, minOrgRepos: 10, maxQueryLength: 100 });
+    expect(profile.tagRules[0].tags).toEqual(['#cairo', '#starknet']);
+    expect(profile.trackedExport).toBeUndefined();
+  });
+
+  test.each([
+    ['unknown ecosystems', minimal.replace('ecosystem = "starknet"\nproject_type', 'ecosystem = "cairo"\nproject_type'), /unknown ecosystem "cairo"/],
+    ['queries without an ecosystem or classifier', minimal.replace('ecosystem = "starknet"\nproject_type = "cairo"', ''), /exactly one of "classifier" or "ecosystem"/],
+    ['unknown classifier types', `${minimal}\n[classifiers.scarb]\ntype = "scarb"\nproject_type = "cairo"\nmatch_ecosystem = "starknet"\nfallback_ecosystem = "starknet"\n`, /not a known classifier/],
+    ['a missing name', minimal.replace('name = "starknet"\n', ''), /name must be a non-empty string/],
+  ])("rejects %s", (_, document, message) => {
+    expect(() => parse(document)).toThrow(ProfileError);
+    expect(() => parse(document)).toThrow(message);
+  });
+
+  test("unreadable and malformed files raise ProfileError", () => {
+    expect(() => loadProfile('/nonexistent/profile.toml')).toThrow(ProfileError);
+    expect(() => loadProfile(resolve(import.meta.dir, 'setup.ts'))).toThrow(/not valid/);
+  });
+
+  test("migration output has one section per tag rule, sorted by stars", () => {
+    const profile = parse(minimal.replace('[[tag_rules]]', '[ecosystems.other]\nname = "Other Chain"\n\n[[tag_rules]]'));
+
+    const output = generateMigrationOutput([
+      repo('a/low', 'starknet', 'cairo', 1),
+      repo('b/high', 'starknet', 'cairo', 9),
+      repo('c/untagged', 'other', 'cairo', 3),
+    ], profile);
+
+    const lines = output.split('\n');
+    expect(lines[0]).toBe('# Electric Capital Migration Commands for Starknet Repositories');
+    expect(lines.filter(line => line.startsWith('repadd'))).toEqual([
+      'repadd "Starknet" https://github.com/b/high #cairo #starknet',
+      'repadd "Starknet" https://github.com/a/low #cairo #starknet',
+      'repadd "Other Chain" https://github.com/c/untagged',
+    ]);
+    expect(output).toContain('# Starknet (2 found)');
+  });
+});
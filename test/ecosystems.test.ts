@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadTrackedRepos } from "../src/lib/discovery";
+import { loadCryptoEcosystems, parseMigrationLine } from "../src/lib/ecosystems";
+import { EcosystemDataError } from "../src/lib/errors";
+
+function checkout(migrations: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'crypto-ecosystems-'));
+  mkdirSync(join(dir, 'migrations'));
+  for (const [name, content] of Object.entries(migrations)) {
+    writeFileSync(join(dir, 'migrations', name), content);
+  }
+  return dir;
+}
+
+const history = {
+  '2024-01-01T000000_create': [
+    '-- Ethereum and its zk family',
+    'ecoadd Ethereum',
+    'ecoadd "Aztec Protocol"',
+    'ecoadd "Noir"',
+    'ecocon Ethereum "Aztec Protocol"',
+    'ecocon "Aztec Protocol" "Noir"',
+    'repadd Ethereum https://github.com/ethereum/go-ethereum #client',
+    'repadd "Aztec Protocol" https://github.com/AztecProtocol/aztec-packages #protocol',
+    'repadd "Noir" https://github.com/alice/private-voting.git #zk',
+    'repadd "Noir" https://github.com/bob/old-circuits',
+  ].join('\n'),
+  '2024-06-01T000000_cleanup': [
+    'ecomove "Noir" "Noir Lang"',
+    'repmov https://github.com/bob/old-circuits https://github.com/bob/noir-circuits',
+    'reprem https://github.com/ethereum/go-ethereum',
+    'repadd Ethereum https://github.com/ethereum/solidity',
+    'repadd "Noir Lang" https://github.com/Alice/Private-Voting #privacy',
+    'ecoadd Bitcoin',
+    'repadd Bitcoin https://github.com/bitcoin/bitcoin',
+    'ecosplit Bitcoin Ordinals',
+  ].join('\n'),
+};
+
+describe("crypto-ecosystems data", () => {
+  test("migration lines split into commands with quoted arguments", () => {
+    expect(parseMigrationLine('repadd "Aztec Protocol" https://github.com/a/b #zk #noir')).toEqual({
+      command: 'repadd', args: ['Aztec Protocol', 'https://github.com/a/b', '#zk', '#noir'],
+    });
+    expect(parseMigrationLine('ecocon Ethereum "Aztec Protocol" -- since 2024')).toEqual({ command: 'ecocon', args: ['Ethereum', 'Aztec Protocol'] });
+    expect(parseMigrationLine('-- comment')).toBeNull();
+    expect(parseMigrationLine('   ')).toBeNull();
+  });
+
+  test("migrations replay into a graph of ecosystems and sub-ecosystems", () => {
+    const { graph, format, files, unsupported } = loadCryptoEcosystems(checkout(history));
+
+    expect(format).toBe('migrations');
+    expect(files).toBe(2);
+    expect(unsupported).toEqual([{ source: 'migrations/2024-06-01T000000_cleanup:8', command: 'ecosplit Bitcoin Ordinals' }]);
+    expect(graph.roots()).toEqual(['Bitcoin', 'Ethereum']);
+    expect(graph.subEcosystems('aztec protocol')).toEqual(['Noir Lang']);
+    expect(graph.parents('Noir Lang')).toEqual(['Aztec Protocol']);
+    expect(graph.lineage('Ethereum')).toEqual(['Ethereum', 'Aztec Protocol', 'Noir Lang']);
+
+    expect(graph.repositories('Noir Lang').map(repo => [repo.fullName, repo.tags])).toEqual([
+      ['alice/private-voting', ['zk', 'privacy']],
+      ['bob/noir-circuits', []],
+    ]);
+    expect(graph.repositories('Aztec Protocol', { includeSubEcosystems: false })).toHaveLength(1);
+    expect(graph.repositories('Ethereum').map(repo => repo.fullName).sort()).toEqual([
+      'alice/private-voting', 'aztecprotocol/aztec-packages', 'bob/noir-circuits', 'ethereum/solidity',
+    ]);
+    expect(graph.ecosystemsOf('https://github.com/alice/private-voting')).toEqual(['Noir Lang']);
+
+    // Parents' and children's repositories count, siblings' do not
+    expect(graph.tracks('Aztec Protocol', 'https://github.com/bob/noir-circuits')).toBe(true);
+    expect(graph.tracks('Noir Lang', 'https://github.com/AztecProtocol/aztec-packages')).toBe(true);
+    expect(graph.tracks('Noir Lang', 'https://github.com/bitcoin/bitcoin')).toBe(false);
+  });
+
+  test("TOML ecosystems and JSONL exports load into the same graph", () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ecosystem-files-'));
+    mkdirSync(join(dir, 'data', 'ecosystems', 'a'), { recursive: true });
+    writeFileSync(join(dir, 'data', 'ecosystems', 'a', 'aztec-protocol.toml'), [
+      'title = "Aztec Protocol"',
+      'sub_ecosystems = ["Noir Lang"]',
+      '[[repo]]',
+      'url = "https://github.com/AztecProtocol/aztec-packages"',
+      'tags = ["Protocol"]',
+    ].join('\n'));
+    writeFileSync(join(dir, 'data', 'ecosystems', 'a', 'noir-lang.toml'), 'title = "Noir Lang"\n[[repo]]\nurl = "https://github.com/noir-lang/noir"\n');
+
+    const fromToml = loadCryptoEcosystems(dir).graph;
+    expect(fromToml.lineage('Aztec Protocol')).toEqual(['Aztec Protocol', 'Noir Lang']);
+    expect(fromToml.repositories('Aztec Protocol')).toHaveLength(2);
+
+    const exportPath = join(dir, 'Aztec-Protocol-export.jsonl');
+    writeFileSync(exportPath, [
+      JSON.stringify({ url: 'https://github.com/AztecProtocol/aztec-packages', sub_ecosystems: [] }),
+      JSON.stringify({ url: 'https://github.com/0x3327/ZKFloat', sub_ecosystems: ['Noir Lang'] }),
+      JSON.stringify({ eco_name: 'Aztec Protocol', branch: ['Noir Lang', 'Noir Libraries'], repo_url: 'https://github.com/noir-lang/noir-bignum', tags: ['library'] }),
+    ].join('\n'));
+    const fromExport = loadCryptoEcosystems(exportPath).graph;
+    expect(fromExport.lineage('Aztec Protocol')).toEqual(['Aztec Protocol', 'Noir Lang', 'Noir Libraries']);
+    expect(fromExport.ecosystemsOf('https://github.com/0x3327/zkfloat')).toEqual(['Noir Lang']);
+    expect(fromExport.repositories('Noir Libraries')[0].tags).toEqual(['library']);
+
+    expect(() => loadCryptoEcosystems(join(dir, 'missing'))).toThrow(EcosystemDataError);
+  });
+
+  test("tracked repositories cover the profile ecosystems' families", async () => {
+    const tracked = await loadTrackedRepos(checkout(history), { topOrgs: 5, minOrgRepos: 1 }, ['Noir Lang']);
+
+    // Noir Lang's own repositories plus those filed directly under its parents
+    expect(tracked.repoNames.sort()).toEqual(['alice/private-voting', 'aztecprotocol/aztec-packages', 'bob/noir-circuits', 'ethereum/solidity']);
+    expect(tracked.ecosystems!['aztecprotocol/aztec-packages']).toEqual(['Aztec Protocol']);
+    // Orgs of the parents' repositories are not excluded from Noir Lang searches
+    expect(tracked.majorOrgs.sort()).toEqual(['alice', 'bob']);
+
+    // Without ecosystems, or with none the data knows, everything counts
+    expect((await loadTrackedRepos(checkout(history))).repoNames).toHaveLength(5);
+    expect((await loadTrackedRepos(checkout(history), undefined, ['Starknet'])).repoNames).toHaveLength(5);
+  });
+});
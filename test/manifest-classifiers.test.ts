@@ -0,0 +1,371 @@
+import { describe, test, expect, beforeAll, afterAll, setDefaultTimeout } from "bun:test";
+import { resolve } from "path";
+import { MockGitHubServer, loadFixtures, type MockRepository } from "./mock-github/server";
+import { GitHubTransport } from "../src/lib/github";
+import { classifyRepository } from "../src/lib/aztec-classifier";
+import { getClassifier } from "../src/lib/discovery";
+import {
+  cargoClassifier,
+  foundryClassifier,
+  hardhatClassifier,
+  matchesFilePattern,
+  analyzeNoirSource,
+  buildNargoPackageGraph,
+  nargoClassifier,
+  nargoVersions,
+  npmClassifier,
+  resolveAztecGitDependency,
+  scarbClassifier,
+  type ManifestClassifier,
+} from "../src/lib/manifests";
+
+// Every classification runs one Nargo.toml code search, paced 2s apart
+setDefaultTimeout(60_000);
+
+function analyze<T>(classifier: ManifestClassifier<T>, content: string) {
+  return classifier.analyze(classifier.parse(content, 'file'), 'file');
+}
+
+function details(classifier: ManifestClassifier<any>, content: string) {
+  return analyze(classifier, content).indicators.map(indicator => `${indicator.signal}:${indicator.detail}`);
+}
+
+describe("manifest classifiers", () => {
+  test("Nargo.toml contracts and aztec dependencies signal Aztec", () => {
+    expect(analyze(nargoClassifier, '[package]\nname = "voting"\ntype = "contract"\n[dependencies]\naztec = { path = "../aztec" }\n'))
+      .toMatchObject({ name: 'voting', type: 'contract' });
+    expect(details(nargoClassifier, '[package]\ntype = "contract"\n[dependencies]\naztec = { path = "../aztec" }\n'))
+      .toEqual(['aztec:type=contract', 'aztec:dependency:aztec']);
+    expect(details(nargoClassifier, '[package]\nname = "circuit"\n')).toEqual(['noir:type=bin']);
+  });
+
+  test("Nargo workspaces declare members and path dependencies instead of a package", () => {
+    const root = analyze(nargoClassifier, '[workspace]\nmembers = ["contracts/token", "circuits/hash"]\n');
+    expect(root).toMatchObject({ type: 'workspace', members: ['contracts/token', 'circuits/hash'], localDependencies: [] });
+    expect(root.indicators.map(indicator => indicator.detail)).toEqual(['type=workspace']);
+
+    expect(analyze(nargoClassifier, '[package]\nname = "token"\ntype = "contract"\n[dependencies]\nprotocol = { path = "../../lib/protocol" }\nstd2 = { git = "https://github.com/noir-lang/std2", tag = "v1" }\n').localDependencies)
+      .toEqual([{ name: 'protocol', path: '../../lib/protocol' }]);
+  });
+
+  test("Aztec status spreads through local dependencies and workspaces", () => {
+    const finding = (path: string, type: string, aztec: boolean, extra = {}) => ({
+      classifier: 'nargo', path, type,
+      indicators: aztec ? [{ classifier: 'nargo', path, kind: 'dependency' as const, detail: 'dependency:aztec', signal: 'aztec', weight: 0.8 }] : [],
+      ...extra,
+    });
+    const packages = buildNargoPackageGraph([
+      finding('Nargo.toml', 'workspace', false, { members: ['apps/escrow', 'circuits/hash', 'outside/../../x'] }),
+      finding('apps/escrow/Nargo.toml', 'bin', false, { localDependencies: [{ name: 'core', path: '../../lib/core' }] }),
+      finding('lib/core/Nargo.toml', 'lib', true, { localDependencies: [{ name: 'escrow', path: '../../apps/escrow' }] }),
+      finding('circuits/hash/Nargo.toml', 'lib', false),
+    ]);
+
+    expect(packages.map(pkg => [pkg.path, pkg.status, pkg.dependsOn, pkg.members])).toEqual([
+      ['Nargo.toml', 'aztec', [], ['apps/escrow/Nargo.toml', 'circuits/hash/Nargo.toml']],
+      ['apps/escrow/Nargo.toml', 'aztec', ['lib/core/Nargo.toml'], []],
+      ['lib/core/Nargo.toml', 'aztec', ['apps/escrow/Nargo.toml'], []],
+      ['circuits/hash/Nargo.toml', 'noir', [], []],
+    ]);
+  });
+
+  test("git dependencies on aztec-nr count whatever the dependency is called", () => {
+    expect(details(nargoClassifier, '[dependencies]\nprotocol = { git = "https://github.com/AztecProtocol/aztec-packages.git", tag = "v0.87.0" }\n'))
+      .toEqual(['aztec:dependency:protocol (git AztecProtocol/aztec-packages)']);
+    expect(resolveAztecGitDependency('git@github.com:aztecprotocol/aztec-nr')).toBe('aztecprotocol/aztec-nr');
+    expect(resolveAztecGitDependency('https://github.com/noir-lang/noir_json_parser')).toBeUndefined();
+  });
+
+  test("compiler versions and git tags are read as Noir and aztec-nr versions", () => {
+    const manifest = nargoClassifier.parse('[package]\nname = "token"\ntype = "contract"\ncompiler_version = ">=0.36.0"\n[dependencies]\naztec = { git = "https://github.com/AztecProtocol/aztec-packages/", tag = "aztec-packages-v0.87.0", directory = "noir-projects/aztec-nr/aztec" }\nuint_note = { git = "https://github.com/AztecProtocol/aztec-packages/", tag = "aztec-packages-v0.87.0", directory = "noir-projects/aztec-nr/uint-note" }\nbignum = { git = "https://github.com/noir-lang/noir-bignum", tag = "v0.7.3" }\nlocal = { path = "../local" }\n', 'Nargo.toml');
+    expect(nargoVersions(manifest)).toEqual([
+      { component: 'noir', version: '>=0.36.0', source: 'compiler' },
+      { component: 'aztec-nr', version: 'aztec-packages-v0.87.0', source: 'git-tag' },
+      { component: 'noir-lang/noir-bignum', version: 'v0.7.3', source: 'git-tag' },
+    ]);
+    expect(analyze(nargoClassifier, '[package]\nname = "circuit"\n').versions).toEqual([]);
+  });
+
+  test(".nr sources are scanned for Aztec.nr imports and macros", () => {
+    const source = 'use dep::aztec::macros::aztec;\n\n#[aztec(private)]\ncontract Token {\n    #[public]\n    fn mint() {}\n}\n';
+    expect(analyzeNoirSource(source).map(indicator => [indicator.detail, indicator.weight])).toEqual([
+      ['source:use dep::aztec', 0.95],
+      ['source:#[aztec]', 0.95],
+      ['source:#[public]', 0.7],
+    ]);
+    expect(analyzeNoirSource('use std::hash::poseidon;\nfn main(x: Field) { assert(x != 0); }\n')).toEqual([]);
+  });
+
+  test("package.json dependencies are matched by package name", () => {
+    const manifest = JSON.stringify({
+      name: 'dapp',
+      dependencies: { '@aztec/aztec.js': '0.87.0', react: '18.0.0' },
+      devDependencies: { '@noir-lang/noir_js': '1.0.0', hardhat: '2.22.0' },
+      peerDependencies: { '@aztec/accounts': '^0.87.0', '@aztec/aztec.js': '*' },
+      workspaces: { packages: ['packages/*'] },
+    });
+    expect(details(npmClassifier, manifest)).toEqual([
+      'aztec:dependency:@aztec/aztec.js@0.87.0',
+      'noir:dependency:@noir-lang/noir_js@1.0.0',
+      'ethereum:dependency:hardhat@2.22.0',
+      'aztec:dependency:@aztec/accounts@^0.87.0',
+    ]);
+    expect(analyze(npmClassifier, manifest).members).toEqual(['packages/*']);
+    expect(analyze(npmClassifier, manifest).versions).toEqual([
+      { component: '@aztec/aztec.js', version: '0.87.0', source: 'npm' },
+      { component: '@noir-lang/noir_js', version: '1.0.0', source: 'npm' },
+      { component: '@aztec/accounts', version: '^0.87.0', source: 'npm' },
+    ]);
+    expect(() => npmClassifier.parse('[]', 'package.json')).toThrow();
+    expect(npmClassifier.parse("packages:\n  - 'apps/*'\n  - packages/sdk # the SDK\n", 'pnpm-workspace.yaml'))
+      .toEqual({ workspaces: ['apps/*', 'packages/sdk'] });
+  });
+
+  test("Cargo.toml, Scarb.toml and foundry.toml", () => {
+    expect(details(cargoClassifier, '[package]\nname = "prover"\n[dependencies]\nacvm = "0.40"\nserde = "1"\n[workspace.dependencies]\nstarknet = "0.9"\n'))
+      .toEqual(['noir:dependency:acvm', 'starknet:dependency:starknet']);
+    expect(analyze(scarbClassifier, '[package]\nname = "token"\ncairo-version = "2.6.3"\n[dependencies]\nstarknet = ">=2.6.3"\n[[target.starknet-contract]]\n'))
+      .toMatchObject({ name: 'token', type: 'starknet-contract' });
+    expect(details(scarbClassifier, '[package]\nname = "lib"\n')).toEqual(['cairo:cairo package']);
+    expect(details(foundryClassifier, '[profile.default]\nsrc = "src"\nsolc_version = "0.8.24"\n'))
+      .toEqual(['ethereum:foundry project', 'ethereum:solc=0.8.24']);
+  });
+
+  test("hardhat configs are scanned, not evaluated", () => {
+    const source = 'import "@nomicfoundation/hardhat-toolbox";\nexport default { solidity: { version: "0.8.20" } };\n';
+    expect(details(hardhatClassifier, source)).toEqual([
+      'ethereum:hardhat project',
+      'ethereum:solc=0.8.20',
+      'ethereum:plugin:@nomicfoundation/hardhat-toolbox',
+    ]);
+    expect(hardhatClassifier.filePatterns.some(pattern => matchesFilePattern('hardhat.config.ts', pattern))).toBe(true);
+    expect(matchesFilePattern('packages/app/Nargo.toml', 'Nargo.toml')).toBe(true);
+    expect(matchesFilePattern('Nargo.toml.bak', 'Nargo.toml')).toBe(false);
+  });
+});
+
+const monorepo: MockRepository = {
+  full_name: 'grace/zk-monorepo',
+  files: {
+    'package.json': JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*', 'tools'] }),
+    'packages/circuits/package.json': JSON.stringify({ name: 'circuits', dependencies: { '@noir-lang/noir_js': '1.0.0-beta.3' } }),
+    'packages/circuits/src/main.nr': 'fn main() {}',
+    'packages/web/package.json': JSON.stringify({ name: 'web', peerDependencies: { '@aztec/aztec.js': '0.87.0' } }),
+    'tools/package.json': JSON.stringify({ name: 'tools' }),
+  },
+};
+
+// aztec-nr vendored under another name: no manifest gives it away
+const vendored: MockRepository = {
+  full_name: 'heidi/vendored-aztec',
+  files: {
+    'Nargo.toml': '[package]\nname = "escrow"\ntype = "bin"\n[dependencies]\nprotocol = { path = "lib/protocol" }\n',
+    'src/main.nr': 'use dep::protocol::macros::aztec;\n\n#[aztec]\npub contract Escrow {\n    #[private]\n    fn deposit() {}\n}\n',
+    'lib/protocol/src/lib.nr': 'pub mod macros;\n',
+  },
+};
+
+// Circuits nobody can read next to a readable root package.json
+const halfReadable: MockRepository = {
+  full_name: 'leo/half-readable',
+  files: {
+    'package.json': JSON.stringify({ name: 'web' }),
+    'circuits/Nargo.toml': '[package]\nname = "vote"\ntype = "contract"\n',
+  },
+};
+
+// The app lives in a subdirectory that no workspace declares
+const nestedApp: MockRepository = {
+  full_name: 'kate/voting-app',
+  files: {
+    'README.md': '# Voting app',
+    'app/package.json': JSON.stringify({ name: 'voting-app', dependencies: { '@aztec/aztec.js': '0.87.0' } }),
+  },
+};
+
+// A Nargo workspace whose contract reaches aztec-nr through a local package
+const nargoWorkspace: MockRepository = {
+  full_name: 'judy/noir-workspace',
+  files: {
+    'Nargo.toml': '[workspace]\nmembers = ["contracts/escrow", "circuits/hash"]\n',
+    'contracts/escrow/Nargo.toml': '[package]\nname = "escrow"\ntype = "bin"\n[dependencies]\nprotocol = { path = "../../lib/protocol" }\n',
+    'lib/protocol/Nargo.toml': '[package]\nname = "protocol"\ntype = "lib"\n[dependencies]\nnr = { git = "https://github.com/AztecProtocol/aztec-packages", directory = "noir-projects/aztec-nr/aztec" }\n',
+    'circuits/hash/Nargo.toml': '[package]\nname = "hash"\ntype = "lib"\n',
+  },
+};
+
+// Not in the code search index, with a tree too large to list in one request
+const unindexed: MockRepository = {
+  full_name: 'ivan/deep-workspace',
+  unindexed: true,
+  treeLimit: 10,
+  files: {
+    'package.json': JSON.stringify({ name: 'root', workspaces: ['web/packages/**'] }),
+    'circuits/apps/voting/contracts/ballot/Nargo.toml': '[package]\nname = "ballot"\ntype = "contract"\n',
+    'circuits/apps/voting/contracts/ballot/src/main.nr': 'fn main() {}',
+    'circuits/lib/hash/Nargo.toml': '[package]\nname = "hash"\ntype = "lib"\n',
+    'web/packages/ui/package.json': JSON.stringify({ name: 'ui' }),
+    'web/packages/sdk/core/package.json': JSON.stringify({ name: 'core', dependencies: { '@aztec/aztec.js': '0.87.0' } }),
+  },
+};
+
+// More Nargo packages than one page of code search results
+const manyPackages: MockRepository = {
+  full_name: 'mallory/many-circuits',
+  files: Object.fromEntries(Array.from({ length: 105 }, (_, i) => [
+    `circuits/c${i}/Nargo.toml`,
+    `[package]\nname = "c${i}"\ntype = "${i === 104 ? 'contract' : 'lib'}"\n`,
+  ])),
+};
+
+describe("classifyRepository", () => {
+  let server: MockGitHubServer;
+  let transport: GitHubTransport;
+
+  beforeAll(() => {
+    const fixtures = loadFixtures(resolve(import.meta.dir, 'fixtures/github-ecosystem.json'));
+    server = MockGitHubServer.start({ repositories: [...fixtures.repositories, monorepo, vendored, unindexed, nargoWorkspace, nestedApp, halfReadable, manyPackages] });
+    transport = new GitHubTransport({ baseUrl: server.url });
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("merges package.json indicators into the result", async () => {
+    const result = await classifyRepository('carol', 'aztec-dapp', { transport });
+
+    expect(result.isAztec).toBe(true);
+    expect(result.nargoFiles).toEqual([]);
+    expect(result.nargoType).toBe('unknown');
+    expect(result.signals.sort()).toEqual(['aztec', 'noir']);
+    expect(result.aztecIndicators).toEqual(['package.json: dependency:@aztec/aztec.js@0.87.0']);
+    expect(result.evidence).toEqual([{ type: 'dependency', path: 'package.json', weight: 0.9, excerpt: 'dependency:@aztec/aztec.js@0.87.0' }]);
+    expect(result.confidence).toBe(0.9);
+    expect(result.manifests.map(finding => [finding.classifier, finding.path])).toEqual([['npm', 'package.json']]);
+    expect(result.versions).toEqual([
+      { component: '@aztec/aztec.js', version: '0.87.0', source: 'npm', path: 'package.json' },
+      { component: '@noir-lang/noir_js', version: '1.0.0-beta.3', source: 'npm', path: 'package.json' },
+    ]);
+  });
+
+  test("follows npm workspaces into every member package.json", async () => {
+    const result = await classifyRepository('grace', 'zk-monorepo', { transport, classifiers: ['npm'] });
+
+    expect(result.manifests.map(finding => finding.path).sort()).toEqual([
+      'package.json',
+      'packages/circuits/package.json',
+      'packages/web/package.json',
+      'tools/package.json',
+    ]);
+    // Only a workspace member declares the Aztec package
+    expect(result.isAztec).toBe(true);
+    expect(result.aztecIndicators).toEqual(['packages/web/package.json: dependency:@aztec/aztec.js@0.87.0']);
+  });
+
+  test("finds package.json files below the root that no workspace declares", async () => {
+    const result = await classifyRepository('kate', 'voting-app', { transport, classifiers: ['npm'] });
+
+    expect(result.isAztec).toBe(true);
+    expect(result.manifests.map(finding => finding.path)).toEqual(['app/package.json']);
+    expect(result.aztecIndicators).toEqual(['app/package.json: dependency:@aztec/aztec.js@0.87.0']);
+    expect(result.confidence).toBe(0.9);
+  });
+
+  test("runs only the selected classifiers", async () => {
+    const result = await classifyRepository('frank', 'rust-only', { transport, classifiers: ['cargo'] });
+
+    expect(result.isAztec).toBe(false);
+    // Nothing points at Noir either
+    expect(result.confidence).toBe(0);
+    expect(result.manifests).toMatchObject([{ classifier: 'cargo', path: 'Cargo.toml', name: 'rust-only', indicators: [] }]);
+    // No Nargo.toml code search without the nargo classifier
+    expect(server.requestsTo('/search/code').filter(r => r.query.get('q')?.includes('rust-only'))).toHaveLength(0);
+  });
+
+  test("the aztec-nargo discovery classifier reads only Nargo.toml and package.json", async () => {
+    server.reset();
+    const definition = { id: 'nargo', type: 'aztec-nargo', projectType: 'noir', matchEcosystem: 'aztec', fallbackEcosystem: 'noir' };
+    const result = await getClassifier('aztec-nargo')('frank', 'rust-only', definition, { transport });
+
+    expect(result.ecosystem).toBe('noir');
+    expect(result.filesChecked).toBe(0);
+    expect(server.requestsTo('/repos/frank/rust-only/contents/Cargo.toml')).toHaveLength(0);
+  });
+
+  test("deep mode scans .nr sources found through the git tree", async () => {
+    const shallow = await classifyRepository('heidi', 'vendored-aztec', { transport, classifiers: ['cargo'] });
+    expect(shallow.isAztec).toBe(false);
+    expect(shallow.sourceFilesScanned).toBeUndefined();
+
+    const result = await classifyRepository('heidi', 'vendored-aztec', { transport, classifiers: ['cargo'], deep: true });
+    expect(result.isAztec).toBe(true);
+    expect(result.sourceFilesScanned).toBe(2);
+    expect(result.aztecIndicators).toEqual(['src/main.nr: source:#[aztec], source:#[private]']);
+    expect(result.indicators).toContainEqual({
+      classifier: 'noir-source', path: 'src/main.nr', kind: 'source', detail: 'source:#[aztec]', signal: 'aztec', weight: 0.95, excerpt: '#[aztec]',
+    });
+    // 1 - (1 - 0.95)(1 - 0.7)
+    expect(result.confidence).toBe(0.985);
+    expect(result.evidence).toContainEqual({ type: 'source', path: 'src/main.nr', weight: 0.7, excerpt: '#[private]' });
+    expect(server.requestsTo('/repos/heidi/vendored-aztec/git/trees/HEAD')).toHaveLength(1);
+  });
+
+  test("finds manifests search misses through the git tree, descending into truncated subtrees", async () => {
+    const result = await classifyRepository('ivan', 'deep-workspace', { transport, classifiers: ['nargo', 'npm'] });
+
+    expect(result.nargoFiles.sort()).toEqual(['circuits/apps/voting/contracts/ballot/Nargo.toml', 'circuits/lib/hash/Nargo.toml']);
+    expect(result.nargoType).toBe('contract');
+    expect(result.apiFailure).toBeUndefined();
+    // '**' workspace members are matched against the same tree, at any depth
+    expect(result.aztecIndicators).toContain('web/packages/sdk/core/package.json: dependency:@aztec/aztec.js@0.87.0');
+    // No contents request is wasted on guessed paths or directory listings
+    expect(server.requestsTo(/^\/repos\/ivan\/deep-workspace\/contents\/.+/).map(r => r.path).sort()).toEqual([
+      '/repos/ivan/deep-workspace/contents/circuits/apps/voting/contracts/ballot/Nargo.toml',
+      '/repos/ivan/deep-workspace/contents/circuits/lib/hash/Nargo.toml',
+      '/repos/ivan/deep-workspace/contents/package.json',
+      '/repos/ivan/deep-workspace/contents/web/packages/sdk/core/package.json',
+      '/repos/ivan/deep-workspace/contents/web/packages/ui/package.json',
+    ]);
+    // The recursive listing was truncated, so the root was listed alone and each subtree recursively
+    expect(server.requestsTo(/^\/repos\/ivan\/deep-workspace\/git\/trees\//).map(r => r.query.get('recursive'))).toEqual(['1', null, '1', '1']);
+  });
+
+  test("reads every page of code search results", async () => {
+    const result = await classifyRepository('mallory', 'many-circuits', { transport, classifiers: ['nargo'] });
+
+    expect(result.nargoFiles).toHaveLength(105);
+    // Only the last package, on the second page, is a contract
+    expect(result.nargoType).toBe('contract');
+    expect(server.requestsTo('/search/code')
+      .filter(r => r.query.get('q')?.includes('many-circuits'))
+      .map(r => [r.query.get('per_page'), r.query.get('page')])).toEqual([['100', '1'], ['100', '2']]);
+  });
+
+  test("a classifier that finds its manifests does not clear another one's fetch failure", async () => {
+    server.inject({ path: '/search/code', kind: 'server-error', status: 503, times: 20 });
+    server.inject({ path: '/repos/leo/half-readable/contents/circuits/Nargo.toml', kind: 'server-error', status: 500, times: 20 });
+    try {
+      const result = await classifyRepository('leo', 'half-readable', { transport, classifiers: ['nargo', 'npm'] });
+
+      expect(result.manifests.map(finding => finding.path)).toEqual(['package.json']);
+      expect(result.apiFailure).toMatchObject({ searchFailed: true, allFetchesFailed: true });
+    } finally {
+      server.reset();
+    }
+  });
+
+  test("builds the package graph of a Nargo workspace", async () => {
+    const result = await classifyRepository('judy', 'noir-workspace', { transport, classifiers: ['nargo'] });
+
+    expect(result.isAztec).toBe(true);
+    // The primary type comes from a package, never from the workspace root
+    expect(result.nargoType).not.toBe('workspace');
+    expect(result.packages.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { path: 'circuits/hash/Nargo.toml', name: 'hash', type: 'lib', status: 'noir', dependsOn: [], members: [] },
+      { path: 'contracts/escrow/Nargo.toml', name: 'escrow', type: 'bin', status: 'aztec', dependsOn: ['lib/protocol/Nargo.toml'], members: [] },
+      { path: 'lib/protocol/Nargo.toml', name: 'protocol', type: 'lib', status: 'aztec', dependsOn: [], members: [] },
+      { path: 'Nargo.toml', name: undefined, type: 'workspace', status: 'aztec', dependsOn: [], members: ['contracts/escrow/Nargo.toml', 'circuits/hash/Nargo.toml'] },
+    ]);
+  });
+});
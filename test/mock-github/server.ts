@@ -0,0 +1,646 @@
+/**
+ * Fixture-driven stand-in for the GitHub REST API, used by the offline tests.
+ *
+ * Implements the endpoints the pipeline touches (search, contents, git trees,
+ * commits, rate_limit, App installation token exchange) and can inject rate limits, abuse limits, 5xx errors and slow
+ * responses on matching paths.
+ */
+
+import { createHash, createVerify } from "crypto";
+import { readFileSync } from "fs";
+
+export interface MockCommit {
+  sha?: string;
+  login?: string | null;
+  type?: 'User' | 'Bot';
+  name: string;
+  email: string;
+  // Either an absolute ISO date or a number of days before "now"
+  date?: string;
+  daysAgo?: number;
+  // Committer date when it differs from the author date (rebased or cherry-picked commits)
+  committedDaysAgo?: number;
+  message?: string;
+}
+
+export interface MockRepository {
+  full_name: string;
+  description?: string | null;
+  stargazers_count?: number;
+  language?: string | null;
+  topics?: string[];
+  created_at?: string;
+  pushed_at?: string;
+  default_branch?: string;
+  empty?: boolean;
+  files?: Record<string, string>;
+  commits?: MockCommit[];
+  // Recursive tree listings longer than this come back truncated
+  treeLimit?: number;
+  // Left out of code search results, like repositories GitHub has not indexed
+  unindexed?: boolean;
+}
+
+export interface MockFixtures {
+  repositories: MockRepository[];
+}
+
+export type FaultKind = 'rate-limit' | 'secondary-rate-limit' | 'server-error' | 'slow';
+
+export interface Fault {
+  // Matched against the request path (without query string)
+  path: string | RegExp;
+  // Query parameters the request must carry as well
+  query?: Record<string, string>;
+  kind: FaultKind;
+  // How many matching requests are affected (default: 1)
+  times?: number;
+  // Status for server-error faults (default: 502)
+  status?: number;
+  // Delay for slow faults (default: 1000ms)
+  delayMs?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  status: number;
+  // Credential from the Authorization header, without its scheme
+  token?: string;
+}
+
+export interface MockAppOptions {
+  // When set, App JWTs must carry a valid RS256 signature for this key
+  publicKey?: string;
+  // Lifetime of issued installation tokens (default: 3600)
+  tokenTtlSeconds?: number;
+}
+
+type Resource = 'core' | 'search' | 'code_search';
+
+const RESOURCE_LIMITS: Record<Resource, number> = {
+  core: 5000,
+  search: 30,
+  code_search: 10,
+};
+
+// GitHub only exposes the first 1,000 results of any search
+const SEARCH_RESULT_CAP = 1000;
+
+export function loadFixtures(filePath: string): MockFixtures {
+  return JSON.parse(readFileSync(filePath, 'utf-8'));
+}
+
+export class MockGitHubServer {
+  readonly requests: RecordedRequest[] = [];
+  // Lower than GitHub's 1,000 so partitioned searches stay small in tests
+  searchResultCap = SEARCH_RESULT_CAP;
+  private faults: (Fault & { remaining: number })[] = [];
+  private used: Record<Resource, number> = { core: 0, search: 0, code_search: 0 };
+  private server: ReturnType<typeof Bun.serve> | null = null;
+  private app: MockAppOptions = {};
+  private issuedTokens = 0;
+
+  constructor(private fixtures: MockFixtures) {}
+
+  static start(fixtures: MockFixtures, port = 0): MockGitHubServer {
+    const mock = new MockGitHubServer(fixtures);
+    mock.server = Bun.serve({
+      port,
+      fetch: (req) => mock.handle(req),
+    });
+    return mock;
+  }
+
+  get url(): string {
+    if (!this.server) throw new Error("Mock server is not running");
+    return `http://localhost:${this.server.port}`;
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Inject a fault for the next matching request(s)
+   */
+  inject(fault: Fault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * Clear injected faults and the request log
+   */
+  reset(): void {
+    this.faults = [];
+    this.requests.length = 0;
+    this.used = { core: 0, search: 0, code_search: 0 };
+    this.searchResultCap = SEARCH_RESULT_CAP;
+  }
+
+  /**
+   * Configure how the App installation token endpoint behaves
+   */
+  configureApp(options: MockAppOptions): void {
+    this.app = options;
+  }
+
+  requestsTo(pattern: string | RegExp): RecordedRequest[] {
+    return this.requests.filter(r => matches(pattern, r.path));
+  }
+
+  private async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const path = decodeURIComponent(url.pathname);
+    const resource = resourceFor(path);
+    this.used[resource]++;
+
+    const record: RecordedRequest = {
+      method: req.method,
+      path,
+      query: url.searchParams,
+      status: 200,
+      token: req.headers.get('authorization')?.replace(/^(token|bearer) /i, ''),
+    };
+    this.requests.push(record);
+
+    const response = await this.route(req, url, path, resource);
+    record.status = response.status;
+    return response;
+  }
+
+  private async route(req: Request, url: URL, path: string, resource: Resource): Promise<Response> {
+    const fault = this.faults.find(f => f.remaining > 0 && matches(f.path, path)
+      && Object.entries(f.query ?? {}).every(([name, value]) => url.searchParams.get(name) === value));
+    if (fault) {
+      fault.remaining--;
+      switch (fault.kind) {
+        case 'rate-limit':
+          return this.json(403, {
+            message: "API rate limit exceeded for user ID 1.",
+            documentation_url: "https://docs.github.com/rest/overview/rate-limits-for-the-rest-api",
+          }, resource, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 1) });
+        case 'secondary-rate-limit':
+          return this.json(403, {
+            message: "You have exceeded a secondary rate limit. Please wait a few minutes before you try again.",
+          }, resource, { 'retry-after': '1' });
+        case 'server-error':
+          return this.json(fault.status ?? 502, { message: "Server Error" }, resource);
+        case 'slow':
+          await Bun.sleep(fault.delayMs ?? 1000);
+          break;
+      }
+    }
+
+    let match: RegExpMatchArray | null;
+
+    if (req.method === 'POST' && (match = path.match(/^\/app\/installations\/(\d+)\/access_tokens$/))) {
+      const result = this.installationToken(match[1], req.headers.get('authorization'));
+      return this.json(result.status, result.body, resource);
+    }
+
+    if (req.method !== 'GET') {
+      return this.json(404, { message: "Not Found" }, resource);
+    }
+
+    let result: { status: number; body: any };
+
+    if (path === '/rate_limit') {
+      result = { status: 200, body: this.rateLimitBody() };
+    } else if (path === '/search/repositories') {
+      result = this.searchRepositories(url.searchParams);
+    } else if (path === '/search/code') {
+      result = this.searchCode(url.searchParams);
+    } else if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/contents\/?(.*)$/))) {
+      result = this.contents(`${match[1]}/${match[2]}`, match[3]);
+    } else if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/git\/trees\/(.+)$/))) {
+      result = this.tree(`${match[1]}/${match[2]}`, match[3], url.searchParams.get('recursive') === '1');
+    } else if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/commits$/))) {
+      result = this.commits(`${match[1]}/${match[2]}`, url.searchParams);
+    } else if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)$/))) {
+      const repo = this.findRepo(`${match[1]}/${match[2]}`);
+      result = repo ? { status: 200, body: repositoryJson(repo) } : notFound();
+    } else {
+      result = notFound();
+    }
+
+    // Conditional requests: answer 304 when the ETag still matches
+    const etag = `"${createHash('sha1').update(JSON.stringify(result.body)).digest('hex')}"`;
+    if (result.status === 200 && req.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers: { etag, ...this.rateLimitHeaders(resource) } });
+    }
+
+    return this.json(result.status, result.body, resource, result.status === 200 ? { etag } : {});
+  }
+
+  private json(status: number, body: any, resource: Resource, extraHeaders: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        'content-type': 'application/json; charset=utf-8',
+        ...this.rateLimitHeaders(resource),
+        ...extraHeaders,
+      },
+    });
+  }
+
+  private rateLimitHeaders(resource: Resource): Record<string, string> {
+    const limit = RESOURCE_LIMITS[resource];
+    return {
+      'x-ratelimit-limit': String(limit),
+      'x-ratelimit-remaining': String(Math.max(limit - this.used[resource], 1)),
+      'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600),
+      'x-ratelimit-used': String(this.used[resource]),
+      'x-ratelimit-resource': resource,
+    };
+  }
+
+  private rateLimitBody() {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    const resources = Object.fromEntries(
+      (Object.keys(RESOURCE_LIMITS) as Resource[]).map(resource => [resource, {
+        limit: RESOURCE_LIMITS[resource],
+        remaining: Math.max(RESOURCE_LIMITS[resource] - this.used[resource], 0),
+        reset,
+        used: this.used[resource],
+      }])
+    );
+    return { resources, rate: resources.core };
+  }
+
+  private installationToken(installationId: string, authorization: string | null) {
+    const jwt = authorization?.replace(/^bearer /i, '') ?? '';
+    const [header, payload, signature] = jwt.split('.');
+    if (!header || !payload || !signature) {
+      return { status: 401, body: { message: "A JSON web token could not be decoded" } };
+    }
+    if (this.app.publicKey) {
+      const valid = createVerify('RSA-SHA256')
+        .update(`${header}.${payload}`)
+        .verify(this.app.publicKey, Buffer.from(signature, 'base64url'));
+      if (!valid) {
+        return { status: 401, body: { message: "'Issuer' claim ('iss') must be an Integer" } };
+      }
+    }
+
+    this.issuedTokens++;
+    const ttl = this.app.tokenTtlSeconds ?? 3600;
+    return {
+      status: 201,
+      body: {
+        token: `ghs_mock_${installationId}_${this.issuedTokens}`,
+        expires_at: new Date(Date.now() + ttl * 1000).toISOString(),
+        permissions: { contents: 'read', metadata: 'read' },
+        repository_selection: 'all',
+      },
+    };
+  }
+
+  private findRepo(fullName: string): MockRepository | undefined {
+    return this.fixtures.repositories.find(r => r.full_name.toLowerCase() === fullName.toLowerCase());
+  }
+
+  private searchRepositories(params: URLSearchParams) {
+    const terms = parseQuery(params.get('q') || '');
+    const items = this.fixtures.repositories
+      .filter(repo => terms.every(term => matchRepoTerm(term, repo)))
+      .sort((a, b) => (b.stargazers_count ?? 0) - (a.stargazers_count ?? 0))
+      .map(repositoryJson);
+    return paginate(items, params, this.searchResultCap);
+  }
+
+  private searchCode(params: URLSearchParams) {
+    const terms = parseQuery(params.get('q') || '');
+    const items: any[] = [];
+
+    for (const repo of this.fixtures.repositories.filter(repo => !repo.unindexed)) {
+      for (const [filePath, content] of Object.entries(repo.files ?? {})) {
+        if (terms.every(term => matchCodeTerm(term, repo, filePath, content))) {
+          items.push({
+            name: filePath.split('/').pop(),
+            path: filePath,
+            sha: sha(`${repo.full_name}:${filePath}`),
+            repository: repositoryJson(repo),
+          });
+        }
+      }
+    }
+
+    return paginate(items, params, this.searchResultCap);
+  }
+
+  private contents(fullName: string, filePath: string) {
+    const repo = this.findRepo(fullName);
+    if (!repo) return notFound();
+
+    const files = repo.files ?? {};
+    const cleanPath = filePath.replace(/\/$/, '');
+    if (cleanPath in files) {
+      return {
+        status: 200,
+        body: {
+          type: 'file',
+          name: cleanPath.split('/').pop(),
+          path: cleanPath,
+          sha: sha(files[cleanPath]),
+          encoding: 'base64',
+          content: Buffer.from(files[cleanPath]).toString('base64'),
+        },
+      };
+    }
+
+    // Directory listing
+    const prefix = cleanPath ? `${cleanPath}/` : '';
+    const children = new Map<string, 'file' | 'dir'>();
+    for (const file of Object.keys(files)) {
+      if (!file.startsWith(prefix)) continue;
+      const [head, ...rest] = file.slice(prefix.length).split('/');
+      children.set(head, rest.length > 0 ? 'dir' : 'file');
+    }
+    if (children.size === 0) return notFound();
+
+    return {
+      status: 200,
+      body: Array.from(children.entries()).map(([name, type]) => ({ name, type, path: `${prefix}${name}` })),
+    };
+  }
+
+  /**
+   * Tree of the default branch (any ref resolves to it) or of one of its
+   * subtrees (by the sha listed for it); non-recursive trees list one level only
+   */
+  private tree(fullName: string, ref: string, recursive: boolean) {
+    const repo = this.findRepo(fullName);
+    if (!repo) return notFound();
+    if (repo.empty) return { status: 409, body: { message: "Git Repository is empty." } };
+
+    const entries = new Map<string, { path: string; mode: string; type: 'blob' | 'tree'; sha: string; size?: number }>();
+    for (const [file, content] of Object.entries(repo.files ?? {})) {
+      const parts = file.split('/');
+      for (let depth = 1; depth < parts.length; depth++) {
+        const dir = parts.slice(0, depth).join('/');
+        entries.set(dir, { path: dir, mode: '040000', type: 'tree', sha: sha(`${fullName}:${dir}`) });
+      }
+      entries.set(file, { path: file, mode: '100644', type: 'blob', sha: sha(content), size: content.length });
+    }
+
+    const subtree = Array.from(entries.values()).find(entry => entry.type === 'tree' && entry.sha === ref);
+    const prefix = subtree ? `${subtree.path}/` : '';
+    const tree = Array.from(entries.values())
+      .filter(entry => entry.path.startsWith(prefix))
+      .map(entry => ({ ...entry, path: entry.path.slice(prefix.length) }))
+      .filter(entry => recursive || !entry.path.includes('/'))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const truncated = recursive && repo.treeLimit !== undefined && tree.length > repo.treeLimit;
+    return {
+      status: 200,
+      body: { sha: subtree?.sha ?? sha(`${fullName}@${ref}`), url: '', tree: truncated ? tree.slice(0, repo.treeLimit) : tree, truncated },
+    };
+  }
+
+  private commits(fullName: string, params: URLSearchParams) {
+    const repo = this.findRepo(fullName);
+    if (!repo) return notFound();
+    if (repo.empty) return { status: 409, body: { message: "Git Repository is empty." } };
+
+    const since = params.get('since');
+    const until = params.get('until');
+    const items = (repo.commits ?? [])
+      .map(commit => commitJson(repo, commit))
+      // GitHub filters and orders by committer date
+      .filter(c => (!since || c.commit.committer.date >= since) && (!until || c.commit.committer.date <= until))
+      .sort((a, b) => b.commit.committer.date.localeCompare(a.commit.committer.date));
+
+    const perPage = Number(params.get('per_page') || 30);
+    const page = Number(params.get('page') || 1);
+    return { status: 200, body: items.slice((page - 1) * perPage, page * perPage) };
+  }
+}
+
+function matches(pattern: string | RegExp, path: string): boolean {
+  return typeof pattern === 'string' ? path.startsWith(pattern) : pattern.test(path);
+}
+
+function resourceFor(path: string): Resource {
+  if (path === '/search/code') return 'code_search';
+  if (path.startsWith('/search/')) return 'search';
+  return 'core';
+}
+
+function notFound() {
+  return { status: 404, body: { message: "Not Found", documentation_url: "https://docs.github.com/rest" } };
+}
+
+function sha(input: string): string {
+  return createHash('sha1').update(input).digest('hex');
+}
+
+function paginate(items: any[], params: URLSearchParams, cap: number) {
+  const perPage = Number(params.get('per_page') || 30);
+  const page = Number(params.get('page') || 1);
+
+  if ((page - 1) * perPage >= cap && items.length > 0) {
+    return { status: 422, body: { message: `Only the first ${cap} search results are available` } };
+  }
+
+  const visible = items.slice(0, cap);
+  return {
+    status: 200,
+    body: {
+      total_count: items.length,
+      incomplete_results: false,
+      items: visible.slice((page - 1) * perPage, page * perPage),
+    },
+  };
+}
+
+function repositoryJson(repo: MockRepository) {
+  const [owner, name] = repo.full_name.split('/');
+  return {
+    id: parseInt(sha(repo.full_name).slice(0, 8), 16),
+    name,
+    full_name: repo.full_name,
+    owner: { login: owner, type: 'User' },
+    private: false,
+    html_url: `https://github.com/${repo.full_name}`,
+    description: repo.description ?? null,
+    fork: false,
+    homepage: null,
+    stargazers_count: repo.stargazers_count ?? 0,
+    forks_count: 0,
+    language: repo.language ?? null,
+    topics: repo.topics ?? [],
+    archived: false,
+    license: null,
+    default_branch: repo.default_branch ?? 'main',
+    size: Object.values(repo.files ?? {}).reduce((sum, content) => sum + content.length, 0),
+    created_at: repo.created_at ?? '2024-01-01T00:00:00Z',
+    updated_at: repo.pushed_at ?? repo.created_at ?? '2024-01-01T00:00:00Z',
+    pushed_at: repo.pushed_at ?? repo.created_at ?? '2024-01-01T00:00:00Z',
+  };
+}
+
+function commitJson(repo: MockRepository, commit: MockCommit) {
+  const date = commit.date ?? new Date(Date.now() - (commit.daysAgo ?? 0) * 24 * 60 * 60 * 1000).toISOString();
+  const committed = commit.committedDaysAgo === undefined
+    ? date
+    : new Date(Date.now() - commit.committedDaysAgo * 24 * 60 * 60 * 1000).toISOString();
+  const commitSha = commit.sha ?? sha(`${repo.full_name}:${commit.email}:${date}:${commit.message ?? ''}`);
+  return {
+    sha: commitSha,
+    author: commit.login ? { login: commit.login, type: commit.type ?? 'User' } : null,
+    committer: commit.login ? { login: commit.login, type: commit.type ?? 'User' } : null,
+    commit: {
+      author: { name: commit.name, email: commit.email, date },
+      committer: { name: commit.name, email: commit.email, date: committed },
+      message: commit.message ?? 'Update',
+    },
+    html_url: `https://github.com/${repo.full_name}/commit/${commitSha}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Search query matching
+// ---------------------------------------------------------------------------
+
+interface QueryTerm {
+  negated: boolean;
+  qualifier?: string;
+  value: string;
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  typescript: ['.ts', '.tsx'],
+  javascript: ['.js', '.jsx', '.mjs', '.cjs'],
+  noir: ['.nr'],
+  rust: ['.rs'],
+  toml: ['.toml'],
+  json: ['.json'],
+};
+
+/**
+ * Split a search query into qualifiers, quoted phrases and bare words
+ */
+export function parseQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  const pattern = /(-?)(?:(\w+):)?("(?:[^"\\]|\\.)*"|\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query))) {
+    const [, negation, qualifier, rawValue] = match;
+    if (!qualifier && (rawValue === 'OR' || rawValue === 'AND' || rawValue === 'NOT')) continue;
+    const value = rawValue.startsWith('"')
+      ? rawValue.slice(1, -1).replace(/\\"/g, '"')
+      : rawValue;
+    terms.push({ negated: negation === '-', qualifier: qualifier?.toLowerCase(), value });
+  }
+
+  return terms;
+}
+
+/**
+ * Match a GitHub range qualifier value (">10", "2024-01-01..2024-02-01", "<=5") against a value
+ */
+export function matchRange(range: string, actual: string | number): boolean {
+  const compare = (a: string | number, b: string): number =>
+    typeof a === 'number' ? a - Number(b) : a.slice(0, b.length).localeCompare(b);
+
+  if (range.includes('..')) {
+    const [from, to] = range.split('..');
+    return (from === '*' || compare(actual, from) >= 0) && (to === '*' || compare(actual, to) <= 0);
+  }
+  if (range.startsWith('>=')) return compare(actual, range.slice(2)) >= 0;
+  if (range.startsWith('<=')) return compare(actual, range.slice(2)) <= 0;
+  if (range.startsWith('>')) return compare(actual, range.slice(1)) > 0;
+  if (range.startsWith('<')) return compare(actual, range.slice(1)) < 0;
+  return compare(actual, range) === 0;
+}
+
+function matchRepoQualifier(term: QueryTerm, repo: MockRepository): boolean | undefined {
+  const owner = repo.full_name.split('/')[0].toLowerCase();
+  const json = repositoryJson(repo);
+
+  switch (term.qualifier) {
+    case 'org':
+    case 'user':
+      return owner === term.value.toLowerCase();
+    case 'repo':
+      return repo.full_name.toLowerCase() === term.value.toLowerCase();
+    case 'stars':
+      return matchRange(term.value, json.stargazers_count);
+    case 'created':
+      return matchRange(term.value, json.created_at);
+    case 'pushed':
+      return matchRange(term.value, json.pushed_at);
+    case 'topic':
+      return (repo.topics ?? []).includes(term.value.toLowerCase());
+    case 'in':
+    case 'fork':
+    case 'archived':
+    case 'is':
+      return true;
+    default:
+      return undefined;
+  }
+}
+
+function matchRepoTerm(term: QueryTerm, repo: MockRepository): boolean {
+  let result = matchRepoQualifier(term, repo);
+
+  if (result === undefined) {
+    switch (term.qualifier) {
+      case 'language':
+        result = (repo.language ?? '').toLowerCase() === term.value.toLowerCase();
+        break;
+      case 'size':
+        result = matchRange(term.value, repositoryJson(repo).size);
+        break;
+      default: {
+        const haystack = [repo.full_name, repo.description ?? '', ...(repo.topics ?? [])].join(' ').toLowerCase();
+        result = haystack.includes(term.value.toLowerCase());
+      }
+    }
+  }
+
+  return term.negated ? !result : result;
+}
+
+function matchCodeTerm(term: QueryTerm, repo: MockRepository, filePath: string, content: string): boolean {
+  let result = matchRepoQualifier(term, repo);
+  const fileName = filePath.split('/').pop()!.toLowerCase();
+
+  if (result === undefined) {
+    switch (term.qualifier) {
+      case 'filename':
+        result = fileName === term.value.toLowerCase();
+        break;
+      case 'extension':
+        result = fileName.endsWith(`.${term.value.toLowerCase()}`);
+        break;
+      case 'path':
+        result = filePath.toLowerCase().includes(term.value.toLowerCase());
+        break;
+      case 'language':
+        result = (LANGUAGE_EXTENSIONS[term.value.toLowerCase()] ?? []).some(ext => fileName.endsWith(ext));
+        break;
+      case 'size':
+        result = matchRange(term.value, content.length);
+        break;
+      default: {
+        const needle = (term.qualifier ? `${term.qualifier}:${term.value}` : term.value).toLowerCase();
+        result = content.toLowerCase().includes(needle) || filePath.toLowerCase().includes(needle);
+      }
+    }
+  }
+
+  return term.negated ? !result : result;
+}
+
+// Standalone mode for pointing scripts at the mock by hand
+if (import.meta.main) {
+  const fixtures = loadFixtures(process.argv[2] ?? `${import.meta.dir}/../fixtures/github-ecosystem.json`);
+  const mock = MockGitHubServer.start(fixtures, Number(process.env.MOCK_GITHUB_PORT) || 8787);
+  console.log(`Mock GitHub API listening on ${mock.url}`);
+}
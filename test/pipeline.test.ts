@@ -0,0 +1,349 @@
+/**
+ * End-to-end pipeline against the mock GitHub server:
+ * discovery → migration file → repository database → comparison report
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, setDefaultTimeout } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { MockGitHubServer, loadFixtures } from "./mock-github/server";
+import { config } from "../src/lib/config";
+import { GitHubSearchClient, GitHubTransport, configureHttpCache } from "../src/lib/github";
+import { classifyRepository } from "../src/lib/aztec-classifier";
+import { DiscoveryCheckpoint } from "../src/lib/checkpoint";
+import { ReviewDecisions } from "../src/lib/review";
+import { TokenRotator } from "../src/lib/token-rotator";
+import { RoundRobinStrategy } from "../src/lib/token-selection";
+import { SearchTimeoutError } from "../src/lib/errors";
+import {
+  loadProfile,
+  loadTrackedRepos,
+  buildOrgExclusions,
+  runDiscovery,
+  generateMigrationOutput,
+  queryText,
+  type DiscoveredRepo,
+  type DiscoveryProfile,
+} from "../src/lib/discovery";
+import {
+  parseStaticData,
+  parseMigrationFile,
+  buildRepositoryDatabase,
+} from "../scripts/create-repository-database";
+import { analyzeEcosystem, formatReport, pairwiseDifferences, rankEcosystems } from "../scripts/ecosystem-comparison-report";
+
+const projectRoot = resolve(import.meta.dir, '..');
+const trackedExport = resolve(projectRoot, 'static/Aztec-Protocol-export.jsonl');
+const aztecProfile = resolve(projectRoot, 'profiles/aztec.toml');
+
+// The transport paces /search requests at least 2s apart, so these tests run long
+setDefaultTimeout(60_000);
+
+let server: MockGitHubServer;
+let workDir: string;
+
+beforeAll(() => {
+  server = MockGitHubServer.start(loadFixtures(resolve(import.meta.dir, 'fixtures/github-ecosystem.json')));
+  config.github.apiBaseUrl = server.url;
+  workDir = mkdtempSync(join(tmpdir(), 'pipeline-'));
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+describe("offline pipeline", () => {
+  let profile: DiscoveryProfile;
+  let results: DiscoveredRepo[] = [];
+
+  test("discovery classifies Noir, Aztec and npm repositories", async () => {
+    // The Aztec profile, cut down to one query per kind of hit. The Noir npm
+    // query runs first, so carol/aztec-dapp (which declares both) is found by it
+    const fullProfile = loadProfile(aztecProfile);
+    const keep = ['filename:Nargo.toml', 'filename:package.json "@noir-lang/noir_js"', 'filename:package.json "@aztec/aztec.js"'];
+    profile = { ...fullProfile, queries: keep.map(q => fullProfile.queries.find(query => query.q === q)!) };
+
+    const tracked = await loadTrackedRepos(trackedExport, profile.exclusions);
+    const orgExclusions = buildOrgExclusions(tracked.majorOrgs, profile.exclusions.maxQueryLength);
+    const checkpoint = DiscoveryCheckpoint.create<DiscoveredRepo>('pipeline-test');
+
+    const run = await runDiscovery(profile, tracked, checkpoint);
+    results = run.repositories;
+    expect(run.skippedQueries).toEqual([]);
+
+    const byName = Object.fromEntries(results.map(r => [r.fullName, r]));
+    expect(Object.keys(byName).sort()).toEqual([
+      'alice/private-voting',
+      'bob/noir-circuits',
+      'carol/aztec-dapp',
+      'dave/noir-web',
+      'erin/zk-workspace',
+    ]);
+    expect(byName['alice/private-voting'].ecosystem).toBe('aztec');
+    expect(byName['alice/private-voting'].manifestType).toBe('contract');
+    expect(byName['erin/zk-workspace'].ecosystem).toBe('aztec');
+    expect(byName['bob/noir-circuits'].ecosystem).toBe('noir');
+    expect(byName['carol/aztec-dapp'].projectType).toBe('npm');
+    expect(byName['carol/aztec-dapp'].ecosystem).toBe('aztec');
+    expect(byName['carol/aztec-dapp'].query).toContain('@noir-lang/noir_js');
+    expect(byName['carol/aztec-dapp'].indicators).toEqual(['package.json: dependency:@aztec/aztec.js@0.87.0']);
+    expect(byName['dave/noir-web'].indicators).toEqual([
+      'package.json: dependency:@noir-lang/noir_js@1.0.0-beta.3, dependency:@noir-lang/backend_barretenberg@0.36.0',
+    ]);
+    expect(byName['dave/noir-web'].ecosystem).toBe('noir');
+    expect(byName['alice/private-voting'].confidence).toBeGreaterThan(0.99);
+    expect(byName['alice/private-voting'].evidence).toContainEqual({
+      type: 'dependency', path: 'Nargo.toml', weight: 0.95, excerpt: 'dependency:aztec (git AztecProtocol/aztec-packages)',
+    });
+
+    // Every query was recorded, so a resume would skip straight to the output
+    const resumed = DiscoveryCheckpoint.load<DiscoveredRepo>('pipeline-test');
+    expect(resumed.results).toHaveLength(5);
+    expect(resumed.isQueryCompleted(queryText(profile.queries[0], orgExclusions))).toBe(true);
+  });
+
+  test("review decisions override the classifiers of later runs", async () => {
+    const decisions = ReviewDecisions.load(join(workDir, 'decisions.json'));
+    decisions.record({ repo: 'bob/noir-circuits', action: 'reject', note: 'test fixture' });
+    decisions.record({ repo: 'erin/zk-workspace', action: 'relabel', ecosystem: 'noir', projectType: 'noir' });
+
+    const tracked = await loadTrackedRepos(trackedExport, profile.exclusions);
+    const checkpoint = DiscoveryCheckpoint.create<DiscoveredRepo>('pipeline-review-test');
+    const { repositories: reviewed } = await runDiscovery({ ...profile, queries: [profile.queries[0]] }, tracked, checkpoint, { decisions });
+
+    const byName = Object.fromEntries(reviewed.map(r => [r.fullName, r]));
+    expect(Object.keys(byName).sort()).toEqual(['alice/private-voting', 'erin/zk-workspace']);
+    expect(byName['erin/zk-workspace']).toMatchObject({ ecosystem: 'noir', review: { action: 'relabel' } });
+    expect(byName['alice/private-voting'].review).toBeUndefined();
+    // Rejected repositories are not classified at all
+    expect(server.requestsTo('/repos/bob/noir-circuits')).toHaveLength(0);
+  });
+
+  test("checkpoints write classifications at most once per save interval", () => {
+    const checkpoint = DiscoveryCheckpoint.create<string>('pipeline-throttle-test');
+    checkpoint.markRepoProcessed('alice/private-voting', 'aztec');
+    checkpoint.markRepoProcessed('bob/noir-circuits', 'noir');
+    expect(DiscoveryCheckpoint.load<string>('pipeline-throttle-test').processedRepoCount).toBe(0);
+
+    // Completed queries are written at once, with everything before them
+    checkpoint.markQueryCompleted('filename:Nargo.toml', 2);
+    expect(DiscoveryCheckpoint.load<string>('pipeline-throttle-test').results).toEqual(['aztec', 'noir']);
+  });
+
+  test("failed queries are skipped, reported and retried on resume", async () => {
+    const tracked = await loadTrackedRepos(trackedExport, profile.exclusions);
+    const single = { ...profile, queries: [profile.queries[0]] };
+    const text = queryText(single.queries[0], buildOrgExclusions(tracked.majorOrgs, profile.exclusions.maxQueryLength));
+
+    server.inject({ path: '/search/code', kind: 'server-error', status: 503, times: 50 });
+    const failed = await runDiscovery(single, tracked, DiscoveryCheckpoint.create<DiscoveredRepo>('pipeline-skip-test'));
+    expect(failed.repositories).toEqual([]);
+    expect(failed.skippedQueries.map(skipped => skipped.query)).toEqual([text]);
+    expect(DiscoveryCheckpoint.load<DiscoveredRepo>('pipeline-skip-test').isQueryCompleted(text)).toBe(false);
+
+    server.reset();
+    const resumed = await runDiscovery(single, tracked, DiscoveryCheckpoint.load<DiscoveredRepo>('pipeline-skip-test'));
+    expect(resumed.skippedQueries).toEqual([]);
+    expect(resumed.repositories.length).toBeGreaterThan(0);
+  });
+
+  test("migration output feeds the repository database", () => {
+    const migrationPath = join(workDir, 'migration.txt');
+    writeFileSync(migrationPath, generateMigrationOutput(results, profile));
+
+    const discovered = parseMigrationFile(migrationPath);
+    expect(discovered).toHaveLength(5);
+
+    const { database, newReposCount } = buildRepositoryDatabase(parseStaticData(trackedExport), discovered);
+    expect(newReposCount).toBe(5);
+    expect(database.byEcosystem['Noir Lang']).toBe(2);
+    expect(database.bySource.discovered).toBe(5);
+  });
+
+  test("comparison report runs over the discovered repositories", async () => {
+    const migrationPath = join(workDir, 'migration.txt');
+    const repositories = parseMigrationFile(migrationPath);
+
+    const [aztec, noir] = await Promise.all([
+      analyzeEcosystem('Aztec Protocol', 10, repositories),
+      analyzeEcosystem('Noir Lang', 10, repositories),
+    ]);
+
+    expect(aztec.activeRepositories).toBe(3);
+    // dependabot's commit is left out and reported
+    expect(aztec.totalCommits).toBe(4);
+    expect(aztec.bots).toEqual({ included: false, developers: 1, commits: 1 });
+    expect(noir.activeRepositories).toBe(2);
+    expect(noir.totalCommits).toBe(3);
+    // bob's commit from an unlinked laptop email is still bob's
+    expect(noir.uniqueDevelopers).toBe(2);
+    expect(noir.mergedIdentities).toBe(1);
+
+    const report = formatReport([aztec, noir], 10, []);
+    expect(report).toContain('ECOSYSTEM COMPARISON REPORT');
+    expect(report).toContain('alice');
+    expect(report).toContain('Bots excluded: 1 automation accounts with 1 commits');
+    expect(report).toContain('Noir Lang vs Aztec Protocol');
+
+    // Any number of ecosystems, ranked on each metric
+    const starknet = { ...noir, ecosystem: 'Starknet', uniqueDevelopers: 2, totalCommits: 9, activeRepositories: 0, totalRepositories: 4 };
+    expect(rankEcosystems([aztec, noir, starknet]).find(ranking => ranking.metric === 'uniqueDevelopers')!.ranking).toEqual([
+      { ecosystem: 'Aztec Protocol', value: 3, rank: 1 },
+      { ecosystem: 'Noir Lang', value: 2, rank: 2 },
+      { ecosystem: 'Starknet', value: 2, rank: 2 },
+    ]);
+    expect(pairwiseDifferences([aztec, noir, starknet]).map(pair => [pair.ecosystem, pair.other, pair.differences.totalCommits])).toEqual([
+      ['Noir Lang', 'Aztec Protocol', -1],
+      ['Starknet', 'Aztec Protocol', 5],
+      ['Starknet', 'Noir Lang', 6],
+    ]);
+    const three = formatReport([aztec, noir, starknet], 10, []);
+    expect(three).toContain('🔹 STARKNET - TOP CONTRIBUTORS');
+    expect(three).toContain('Starknet vs Noir Lang');
+
+    const withBots = await analyzeEcosystem('Aztec Protocol', 10, repositories, [], { includeBots: true });
+    expect(withBots.totalCommits).toBe(5);
+    expect(withBots.developers.find(dev => dev.username === 'dependabot[bot]')!.bot).toBe('bot-account');
+
+    // A month covers a full 28-day window, ending today; the two years synced before it date everyone's first commit
+    const month = await analyzeEcosystem('Noir Lang', 30, repositories);
+    expect(month.monthlyActiveDevelopers.at(-1)).toMatchObject({
+      activeDevelopers: 2,
+      cohorts: { fullTime: 0, partTime: 1, oneTime: 1 },
+      tenure: { newcomer: 2, emerging: 0, established: 0, unknown: 0 },
+    });
+    // Ten days report the same window, synced for the purpose
+    expect(noir.monthlyActiveDevelopers).toEqual(month.monthlyActiveDevelopers.slice(-1));
+  });
+});
+
+describe("fault injection", () => {
+  test("code search recovers from a primary rate limit", async () => {
+    server.inject({ path: '/search/code', kind: 'rate-limit' });
+    const client = new GitHubSearchClient();
+
+    const items = await client.searchCode('filename:Nargo.toml', { maxResults: 100 });
+
+    expect(items.length).toBeGreaterThan(0);
+    expect(server.requestsTo('/search/code').map(r => r.status)).toEqual([403, 200]);
+  });
+
+  test("repository search recovers from a secondary rate limit", async () => {
+    server.inject({ path: '/search/repositories', kind: 'secondary-rate-limit' });
+    const client = new GitHubSearchClient();
+
+    const repos = await client.searchRepositories('noir', { maxResults: 10 });
+
+    expect(repos.map(r => r.fullName)).toContain('bob/noir-circuits');
+    expect(server.requestsTo('/search/repositories').map(r => r.status)).toEqual([403, 200]);
+  });
+
+  test("search retries 5xx responses", async () => {
+    server.inject({ path: '/search/repositories', kind: 'server-error', status: 502 });
+    const client = new GitHubSearchClient();
+
+    const repos = await client.searchRepositories('aztec', { maxResults: 10 });
+
+    expect(repos.length).toBeGreaterThan(0);
+    expect(server.requestsTo('/search/repositories').map(r => r.status)).toEqual([502, 200]);
+  });
+
+  test("slow search responses hit the search timeout", async () => {
+    server.inject({ path: '/search/code', kind: 'slow', delayMs: 1500 });
+    const client = new GitHubSearchClient({ searchTimeoutMs: 300 });
+
+    await expect(client.searchCode('filename:Nargo.toml')).rejects.toBeInstanceOf(SearchTimeoutError);
+  });
+
+  test("classifier retries a failing contents request", async () => {
+    server.inject({ path: '/repos/bob/noir-circuits/contents/Nargo.toml', kind: 'server-error', status: 500 });
+
+    const result = await classifyRepository('bob', 'noir-circuits');
+
+    expect(result.filesChecked).toBe(1);
+    expect(result.apiFailure).toBeUndefined();
+  });
+
+  test("transport metrics count retries and final failures", async () => {
+    server.inject({ path: '/repos/bob/noir-circuits', kind: 'server-error', status: 502 });
+    server.inject({ path: '/repos/nobody/missing', kind: 'server-error', status: 500, times: 10 });
+    const transport = new GitHubTransport();
+
+    await transport.request('GET /repos/{owner}/{repo}', { owner: 'bob', repo: 'noir-circuits' });
+    await expect(transport.request('GET /repos/{owner}/{repo}', { owner: 'nobody', repo: 'missing' })).rejects.toThrow();
+
+    const metrics = transport.getMetrics();
+    expect(metrics.requests).toBe(2);
+    expect(metrics.attempts).toBe(6);
+    expect(metrics.retries).toBe(4);
+    expect(metrics.failures).toBe(1);
+    expect(metrics.byStatus).toEqual({ 200: 1, 500: 4, 502: 1 });
+    expect(metrics.byResource.core).toBe(6);
+  });
+
+  test("a rate-limited token is swapped for another one without waiting", async () => {
+    server.inject({ path: '/search/code', kind: 'rate-limit' });
+    const transport = new GitHubTransport({ tokenRotator: new TokenRotator(['token-a', 'token-b']) });
+
+    await transport.rest.search.code({ q: 'filename:Nargo.toml' });
+
+    expect(transport.getServedRequests().map(r => [r.token, r.status])).toEqual([['token 1', 403], ['token 2', 200]]);
+    expect(transport.getMetrics().tokenSwaps).toBe(1);
+    // The throttling plugin never saw the 403, so nothing slept until the reset
+    expect(transport.getMetrics().rateLimited).toBe(0);
+  });
+
+  test("classifier reports search failures instead of guessing", async () => {
+    server.inject({ path: '/search/code', kind: 'server-error', status: 503, times: 10 });
+
+    const result = await classifyRepository('bob', 'noir-circuits');
+
+    expect(result.apiFailure?.searchFailed).toBe(true);
+    expect(result.apiFailure?.allFetchesFailed).toBe(false);
+    expect(result.nargoFiles).toContain('Nargo.toml');
+    // One tree request instead of a contents request per guessed path
+    expect(server.requestsTo('/repos/bob/noir-circuits/git/trees/HEAD')).toHaveLength(1);
+    expect(server.requestsTo(/^\/repos\/bob\/noir-circuits\/contents\/.+/)).toHaveLength(1);
+  });
+});
+
+describe("response cache", () => {
+  test("repeat classification is served from the cache", async () => {
+    configureHttpCache({ enabled: true, dir: mkdtempSync(join(tmpdir(), 'http-cache-')) });
+    try {
+      await classifyRepository('alice', 'private-voting');
+      const firstRun = server.requests.length;
+
+      server.reset();
+      await classifyRepository('alice', 'private-voting');
+      expect(firstRun).toBeGreaterThan(0);
+      expect(server.requests).toHaveLength(0);
+
+      configureHttpCache({ refresh: true });
+      await classifyRepository('alice', 'private-voting');
+      expect(server.requests.every(r => r.status === 304)).toBe(true);
+    } finally {
+      configureHttpCache({ enabled: false, refresh: false });
+    }
+  });
+
+  test("rotated tokens do not share cached responses", async () => {
+    configureHttpCache({ enabled: true, dir: mkdtempSync(join(tmpdir(), 'http-cache-')) });
+    try {
+      const transport = new GitHubTransport({ tokenRotator: new TokenRotator(['token-a', 'token-b'], new RoundRobinStrategy()) });
+      for (let i = 0; i < 3; i++) {
+        await transport.request('GET /repos/{owner}/{repo}', { owner: 'alice', repo: 'private-voting' });
+      }
+
+      // Each token fetches once; the third request reuses token-a's entry
+      expect(server.requestsTo('/repos/alice/private-voting').map(r => r.token)).toEqual(['token-a', 'token-b']);
+    } finally {
+      configureHttpCache({ enabled: false, refresh: false });
+    }
+  });
+});
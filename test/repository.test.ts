@@ -0,0 +1,215 @@
+import { describe, test, expect } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { loadProfile, type DiscoveredRepo } from "../src/lib/discovery";
+import { RepositoryRecordError } from "../src/lib/errors";
+import {
+  REPOSITORY_SCHEMA_VERSION,
+  UNRECORDED_EXPORT,
+  createRepositoryRecord,
+  loadRepositoryDatabase,
+  migrateRepositoryData,
+  repositorySource,
+  toEcosystemRepository,
+  validateEcosystemRepository,
+  validateRepositoryDatabase,
+} from "../src/lib/repository";
+import { migrateFile } from "../scripts/migrate-outputs";
+import { exportEcosystem } from "../src/lib/ecosystems";
+import {
+  buildRepositoryDatabase,
+  expandInputs,
+  findLatestMigration,
+  readInput,
+} from "../scripts/create-repository-database";
+
+const profile = loadProfile(resolve(import.meta.dir, '..', 'profiles/aztec.toml'));
+
+const discovered: DiscoveredRepo = {
+  url: 'https://github.com/alice/private-voting',
+  fullName: 'alice/private-voting',
+  stars: 12,
+  description: 'Private voting on Aztec',
+  query: 'filename:Nargo.toml',
+  ecosystem: 'aztec',
+  projectType: 'noir',
+  manifestType: 'contract',
+  filesChecked: 1,
+  indicators: ['Nargo.toml: type=contract'],
+  confidence: 0.98,
+  evidence: [{ type: 'package-type', path: 'Nargo.toml', weight: 0.9, excerpt: 'type=contract' }],
+  versions: [{ component: 'aztec-nr', version: 'v0.87.0', source: 'git-tag', path: 'Nargo.toml' }],
+};
+
+function expectFieldError(run: () => unknown, field: string) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(RepositoryRecordError);
+    expect((error as RepositoryRecordError).field).toBe(field);
+    return;
+  }
+  throw new Error(`expected a RepositoryRecordError for ${field}`);
+}
+
+describe("repository records", () => {
+  test("discovered repositories become records named and tagged by the profile", () => {
+    const record = toEcosystemRepository(discovered, profile, '2025-10-30');
+
+    expect(record).toMatchObject({
+      schemaVersion: REPOSITORY_SCHEMA_VERSION,
+      url: 'https://github.com/alice/private-voting',
+      fullName: 'alice/private-voting',
+      ecosystem: 'Aztec Protocol',
+      tags: ['zkp', 'zk-circuit', 'noir', 'aztec'],
+      addedDate: '2025-10-30',
+      stars: 12,
+      discovery: { ecosystem: 'aztec', query: 'filename:Nargo.toml', profile: 'aztec', confidence: 0.98 },
+    });
+    expect(validateEcosystemRepository(JSON.parse(JSON.stringify(record)))).toEqual(record);
+    expect(repositorySource(record)).toBe('discovered');
+  });
+
+  test("URLs are normalized and anything else is rejected by field", () => {
+    expect(createRepositoryRecord({ url: 'https://github.com/Bob/Circuits.git/', ecosystem: 'Noir Lang', tags: [] }))
+      .toMatchObject({ url: 'https://github.com/Bob/Circuits', fullName: 'Bob/Circuits' });
+    expect(() => createRepositoryRecord({ url: 'https://gitlab.com/bob/circuits', ecosystem: 'Noir Lang', tags: [] }))
+      .toThrow(RepositoryRecordError);
+
+    const record = toEcosystemRepository(discovered, profile);
+    expectFieldError(() => validateEcosystemRepository({ ...record, schemaVersion: 2 }), 'repository.schemaVersion');
+    expectFieldError(() => validateEcosystemRepository({ ...record, fullName: 'alice/other' }), 'repository.fullName');
+    expectFieldError(() => validateEcosystemRepository({ ...record, tags: '#zkp' }), 'repository.tags');
+    expectFieldError(
+      () => validateEcosystemRepository({ ...record, discovery: { ...record.discovery, confidence: 1.5 } }),
+      'repository.discovery.confidence'
+    );
+    expectFieldError(
+      () => validateRepositoryDatabase({ schemaVersion: 1, generatedAt: 'now', totalRepositories: 2, byEcosystem: {}, bySource: {}, repositories: [record] }),
+      'database.totalRepositories'
+    );
+  });
+});
+
+describe("migrating old outputs", () => {
+  test("every earlier layout converts to current records", () => {
+    const result = migrateRepositoryData([
+      // find-noir-aztec-repos (v4 output)
+      { url: 'https://github.com/bob/noir-circuits', fullName: 'bob/noir-circuits', isAztec: false, projectType: 'noir', nargoType: 'bin', stars: 3, description: 'Circuits', nargoFilesChecked: 1, aztecIndicators: [] },
+      // find-noir-aztec-repos-v2 (v5 output)
+      { url: 'https://github.com/carol/aztec-dapp', name: 'aztec-dapp', owner: 'carol', stars: 8, description: null, classification: 'aztec' },
+      { url: 'https://github.com/dave/unknown', name: 'unknown', owner: 'dave', stars: 0, description: null, classification: 'unknown' },
+      // discover.ts output before records were versioned
+      discovered,
+      // already current
+      toEcosystemRepository(discovered, profile),
+    ], { profile });
+
+    expect(result.kind).toBe('records');
+    expect(result.migrated).toEqual({ 'find-noir-aztec-repos': 1, 'find-noir-aztec-repos-v2': 2, 'discovered-repos': 1 });
+    expect(result.skipped).toEqual([{ index: 2, reason: 'find-noir-aztec-repos-v2 record dave/unknown was never classified (unknown)' }]);
+    expect(result.records.map(record => [record.fullName, record.ecosystem, record.discovery?.manifestType])).toEqual([
+      ['bob/noir-circuits', 'Noir Lang', 'bin'],
+      ['carol/aztec-dapp', 'Aztec Protocol', undefined],
+      ['alice/private-voting', 'Aztec Protocol', 'contract'],
+      ['alice/private-voting', 'Aztec Protocol', 'contract'],
+    ]);
+    result.records.forEach(record => validateEcosystemRepository(record));
+
+    // Discovery records cannot be named without the profile
+    expectFieldError(() => migrateRepositoryData([discovered]), 'repositories[0]');
+  });
+
+  test("unversioned database sources become provenance", () => {
+    const unversioned = (fullName: string, source: string) => ({
+      url: `https://github.com/${fullName}`, ecosystem: 'Aztec Protocol', tags: [], source,
+    });
+    const result = migrateRepositoryData([
+      unversioned('AztecProtocol/aztec-packages', 'electric-capital'),
+      unversioned('alice/private-voting', 'discovered'),
+    ]);
+
+    expect(result.migrated).toEqual({ 'repository-database': 2 });
+    expect(result.records.map(record => ['source' in record, repositorySource(record), record.provenance])).toEqual([
+      [false, 'electric-capital', [{ kind: 'electric-capital-export', file: UNRECORDED_EXPORT }]],
+      [false, 'discovered', undefined],
+    ]);
+  });
+
+  test("old databases load and files are rewritten in place with a backup", () => {
+    const dir = mkdtempSync(join(tmpdir(), 'repository-'));
+    const databasePath = join(dir, 'repository-database.json');
+    const legacy = {
+      generatedAt: '2025-10-26T20:50:03.622Z',
+      totalRepositories: 2,
+      byEcosystem: { 'Aztec Protocol': 1, 'Noir Lang': 1 },
+      bySource: { electricCapital: 1, discovered: 1 },
+      repositories: [
+        { url: 'https://github.com/AztecProtocol/aztec-packages', ecosystem: 'Aztec Protocol', tags: ['aztec'], source: 'electric-capital' },
+        { url: 'https://github.com/bob/noir-circuits', ecosystem: 'Noir Lang', tags: ['noir'], source: 'discovered', addedDate: '2025-10-26' },
+      ],
+    };
+    writeFileSync(databasePath, JSON.stringify(legacy));
+
+    const database = loadRepositoryDatabase(databasePath);
+    expect(database).toMatchObject({ schemaVersion: REPOSITORY_SCHEMA_VERSION, generatedAt: legacy.generatedAt, totalRepositories: 2, bySource: { electricCapital: 1, discovered: 1 } });
+    expect(database.repositories[1].fullName).toBe('bob/noir-circuits');
+
+    const dryRun = migrateFile(databasePath, { dryRun: true });
+    expect(dryRun.changed).toBe(true);
+    expect(existsSync(`${databasePath}.bak`)).toBe(false);
+
+    migrateFile(databasePath);
+    expect(JSON.parse(readFileSync(`${databasePath}.bak`, 'utf-8'))).toEqual(legacy);
+    validateRepositoryDatabase(JSON.parse(readFileSync(databasePath, 'utf-8')));
+    expect(migrateFile(databasePath).changed).toBe(false);
+  });
+});
+
+describe("building the database from many inputs", () => {
+  test("exports, migrations and discovery results merge with their provenance", () => {
+    const dir = mkdtempSync(join(tmpdir(), 'inputs-'));
+    writeFileSync(join(dir, 'Noir-Lang-export.jsonl'), [
+      JSON.stringify({ url: 'https://github.com/noir-lang/noir', sub_ecosystems: [] }),
+      JSON.stringify({ url: 'https://github.com/bob/noir-circuits', sub_ecosystems: [] }),
+    ].join('\n'));
+    writeFileSync(join(dir, 'Aztec-Protocol-export.jsonl'), JSON.stringify({ url: 'https://github.com/AztecProtocol/aztec-packages', sub_ecosystems: [] }));
+    writeFileSync(join(dir, 'final-migration-consolidated-2025-10-20T10-00-00-000Z.txt'), 'repadd "Noir Lang" https://github.com/carol/old #noir\n');
+    writeFileSync(join(dir, 'final-migration-consolidated-2025-10-26T20-50-03-622Z.txt'), 'repadd "Noir Lang" https://github.com/Bob/noir-circuits #zkp #noir\n');
+    writeFileSync(join(dir, 'discovered-repos-aztec-2025-10-30.json'), JSON.stringify([toEcosystemRepository(discovered, profile, '2025-10-30')]));
+
+    expect(exportEcosystem('static/Noir-Lang-export.jsonl')).toBe('Noir Lang');
+    const latest = findLatestMigration(dir)!;
+    expect(latest).toEndWith('2025-10-26T20-50-03-622Z.txt');
+
+    const { files, unmatched } = expandInputs(['*-export.jsonl', 'discovered-repos-*.json', 'missing-*.txt'], dir);
+    expect(files.map(file => file.slice(dir.length + 1))).toEqual([
+      'Aztec-Protocol-export.jsonl', 'Noir-Lang-export.jsonl', 'discovered-repos-aztec-2025-10-30.json',
+    ]);
+    expect(unmatched).toEqual(['missing-*.txt']);
+
+    const { database, newReposCount } = buildRepositoryDatabase(...[...files, latest].map(file => readInput(file, profile)));
+    expect(newReposCount).toBe(1);
+    expect(database.byEcosystem).toEqual({ 'Aztec Protocol': 2, 'Noir Lang': 2 });
+
+    const byName = Object.fromEntries(database.repositories.map(repo => [repo.fullName, repo]));
+    expect(byName['AztecProtocol/aztec-packages']).toMatchObject({ ecosystem: 'Aztec Protocol', tags: ['aztec'] });
+    expect(repositorySource(byName['AztecProtocol/aztec-packages'])).toBe('electric-capital');
+    // Listed by an export and found again by discovery: still Electric Capital's, with both inputs
+    expect(repositorySource(byName['bob/noir-circuits'])).toBe('electric-capital');
+    expect(byName['bob/noir-circuits'].tags).toEqual(['noir', 'zkp']);
+    expect(byName['bob/noir-circuits'].provenance!.map(entry => [entry.kind, entry.file.split('/').pop()])).toEqual([
+      ['electric-capital-export', 'Noir-Lang-export.jsonl'],
+      ['migration', 'final-migration-consolidated-2025-10-26T20-50-03-622Z.txt'],
+    ]);
+    expect(byName['alice/private-voting'].provenance).toEqual([
+      { kind: 'discovery', file: expect.stringMatching(/discovered-repos-aztec-2025-10-30\.json$/), runId: 'aztec-2025-10-30' },
+    ]);
+    validateRepositoryDatabase(database);
+    expectFieldError(
+      () => validateEcosystemRepository({ ...byName['alice/private-voting'], provenance: [{ kind: 'manual', file: 'x' }] }),
+      'repository.provenance[0].kind'
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseProfile, type DiscoveredRepo } from "../src/lib/discovery";
+import { combineWeights } from "../src/lib/aztec-classifier";
+import {
+  ReviewDecisions,
+  applyReviewDecision,
+  buildReviewQueue,
+  reviewQueuePath,
+  saveReviewQueue,
+} from "../src/lib/review";
+import { ReviewError } from "../src/lib/errors";
+import { runReviewCommand, type ReviewOptions } from "../scripts/review";
+
+const profile = parseProfile({
+  name: 'aztec',
+  description: 'Aztec',
+  ecosystems: { aztec: { name: 'Aztec Protocol' }, noir: { name: 'Noir Lang' } },
+  queries: [{ q: 'filename:Nargo.toml', ecosystem: 'noir', project_type: 'noir' }],
+}, 'test.toml');
+
+function repo(fullName: string, confidence: number, extra: Partial<DiscoveredRepo> = {}): DiscoveredRepo {
+  return {
+    url: `https://github.com/${fullName}`,
+    fullName,
+    stars: 0,
+    description: '',
+    query: 'filename:Nargo.toml',
+    ecosystem: 'noir',
+    projectType: 'noir',
+    filesChecked: 1,
+    indicators: [],
+    confidence,
+    evidence: [],
+    ...extra,
+  };
+}
+
+describe("confidence", () => {
+  test("independent evidence combines as 1 - product of doubts", () => {
+    expect(combineWeights([])).toBe(0);
+    expect(combineWeights([0.9])).toBe(0.9);
+    expect(combineWeights([0.8, 0.5])).toBe(0.9);
+    expect(combineWeights([1, 0.2])).toBe(1);
+  });
+});
+
+describe("review queue", () => {
+  test("queues low confidence and API failures, not reviewed repositories", () => {
+    const queue = buildReviewQueue('aztec-run', profile, [
+      repo('a/sure', 0.95),
+      repo('b/unsure', 0.6),
+      repo('c/failed', 1, { apiFailure: { searchFailed: true, allFetchesFailed: false, reason: 'search failed' } }),
+      repo('d/reviewed', 0, { review: { action: 'accept', decidedAt: '2025-01-01T00:00:00.000Z' } }),
+    ], 0.8);
+
+    expect(queue.ecosystems).toEqual(['aztec', 'noir']);
+    expect(queue.entries.map(entry => [entry.repo, entry.reasons])).toEqual([
+      ['b/unsure', ['confidence 0.6 below 0.8']],
+      ['c/failed', ['API failure: search failed']],
+    ]);
+  });
+});
+
+describe("review decisions", () => {
+  let dir: string;
+  let options: (command: string, ...args: string[]) => ReviewOptions;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'review-'));
+    const queuePath = reviewQueuePath('aztec-run', dir);
+    saveReviewQueue(buildReviewQueue('aztec-run', profile, [repo('Bob/Unsure', 0.6), repo('carol/maybe', 0.3)], 0.8), queuePath);
+    options = (command, ...args) => ({ command, args, queue: queuePath, decisions: join(dir, 'review/decisions.json') });
+  });
+
+  test("persist across loads, keyed by lowercase repository", () => {
+    const decisions = ReviewDecisions.load(join(dir, 'decisions.json'));
+    expect(decisions.size).toBe(0);
+    decisions.record({ repo: 'Bob/Unsure', action: 'relabel', ecosystem: 'aztec', projectType: 'contract' });
+
+    const reloaded = ReviewDecisions.load(join(dir, 'decisions.json'));
+    expect(reloaded.get('bob/unsure')).toMatchObject({ repo: 'bob/unsure', action: 'relabel', ecosystem: 'aztec' });
+    expect(() => reloaded.record({ repo: 'bob/unsure', action: 'accept' })).toThrow(ReviewError);
+    expect(() => reloaded.record({ repo: 'not a repo', action: 'reject' })).toThrow(ReviewError);
+  });
+
+  test("override the automated classification", () => {
+    const decision = ReviewDecisions.load(join(dir, 'decisions.json'))
+      .record({ repo: 'bob/unsure', action: 'relabel', ecosystem: 'aztec', projectType: 'contract' });
+
+    expect(applyReviewDecision(repo('bob/unsure', 0.6), decision)).toMatchObject({
+      ecosystem: 'aztec',
+      projectType: 'contract',
+      confidence: 0.6,
+      review: { action: 'relabel', decidedAt: decision.decidedAt },
+    });
+  });
+
+  test("the review command accepts, rejects and relabels queued entries", () => {
+    expect(runReviewCommand(options('list'))[0]).toBe('Review queue of run aztec-run: 2 pending, 0 decided');
+
+    expect(runReviewCommand(options('accept', 'bob/unsure'))).toEqual(['Accepted bob/unsure as noir']);
+    expect(runReviewCommand(options('list'))).toEqual([
+      'Review queue of run aztec-run: 1 pending, 1 decided',
+      'carol/maybe  noir/noir  confidence 0.3  (confidence 0.3 below 0.8)',
+    ]);
+
+    expect(() => runReviewCommand(options('relabel', 'carol/maybe', 'starknet'))).toThrow('no ecosystem "starknet"');
+    expect(runReviewCommand(options('relabel', 'carol/maybe', 'aztec'))).toEqual(['Relabelled carol/maybe as aztec']);
+    expect(runReviewCommand(options('reject', 'bob/unsure'))).toEqual(['Rejected bob/unsure; discovery will skip it']);
+
+    const file = JSON.parse(readFileSync(join(dir, 'review/decisions.json'), 'utf-8'));
+    expect(file.decisions.map((decision: any) => [decision.repo, decision.action])).toEqual([
+      ['bob/unsure', 'reject'],
+      ['carol/maybe', 'relabel'],
+    ]);
+    expect(existsSync(join(dir, 'review/decisions.json.tmp'))).toBe(false);
+  });
+});
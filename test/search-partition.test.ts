@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, setDefaultTimeout } from "bun:test";
+import { MockGitHubServer, type MockRepository } from "./mock-github/server";
+import { GitHubSearchClient } from "../src/lib/github";
+import {
+  bisectRange,
+  extractQualifier,
+  formatRange,
+  parseRange,
+  sliceQuery,
+} from "../src/lib/github/search-partition";
+
+// Every slice is a /search request, and the transport paces those 2s apart
+setDefaultTimeout(60_000);
+
+const nargo = '[package]\nname = "circuit"\ntype = "bin"\n';
+
+function repo(fullName: string, createdAt: string, stars = 0): MockRepository {
+  return { full_name: fullName, created_at: `${createdAt}T12:00:00Z`, stargazers_count: stars, files: { 'Nargo.toml': nargo } };
+}
+
+const repositories: MockRepository[] = [
+  // Four in the first half of 2024, three in Jul-Sep, two in Oct-Dec
+  ...['2024-01-15', '2024-03-01', '2024-05-10', '2024-06-20', '2024-07-15', '2024-08-20', '2024-09-30', '2024-10-15', '2024-12-01']
+    .map((date, i) => repo(`spread/circuit-${i + 1}`, date)),
+  // Five created on the same day
+  ...[1, 2, 3, 10, 12].map((stars, i) => repo(`sameday/circuit-${i + 1}`, '2024-03-05', stars)),
+];
+
+let server: MockGitHubServer;
+let client: GitHubSearchClient;
+
+beforeAll(() => {
+  server = MockGitHubServer.start({ repositories });
+  client = new GitHubSearchClient({ baseUrl: server.url });
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  server.searchResultCap = 4;
+});
+
+describe("search partition ranges", () => {
+  test("date qualifiers round-trip through inclusive day ranges", () => {
+    const range = parseRange('created', '2024-01-01..2024-12-31');
+
+    expect(formatRange('created', range)).toBe('2024-01-01..2024-12-31');
+    expect(bisectRange(range)!.map(half => formatRange('created', half))).toEqual([
+      '2024-01-01..2024-07-01',
+      '2024-07-02..2024-12-31',
+    ]);
+    expect(formatRange('created', parseRange('created', '>2024-06-30'))).toMatch(/^2024-07-01\.\./);
+    expect(formatRange('created', parseRange('created', '<2021-01-01'))).toBe('2008-01-01..2020-12-31');
+  });
+
+  test("numeric qualifiers keep the top slice open-ended", () => {
+    const [low, high] = bisectRange(parseRange('stars', '>=10'))!;
+
+    expect(formatRange('stars', low)).toBe(`10..${low.to}`);
+    expect(formatRange('stars', high)).toBe(`${high.from}..*`);
+    expect(bisectRange({ from: 5, to: 5 })).toBeNull();
+  });
+
+  test("existing qualifiers are lifted out of the query", () => {
+    expect(extractQualifier('filename:Nargo.toml created:>2024-01-01 -org:foo', 'created'))
+      .toEqual({ query: 'filename:Nargo.toml -org:foo', value: '>2024-01-01' });
+    expect(extractQualifier('filename:Nargo.toml -created:2024-01-01', 'created').value).toBeUndefined();
+    expect(sliceQuery('filename:Nargo.toml', { stars: { from: 1, to: 5 } })).toBe('filename:Nargo.toml stars:1..5');
+  });
+});
+
+describe("exhaustive search", () => {
+  test("bisects by created date until every slice fits under the cap", async () => {
+    const { items, coverage } = await client.searchExhaustive(
+      'filename:Nargo.toml org:spread created:2024-01-01..2024-12-31',
+      { perPage: 4, resultCap: 4 }
+    );
+
+    expect(items.map(item => item.repository.full_name).sort()).toEqual(
+      repositories.filter(r => r.full_name.startsWith('spread/')).map(r => r.full_name).sort()
+    );
+    expect(coverage).toMatchObject({ totalCount: 9, fetched: 9, slices: 3, complete: true, truncatedSlices: [] });
+    expect(server.requestsTo('/search/code').map(r => r.query.get('q'))).toEqual([
+      'filename:Nargo.toml org:spread created:2024-01-01..2024-12-31',
+      'filename:Nargo.toml org:spread created:2024-01-01..2024-07-01',
+      'filename:Nargo.toml org:spread created:2024-07-02..2024-12-31',
+      'filename:Nargo.toml org:spread created:2024-07-02..2024-10-01',
+      'filename:Nargo.toml org:spread created:2024-10-02..2024-12-31',
+    ]);
+  });
+
+  test("reports slices that cannot be split any further", async () => {
+    const { items, coverage } = await client.searchExhaustive(
+      'filename:Nargo.toml org:sameday created:2024-03-05',
+      { perPage: 4, resultCap: 4 }
+    );
+
+    expect(items).toHaveLength(4);
+    expect(coverage.complete).toBe(false);
+    expect(coverage.truncatedSlices).toEqual([
+      { query: 'filename:Nargo.toml org:sameday created:2024-03-05', totalCount: 5, fetched: 4 },
+    ]);
+  });
+
+  test("repository search can partition on stars", async () => {
+    const { items, coverage } = await client.searchExhaustive(
+      'org:sameday stars:0..15',
+      { type: 'repositories', partitionBy: ['stars'], perPage: 4, resultCap: 4 }
+    );
+
+    expect(items.map(r => r.stars).sort((a, b) => a - b)).toEqual([1, 2, 3, 10, 12]);
+    expect(items[0].fullName).toStartWith('sameday/');
+    expect(coverage).toMatchObject({ totalCount: 5, fetched: 5, slices: 2, complete: true });
+  });
+});
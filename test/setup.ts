@@ -0,0 +1,26 @@
+/**
+ * Test environment: quiet logs, fast retries, no response cache, and a GitHub
+ * base URL that points nowhere so a test can never reach the real API by accident.
+ * Individual tests point config.github.apiBaseUrl at a MockGitHubServer.
+ */
+
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+Object.assign(process.env, {
+  NODE_ENV: 'production',
+  LOG_LEVEL: 'silent',
+  GITHUB_TOKEN: 'test-token',
+  USE_TOKEN_ROTATION: 'false',
+  GITHUB_API_URL: 'http://127.0.0.1:9',
+  HTTP_CACHE: 'false',
+  CHECKPOINT_DIR: mkdtempSync(join(tmpdir(), 'checkpoints-')),
+  REPOSITORY_STORE_PATH: join(mkdtempSync(join(tmpdir(), 'store-')), 'repositories.db'),
+  MAX_RETRIES: '3',
+  RATE_LIMIT_BASE_DELAY: '10',
+  STANDARD_RETRY_BASE_DELAY: '10',
+  MAX_RETRY_DELAY: '200',
+  REPO_PROCESSING_DELAY: '0',
+  SEARCH_QUERY_DELAY: '0',
+});
@@ -0,0 +1,284 @@
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { loadProfile, type DiscoveredRepo } from "../src/lib/discovery";
+import { StoreError } from "../src/lib/errors";
+import { GitHubTransport } from "../src/lib/github";
+import { createRepositoryRecord, repositorySource, toEcosystemRepository, validateRepositoryDatabase } from "../src/lib/repository";
+import { RepositoryStore, STORE_MIGRATIONS, collectCommits, syncCommits, toStoredCommit } from "../src/lib/store";
+import { MockGitHubServer, type MockCommit } from "./mock-github/server";
+
+const profile = loadProfile(resolve(import.meta.dir, '..', 'profiles/aztec.toml'));
+
+function discovered(fullName: string, ecosystem: string, confidence: number, extra: Partial<DiscoveredRepo> = {}): DiscoveredRepo {
+  return {
+    url: `https://github.com/${fullName}`,
+    fullName,
+    stars: 5,
+    description: `${fullName} description`,
+    query: 'filename:Nargo.toml',
+    ecosystem,
+    projectType: 'noir',
+    filesChecked: 1,
+    indicators: [],
+    confidence,
+    evidence: [{ type: 'dependency', path: 'Nargo.toml', weight: confidence, excerpt: 'dependency:aztec' }],
+    ...extra,
+  };
+}
+
+const tracked = createRepositoryRecord({
+  url: 'https://github.com/AztecProtocol/aztec-packages', ecosystem: 'Aztec Protocol', tags: ['aztec'],
+  provenance: [{ kind: 'electric-capital-export', file: 'static/Aztec-Protocol-export.jsonl' }],
+});
+
+describe("repository store", () => {
+  test("upserts keep one row per repository and accumulate tags and provenance", () => {
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([
+      tracked,
+      createRepositoryRecord({ url: 'https://github.com/bob/noir-circuits', ecosystem: 'Noir Lang', tags: ['noir'], addedDate: '2025-10-01' }),
+    ]);
+    // The same repositories again, in another case and with more to say
+    store.upsertRepositories([
+      { ...tracked, url: 'https://github.com/aztecprotocol/aztec-packages', fullName: 'aztecprotocol/aztec-packages', tags: ['zkp'], provenance: undefined },
+      createRepositoryRecord({
+        url: 'https://github.com/bob/noir-circuits', ecosystem: 'Noir Lang', tags: ['zkp'], addedDate: '2025-11-01', stars: 3,
+        provenance: [{ kind: 'discovery', file: 'output/discovered-repos-aztec-2.json', runId: 'aztec-2' }],
+      }),
+    ]);
+
+    const repositories = store.listRepositories();
+    expect(repositories.map(repo => [repo.fullName, repositorySource(repo), repo.tags, repo.addedDate, repo.stars])).toEqual([
+      ['aztecprotocol/aztec-packages', 'electric-capital', ['aztec', 'zkp'], undefined, undefined],
+      ['bob/noir-circuits', 'discovered', ['noir', 'zkp'], '2025-10-01', 3],
+    ]);
+    expect(store.summary()).toEqual({
+      totalRepositories: 2,
+      byEcosystem: { 'Aztec Protocol': 1, 'Noir Lang': 1 },
+      bySource: { electricCapital: 1, discovered: 1 },
+    });
+    expect(store.listRepositories({ ecosystem: 'noir lang', tag: '#zkp' }).map(repo => repo.fullName)).toEqual(['bob/noir-circuits']);
+    expect(store.listRepositories({ excludeOrgs: ['AZTECPROTOCOL'] })).toHaveLength(1);
+    expect(store.listRepositories({ source: 'electric-capital' }).map(repo => repo.fullName)).toEqual(['aztecprotocol/aztec-packages']);
+    expect(store.listRepositories({ source: 'discovered' }).map(repo => repo.fullName)).toEqual(['bob/noir-circuits']);
+    expect(store.getRepository('bob/noir-circuits')!.provenance).toEqual([{ kind: 'discovery', file: 'output/discovered-repos-aztec-2.json', runId: 'aztec-2' }]);
+    validateRepositoryDatabase(store.toDatabase());
+    store.close();
+  });
+
+  test("discovery runs add to each repository's classification history", () => {
+    const store = RepositoryStore.open(':memory:');
+    store.recordDiscoveryRun({ id: 'aztec-1', profile: 'aztec', startedAt: '2025-10-01T00:00:00.000Z' }, [
+      toEcosystemRepository(discovered('alice/private-voting', 'noir', 0.6), profile),
+    ]);
+    store.recordDiscoveryRun({ id: 'aztec-2', profile: 'aztec', startedAt: '2025-11-01T00:00:00.000Z' }, [
+      toEcosystemRepository(discovered('alice/private-voting', 'aztec', 0.98, {
+        versions: [{ component: 'aztec-nr', version: 'v0.87.0', source: 'git-tag', path: 'Nargo.toml' }],
+        review: { action: 'accept', decidedAt: '2025-11-02T00:00:00.000Z' },
+      }), profile),
+    ]);
+
+    expect(store.discoveryRuns().map(run => [run.id, run.repositories])).toEqual([['aztec-1', 1], ['aztec-2', 1]]);
+    expect(store.classificationHistory('Alice/Private-Voting').map(entry => [entry.runId, entry.ecosystem, entry.confidence]))
+      .toEqual([['aztec-1', 'noir', 0.6], ['aztec-2', 'aztec', 0.98]]);
+
+    const repo = store.getRepository('alice/private-voting')!;
+    expect(repo.ecosystem).toBe('Aztec Protocol');
+    expect(repo.discovery).toMatchObject({
+      ecosystem: 'aztec',
+      confidence: 0.98,
+      evidence: [{ type: 'dependency', path: 'Nargo.toml', weight: 0.98, excerpt: 'dependency:aztec' }],
+      versions: [{ component: 'aztec-nr', version: 'v0.87.0' }],
+      review: { action: 'accept', decidedAt: '2025-11-02T00:00:00.000Z' },
+      query: 'filename:Nargo.toml',
+      profile: 'aztec',
+    });
+
+    // Re-recording a run replaces its classification instead of adding one
+    store.recordDiscoveryRun({ id: 'aztec-2', profile: 'aztec', startedAt: '2025-11-01T00:00:00.000Z' }, [
+      toEcosystemRepository(discovered('alice/private-voting', 'aztec', 0.9), profile),
+    ]);
+    expect(store.classificationHistory('alice/private-voting').map(entry => entry.confidence)).toEqual([0.6, 0.9]);
+
+    // SQL over the history
+    const flips = store.db.query(`
+      SELECT COUNT(DISTINCT ecosystem_id) AS ecosystems FROM classifications GROUP BY repository_id
+    `).get() as { ecosystems: number };
+    expect(flips.ecosystems).toBe(2);
+    store.close();
+  });
+
+  test("commits are stored once and queried by ecosystem and date", () => {
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([tracked, createRepositoryRecord({ url: 'https://github.com/bob/noir-circuits', ecosystem: 'Noir Lang', tags: [] })]);
+
+    const apiCommit = (sha: string, date: string, login?: string) => ({
+      sha,
+      author: login ? { login } : null,
+      commit: { author: { name: 'Bob', email: 'bob@example.com', date }, message: `commit ${sha}` },
+    });
+    expect(store.recordCommits('bob/noir-circuits', [apiCommit('a1', '2025-10-01T10:00:00Z', 'bob'), apiCommit('a2', '2025-10-05T10:00:00Z')].map(toStoredCommit))).toBe(2);
+    expect(store.recordCommits('bob/noir-circuits', [apiCommit('a2', '2025-10-05T10:00:00Z')].map(toStoredCommit))).toBe(0);
+    store.recordCommits('AztecProtocol/aztec-packages', [apiCommit('b1', '2025-10-03T10:00:00Z', 'alice')].map(toStoredCommit));
+
+    expect(store.listCommits({ ecosystem: 'Noir Lang' }).map(commit => [commit.sha, commit.authorLogin])).toEqual([['a1', 'bob'], ['a2', undefined]]);
+    expect(store.listCommits({ since: '2025-10-02', until: '2025-10-04' }).map(commit => [commit.fullName, commit.sha]))
+      .toEqual([['AztecProtocol/aztec-packages', 'b1']]);
+    expect(store.listCommits({ excludeOrgs: ['aztecprotocol'] })).toHaveLength(2);
+    expect(() => store.recordCommits('nobody/nothing', [])).toThrow(StoreError);
+    store.close();
+  });
+
+  test("commit syncs fetch new commits and backfill older history on demand", async () => {
+    const commit = (sha: string, date: string): MockCommit => ({ sha, login: 'bob', name: 'Bob', email: 'bob@example.com', date });
+    const history = [commit('c0', '2025-09-20T10:00:00Z'), commit('c1', '2025-10-02T10:00:00Z'), commit('c2', '2025-10-05T10:00:00Z')];
+    const server = MockGitHubServer.start({
+      repositories: [{ full_name: 'bob/noir-circuits', commits: history }, { full_name: 'bob/empty', empty: true }],
+    });
+    const transport = new GitHubTransport({ baseUrl: server.url });
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories(['bob/noir-circuits', 'bob/empty', 'bob/deleted'].map(fullName =>
+      createRepositoryRecord({ url: `https://github.com/${fullName}`, ecosystem: 'Noir Lang', tags: [] })
+    ));
+
+    try {
+      // The first sync downloads the window
+      expect(await syncCommits(store, 'bob/noir-circuits', { since: '2025-10-01T00:00:00Z', until: '2025-10-10T00:00:00Z', transport }))
+        .toEqual({ fullName: 'bob/noir-circuits', fetched: 2, added: 2, backfilled: false });
+      expect(store.commitSyncState('bob/noir-circuits')).toMatchObject({
+        lastSha: 'c2', lastCommittedAt: '2025-10-05T10:00:00Z', syncedFrom: '2025-10-01T00:00:00Z', syncedUntil: '2025-10-10T00:00:00Z',
+      });
+
+      // Later ones ask again from the end of the last sync less the overlap, at most back to its start
+      history.push(commit('c3', '2025-10-12T10:00:00Z'));
+      server.reset();
+      expect(await syncCommits(store, 'bob/noir-circuits', { since: '2025-10-01T00:00:00Z', until: '2025-10-15T00:00:00Z', transport }))
+        .toMatchObject({ fetched: 3, added: 1, backfilled: false });
+      expect(server.requestsTo('/repos/bob/noir-circuits/commits').map(request => request.query.get('since'))).toEqual(['2025-10-01T00:00:00Z']);
+
+      // A longer window fetches only the older history it is missing
+      const { commits, results } = await collectCommits(store, [{ fullName: 'bob/noir-circuits' }, { fullName: 'bob/empty' }, { fullName: 'bob/deleted' }], {
+        since: '2025-09-01T00:00:00Z', until: '2025-10-15T00:00:00Z', transport,
+      });
+      expect(results.find(result => result.fullName === 'bob/noir-circuits')).toMatchObject({ fetched: 1, added: 1, backfilled: true });
+      expect(commits.map(stored => stored.sha)).toEqual(['c0', 'c1', 'c2', 'c3']);
+      expect(store.commitSyncState('bob/noir-circuits')).toMatchObject({ lastSha: 'c3', syncedFrom: '2025-09-01T00:00:00Z' });
+
+      // Empty repositories count as synced; missing ones are retried next time
+      expect(store.commitSyncState('bob/empty')).toMatchObject({ syncedFrom: '2025-09-01T00:00:00Z' });
+      expect(results.find(result => result.fullName === 'bob/deleted')!.error).toBe('repository not found');
+      expect(store.commitSyncState('bob/deleted')).toBeNull();
+
+      // Offline, the store answers alone and says what it has not synced
+      server.reset();
+      const offline = await collectCommits(store, [{ fullName: 'bob/noir-circuits' }, { fullName: 'bob/deleted' }], {
+        since: '2025-10-01T00:00:00Z', until: '2025-10-15T00:00:00Z', offline: true, transport,
+      });
+      expect(offline.commits.map(stored => stored.sha)).toEqual(['c1', 'c2', 'c3']);
+      expect(offline.results.map(result => result.fullName)).toEqual(['bob/deleted']);
+      expect(server.requests).toHaveLength(0);
+    } finally {
+      store.close();
+      server.stop();
+    }
+  });
+
+  test("commits that land after a sync with an earlier author date are synced next time", async () => {
+    const commit = (sha: string, date: string): MockCommit => ({ sha, login: 'carol', name: 'Carol', email: 'carol@example.com', date });
+    const history = [commit('c1', '2025-10-02T10:00:00Z'), commit('c2', '2025-10-09T10:00:00Z')];
+    const server = MockGitHubServer.start({ repositories: [{ full_name: 'carol/merged', commits: history }] });
+    const transport = new GitHubTransport({ baseUrl: server.url });
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([createRepositoryRecord({ url: 'https://github.com/carol/merged', ecosystem: 'Noir Lang', tags: [] })]);
+
+    try {
+      await syncCommits(store, 'carol/merged', { since: '2025-10-01T00:00:00Z', until: '2025-10-10T00:00:00Z', transport });
+
+      // A branch merged after the sync brings a commit authored before its end
+      history.push(commit('late', '2025-10-08T10:00:00Z'));
+      server.reset();
+      expect(await syncCommits(store, 'carol/merged', { since: '2025-10-01T00:00:00Z', until: '2025-10-15T00:00:00Z', overlapDays: 3, transport }))
+        .toMatchObject({ fetched: 2, added: 1 });
+      expect(server.requestsTo('/repos/carol/merged/commits').map(request => request.query.get('since'))).toEqual(['2025-10-07T00:00:00.000Z']);
+      expect(store.listCommits().map(stored => stored.sha)).toEqual(['c1', 'late', 'c2']);
+    } finally {
+      store.close();
+      server.stop();
+    }
+  });
+
+  test("a failing backfill keeps the new commits synced before it", async () => {
+    const commit = (sha: string, date: string): MockCommit => ({ sha, login: 'dave', name: 'Dave', email: 'dave@example.com', date });
+    const history = [commit('c0', '2025-09-20T10:00:00Z'), commit('c1', '2025-10-02T10:00:00Z')];
+    const server = MockGitHubServer.start({ repositories: [{ full_name: 'dave/circuits', commits: history }] });
+    const transport = new GitHubTransport({ baseUrl: server.url });
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([createRepositoryRecord({ url: 'https://github.com/dave/circuits', ecosystem: 'Noir Lang', tags: [] })]);
+
+    try {
+      await syncCommits(store, 'dave/circuits', { since: '2025-10-01T00:00:00Z', until: '2025-10-10T00:00:00Z', transport });
+
+      history.push(commit('c2', '2025-10-12T10:00:00Z'));
+      server.inject({ path: '/repos/dave/circuits/commits', query: { until: '2025-10-01T00:00:00Z' }, kind: 'server-error', status: 500, times: 20 });
+      const result = await syncCommits(store, 'dave/circuits', { since: '2025-09-01T00:00:00Z', until: '2025-10-15T00:00:00Z', transport });
+
+      expect(result).toMatchObject({ added: 1, backfilled: true });
+      expect(result.error).toBeDefined();
+      expect(store.listCommits().map(stored => stored.sha)).toEqual(['c1', 'c2']);
+      // The next sync only has the backfill left to do
+      expect(store.commitSyncState('dave/circuits')).toMatchObject({
+        lastSha: 'c2', syncedFrom: '2025-10-01T00:00:00Z', syncedUntil: '2025-10-15T00:00:00Z',
+      });
+    } finally {
+      store.close();
+      server.stop();
+    }
+  });
+
+  test("the sync range is one of committer dates, and rebased commits stay out of earlier windows", async () => {
+    const server = MockGitHubServer.start({
+      repositories: [{
+        full_name: 'erin/rebased',
+        commits: [
+          { sha: 'fresh', login: 'erin', name: 'Erin', email: 'erin@example.com', daysAgo: 5 },
+          // Authored long before the window, rebased into it
+          { sha: 'rebased', login: 'erin', name: 'Erin', email: 'erin@example.com', daysAgo: 60, committedDaysAgo: 3 },
+        ],
+      }],
+    });
+    const transport = new GitHubTransport({ baseUrl: server.url });
+    const store = RepositoryStore.open(':memory:');
+    store.upsertRepositories([createRepositoryRecord({ url: 'https://github.com/erin/rebased', ecosystem: 'Noir Lang', tags: [] })]);
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    try {
+      const { commits, results } = await collectCommits(store, [{ fullName: 'erin/rebased' }], { since: daysAgo(10), transport });
+
+      // Both were committed in the window and are stored...
+      expect(results[0]).toMatchObject({ fetched: 2, added: 2 });
+      // ...dated by author, so only one counts for it
+      expect(commits.map(stored => stored.sha)).toEqual(['fresh']);
+      expect(store.listCommits({ since: daysAgo(90) }).map(stored => stored.sha)).toEqual(['rebased', 'fresh']);
+    } finally {
+      store.close();
+      server.stop();
+    }
+  });
+
+  test("stores on disk are migrated on open and read-only opens never change them", () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'store-')), 'nested', 'repositories.db');
+    expect(() => RepositoryStore.open(filePath, { readonly: true })).toThrow(StoreError);
+
+    const store = RepositoryStore.open(filePath);
+    store.upsertRepository(tracked);
+    expect((store.db.query('PRAGMA user_version').get() as any).user_version).toBe(STORE_MIGRATIONS.length);
+    store.close();
+
+    const reader = RepositoryStore.open(filePath, { readonly: true });
+    expect(reader.listRepositories().map(repo => repo.fullName)).toEqual(['AztecProtocol/aztec-packages']);
+    expect(() => reader.upsertRepository(tracked)).toThrow();
+    reader.close();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, test, expect } from "bun:test";
+import { TokenRotator } from "../src/lib/token-rotator";
+import {
+  MostRemainingStrategy,
+  LeastRecentlyUsedStrategy,
+  RoundRobinStrategy,
+  createSelectionStrategy,
+  type TokenCandidate,
+} from "../src/lib/token-selection";
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+function headers(remaining: number, reset: number, resource?: string) {
+  return {
+    'x-ratelimit-limit': '5000',
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(reset),
+    ...(resource && { 'x-ratelimit-resource': resource }),
+  };
+}
+
+describe("TokenRotator budgets", () => {
+  test("picks the token with the most remaining budget for the resource", () => {
+    const rotator = new TokenRotator(['a', 'b', 'c']);
+    rotator.recordRateLimit('a', 'core', headers(100, inOneHour()));
+    rotator.recordRateLimit('b', 'core', headers(4000, inOneHour()));
+    rotator.recordRateLimit('c', 'core', headers(2500, inOneHour()));
+
+    expect(rotator.getTokenForResource('core')).toBe('b');
+  });
+
+  test("keeps core and code search budgets apart", () => {
+    const rotator = new TokenRotator(['a', 'b']);
+    rotator.recordRateLimit('a', 'core', headers(4900, inOneHour()));
+    rotator.recordRateLimit('b', 'core', headers(10, inOneHour()));
+    rotator.recordRateLimit('a', 'code_search', headers(0, inOneHour()));
+    rotator.recordRateLimit('b', 'code_search', headers(9, inOneHour()));
+
+    expect(rotator.getTokenForResource('core')).toBe('a');
+    expect(rotator.getTokenForResource('code_search')).toBe('b');
+  });
+
+  test("files headers under the bucket GitHub reports", () => {
+    const rotator = new TokenRotator(['a']);
+    rotator.recordRateLimit('a', 'search', headers(7, inOneHour(), 'code_search'));
+
+    expect(rotator.getBudget('a', 'code_search').remaining).toBe(7);
+    expect(rotator.getBudget('a', 'search').remaining).toBeUndefined();
+  });
+
+  test("tries tokens without known budgets before spent ones", () => {
+    const rotator = new TokenRotator(['a', 'b']);
+    rotator.recordRateLimit('a', 'search', headers(29, inOneHour()));
+
+    expect(rotator.getTokenForResource('search')).toBe('b');
+  });
+
+  test("an exhausted token only returns after its reset time", () => {
+    const rotator = new TokenRotator(['a', 'b']);
+    rotator.markTokenAsRateLimited('a', 'core', inOneHour());
+    rotator.recordRateLimit('b', 'core', headers(1, inOneHour()));
+    expect(rotator.getTokenForResource('core')).toBe('b');
+
+    rotator.markTokenAsRateLimited('a', 'core', Math.floor(Date.now() / 1000) - 1);
+    expect(rotator.getTokenForResource('core')).toBe('a');
+  });
+
+  test("falls back to the token that resets first when all are exhausted", () => {
+    const rotator = new TokenRotator(['a', 'b']);
+    rotator.markTokenAsRateLimited('a', 'search', inOneHour() + 60);
+    rotator.markTokenAsRateLimited('b', 'search', inOneHour());
+
+    expect(rotator.getTokenForResource('search')).toBe('b');
+  });
+});
+
+describe("token selection strategies", () => {
+  const candidate = (index: number, remaining: number, lastUsedMs: number): TokenCandidate => ({
+    index,
+    label: `token ${index + 1}`,
+    remaining,
+    lastUsed: new Date(lastUsedMs),
+    count: 0,
+  });
+
+  test("most-remaining prefers budget, then the least recently used", () => {
+    const strategy = new MostRemainingStrategy();
+
+    expect(strategy.select([candidate(0, 10, 0), candidate(1, 50, 5), candidate(2, 20, 0)]).index).toBe(1);
+    expect(strategy.select([candidate(0, 50, 9), candidate(1, 50, 5)]).index).toBe(1);
+    expect(strategy.select([candidate(0, 50, 0), candidate(1, Infinity, 5)]).index).toBe(1);
+  });
+
+  test("least-recently-used ignores budget", () => {
+    const strategy = new LeastRecentlyUsedStrategy();
+
+    expect(strategy.select([candidate(0, 4000, 9), candidate(1, 1, 2)]).index).toBe(1);
+  });
+
+  test("round-robin walks the pool and skips missing candidates", () => {
+    const strategy = new RoundRobinStrategy();
+    const all = [candidate(0, 1, 0), candidate(1, 1, 0), candidate(2, 1, 0)];
+
+    expect(strategy.select(all).index).toBe(0);
+    expect(strategy.select(all).index).toBe(1);
+    expect(strategy.select([all[0], all[2]]).index).toBe(2);
+    expect(strategy.select(all).index).toBe(0);
+  });
+
+  test("the rotator delegates to its strategy", () => {
+    const rotator = new TokenRotator(['a', 'b', 'c'], createSelectionStrategy('round-robin'));
+
+    expect([1, 2, 3, 4].map(() => rotator.getTokenForResource('core'))).toEqual(['a', 'b', 'c', 'a']);
+    expect(() => createSelectionStrategy('random')).toThrow('Unknown token selection strategy');
+  });
+
+  test("labels identify tokens without exposing them", () => {
+    const rotator = new TokenRotator([{ label: 'GITHUB_TOKEN', token: 'ghp_secret' }, 'ghp_other']);
+
+    expect(rotator.labelFor('ghp_secret')).toBe('GITHUB_TOKEN');
+    expect(rotator.labelFor('ghp_other')).toBe('token 2');
+    expect(JSON.stringify(rotator.getUsageStats())).not.toContain('ghp_');
+  });
+});
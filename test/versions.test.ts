@@ -0,0 +1,105 @@
+import { describe, test, expect } from "bun:test";
+import type { DeclaredVersion } from "../src/lib/manifests";
+import { createRepositoryRecord, type EcosystemRepository } from "../src/lib/repository";
+import { compareVersions, componentFamily, parseVersion, releaseLine } from "../src/lib/versions";
+import { buildVersionReport, formatVersionReport } from "../scripts/version-report";
+
+function repo(fullName: string, ecosystem: string, versions?: [string, string][]): EcosystemRepository {
+  return createRepositoryRecord({
+    url: `https://github.com/${fullName}`,
+    ecosystem,
+    tags: [],
+    discovery: {
+      ecosystem: ecosystem === 'Aztec Protocol' ? 'aztec' : 'noir',
+      projectType: 'noir',
+      filesChecked: 1,
+      indicators: [],
+      ...(versions && {
+        versions: versions.map(([component, version]): DeclaredVersion => ({
+          component,
+          version,
+          source: component === 'noir' ? 'compiler' : component.startsWith('@') ? 'npm' : 'git-tag',
+          path: 'Nargo.toml',
+        })),
+      }),
+    },
+  });
+}
+
+describe("versions", () => {
+  test("the first version in a tag or range is the one parsed", () => {
+    expect(parseVersion('>=0.36.0 <0.37')).toEqual({ major: 0, minor: 36, patch: 0 });
+    expect(parseVersion('aztec-packages-v0.87.0')).toEqual({ major: 0, minor: 87, patch: 0 });
+    expect(parseVersion('^1.0.0-beta.3')).toEqual({ major: 1, minor: 0, patch: 0, prerelease: 'beta.3' });
+    expect(parseVersion('~0.9')).toEqual({ major: 0, minor: 9, patch: 0 });
+    expect(parseVersion('latest')).toBeNull();
+    expect(parseVersion('workspace:*')).toBeNull();
+  });
+
+  test("only the compiler and @noir-lang packages version Noir", () => {
+    expect(componentFamily('noir')).toBe('noir');
+    expect(componentFamily('@noir-lang/noir_js')).toBe('noir');
+    expect(componentFamily('aztec-nr')).toBe('aztec');
+    expect(componentFamily('@aztec/aztec.js')).toBe('aztec');
+    expect(componentFamily('noir-lang/noir-bignum')).toBe('library');
+  });
+
+  test("pre-releases sort before their release, numerically", () => {
+    const sorted = ['1.0.0', '1.0.0-beta.11', '0.87.2', '1.0.0-beta.3', '1.0.0-alpha']
+      .map(spec => parseVersion(spec)!)
+      .sort(compareVersions);
+    expect(sorted.map(version => `${releaseLine(version)}.${version.patch}${version.prerelease ? `-${version.prerelease}` : ''}`))
+      .toEqual(['0.87.2', '1.0.0-alpha', '1.0.0-beta.3', '1.0.0-beta.11', '1.0.0']);
+  });
+});
+
+describe("version report", () => {
+  const repos = [
+    repo('alice/old-circuit', 'Noir Lang', [['noir', '>=0.30.0']]),
+    repo('bob/beta-circuit', 'Noir Lang', [['noir', '>=1.0.0-beta.3'], ['noir-lang/noir-bignum', 'v0.7.3']]),
+    repo('carol/stable-circuit', 'Noir Lang', [['noir', '1.0.0'], ['@noir-lang/noir_js', '^1.0.0']]),
+    repo('dave/no-versions', 'Noir Lang'),
+    // A library tag is not a compiler version
+    repo('grace/bignum-user', 'Noir Lang', [['noir-lang/noir-bignum', 'v0.7.3']]),
+    repo('erin/token', 'Aztec Protocol', [['aztec-nr', 'aztec-packages-v0.87.0'], ['@aztec/aztec.js', '0.87.4']]),
+    repo('frank/escrow', 'Aztec Protocol', [['aztec-nr', 'aztec-packages-v0.85.1'], ['noir', '>=0.36.0']]),
+    repo('AztecProtocol/aztec-starter', 'Aztec Protocol', [['aztec-nr', 'v0.88.0']]),
+  ];
+
+  test("counts repositories per version and Noir stage", () => {
+    const [aztec, noir] = buildVersionReport(repos);
+
+    expect(noir).toMatchObject({
+      ecosystem: 'Noir Lang',
+      repositories: 5,
+      withVersions: 4,
+      noir: { repositories: 3, pre1: 1, prerelease1: 1, stable: 1 },
+    });
+    expect(noir.components.find(component => component.component === 'noir')?.versions).toEqual([
+      { version: '1.0.0', repositories: 1 },
+      { version: '1.0.0-beta.3', repositories: 1 },
+      { version: '0.30.0', repositories: 1 },
+    ]);
+
+    expect(aztec.noir).toEqual({ repositories: 1, pre1: 1, prerelease1: 0, stable: 0 });
+    expect(aztec.aztec).toEqual({
+      repositories: 3,
+      latestLine: '0.88',
+      behind: 2,
+      lines: [{ line: '0.88', repositories: 1 }, { line: '0.87', repositories: 1 }, { line: '0.85', repositories: 1 }],
+    });
+  });
+
+  test("excluded organizations and a given latest release change the Aztec baseline", () => {
+    const [aztec] = buildVersionReport(repos, { excludeOrgs: ['aztecprotocol'] });
+    expect(aztec.repositories).toBe(2);
+    expect(aztec.aztec).toMatchObject({ latestLine: '0.87', behind: 1 });
+
+    const [pinned] = buildVersionReport(repos, { aztecLatest: '0.87.0' });
+    expect(pinned.aztec).toMatchObject({ latestLine: '0.87', behind: 1 });
+
+    const report = formatVersionReport(buildVersionReport(repos), ['AztecProtocol']);
+    expect(report).toContain('Aztec: 2 of 3 behind the 0.88 release line (67%)');
+    expect(report).toContain('Noir:  1 on pre-1.0 (33%), 1 on 1.0 betas (33%), 1 on 1.0+ (33%)');
+  });
+});